@@ -1,5 +1,5 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { Layout } from './components/Layout';
 import { Dashboard } from './components/Dashboard';
@@ -7,13 +7,44 @@ import { NewSearch } from './components/NewSearch';
 import { ProjectView } from './components/ProjectView';
 import { ContactLists } from './components/ContactLists';
 import { Controlling } from './components/Controlling';
+import { Tasks } from './components/Tasks';
+import { AppointmentsCalendar } from './components/AppointmentsCalendar';
+import { PipelineBoard } from './components/PipelineBoard';
 import { Scripts } from './components/Scripts';
-import { Project, SearchParams, Lead, ContactList, Script, PipelineStage, CallLog, PhoneNumber } from './types';
-import { searchBusinesses, enrichLeadData } from './services/geminiService';
-import { Play } from 'lucide-react';
+import { Project, SearchParams, Lead, ContactList, Script, PipelineStage, DealStage, CallLog, PhoneNumber, DataFetchError, AuthUser, Workspace, CallOutcome, Cadence, CrmConnection, SavedFilter, ScoringRule, Objection, ScriptExperiment } from './types';
+import { enrichLeadData, suggestLookalikeSearches } from './services/geminiService';
+import { createJobQueue, JobGroupStatus } from './services/jobQueue';
+import { isDataFetchError, isRetryableStatus, requestFailedError } from './services/responseSchemas';
+import { searchLeadSources, sourcesRequireApiKey, DEFAULT_LEAD_SOURCES } from './services/leadSources';
+import { geocodeLocation, applyRadiusFilter } from './services/geoService';
+import { loadPersistedState, schedulePersist, flushPendingWrites, PersistedKey, PersistedState } from './services/storageService';
+import { fetchSession, logout } from './services/authService';
+import { listWorkspaces, createWorkspace, addWorkspaceMember, removeWorkspaceMember, getLastWorkspaceId, setLastWorkspaceId, getCalendarFeedUrl } from './services/workspaceService';
+import { createWorkspaceSync, WorkspaceSync } from './services/workspaceSync';
+import { DEFAULT_CALL_OUTCOMES, resolveOutcome, withOutcomeIds } from './services/outcomes';
+import { createDialSession, DialSession, DialTarget, RECENT_ATTEMPT_HOURS, summarizeDialSession } from './services/dialSession';
+import { collectAppointments } from './services/appointments';
+import { getCrmConnection, pushLeadsToCrm } from './services/crmService';
+import { getCrmProvider } from './services/crmMapping';
+import { collectSearchEntries, LeadQueryContext, LeadSearchEntry } from './services/leadQuery';
+import { DEFAULT_SCORING_RULES, rescoreContainers } from './services/leadScoring';
+import { DEFAULT_OBJECTIONS } from './services/objections';
+import { saveScriptVersion } from './services/scriptVersions';
+import { activeExperiment } from './services/experiments';
+import { collectDeals, DealEntry, moveDeal } from './services/pipeline';
+import { buildLookalikeProfile, fallbackLookalikeQueries, rankBySimilarity, searchLookalikes } from './services/lookalike';
+import { addLeadsWithoutDuplicates, DuplicateGroup, findDuplicateGroups, findDuplicateOf, replaceMergedLeads } from './services/leadDedup';
+import { DEFAULT_CADENCES, FollowUpTask, LeadSource, applyCallToCadence, collectFollowUps, completeCadenceStep, isDue, stopCadence } from './services/cadences';
+import { Play, Loader2, Copy, AlertTriangle, RefreshCw } from 'lucide-react';
 import { CallWizard } from './components/CallWizard';
+import { DialSessionBar } from './components/DialSessionBar';
+import { DialSessionSummary } from './components/DialSessionSummary';
 import { SettingsModal } from './components/SettingsModal';
+import { DuplicateReview } from './components/DuplicateReview';
+import { CommandPalette } from './components/CommandPalette';
+import { LeadDetailPanel } from './components/LeadDetailPanel';
 import { AuthPage } from './components/AuthPage';
+import { Button } from './components/Button';
 
 // Context to know where the lead came from for updating purposes
 type CallContext = {
@@ -21,28 +52,80 @@ type CallContext = {
     parentId: string; // projectId or listId
 };
 
+// Enrichment queue tuning. Gemini's free tier allows only a handful of search-grounded requests per minute.
+const ENRICHMENT_CONCURRENCY = 3;
+const ENRICHMENT_MAX_ATTEMPTS = 4;
+const ENRICHMENT_BASE_DELAY_MS = 2000;
+const ENRICHMENT_MAX_DELAY_MS = 60000;
+
+type EnrichmentJob = { lead: Lead; context: CallContext };
+
+// What enrichment finds out. The job's lead is a snapshot from when it was queued, so only
+// these fields are taken over and calls or edits made while it waited are kept.
+type EnrichmentResult = Pick<Lead, 'ceo' | 'email' | 'emailStatus' | 'website' | 'companyDescription' | 'sourceUrl' | 'enrichmentError'>;
+
+const pickEnrichment = (lead: Partial<Lead>): EnrichmentResult => ({
+  ceo: lead.ceo,
+  email: lead.email,
+  emailStatus: lead.emailStatus,
+  website: lead.website,
+  companyDescription: lead.companyDescription,
+  sourceUrl: lead.sourceUrl,
+  enrichmentError: lead.enrichmentError,
+});
+
+// Lookalike searches stay close to the seed and keep only the best matches
+const LOOKALIKE_RADIUS_KM = 25;
+const LOOKALIKE_RESULT_LIMIT = 20;
+const LOOKALIKE_RESULTS_PER_QUERY = 8;
+
+const DEFAULT_PHONE_NUMBERS: PhoneNumber[] = [
+  // Default example number
+  { id: '1', number: '+49 30 123456', type: 'Virtual', countryCode: 'Germany (+49)', status: 'Verified' }
+];
+
+// Leads and projects that were mid-enrichment when the page was closed
+const clearInterruptedEnrichment = <T extends { leads: Lead[] }>(item: T): T => ({
+  ...item,
+  leads: item.leads.map(l => l.isEnriching ? { ...l, isEnriching: false } : l),
+});
+
 const App: React.FC = () => {
   // Authentication State
-  const [isAuthenticated, setIsAuthenticated] = useState(() => {
-    return localStorage.getItem('leadscout-auth') === 'true';
-  });
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
+  const [isAuthChecked, setIsAuthChecked] = useState(false); // Stored session validated against the server
 
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'search' | 'projects' | 'contacts' | 'controlling' | 'scripts'>('dashboard');
+  // Workspace State
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const workspaceSyncRef = useRef<WorkspaceSync | null>(null);
+  const [crmConnection, setCrmConnection] = useState<CrmConnection | null>(null);
+
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'search' | 'projects' | 'tasks' | 'calendar' | 'contacts' | 'pipeline' | 'controlling' | 'scripts'>('dashboard');
   const [projects, setProjects] = useState<Project[]>([]);
   const [contactLists, setContactLists] = useState<ContactList[]>([]);
   const [scripts, setScripts] = useState<Script[]>([]);
-  const [currentProject, setCurrentProject] = useState<Project | null>(null);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [isDemoMode, setIsDemoMode] = useState(false);
   const [isDevMode, setIsDevMode] = useState(false); // Developer Mode State
+  const [isHydrated, setIsHydrated] = useState(false); // Workspace data loaded from the server (or the offline cache)
+  const [hydrationError, setHydrationError] = useState<string | null>(null);
+  const [hydrationAttempt, setHydrationAttempt] = useState(0); // Bumped to retry a failed load
   
   // Settings & Phone State
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [phoneNumbers, setPhoneNumbers] = useState<PhoneNumber[]>([
-     // Default example number
-     { id: '1', number: '+49 30 123456', type: 'Virtual', countryCode: 'Germany (+49)', status: 'Verified' }
-  ]);
+  const [isReviewingDuplicates, setIsReviewingDuplicates] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [openedSearchEntry, setOpenedSearchEntry] = useState<LeadSearchEntry | null>(null); // Search result shown in the detail panel
+  const [phoneNumbers, setPhoneNumbers] = useState<PhoneNumber[]>(DEFAULT_PHONE_NUMBERS);
+  const [outcomes, setOutcomes] = useState<CallOutcome[]>(DEFAULT_CALL_OUTCOMES);
+  const [cadences, setCadences] = useState<Cadence[]>(DEFAULT_CADENCES);
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
+  const [scoringRules, setScoringRules] = useState<ScoringRule[]>(DEFAULT_SCORING_RULES);
+  const [objections, setObjections] = useState<Objection[]>(DEFAULT_OBJECTIONS);
+  const [experiments, setExperiments] = useState<ScriptExperiment[]>([]);
   
   // Dark Mode State with persistence
   const [isDarkMode, setIsDarkMode] = useState(() => {
@@ -58,6 +141,7 @@ const App: React.FC = () => {
   // GLOBAL CALL STATE
   const [activeCallLead, setActiveCallLead] = useState<Lead | null>(null);
   const [activeCallContext, setActiveCallContext] = useState<CallContext | null>(null);
+  const [dialSession, setDialSession] = useState<DialSession | null>(null); // Power-dialer run, kept until its summary is closed
 
   // Load API Key check
   const hasApiKey = !!process.env.API_KEY;
@@ -73,45 +157,347 @@ const App: React.FC = () => {
     }
   }, [isDarkMode]);
 
-  const handleLogin = () => {
-    setIsAuthenticated(true);
-    localStorage.setItem('leadscout-auth', 'true');
+  // Ctrl+K / Cmd+K opens the global search from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Restore the session from a previous visit
+  useEffect(() => {
+    localStorage.removeItem('leadscout-auth'); // Flag used by the old client-side login
+    fetchSession()
+      .then(setCurrentUser)
+      .finally(() => setIsAuthChecked(true));
+  }, []);
+
+  // Pick the workspace to open once signed in
+  useEffect(() => {
+    if (!currentUser) return;
+    listWorkspaces()
+      .then(available => {
+        setWorkspaces(available);
+        const lastId = getLastWorkspaceId(currentUser.id);
+        const workspace = available.find(w => w.id === lastId) || available[0];
+        setActiveWorkspaceId(workspace ? workspace.id : null);
+      })
+      .catch(error => {
+        // Offline: keep working on the locally cached copy of the last workspace
+        console.error("Failed to load workspaces", error);
+        setActiveWorkspaceId(getLastWorkspaceId(currentUser.id) || currentUser.id);
+      });
+  }, [currentUser?.id]);
+
+  // Server data is not versioned like the IndexedDB cache, so old call logs are upgraded here too
+  const applyStoredState = (stored: Partial<PersistedState>) => {
+    if (stored.projects) {
+      setProjects(stored.projects.map(p => ({
+        ...withOutcomeIds(clearInterruptedEnrichment(p)),
+        status: p.status === 'Enriching' || p.status === 'Fetching' ? 'Completed' : p.status,
+      })));
+    }
+    if (stored.contactLists) setContactLists(stored.contactLists.map(list => withOutcomeIds(clearInterruptedEnrichment(list))));
+    if (stored.scripts) setScripts(stored.scripts);
+    if (stored.phoneNumbers) setPhoneNumbers(stored.phoneNumbers);
+    if (stored.outcomes) setOutcomes(stored.outcomes);
+    if (stored.cadences) setCadences(stored.cadences);
+    if (stored.savedFilters) setSavedFilters(stored.savedFilters);
+    if (stored.scoringRules) setScoringRules(stored.scoringRules);
+    if (stored.objections) setObjections(stored.objections);
+    if (stored.experiments) setExperiments(stored.experiments);
+  };
+
+  // Changes made by teammates, or the result of merging a conflicting save
+  const applyRemoteCollection = <K extends PersistedKey>(key: K, value: PersistedState[K]) => {
+    if (key === 'projects') setProjects(value as Project[]);
+    else if (key === 'contactLists') setContactLists(value as ContactList[]);
+    else if (key === 'scripts') setScripts(value as Script[]);
+    else if (key === 'phoneNumbers') setPhoneNumbers(value as PhoneNumber[]);
+    else if (key === 'outcomes') setOutcomes(value as CallOutcome[]);
+    else if (key === 'cadences') setCadences(value as Cadence[]);
+    else if (key === 'savedFilters') setSavedFilters(value as SavedFilter[]);
+    else if (key === 'scoringRules') setScoringRules(value as ScoringRule[]);
+    else if (key === 'objections') setObjections(value as Objection[]);
+    else if (key === 'experiments') setExperiments(value as ScriptExperiment[]);
+  };
+
+  // Hydrate the active workspace and keep it in sync with the team
+  useEffect(() => {
+    if (!currentUser || !activeWorkspaceId) return;
+    setLastWorkspaceId(currentUser.id, activeWorkspaceId);
+
+    const sync = createWorkspaceSync(activeWorkspaceId, applyRemoteCollection);
+    workspaceSyncRef.current = sync;
+    let isCancelled = false;
+
+    // A workspace nobody has saved to yet starts from the local cache. A personal workspace
+    // also picks up data saved per account before workspaces existed.
+    const seedEmptyWorkspace = async () => {
+      const cached = await loadPersistedState(activeWorkspaceId);
+      if (cached) return cached;
+      const workspace = workspaces.find(w => w.id === activeWorkspaceId);
+      const isPersonal = workspace && workspace.members.length === 1 && workspace.members[0].userId === currentUser.id;
+      return isPersonal ? loadPersistedState(currentUser.id) : null;
+    };
+
+    sync.load()
+      .then(remote => remote || seedEmptyWorkspace())
+      .catch(error => {
+        console.error("Failed to load workspace data, using the offline copy", error);
+        return loadPersistedState(activeWorkspaceId);
+      })
+      .then(stored => {
+        if (isCancelled) return;
+        if (stored) applyStoredState(stored);
+        setHydrationError(null);
+        setIsHydrated(true);
+      })
+      .catch(error => {
+        // Saving stays off, so the empty state can't replace the data we failed to read
+        console.error("Failed to load persisted data", error);
+        if (!isCancelled) setHydrationError(error instanceof Error ? error.message : String(error));
+      });
+
+    return () => {
+      isCancelled = true;
+      if (workspaceSyncRef.current === sync) workspaceSyncRef.current = null;
+      sync.flush().finally(sync.stop);
+    };
+  }, [currentUser?.id, activeWorkspaceId, hydrationAttempt]);
+
+  // The CRM connection lives on the server only; without it the push buttons stay hidden
+  useEffect(() => {
+    setCrmConnection(null);
+    if (!currentUser || !activeWorkspaceId) return;
+    let isCancelled = false;
+    getCrmConnection(activeWorkspaceId)
+      .then(connection => { if (!isCancelled) setCrmConnection(connection); })
+      .catch(error => console.warn("Could not load the CRM connection", error));
+    return () => { isCancelled = true; };
+  }, [currentUser?.id, activeWorkspaceId]);
+
+  // Write changes back: IndexedDB as the offline cache, the server for the team.
+  // Skipped until hydration so the empty initial state never overwrites stored data.
+  const storageScope = isHydrated && currentUser ? activeWorkspaceId : null;
+  const persist = <K extends PersistedKey>(key: K, value: PersistedState[K]) => {
+    if (!storageScope) return;
+    schedulePersist(storageScope, key, value);
+    workspaceSyncRef.current?.push(key, value);
+  };
+  useEffect(() => persist('projects', projects), [projects, storageScope]);
+  useEffect(() => persist('contactLists', contactLists), [contactLists, storageScope]);
+  useEffect(() => persist('scripts', scripts), [scripts, storageScope]);
+  useEffect(() => persist('phoneNumbers', phoneNumbers), [phoneNumbers, storageScope]);
+  useEffect(() => persist('outcomes', outcomes), [outcomes, storageScope]);
+  useEffect(() => persist('cadences', cadences), [cadences, storageScope]);
+  useEffect(() => persist('savedFilters', savedFilters), [savedFilters, storageScope]);
+  useEffect(() => persist('scoringRules', scoringRules), [scoringRules, storageScope]);
+  useEffect(() => persist('objections', objections), [objections, storageScope]);
+  useEffect(() => persist('experiments', experiments), [experiments, storageScope]);
+
+  // Scores follow every lead edit, call and enrichment result as well as rule changes.
+  // Only leads whose score moved are replaced, so the second pass finds nothing to do.
+  useEffect(() => {
+    const context = { outcomes };
+    setProjects(prev => rescoreContainers(prev, scoringRules, context));
+    setContactLists(prev => rescoreContainers(prev, scoringRules, context));
+  }, [projects, contactLists, scoringRules, outcomes]);
+
+  const handleLogin = (user: AuthUser) => {
+    setCurrentUser(user);
   };
 
-  const handleLogout = () => {
-    setIsAuthenticated(false);
-    localStorage.removeItem('leadscout-auth');
+  // Saves the open workspace and stops its background work, then clears it from the screen
+  const closeWorkspace = async () => {
+    flushPendingWrites();
+    Object.keys(enrichmentQueue.getStatus()).forEach(group => enrichmentQueue.cancel(group));
+    await workspaceSyncRef.current?.flush();
+
+    setIsHydrated(false);
+    setHydrationError(null);
+    setProjects([]);
+    setContactLists([]);
+    setScripts([]);
+    setPhoneNumbers(DEFAULT_PHONE_NUMBERS);
+    setOutcomes(DEFAULT_CALL_OUTCOMES);
+    setCadences(DEFAULT_CADENCES);
+    setSavedFilters([]);
+    setScoringRules(DEFAULT_SCORING_RULES);
+    setObjections(DEFAULT_OBJECTIONS);
+    setExperiments([]);
+    setOpenedSearchEntry(null);
+    setDialSession(null);
+    setCurrentProjectId(null);
+    setIsDemoMode(false);
+  };
+
+  const handleLogout = async () => {
+    await closeWorkspace();
     setActiveTab('dashboard'); // Reset tab on logout
+    setActiveWorkspaceId(null);
+    setWorkspaces([]);
+
+    await logout();
+    setCurrentUser(null);
   };
 
+  const handleSwitchWorkspace = async (workspaceId: string) => {
+    if (workspaceId === activeWorkspaceId) return;
+    await closeWorkspace();
+    setActiveWorkspaceId(workspaceId);
+  };
+
+  const replaceWorkspace = (workspace: Workspace) =>
+    setWorkspaces(prev => prev.map(w => w.id === workspace.id ? workspace : w));
+
+  const handleCreateWorkspace = async (name: string) => {
+    const workspace = await createWorkspace(name);
+    setWorkspaces(prev => [...prev, workspace]);
+    await handleSwitchWorkspace(workspace.id);
+  };
+
+  const handleAddMember = async (username: string) => {
+    if (!activeWorkspaceId) return;
+    replaceWorkspace(await addWorkspaceMember(activeWorkspaceId, username));
+  };
+
+  const handleRemoveMember = async (userId: string) => {
+    if (!activeWorkspaceId || !currentUser) return;
+    const workspace = await removeWorkspaceMember(activeWorkspaceId, userId);
+    if (userId !== currentUser.id) {
+      replaceWorkspace(workspace);
+      return;
+    }
+    // Left the workspace: move on to another one (the server creates a personal one if none is left)
+    await closeWorkspace();
+    const available = await listWorkspaces();
+    setWorkspaces(available);
+    setActiveWorkspaceId(available[0]?.id || null);
+  };
+
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId) || null;
+  const members = activeWorkspace ? activeWorkspace.members : [];
+
+  const followUps = useMemo(() => collectFollowUps(projects, contactLists, cadences), [projects, contactLists, cadences]);
+  const dueFollowUpCount = followUps.filter(task => isDue(task)).length;
+  const appointments = useMemo(() => collectAppointments(projects, contactLists), [projects, contactLists]);
+  const duplicateGroups = useMemo(() => findDuplicateGroups(projects, contactLists), [projects, contactLists]);
+  const searchEntries = useMemo(() => collectSearchEntries(projects, contactLists), [projects, contactLists]);
+  const deals = useMemo(() => collectDeals(projects, contactLists), [projects, contactLists]);
+  const queryContext = useMemo<LeadQueryContext>(
+    () => ({ outcomes, members: activeWorkspace?.members || [], currentUserId: currentUser?.id }),
+    [outcomes, activeWorkspace, currentUser?.id]
+  );
+
+  // The open project is always read from `projects` so background updates show up immediately
+  const currentProject = projects.find(p => p.id === currentProjectId) || null;
+  const setCurrentProject = (project: Project | null) => setCurrentProjectId(project ? project.id : null);
+  // Where the seed of a lookalike project lives now, if it hasn't been deleted
+  const seedEntry = currentProject?.lookalike
+    ? searchEntries.find(entry => entry.lead.id === currentProject.lookalike!.seedLeadId) || null
+    : null;
+
   const updateProjectState = (updatedProject: Project) => {
     setProjects(prev => prev.map(p => p.id === updatedProject.id ? updatedProject : p));
-    if (currentProject?.id === updatedProject.id) {
-      setCurrentProject(updatedProject);
+  };
+
+  // Applies a change to a single lead, wherever it lives, against the latest state
+  const updateLeadInContext = (context: CallContext, leadId: string, update: (lead: Lead) => Lead) => {
+    if (context.type === 'project') {
+      setProjects(prev => prev.map(p => p.id === context.parentId
+        ? { ...p, leads: p.leads.map(l => l.id === leadId ? update(l) : l) }
+        : p));
+    } else {
+      setContactLists(prev => prev.map(list => list.id === context.parentId
+        ? { ...list, leads: list.leads.map(l => l.id === leadId ? update(l) : l) }
+        : list));
     }
   };
 
-  const calculateLeadScore = (lead: Partial<Lead>): number => {
-      let score = 0;
-      if (lead.email) score += 25;
-      if (lead.website) score += 25;
-      if (lead.ceo) score += 15;
-      if (lead.phone) score += 15;
-      
-      // Bonus for source credibility
-      if (lead.sourceUrl && lead.sourceUrl !== 'Manual') score += 10;
-      
-      // Bonus for good rating
-      if (lead.rating && lead.rating >= 4.0) score += 10;
-      
-      return Math.min(100, score);
+  // Maps a raw lead from any lead source onto a fresh, unenriched Lead
+  const toNewLead = (raw: Partial<Lead>, category: string): Lead => {
+    return {
+        id: uuidv4(),
+        name: raw.name || 'Unknown',
+        category,
+        address: raw.address || '',
+        website: raw.website || null,
+        phone: raw.phone || null,
+        email: raw.email || null,
+        ceo: null,
+        status: 'New',
+        confidence: 'Low',
+        sourceUrl: raw.sourceUrl || null,
+        source: raw.source,
+        notes: '',
+        rating: raw.rating,
+        reviewCount: raw.reviewCount,
+        latitude: raw.latitude,
+        longitude: raw.longitude,
+        isEnriching: false,
+    };
+  };
+
+  const [enrichmentStatus, setEnrichmentStatus] = useState<Record<string, JobGroupStatus>>({});
+
+  const applyEnrichment = (lead: Lead, enriched: EnrichmentResult, attempts: number): Lead => {
+    let confidence: 'High' | 'Medium' | 'Low' = 'Low';
+    if (enriched.email || enriched.ceo) confidence = 'Medium';
+    if (enriched.email && enriched.ceo && enriched.website) confidence = 'High';
+
+    return { ...lead, ...enriched, confidence, isEnriching: false, enrichmentAttempts: attempts };
+  };
+
+  // One queue for all enrichment so concurrency and rate limits apply across projects and lists
+  const [enrichmentQueue] = useState(() => createJobQueue<EnrichmentJob, EnrichmentResult>({
+    concurrency: ENRICHMENT_CONCURRENCY,
+    maxAttempts: ENRICHMENT_MAX_ATTEMPTS,
+    baseDelayMs: ENRICHMENT_BASE_DELAY_MS,
+    maxDelayMs: ENRICHMENT_MAX_DELAY_MS,
+    worker: async ({ lead }) => {
+      const enriched = await enrichLeadData(lead);
+      // Throwing hands retryable failures back to the queue; other problems are kept on the lead
+      if (isRetryableStatus(enriched.enrichmentError?.status)) throw enriched.enrichmentError;
+      return pickEnrichment(enriched);
+    },
+    isRetryable: (error) => isRetryableStatus((error as DataFetchError).status),
+    isRateLimited: (error) => (error as DataFetchError).status === 429,
+    onSuccess: (job, enriched) => {
+      updateLeadInContext(job.payload.context, job.id, lead => applyEnrichment(lead, enriched, job.attempts));
+    },
+    onFailure: (job, error) => {
+      updateLeadInContext(job.payload.context, job.id, lead => ({
+        ...lead,
+        isEnriching: false,
+        enrichmentAttempts: job.attempts,
+        enrichmentError: isDataFetchError(error) ? error : requestFailedError('enrichment', error),
+      }));
+    },
+    onCancel: (jobs) => {
+      jobs.forEach(job => updateLeadInContext(job.payload.context, job.id, lead => ({ ...lead, isEnriching: false })));
+    },
+    onGroupDrained: (group) => {
+      setProjects(prev => prev.map(p => p.id === group && p.status === 'Enriching' ? { ...p, status: 'Completed' } : p));
+    },
+    onChange: setEnrichmentStatus,
+  }));
+
+  const enqueueEnrichment = (lead: Lead, context: CallContext) => {
+    updateLeadInContext(context, lead.id, l => ({ ...l, isEnriching: true }));
+    enrichmentQueue.enqueue(lead.id, context.parentId, { lead, context });
   };
 
   /**
-   * Reusable batch enrichment logic.
-   * Updates state incrementally for UI feedback.
+   * Queues leads of a project for enrichment.
+   * Progress is written back lead by lead as the queue works through them.
    */
-  const processEnrichment = async (project: Project, leadsToEnrich: Lead[]) => {
+  const processEnrichment = (project: Project, leadsToEnrich: Lead[]) => {
     // If in demo mode without API key, simulate enrichment
     if (isDemoMode && !hasApiKey) {
       alert("Enrichment requires a valid API Key. In Demo Mode, this checks the UI flow only.");
@@ -123,54 +509,14 @@ const App: React.FC = () => {
       updateProjectState({ ...project, leads: enrichingLeads, status: 'Enriching' });
 
       setTimeout(() => {
-         const finishedLeads = enrichingLeads.map(l => idsToEnrich.has(l.id) ? { ...l, isEnriching: false, leadScore: Math.floor(Math.random() * 50) + 50 } : l);
+         const finishedLeads = enrichingLeads.map(l => idsToEnrich.has(l.id) ? { ...l, isEnriching: false } : l);
          updateProjectState({ ...project, leads: finishedLeads, status: 'Completed' });
       }, 2000);
       return;
     }
 
-    const BATCH_SIZE = 5;
-    let currentLeads = [...project.leads];
-
-    // Mark these leads as enriching in the state first
-    const idsToEnrich = new Set(leadsToEnrich.map(l => l.id));
-    currentLeads = currentLeads.map(l => idsToEnrich.has(l.id) ? { ...l, isEnriching: true } : l);
-    
-    updateProjectState({ ...project, leads: currentLeads, status: 'Enriching' });
-
-    // Process in batches
-    for (let i = 0; i < leadsToEnrich.length; i += BATCH_SIZE) {
-        const batch = leadsToEnrich.slice(i, i + BATCH_SIZE);
-        
-        const batchResults = await Promise.all(
-          batch.map(async (lead) => {
-            const enriched = await enrichLeadData(lead);
-            let confidence: 'High' | 'Medium' | 'Low' = 'Low';
-            if (enriched.email || enriched.ceo) confidence = 'Medium';
-            if (enriched.email && enriched.ceo && enriched.website) confidence = 'High';
-            
-            // Recalculate Score
-            const leadScore = calculateLeadScore(enriched);
-
-            return { ...lead, ...enriched, confidence, leadScore, isEnriching: false } as Lead;
-          })
-        );
-        
-        // Merge results back into the main list
-        batchResults.forEach(enrichedLead => {
-            const idx = currentLeads.findIndex(l => l.id === enrichedLead.id);
-            if (idx !== -1) {
-                currentLeads[idx] = enrichedLead;
-            }
-        });
-
-        // Update UI state after each batch
-        updateProjectState({ ...project, leads: [...currentLeads] });
-    }
-
-    // Final update to clear status if all done
-    const isStillEnriching = currentLeads.some(l => l.isEnriching);
-    updateProjectState({ ...project, leads: currentLeads, status: isStillEnriching ? 'Enriching' : 'Completed' });
+    setProjects(prev => prev.map(p => p.id === project.id ? { ...p, status: 'Enriching' } : p));
+    leadsToEnrich.forEach(lead => enqueueEnrichment(lead, { type: 'project', parentId: project.id }));
   };
 
   const startDemoMode = () => {
@@ -188,6 +534,7 @@ const App: React.FC = () => {
       status: 'Completed',
       createdAt: new Date().toISOString(),
       limit: 10,
+      sources: ['mock'],
       leads: [
         {
           id: uuidv4(),
@@ -248,7 +595,7 @@ const App: React.FC = () => {
           reviewCount: 8,
           isEnriching: false,
           callLogs: [
-            { id: uuidv4(), timestamp: new Date(Date.now() - 86400000).toISOString(), outcome: 'Appointment Set', appointmentDate: new Date(Date.now() + 86400000).toISOString(), analysis: { callScore: 92, scriptAdherence: 95, confidence: 'High', sentiment: 'Positive' } }
+            { id: uuidv4(), timestamp: new Date(Date.now() - 86400000).toISOString(), outcomeId: 'appointment-set', outcome: 'Appointment Set', appointmentDate: new Date(Date.now() + 86400000).toISOString(), analysis: { callScore: 92, scriptAdherence: 95, confidence: 'High', sentiment: 'Positive' } }
           ],
           lastCallResult: 'Appointment Set',
           appointmentDate: new Date(Date.now() + 86400000).toISOString()
@@ -277,13 +624,15 @@ const App: React.FC = () => {
   };
 
   const handleStartSearch = async (params: SearchParams) => {
-    if (!hasApiKey && !isDemoMode) {
-      alert("Please configure your Gemini API Key in the environment.");
+    if (params.sources.length === 0) {
+      alert("Please select at least one lead source.");
       return;
     }
 
-    if (isDemoMode && !hasApiKey) {
-      alert("Search is disabled in Demo Mode without an API Key. Please use the pre-loaded demo project to explore features.");
+    if (!hasApiKey && sourcesRequireApiKey(params.sources)) {
+      alert(isDemoMode
+        ? "The selected lead sources need an API Key. In Demo Mode, pick OpenStreetMap or Local Mock Data instead."
+        : "Please configure your Gemini API Key in the environment.");
       return;
     }
 
@@ -305,6 +654,7 @@ const App: React.FC = () => {
       status: 'Fetching',
       createdAt: new Date().toISOString(),
       limit: params.limit,
+      sources: params.sources,
     };
 
     setProjects(prev => [newProject, ...prev]);
@@ -312,38 +662,38 @@ const App: React.FC = () => {
     setCurrentProject(newProject);
 
     try {
-      const rawLeads = await searchBusinesses(params.industry, params.location, params.limit);
-      
-      let leads: Lead[] = rawLeads.map(raw => {
-        const partialLead: Partial<Lead> = {
-            id: uuidv4(),
-            name: raw.name || 'Unknown',
-            category: params.industry,
-            address: raw.address || '',
-            website: raw.website || null,
-            phone: raw.phone || null,
-            email: null,
-            ceo: null,
-            status: 'New',
-            confidence: 'Low',
-            sourceUrl: raw.sourceUrl || null,
-            notes: '',
-            rating: raw.rating,
-            reviewCount: raw.reviewCount,
-            isEnriching: false,
-        };
-        partialLead.leadScore = calculateLeadScore(partialLead);
-        return partialLead as Lead;
+      const center = await geocodeLocation(params.location);
+
+      const { leads: rawLeads, failures } = await searchLeadSources(params.sources, {
+        industry: params.industry,
+        location: params.location,
+        limit: params.limit,
+        excludeNames: [],
+        center: center || undefined,
+        radiusKm: params.radius,
       });
+      
+      let leads: Lead[] = rawLeads.map(raw => toNewLead(raw, params.industry));
+      if (center) leads = await applyRadiusFilter(leads, center, params.radius);
 
       if (params.mustHaveWebsite) leads = leads.filter(l => !!l.website);
       if (params.minRating > 0) leads = leads.filter(l => (l.rating || 0) >= params.minRating);
 
-      const projectWithRawLeads = { ...newProject, leads, status: 'Enriching' as const };
+      const searchErrors = failures.length > 0 ? failures : undefined;
+
+      // Without an API key the leads can't be enriched, so the raw results are final
+      if (!hasApiKey || leads.length === 0) {
+        const finishedProject = { ...newProject, center: center || undefined, leads, searchErrors, status: 'Completed' as const };
+        updateProjectState(finishedProject);
+        setCurrentProject(finishedProject);
+        return;
+      }
+
+      const projectWithRawLeads = { ...newProject, center: center || undefined, leads, searchErrors, status: 'Enriching' as const };
       updateProjectState(projectWithRawLeads);
       setCurrentProject(projectWithRawLeads);
 
-      await processEnrichment(projectWithRawLeads, leads);
+      processEnrichment(projectWithRawLeads, leads);
 
     } catch (error) {
       console.error("Search failed", error);
@@ -355,53 +705,54 @@ const App: React.FC = () => {
   };
 
   const handleLoadMoreLeads = async (project: Project) => {
-    if ((!hasApiKey && !isDemoMode) || isLoadingMore) return;
+    if (isLoadingMore) return;
     
-    if (isDemoMode && !hasApiKey) {
-       alert("Live search is disabled in Demo Mode. Add an API key to find real leads.");
+    if (!hasApiKey && sourcesRequireApiKey(project.sources || DEFAULT_LEAD_SOURCES)) {
+       alert("This project searches a lead source that needs an API key. Add an API key to find more leads.");
        return;
     }
     
     setIsLoadingMore(true);
     try {
+      // Projects created before geocoding existed have no center yet
+      const center = project.center || await geocodeLocation(project.location);
       const existingNames = project.leads.map(l => l.name);
-      const rawLeads = await searchBusinesses(project.industry, project.location, 10, existingNames);
+      const sourceQuery = {
+        location: project.location,
+        limit: 10,
+        excludeNames: existingNames,
+        center: center || undefined,
+        radiusKm: project.radius,
+      };
+      // Lookalike projects repeat the seed's searches instead of the single industry
+      const { leads: rawLeads, failures } = project.lookalike
+        ? await searchLookalikes(project.lookalike.queries, project.sources || DEFAULT_LEAD_SOURCES, { ...sourceQuery, excludeNames: [...existingNames, project.lookalike.seedName] })
+        : await searchLeadSources(project.sources || DEFAULT_LEAD_SOURCES, { ...sourceQuery, industry: project.industry });
       
-      let newLeads: Lead[] = rawLeads.map(raw => {
-        const partialLead: Partial<Lead> = {
-            id: uuidv4(),
-            name: raw.name || 'Unknown',
-            category: project.industry,
-            address: raw.address || '',
-            website: raw.website || null,
-            phone: raw.phone || null,
-            email: null,
-            ceo: null,
-            status: 'New',
-            confidence: 'Low',
-            sourceUrl: raw.sourceUrl || null,
-            notes: '',
-            rating: raw.rating,
-            reviewCount: raw.reviewCount,
-            isEnriching: false,
-        };
-        partialLead.leadScore = calculateLeadScore(partialLead);
-        return partialLead as Lead;
-      });
+      let newLeads: Lead[] = rawLeads.map(raw => toNewLead(raw, raw.category || project.industry));
+      if (center) newLeads = await applyRadiusFilter(newLeads, center, project.radius);
 
       if (project.filters.mustHaveWebsite) newLeads = newLeads.filter(l => !!l.website);
       if (project.filters.minRating > 0) newLeads = newLeads.filter(l => (l.rating || 0) >= project.filters.minRating);
 
-      const existingIds = new Set(project.leads.map(l => l.name.toLowerCase()));
-      newLeads = newLeads.filter(l => !existingIds.has(l.name.toLowerCase()));
+      // Sources may return excluded places again under a slightly different name or from another source
+      const knownLeads = [...project.leads];
+      newLeads = newLeads.filter(lead => {
+        if (findDuplicateOf(lead, knownLeads)) return false;
+        knownLeads.push(lead);
+        return true;
+      });
 
-      if (newLeads.length > 0) {
+      const searchErrors = failures.length > 0 ? failures : undefined;
+      if (newLeads.length > 0 || searchErrors || project.searchErrors) {
         const updatedProject = {
           ...project,
-          leads: [...project.leads, ...newLeads]
+          center: center || project.center,
+          leads: [...project.leads, ...newLeads],
+          searchErrors,
         };
         updateProjectState(updatedProject);
-      } 
+      }
 
     } catch (error) {
       console.error("Failed to load more leads", error);
@@ -417,50 +768,8 @@ const App: React.FC = () => {
     processEnrichment(currentProject, leadsToEnrich);
   }, [currentProject, isDemoMode]);
 
-  const handleEnrichListLead = async (lead: Lead, listId: string) => {
-      // Optimistically update status to enriching
-      setContactLists(prev => prev.map(list => {
-          if (list.id === listId) {
-              return {
-                  ...list,
-                  leads: list.leads.map(l => l.id === lead.id ? { ...l, isEnriching: true } : l)
-              };
-          }
-          return list;
-      }));
-
-      try {
-          const enriched = await enrichLeadData(lead);
-          let confidence: 'High' | 'Medium' | 'Low' = 'Low';
-          if (enriched.email || enriched.ceo) confidence = 'Medium';
-          if (enriched.email && enriched.ceo && enriched.website) confidence = 'High';
-          
-          const leadScore = calculateLeadScore(enriched);
-
-          const finalLead = { ...lead, ...enriched, confidence, leadScore, isEnriching: false } as Lead;
-
-          setContactLists(prev => prev.map(list => {
-              if (list.id === listId) {
-                  return {
-                      ...list,
-                      leads: list.leads.map(l => l.id === lead.id ? finalLead : l)
-                  };
-              }
-              return list;
-          }));
-      } catch (e) {
-          console.error("Manual enrichment failed", e);
-           // Revert enriching state
-          setContactLists(prev => prev.map(list => {
-            if (list.id === listId) {
-                return {
-                    ...list,
-                    leads: list.leads.map(l => l.id === lead.id ? { ...l, isEnriching: false } : l)
-                };
-            }
-            return list;
-        }));
-      }
+  const handleEnrichListLead = (lead: Lead, listId: string) => {
+      enqueueEnrichment(lead, { type: 'list', parentId: listId });
   };
 
   const handleSaveToContactList = (leads: Lead[], listId?: string, newListName?: string) => {
@@ -469,22 +778,40 @@ const App: React.FC = () => {
         id: uuidv4(),
         name: newListName,
         createdAt: new Date().toISOString(),
-        leads: leads,
+        leads: addLeadsWithoutDuplicates([], leads),
         stage: 'Cold'
       };
       setContactLists(prev => [...prev, newList]);
     } else if (listId) {
-      setContactLists(prev => prev.map(list => {
-        if (list.id === listId) {
-          const existingIds = new Set(list.leads.map(l => l.id));
-          const uniqueNewLeads = leads.filter(l => !existingIds.has(l.id));
-          return { ...list, leads: [...list.leads, ...uniqueNewLeads] };
-        }
-        return list;
-      }));
+      // The same business found in another project is merged into the contact the list already has
+      setContactLists(prev => prev.map(list => list.id === listId
+        ? { ...list, leads: addLeadsWithoutDuplicates(list.leads, leads) }
+        : list));
     }
   };
 
+  // Imported rows only carry the mapped columns; the rest starts out like a manually added contact
+  const handleImportLeads = (drafts: Partial<Lead>[], listId?: string, newListName?: string) => {
+    const leads = drafts.map((draft): Lead => ({
+      id: uuidv4(),
+      name: draft.name || 'Unknown',
+      category: draft.category || 'Imported',
+      address: draft.address || '',
+      website: draft.website || null,
+      phone: draft.phone || null,
+      email: draft.email || null,
+      ceo: draft.ceo || null,
+      status: 'New',
+      confidence: 'Low',
+      sourceUrl: 'Manual',
+      notes: draft.notes || '',
+      rating: draft.rating,
+      reviewCount: draft.reviewCount,
+      isEnriching: false,
+    }));
+    handleSaveToContactList(leads, listId, newListName);
+  };
+
   const handleCreateList = (name: string, stage: PipelineStage = 'Cold') => {
       const newList: ContactList = {
         id: uuidv4(),
@@ -506,6 +833,10 @@ const App: React.FC = () => {
   };
 
   // Persist changes from detail panel (like Handelsregister updates) to the CRM
+  const handleAssignList = (listId: string, userId: string | undefined) => {
+    setContactLists(prev => prev.map(list => list.id === listId ? { ...list, assignedTo: userId } : list));
+  };
+
   const handleUpdateContact = (listId: string, updatedContact: Lead) => {
     setContactLists(prev => prev.map(list => {
         if (list.id === listId) {
@@ -542,21 +873,11 @@ const App: React.FC = () => {
     setActiveCallContext(context);
   };
 
-  const handleLogCall = (log: CallLog, updatedLeadStatus?: string, appointmentDate?: string) => {
-      if (!activeCallLead || !activeCallContext) return;
-
-      const updatedLead: Lead = {
-          ...activeCallLead,
-          callLogs: [log, ...(activeCallLead.callLogs || [])],
-          lastCallResult: log.outcome,
-          status: (updatedLeadStatus as any) || activeCallLead.status,
-          appointmentDate: appointmentDate || activeCallLead.appointmentDate
-      };
-
-      // Update state based on where the call originated
-      if (activeCallContext.type === 'project') {
+  // Writes a changed lead back to the project or list it belongs to
+  const replaceLead = (context: CallContext, updatedLead: Lead) => {
+      if (context.type === 'project') {
           setProjects(prev => prev.map(p => {
-              if (p.id === activeCallContext.parentId) {
+              if (p.id === context.parentId) {
                   return {
                       ...p,
                       leads: p.leads.map(l => l.id === updatedLead.id ? updatedLead : l)
@@ -564,16 +885,9 @@ const App: React.FC = () => {
               }
               return p;
           }));
-          // Also update current project if it's open
-          if (currentProject && currentProject.id === activeCallContext.parentId) {
-              setCurrentProject(prev => prev ? ({
-                  ...prev,
-                  leads: prev.leads.map(l => l.id === updatedLead.id ? updatedLead : l)
-              }) : null);
-          }
-      } else if (activeCallContext.type === 'list') {
+      } else if (context.type === 'list') {
           setContactLists(prev => prev.map(list => {
-              if (list.id === activeCallContext.parentId) {
+              if (list.id === context.parentId) {
                   return {
                       ...list,
                       leads: list.leads.map(l => l.id === updatedLead.id ? updatedLead : l)
@@ -582,20 +896,285 @@ const App: React.FC = () => {
               return list;
           }));
       }
+  };
+
+  const handleLogCall = (log: CallLog, updatedLeadStatus?: string, appointmentDate?: string) => {
+      if (!activeCallLead || !activeCallContext) return;
 
-      // Close wizard
+      // Controlling attributes each call to whoever made it
+      const attributedLog: CallLog = currentUser
+          ? { ...log, callerId: currentUser.id, callerName: currentUser.displayName }
+          : log;
+
+      // Leads that were not reached go into the cadence of their project or list
+      const defaultCadenceId = activeCallContext.type === 'project'
+          ? projects.find(p => p.id === activeCallContext.parentId)?.cadenceId
+          : contactLists.find(l => l.id === activeCallContext.parentId)?.cadenceId;
+
+      const updatedLead: Lead = {
+          ...activeCallLead,
+          callLogs: [attributedLog, ...(activeCallLead.callLogs || [])],
+          lastCallResult: attributedLog.outcome,
+          status: (updatedLeadStatus as any) || activeCallLead.status,
+          appointmentDate: appointmentDate || activeCallLead.appointmentDate,
+          cadence: applyCallToCadence(activeCallLead.cadence, resolveOutcome(attributedLog, outcomes), cadences, defaultCadenceId),
+          callbackAt: attributedLog.callbackAt
+      };
+
+      replaceLead(activeCallContext, updatedLead);
+
+      // In a power-dialer session the next lead opens right away
+      if (dialSession && !dialSession.endedAt) {
+          const calls = [...dialSession.calls, { ...attributedLog, leadId: updatedLead.id }];
+          openDialTarget({ ...dialSession, calls }, dialSession.position + 1);
+      } else {
+          setActiveCallLead(null);
+          setActiveCallContext(null);
+      }
+  };
+
+  // POWER DIALER HANDLERS
+  const sourceContext = (source: LeadSource): CallContext => ({ type: source.type, parentId: source.id });
+
+  // The current copy of a lead; the one captured when the session started may be outdated
+  const findLead = (context: CallContext, leadId: string): Lead | undefined => {
+      const leads = context.type === 'project'
+          ? projects.find(p => p.id === context.parentId)?.leads
+          : contactLists.find(l => l.id === context.parentId)?.leads;
+      return leads?.find(l => l.id === leadId);
+  };
+
+  const finishDialSession = (session: DialSession) => {
+      setDialSession({ ...session, endedAt: new Date().toISOString() });
       setActiveCallLead(null);
       setActiveCallContext(null);
   };
 
-  const handleFindSimilar = (lead: Lead) => {
-      alert(`Tip: To find companies similar to "${lead.name}", create a New Search for industry "${lead.category}" in the same location.`);
-      setActiveTab('search');
+  // Opens the first target from `position` on that is still worth calling
+  const openDialTarget = (session: DialSession, position: number) => {
+      let skipped = session.skipped;
+      for (let i = position; i < session.targets.length; i++) {
+          const context = sourceContext(session.targets[i].source);
+          const lead = findLead(context, session.targets[i].lead.id);
+          // Removed meanwhile, or a teammate called it since the session started
+          const lastCall = lead?.callLogs?.[0];
+          if (!lead || !lead.phone || (lastCall && lastCall.timestamp > session.startedAt)) {
+              skipped++;
+              continue;
+          }
+          setDialSession({ ...session, position: i, skipped });
+          handleStartCall(lead, context);
+          return;
+      }
+      finishDialSession({ ...session, position: session.targets.length, skipped });
+  };
+
+  const startDialSession = (name: string, candidates: DialTarget[], skipRecentHours?: number) => {
+      const session = createDialSession(name, candidates, skipRecentHours);
+      if (session.targets.length === 0) {
+          const { noPhone, recentlyCalled } = session.excluded;
+          alert(`No leads to dial: ${noPhone} without phone number, ${recentlyCalled} called in the last ${RECENT_ATTEMPT_HOURS} hours.`);
+          return;
+      }
+      openDialTarget(session, 0);
+  };
+
+  const handleDialProject = (leads: Lead[]) => {
+      if (!currentProject) return;
+      const source: LeadSource = { type: 'project', id: currentProject.id, name: currentProject.name };
+      startDialSession(currentProject.name, leads.map(lead => ({ lead, source })));
+  };
+
+  const handleDialList = (listId: string, leads: Lead[]) => {
+      const list = contactLists.find(l => l.id === listId);
+      if (!list) return;
+      const source: LeadSource = { type: 'list', id: list.id, name: list.name };
+      startDialSession(list.name, leads.map(lead => ({ lead, source })));
+  };
+
+  // FOLLOW-UP HANDLERS
+  const taskContext = (task: FollowUpTask): CallContext => sourceContext(task.source);
+
+  // Follow-ups are due by definition, so recent attempts are not filtered out
+  const handleStartFollowUps = (tasks: FollowUpTask[]) => {
+      startDialSession('Due follow-ups', tasks.map(({ lead, source }) => ({ lead, source })), 0);
+  };
+
+  const handleCompleteFollowUp = (task: FollowUpTask) => {
+      if (task.kind === 'callback') {
+          replaceLead(taskContext(task), { ...task.lead, callbackAt: undefined });
+      } else if (task.lead.cadence && task.cadence) {
+          replaceLead(taskContext(task), { ...task.lead, cadence: completeCadenceStep(task.lead.cadence, task.cadence) });
+      }
+  };
+
+  const handleStopFollowUp = (task: FollowUpTask) => {
+      replaceLead(taskContext(task), {
+          ...task.lead,
+          callbackAt: undefined,
+          cadence: task.lead.cadence && stopCadence(task.lead.cadence),
+      });
+  };
+
+  const handleSetListCadence = (listId: string, cadenceId: string | undefined) => {
+    setContactLists(prev => prev.map(list => list.id === listId ? { ...list, cadenceId } : list));
+  };
+
+  // PIPELINE HANDLERS
+  const handleMoveDeal = (entry: DealEntry, stage: DealStage) => {
+    updateLeadInContext(sourceContext(entry.source), entry.lead.id, l => moveDeal(l, stage, currentUser?.id));
+  };
+
+  // Leads already in the pipeline keep their stage
+  const handleAddListToPipeline = (listId: string) => {
+    const at = new Date().toISOString();
+    setContactLists(prev => prev.map(list => list.id === listId
+      ? { ...list, leads: list.leads.map(l => l.deal ? l : moveDeal(l, list.stage || 'Cold', currentUser?.id, at)) }
+      : list));
+  };
+
+  const handlePushToCrm = async (context: CallContext, leads: Lead[]) => {
+    if (!activeWorkspaceId || !crmConnection || leads.length === 0) return;
+    const crmName = getCrmProvider(crmConnection.provider).label;
+    try {
+      const results = await pushLeadsToCrm(activeWorkspaceId, leads);
+      // Links are kept even for failed leads, so the records created so far are updated next time
+      results.forEach(result => {
+        if (result.link) updateLeadInContext(context, result.leadId, l => ({ ...l, crm: result.link }));
+      });
+      const failed = results.filter(r => r.error);
+      if (failed.length > 0) {
+        const names = new Map(leads.map(l => [l.id, l.name]));
+        alert(`Pushed ${results.length - failed.length} of ${results.length} leads to ${crmName}.\n\n`
+          + failed.slice(0, 5).map(r => `${names.get(r.leadId)}: ${r.error}`).join('\n'));
+      } else {
+        alert(`Pushed ${results.length} leads to ${crmName}.`);
+      }
+    } catch (error: any) {
+      alert(`Pushing to ${crmName} failed: ${error.message || error}`);
+    }
+  };
+
+  // DUPLICATE HANDLERS
+  // `update` returns the same array for projects and lists it doesn't change, so they aren't saved again
+  const updateLeadsEverywhere = (update: (leads: Lead[]) => Lead[]) => {
+    const apply = <T extends { leads: Lead[] }>(item: T): T => {
+      const leads = update(item.leads);
+      return leads === item.leads ? item : { ...item, leads };
+    };
+    setProjects(prev => prev.map(apply));
+    setContactLists(prev => prev.map(apply));
+  };
+
+  const handleMergeDuplicates = (group: DuplicateGroup, merged: Lead) => {
+    const mergedIds = new Set(group.candidates.map(c => c.lead.id));
+    updateLeadsEverywhere(leads => leads.some(l => mergedIds.has(l.id)) ? replaceMergedLeads(leads, mergedIds, merged) : leads);
+  };
+
+  const handleDismissDuplicates = (group: DuplicateGroup) => {
+    const ids = group.candidates.map(c => c.lead.id);
+    updateLeadsEverywhere(leads => leads.some(l => ids.includes(l.id))
+      ? leads.map(l => ids.includes(l.id)
+        ? { ...l, notDuplicateOf: Array.from(new Set([...(l.notDuplicateOf || []), ...ids.filter(id => id !== l.id)])) }
+        : l)
+      : leads);
+  };
+
+  // GLOBAL SEARCH HANDLERS
+  const handleSaveFilter = (name: string, query: string) => {
+    setSavedFilters(prev => [...prev, { id: uuidv4(), name, query, createdAt: new Date().toISOString(), createdBy: currentUser?.id }]);
+  };
+
+  const handleDeleteFilter = (id: string) => setSavedFilters(prev => prev.filter(f => f.id !== id));
+
+  const handleOpenSearchResult = (entry: LeadSearchEntry) => {
+    setIsSearchOpen(false);
+    setOpenedSearchEntry(entry);
+  };
+
+  // A lead saved to several lists matches once per list, but is called only once
+  const handleDialSearch = (name: string, entries: LeadSearchEntry[]) => {
+    setIsSearchOpen(false);
+    const seen = new Set<string>();
+    const targets = entries.filter(({ lead }) => {
+      if (seen.has(lead.id)) return false;
+      seen.add(lead.id);
+      return true;
+    });
+    startDialSession(name, targets.map(({ lead, source }) => ({ lead, source })));
+  };
+
+  // Builds a profile of the seed lead, lets Gemini (or the seed's own category and keywords)
+  // decide what to search for, and collects the closest matches in a new project
+  const handleFindSimilar = async (seed: Lead) => {
+    const sources = hasApiKey ? DEFAULT_LEAD_SOURCES : ['openstreetmap'];
+    const profile = buildLookalikeProfile(seed);
+
+    const newProject: Project = {
+      id: uuidv4(),
+      name: `Similar to ${seed.name}`,
+      industry: profile.category,
+      location: profile.location,
+      radius: LOOKALIKE_RADIUS_KM,
+      filters: { minRating: 0, minReviews: 0, mustHaveWebsite: false },
+      leads: [],
+      status: 'Fetching',
+      createdAt: new Date().toISOString(),
+      limit: LOOKALIKE_RESULT_LIMIT,
+      sources,
+      lookalike: { seedLeadId: seed.id, seedName: seed.name, profile, queries: [] },
+    };
+    setProjects(prev => [newProject, ...prev]);
+    setActiveTab('projects');
+    setCurrentProject(newProject);
+
+    try {
+      const suggested = hasApiKey ? await suggestLookalikeSearches(seed, profile) : [];
+      const queries = suggested.length > 0 ? suggested : fallbackLookalikeQueries(profile);
+      const center = profile.center || await geocodeLocation(profile.location);
+
+      const { leads: rawLeads, failures } = await searchLookalikes(queries, sources, {
+        location: profile.location,
+        limit: LOOKALIKE_RESULTS_PER_QUERY,
+        excludeNames: [seed.name],
+        center: center || undefined,
+        radiusKm: LOOKALIKE_RADIUS_KM,
+      });
+
+      let leads: Lead[] = rawLeads.map(raw => toNewLead(raw, raw.category || profile.category));
+      if (center) leads = await applyRadiusFilter(leads, center, LOOKALIKE_RADIUS_KM);
+
+      // The seed itself, and businesses the workspace already works with, are not new lookalikes
+      const knownLeads = [seed, ...projects.flatMap(p => p.leads), ...contactLists.flatMap(l => l.leads)];
+      leads = leads.filter(lead => !findDuplicateOf(lead, knownLeads));
+      leads = rankBySimilarity(leads, profile, LOOKALIKE_RADIUS_KM).slice(0, LOOKALIKE_RESULT_LIMIT);
+
+      const searchedProject = {
+        ...newProject,
+        center: center || undefined,
+        leads,
+        lookalike: { ...newProject.lookalike!, queries },
+        searchErrors: failures.length > 0 ? failures : undefined,
+      };
+      if (!hasApiKey || leads.length === 0) {
+        updateProjectState({ ...searchedProject, status: 'Completed' });
+        return;
+      }
+      const enrichingProject = { ...searchedProject, status: 'Enriching' as const };
+      updateProjectState(enrichingProject);
+      processEnrichment(enrichingProject, leads);
+    } catch (error) {
+      console.error("Lookalike search failed", error);
+      updateProjectState({ ...newProject, status: 'Completed' });
+      alert("Could not search for similar companies.");
+    }
   };
 
   // Script Handlers
-  const handleAddScript = (script: Script) => setScripts(prev => [...prev, script]);
-  const handleUpdateScript = (script: Script) => setScripts(prev => prev.map(s => s.id === script.id ? script : s));
+  const handleAddScript = (script: Script) => setScripts(prev => [...prev, { ...script, updatedAt: new Date().toISOString(), updatedBy: currentUser?.id }]);
+  // Text changes keep the previous text as a version, see services/scriptVersions
+  const handleUpdateScript = (script: Script) =>
+    setScripts(prev => prev.map(s => s.id === script.id ? saveScriptVersion(s, script, currentUser?.id) : s));
   const handleDeleteScript = (id: string) => setScripts(prev => prev.filter(s => s.id !== id));
 
   // Phone Number Handlers
@@ -603,6 +1182,27 @@ const App: React.FC = () => {
   const handleRemovePhoneNumber = (id: string) => setPhoneNumbers(prev => prev.filter(p => p.id !== id));
 
   const renderContent = () => {
+    if (!isHydrated && hydrationError) {
+      return (
+        <div className="flex flex-col items-center justify-center py-20 text-center">
+          <AlertTriangle size={24} className="text-red-500 mb-3" />
+          <p className="font-medium text-slate-900 dark:text-white">Your workspace could not be loaded</p>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1 mb-4 max-w-md">{hydrationError}</p>
+          <Button onClick={() => { setHydrationError(null); setHydrationAttempt(n => n + 1); }}>
+            <RefreshCw size={16} className="mr-2" /> Try again
+          </Button>
+        </div>
+      );
+    }
+
+    if (!isHydrated) {
+      return (
+        <div className="flex items-center justify-center py-20 text-slate-500 dark:text-slate-400">
+          <Loader2 size={20} className="animate-spin mr-2" /> Loading your workspace...
+        </div>
+      );
+    }
+
     if (activeTab === 'dashboard') {
       return (
         <Dashboard 
@@ -636,6 +1236,19 @@ const App: React.FC = () => {
             isLoadingMore={isLoadingMore}
             scripts={scripts}
             onStartCall={(lead) => handleStartCall(lead, { type: 'project', parentId: currentProject.id })}
+            enrichmentStatus={enrichmentStatus[currentProject.id]}
+            onPauseEnrichment={() => enrichmentQueue.pause(currentProject.id)}
+            onResumeEnrichment={() => enrichmentQueue.resume(currentProject.id)}
+            onCancelEnrichment={() => enrichmentQueue.cancel(currentProject.id)}
+            members={members}
+            currentUserId={currentUser?.id}
+            outcomes={outcomes}
+            cadences={cadences}
+            scoringRules={scoringRules}
+            onStartDialSession={handleDialProject}
+            onPushToCrm={crmConnection ? (leads) => handlePushToCrm({ type: 'project', parentId: currentProject.id }, leads) : undefined}
+            crmProvider={crmConnection?.provider}
+            onOpenSeedLead={seedEntry ? () => setOpenedSearchEntry(seedEntry) : undefined}
           />
         );
       }
@@ -643,12 +1256,22 @@ const App: React.FC = () => {
         <div className="space-y-6">
             <div className="flex justify-between items-center">
               <h2 className="text-2xl font-bold text-slate-800 dark:text-white">My Projects</h2>
-              <button 
-                onClick={startDemoMode}
-                className="text-sm text-blue-600 dark:text-blue-400 font-medium hover:underline flex items-center"
-              >
-                <Play size={14} className="mr-1" /> Load Demo Data
-              </button>
+              <div className="flex items-center space-x-4">
+                {duplicateGroups.length > 0 && (
+                  <button
+                    onClick={() => setIsReviewingDuplicates(true)}
+                    className="text-sm text-amber-600 dark:text-amber-400 font-medium hover:underline flex items-center"
+                  >
+                    <Copy size={14} className="mr-1" /> {duplicateGroups.length} possible duplicates
+                  </button>
+                )}
+                <button 
+                  onClick={startDemoMode}
+                  className="text-sm text-blue-600 dark:text-blue-400 font-medium hover:underline flex items-center"
+                >
+                  <Play size={14} className="mr-1" /> Load Demo Data
+                </button>
+              </div>
             </div>
              {projects.length === 0 ? (
                 <div className="text-center py-20 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700">
@@ -679,6 +1302,44 @@ const App: React.FC = () => {
       );
     }
 
+    if (activeTab === 'tasks') {
+      return (
+        <Tasks
+          tasks={followUps}
+          currentUserId={currentUser?.id}
+          showOwnerFilter={members.length > 1}
+          onStartCall={(task) => handleStartCall(task.lead, taskContext(task))}
+          onStartCalls={handleStartFollowUps}
+          onComplete={handleCompleteFollowUp}
+          onStop={handleStopFollowUp}
+        />
+      );
+    }
+
+    if (activeTab === 'calendar') {
+      return (
+        <AppointmentsCalendar
+          appointments={appointments}
+          currentUserId={currentUser?.id}
+          showOwnerFilter={members.length > 1}
+          onGetFeedUrl={activeWorkspace ? (reset) => getCalendarFeedUrl(activeWorkspace.id, reset) : undefined}
+        />
+      );
+    }
+
+    if (activeTab === 'pipeline') {
+      return (
+        <PipelineBoard
+          deals={deals}
+          members={members}
+          currentUserId={currentUser?.id}
+          showOwnerFilter={members.length > 1}
+          onMoveDeal={handleMoveDeal}
+          onOpenDeal={({ lead, source }) => setOpenedSearchEntry({ lead, source, stage: lead.deal?.stage })}
+        />
+      );
+    }
+
     if (activeTab === 'contacts') {
       return (
         <ContactLists 
@@ -692,6 +1353,20 @@ const App: React.FC = () => {
           onEnrich={handleEnrichListLead}
           onFindSimilar={handleFindSimilar}
           isDevMode={isDevMode}
+          members={members}
+          currentUserId={currentUser?.id}
+          onAssignList={handleAssignList}
+          outcomes={outcomes}
+          cadences={cadences}
+          scoringRules={scoringRules}
+          onSetListCadence={handleSetListCadence}
+          onAddListToPipeline={handleAddListToPipeline}
+          onStartDialSession={handleDialList}
+          onImportLeads={handleImportLeads}
+          duplicateCount={duplicateGroups.length}
+          onReviewDuplicates={() => setIsReviewingDuplicates(true)}
+          onPushToCrm={crmConnection ? (listId, leads) => handlePushToCrm({ type: 'list', parentId: listId }, leads) : undefined}
+          crmProvider={crmConnection?.provider}
         />
       );
     }
@@ -703,12 +1378,19 @@ const App: React.FC = () => {
                 onAddScript={handleAddScript}
                 onUpdateScript={handleUpdateScript}
                 onDeleteScript={handleDeleteScript}
+                outcomes={outcomes}
+                objections={objections}
+                onChangeObjections={setObjections}
+                experiments={experiments}
+                onChangeExperiments={setExperiments}
+                members={members}
+                currentUserId={currentUser?.id}
             />
         );
     }
 
     if (activeTab === 'controlling') {
-       return <Controlling projects={projects} contactLists={contactLists} />;
+       return <Controlling projects={projects} contactLists={contactLists} scripts={scripts} outcomes={outcomes} objections={objections} experiments={experiments} />;
     }
 
     return null;
@@ -718,7 +1400,15 @@ const App: React.FC = () => {
   // RENDER: Auth Page vs Main App
   // ----------------------------------------------------------------------
 
-  if (!isAuthenticated) {
+  if (!isAuthChecked) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 text-slate-500 dark:text-slate-400">
+        <Loader2 size={20} className="animate-spin mr-2" /> Checking your session...
+      </div>
+    );
+  }
+
+  if (!currentUser) {
     return <AuthPage onLogin={handleLogin} />;
   }
 
@@ -778,19 +1468,90 @@ const App: React.FC = () => {
       onToggleDarkMode={() => setIsDarkMode(!isDarkMode)}
       onOpenSettings={() => setIsSettingsOpen(true)}
       onLogout={handleLogout}
+      currentUser={currentUser}
+      workspaces={workspaces}
+      activeWorkspaceId={activeWorkspaceId}
+      onSwitchWorkspace={handleSwitchWorkspace}
+      dueTaskCount={dueFollowUpCount}
+      onOpenSearch={() => setIsSearchOpen(true)}
     >
       {renderContent()}
       
       {/* GLOBAL CALL WIZARD MODAL */}
       {activeCallLead && (
           <CallWizard 
+            key={`${activeCallContext?.parentId}:${activeCallLead.id}`}
             lead={activeCallLead}
             scripts={scripts}
+            objections={objections}
+            experiment={activeExperiment(experiments)}
+            currentUser={currentUser}
             onClose={() => {
-                setActiveCallLead(null);
-                setActiveCallContext(null);
+                if (dialSession && !dialSession.endedAt) {
+                    finishDialSession(dialSession);
+                } else {
+                    setActiveCallLead(null);
+                    setActiveCallContext(null);
+                }
             }}
             onLogCall={handleLogCall}
+            outcomes={outcomes}
+            sessionBar={dialSession && !dialSession.endedAt && (
+                <DialSessionBar
+                    name={dialSession.name}
+                    stats={summarizeDialSession(dialSession, outcomes)}
+                    onSkip={() => openDialTarget({ ...dialSession, skipped: dialSession.skipped + 1 }, dialSession.position + 1)}
+                    onEnd={() => finishDialSession(dialSession)}
+                />
+            )}
+          />
+      )}
+
+      {/* POWER DIALER SUMMARY */}
+      {dialSession?.endedAt && (
+          <DialSessionSummary
+            session={dialSession}
+            stats={summarizeDialSession(dialSession, outcomes)}
+            onClose={() => setDialSession(null)}
+          />
+      )}
+
+      {/* GLOBAL SEARCH */}
+      {isSearchOpen && (
+          <CommandPalette
+            entries={searchEntries}
+            context={queryContext}
+            savedFilters={savedFilters}
+            onSaveFilter={handleSaveFilter}
+            onDeleteFilter={handleDeleteFilter}
+            onOpenLead={handleOpenSearchResult}
+            onDial={handleDialSearch}
+            onClose={() => setIsSearchOpen(false)}
+          />
+      )}
+      {openedSearchEntry && (
+          <LeadDetailPanel
+            lead={findLead(sourceContext(openedSearchEntry.source), openedSearchEntry.lead.id) || null}
+            onClose={() => setOpenedSearchEntry(null)}
+            onUpdate={(lead) => replaceLead(sourceContext(openedSearchEntry.source), lead)}
+            onStartCall={(lead) => handleStartCall(lead, sourceContext(openedSearchEntry.source))}
+            isDevMode={isDevMode}
+            members={members}
+            outcomes={outcomes}
+            cadences={cadences}
+            scoringRules={scoringRules}
+            currentUserId={currentUser?.id}
+          />
+      )}
+
+      {/* DUPLICATE REVIEW */}
+      {isReviewingDuplicates && (
+          <DuplicateReview
+            groups={duplicateGroups}
+            members={members}
+            onMerge={handleMergeDuplicates}
+            onDismiss={handleDismissDuplicates}
+            onClose={() => setIsReviewingDuplicates(false)}
           />
       )}
 
@@ -801,6 +1562,19 @@ const App: React.FC = () => {
          phoneNumbers={phoneNumbers}
          onAddNumber={handleAddPhoneNumber}
          onRemoveNumber={handleRemovePhoneNumber}
+         workspace={activeWorkspace}
+         currentUserId={currentUser.id}
+         onAddMember={handleAddMember}
+         onRemoveMember={handleRemoveMember}
+         onCreateWorkspace={handleCreateWorkspace}
+         outcomes={outcomes}
+         onChangeOutcomes={setOutcomes}
+         cadences={cadences}
+         onChangeCadences={setCadences}
+         scoringRules={scoringRules}
+         onChangeScoringRules={setScoringRules}
+         crmConnection={crmConnection}
+         onChangeCrmConnection={setCrmConnection}
       />
     </Layout>
   );
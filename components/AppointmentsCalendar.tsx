@@ -0,0 +1,286 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download, Link2, Copy, RefreshCw, Phone, MapPin, User, Calendar as CalendarIcon, Database, Users } from 'lucide-react';
+import { Button } from './Button';
+import { Appointment, toCalendarEvent } from '../services/appointments';
+import { buildICalendar } from '../services/icalendar';
+import { downloadBlob } from '../services/leadExport';
+import { addDays, startOfDay, startOfWeek } from '../services/callMetrics';
+
+interface AppointmentsCalendarProps {
+  appointments: Appointment[];
+  currentUserId?: string;
+  showOwnerFilter?: boolean; // Only useful with more than one workspace member
+  onGetFeedUrl?: (reset?: boolean) => Promise<string>;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const sameDay = (a: Date, b: Date) => startOfDay(a).getTime() === startOfDay(b).getTime();
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+const downloadCalendar = (appointments: Appointment[], calendarName: string, fileName: string) => {
+  const blob = new Blob([buildICalendar(appointments.map(toCalendarEvent), calendarName)], { type: 'text/calendar;charset=utf-8' });
+  downloadBlob(blob, fileName);
+};
+
+const fileNameFor = (appointment: Appointment) =>
+  `appointment_${appointment.lead.name.replace(/[^\w-]+/g, '_')}_${appointment.start.slice(0, 10)}.ics`;
+
+export const AppointmentsCalendar: React.FC<AppointmentsCalendarProps> = ({
+  appointments,
+  currentUserId,
+  showOwnerFilter,
+  onGetFeedUrl
+}) => {
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [onlyMine, setOnlyMine] = useState(false);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [feedOnlyMine, setFeedOnlyMine] = useState(false);
+  const [feedError, setFeedError] = useState<string | null>(null);
+  const [isLoadingFeed, setIsLoadingFeed] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const visible = useMemo(
+    () => onlyMine ? appointments.filter(a => a.log.callerId === currentUserId) : appointments,
+    [appointments, onlyMine, currentUserId]
+  );
+  const selected = visible.find(a => a.id === selectedId) || null;
+
+  // Six full weeks starting on the Monday before the 1st
+  const days = useMemo(() => {
+    const first = startOfWeek(month);
+    return Array.from({ length: 42 }, (_, i) => addDays(first, i));
+  }, [month]);
+
+  const now = new Date();
+  const upcoming = visible.filter(a => new Date(a.start).getTime() >= startOfDay(now).getTime()).slice(0, 10);
+
+  const loadFeed = async (reset = false) => {
+    if (!onGetFeedUrl) return;
+    setIsLoadingFeed(true);
+    setFeedError(null);
+    try {
+      setFeedUrl(await onGetFeedUrl(reset));
+    } catch (e: any) {
+      setFeedError(e.message || 'The calendar feed is not available offline');
+    } finally {
+      setIsLoadingFeed(false);
+    }
+  };
+
+  const shownFeedUrl = feedUrl && (feedOnlyMine ? `${feedUrl}?mine=1` : feedUrl);
+
+  const handleCopy = async () => {
+    if (!shownFeedUrl) return;
+    await navigator.clipboard.writeText(shownFeedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-white">Appointments</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">Meetings booked in calls, ready for your own calendar.</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          {showOwnerFilter && (
+            <label className="flex items-center space-x-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={onlyMine} onChange={e => setOnlyMine(e.target.checked)} />
+              <span>Booked by me</span>
+            </label>
+          )}
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => downloadCalendar(visible, 'LeadScout Appointments', 'appointments.ics')}
+            disabled={visible.length === 0}
+            className="dark:bg-slate-700 dark:text-white dark:border-slate-600 dark:hover:bg-slate-600"
+          >
+            <Download size={16} className="mr-2" /> Export .ics
+          </Button>
+          {onGetFeedUrl && (
+            <Button size="sm" onClick={() => feedUrl ? setFeedUrl(null) : loadFeed()} isLoading={isLoadingFeed}>
+              <Link2 size={16} className="mr-2" /> Subscribe
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {feedError && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          {feedError}
+        </div>
+      )}
+
+      {shownFeedUrl && (
+        <div className="p-4 rounded-lg bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 space-y-3">
+          <p className="text-sm text-slate-700 dark:text-slate-200">
+            Add this address in Google Calendar ("From URL"), Outlook ("Subscribe from web") or Apple Calendar.
+            Anyone with the address can see the appointments, so keep it private.
+          </p>
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              readOnly
+              value={shownFeedUrl}
+              onFocus={e => e.target.select()}
+              className="flex-1 border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm font-mono bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+            />
+            <Button size="sm" variant="secondary" onClick={handleCopy}>
+              <Copy size={14} className="mr-1" /> {copied ? 'Copied' : 'Copy'}
+            </Button>
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <label className="flex items-center space-x-2 text-slate-600 dark:text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={feedOnlyMine} onChange={e => setFeedOnlyMine(e.target.checked)} />
+              <span>Only appointments I booked</span>
+            </label>
+            <button
+              onClick={() => {
+                if (window.confirm('Create a new address? Calendars subscribed to the current one stop updating.')) loadFeed(true);
+              }}
+              className="flex items-center text-xs text-slate-500 hover:text-red-600 dark:text-slate-400"
+            >
+              <RefreshCw size={12} className="mr-1" /> New address
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Month Grid */}
+        <div className="lg:col-span-2 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 shadow-sm">
+          <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700">
+            <h3 className="font-bold text-slate-800 dark:text-white">
+              {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+            </h3>
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}
+                className="p-1.5 rounded text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700"
+                title="Previous month"
+              >
+                <ChevronLeft size={18} />
+              </button>
+              <button
+                onClick={() => setMonth(new Date(now.getFullYear(), now.getMonth(), 1))}
+                className="px-2 py-1 text-sm rounded text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+              >
+                Today
+              </button>
+              <button
+                onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}
+                className="p-1.5 rounded text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700"
+                title="Next month"
+              >
+                <ChevronRight size={18} />
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-7 text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase border-b border-slate-200 dark:border-slate-700">
+            {WEEKDAYS.map(day => <div key={day} className="px-2 py-2 text-center">{day}</div>)}
+          </div>
+          <div className="grid grid-cols-7">
+            {days.map(day => {
+              const dayAppointments = visible.filter(a => sameDay(new Date(a.start), day));
+              const inMonth = day.getMonth() === month.getMonth();
+              return (
+                <div
+                  key={day.toISOString()}
+                  className={`min-h-[88px] p-1.5 border-b border-r border-slate-100 dark:border-slate-700/50 ${inMonth ? '' : 'bg-slate-50 dark:bg-slate-900/40'}`}
+                >
+                  <div className={`text-xs mb-1 w-6 h-6 flex items-center justify-center rounded-full ${sameDay(day, now) ? 'bg-blue-600 text-white font-bold' : inMonth ? 'text-slate-700 dark:text-slate-300' : 'text-slate-400 dark:text-slate-600'}`}>
+                    {day.getDate()}
+                  </div>
+                  <div className="space-y-1">
+                    {dayAppointments.map(a => (
+                      <button
+                        key={a.id}
+                        onClick={() => setSelectedId(a.id)}
+                        className={`w-full text-left text-[11px] leading-tight px-1.5 py-1 rounded truncate transition-colors ${a.id === selectedId ? 'bg-green-600 text-white' : 'bg-green-100 text-green-800 hover:bg-green-200 dark:bg-green-900/40 dark:text-green-300 dark:hover:bg-green-900/60'}`}
+                        title={a.lead.name}
+                      >
+                        <span className="font-semibold">{formatTime(a.start)}</span> {a.lead.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Details & Upcoming */}
+        <div className="space-y-6">
+          {selected && (
+            <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 shadow-sm p-5 space-y-3">
+              <div>
+                <h3 className="font-bold text-lg text-slate-800 dark:text-white">{selected.lead.name}</h3>
+                <p className="text-sm text-slate-500 dark:text-slate-400">
+                  {new Date(selected.start).toLocaleString(undefined, { weekday: 'long', day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit' })}
+                </p>
+              </div>
+              <div className="space-y-2 text-sm text-slate-600 dark:text-slate-300">
+                {selected.lead.phone && (
+                  <a href={`tel:${selected.lead.phone}`} className="flex items-center hover:text-blue-600"><Phone size={14} className="mr-2 text-slate-400" /> {selected.lead.phone}</a>
+                )}
+                {selected.lead.address && <div className="flex items-start"><MapPin size={14} className="mr-2 mt-0.5 text-slate-400 shrink-0" /> {selected.lead.address}</div>}
+                {selected.log.callerName && <div className="flex items-center"><User size={14} className="mr-2 text-slate-400" /> Booked by {selected.log.callerName}</div>}
+                <div className="flex items-center">
+                  {selected.source.type === 'project' ? <Database size={14} className="mr-2 text-slate-400" /> : <Users size={14} className="mr-2 text-slate-400" />}
+                  {selected.source.name}
+                </div>
+              </div>
+              {(selected.log.analysis?.userNotes || selected.log.notes) && (
+                <p className="text-sm bg-slate-50 dark:bg-slate-900/50 rounded p-3 text-slate-600 dark:text-slate-300 whitespace-pre-wrap">
+                  {selected.log.analysis?.userNotes || selected.log.notes}
+                </p>
+              )}
+              <Button size="sm" variant="secondary" className="w-full" onClick={() => downloadCalendar([selected], selected.lead.name, fileNameFor(selected))}>
+                <Download size={14} className="mr-2" /> Add to Calendar (.ics)
+              </Button>
+            </div>
+          )}
+
+          <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 shadow-sm">
+            <h3 className="px-5 py-3 border-b border-slate-200 dark:border-slate-700 text-sm font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Upcoming</h3>
+            {upcoming.length === 0 ? (
+              <div className="p-8 text-center text-slate-500 dark:text-slate-400 text-sm">
+                <CalendarIcon size={28} className="mx-auto text-slate-300 dark:text-slate-600 mb-2" />
+                No upcoming appointments.
+              </div>
+            ) : (
+              <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+                {upcoming.map(a => (
+                  <li key={a.id} className="flex items-center justify-between px-5 py-3">
+                    <button onClick={() => { setSelectedId(a.id); setMonth(new Date(new Date(a.start).getFullYear(), new Date(a.start).getMonth(), 1)); }} className="text-left min-w-0">
+                      <div className="text-sm font-medium text-slate-800 dark:text-white truncate">{a.lead.name}</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">
+                        {new Date(a.start).toLocaleDateString()} · {formatTime(a.start)}
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => downloadCalendar([a], a.lead.name, fileNameFor(a))}
+                      className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded transition-colors"
+                      title="Download .ics"
+                    >
+                      <Download size={16} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { WorkspaceMember } from '../types';
+
+interface AssigneeSelectProps {
+  members: WorkspaceMember[];
+  value?: string;
+  onChange: (userId: string | undefined) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+export const AssigneeSelect: React.FC<AssigneeSelectProps> = ({ members, value, onChange, placeholder = 'Unassigned', className = '' }) => (
+  <select
+    value={value || ''}
+    onChange={(e) => onChange(e.target.value || undefined)}
+    onClick={(e) => e.stopPropagation()}
+    className={`text-sm border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white ${className}`}
+  >
+    <option value="">{placeholder}</option>
+    {members.map(member => (
+      <option key={member.userId} value={member.userId}>{member.displayName}</option>
+    ))}
+    {/* Keep former members visible instead of silently showing "Unassigned" */}
+    {value && !members.some(m => m.userId === value) && <option value={value}>Former member</option>}
+  </select>
+);
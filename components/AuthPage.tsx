@@ -1,16 +1,19 @@
 
 import React, { useState } from 'react';
-import { Database, Mail, Lock, ArrowRight, Github, Chrome, CheckCircle2, AlertCircle } from 'lucide-react';
+import { Database, Mail, Lock, ArrowRight, Github, Chrome, CheckCircle2, AlertCircle, User } from 'lucide-react';
 import { Button } from './Button';
+import { AuthUser } from '../types';
+import { login, register } from '../services/authService';
 
 interface AuthPageProps {
-  onLogin: () => void;
+  onLogin: (user: AuthUser) => void;
 }
 
 export const AuthPage: React.FC<AuthPageProps> = ({ onLogin }) => {
   const [isLogin, setIsLogin] = useState(true);
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -19,25 +22,14 @@ export const AuthPage: React.FC<AuthPageProps> = ({ onLogin }) => {
     setError('');
     setIsLoading(true);
 
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 800));
-
-    if (isLogin) {
-      if (username === 'admin' && password === 'prozess17') {
-        onLogin();
-      } else {
-        setError('Invalid credentials. Please try again.');
-        setIsLoading(false);
-      }
-    } else {
-      // Registration simulation
-      if (username.length < 3 || password.length < 6) {
-         setError('Password must be at least 6 characters.');
-         setIsLoading(false);
-      } else {
-         // Auto-login for demo registration
-         onLogin();
-      }
+    try {
+      const user = isLogin
+        ? await login(username, password)
+        : await register(username, password, displayName);
+      onLogin(user);
+    } catch (err: any) {
+      setError(err.message || 'Could not reach the server. Please try again.');
+      setIsLoading(false);
     }
   };
 
@@ -106,19 +98,33 @@ export const AuthPage: React.FC<AuthPageProps> = ({ onLogin }) => {
                </p>
             </div>
 
-            {/* Demo Credentials Hint */}
-            {isLogin && (
+            {/* First-run Hint */}
+            {!isLogin && (
               <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-800 rounded-lg p-4 text-sm text-blue-800 dark:text-blue-300">
-                 <p className="font-bold mb-1 flex items-center"><AlertCircle size={14} className="mr-2"/> Demo Credentials:</p>
-                 <div className="grid grid-cols-2 gap-2 mt-2 font-mono text-xs">
-                    <div>User: <span className="bg-white dark:bg-slate-800 px-1 py-0.5 rounded border border-blue-200 dark:border-blue-700 select-all">admin</span></div>
-                    <div>Pass: <span className="bg-white dark:bg-slate-800 px-1 py-0.5 rounded border border-blue-200 dark:border-blue-700 select-all">prozess17</span></div>
-                 </div>
+                 <p className="flex items-center"><AlertCircle size={14} className="mr-2 shrink-0"/> The first account created on this server becomes its administrator.</p>
               </div>
             )}
 
             <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
                <div className="space-y-4">
+                  {!isLogin && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Full Name</label>
+                      <div className="relative">
+                         <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                            <User size={18} className="text-slate-400" />
+                         </div>
+                         <input 
+                           type="text" 
+                           value={displayName}
+                           onChange={(e) => setDisplayName(e.target.value)}
+                           className="block w-full pl-10 pr-3 py-2.5 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-shadow"
+                           placeholder="Jane Doe"
+                         />
+                      </div>
+                    </div>
+                  )}
+
                   <div>
                     <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Username / Email</label>
                     <div className="relative">
@@ -131,7 +137,8 @@ export const AuthPage: React.FC<AuthPageProps> = ({ onLogin }) => {
                          value={username}
                          onChange={(e) => setUsername(e.target.value)}
                          className="block w-full pl-10 pr-3 py-2.5 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-shadow"
-                         placeholder={isLogin ? "admin" : "name@company.com"}
+                         autoComplete="username"
+                         placeholder="name@company.com"
                        />
                     </div>
                   </div>
@@ -148,6 +155,8 @@ export const AuthPage: React.FC<AuthPageProps> = ({ onLogin }) => {
                        <input 
                          type="password" 
                          required
+                         minLength={isLogin ? undefined : 8}
+                         autoComplete={isLogin ? "current-password" : "new-password"}
                          value={password}
                          onChange={(e) => setPassword(e.target.value)}
                          className="block w-full pl-10 pr-3 py-2.5 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-shadow"
@@ -0,0 +1,24 @@
+import React from 'react';
+import { Cadence } from '../types';
+
+interface CadenceSelectProps {
+  cadences: Cadence[];
+  value?: string;
+  onChange: (cadenceId: string | undefined) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+export const CadenceSelect: React.FC<CadenceSelectProps> = ({ cadences, value, onChange, placeholder = 'No follow-up cadence', className = '' }) => (
+  <select
+    value={value || ''}
+    onChange={(e) => onChange(e.target.value || undefined)}
+    onClick={(e) => e.stopPropagation()}
+    className={`text-sm border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white ${className}`}
+  >
+    <option value="">{placeholder}</option>
+    {cadences.map(cadence => (
+      <option key={cadence.id} value={cadence.id}>{cadence.name}</option>
+    ))}
+  </select>
+);
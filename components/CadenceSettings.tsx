@@ -0,0 +1,148 @@
+import React from 'react';
+import { Plus, Trash2, Phone, Mail } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { Button } from './Button';
+import { Cadence, CadenceStep, CadenceStepType, OutcomeCategory } from '../types';
+import { OUTCOME_CATEGORY_LABELS } from '../services/outcomes';
+
+interface CadenceSettingsProps {
+  cadences: Cadence[];
+  onChangeCadences: (cadences: Cadence[]) => void;
+}
+
+const CATEGORIES = Object.keys(OUTCOME_CATEGORY_LABELS) as OutcomeCategory[];
+
+const inputClass = "border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white";
+
+export const CadenceSettings: React.FC<CadenceSettingsProps> = ({ cadences, onChangeCadences }) => {
+  const update = (id: string, changes: Partial<Cadence>) => {
+    onChangeCadences(cadences.map(c => c.id === id ? { ...c, ...changes } : c));
+  };
+
+  const updateStep = (cadence: Cadence, stepId: string, changes: Partial<CadenceStep>) => {
+    update(cadence.id, { steps: cadence.steps.map(s => s.id === stepId ? { ...s, ...changes } : s) });
+  };
+
+  const toggleExitCategory = (cadence: Cadence, category: OutcomeCategory) => {
+    update(cadence.id, {
+      exitCategories: cadence.exitCategories.includes(category)
+        ? cadence.exitCategories.filter(c => c !== category)
+        : [...cadence.exitCategories, category],
+    });
+  };
+
+  const handleAdd = () => {
+    onChangeCadences([...cadences, {
+      id: uuidv4(),
+      name: 'New Cadence',
+      steps: [{ id: uuidv4(), type: 'call', delayDays: 1 }],
+      exitCategories: ['rejection', 'appointment'],
+    }]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <p className="text-slate-500 dark:text-slate-400 text-sm max-w-lg">
+          Follow-up sequences for leads that were not reached. Attach a cadence to a project or list and unreached
+          leads are enrolled automatically; their steps show up under Tasks.
+        </p>
+        <Button onClick={handleAdd}>
+          <Plus size={16} className="mr-2" /> Add Cadence
+        </Button>
+      </div>
+
+      {cadences.length === 0 && (
+        <div className="text-center py-12 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700 border-dashed">
+          <p className="text-slate-500 dark:text-slate-400">No cadences yet.</p>
+        </div>
+      )}
+
+      {cadences.map(cadence => (
+        <div key={cadence.id} className="p-4 bg-white dark:bg-slate-700/30 border border-slate-200 dark:border-slate-700 rounded-lg space-y-4">
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={cadence.name}
+              onChange={e => update(cadence.id, { name: e.target.value })}
+              className={`${inputClass} flex-1 font-medium`}
+            />
+            <button
+              onClick={() => {
+                if (window.confirm(`Delete "${cadence.name}"? Leads in it stop receiving follow-ups.`)) {
+                  onChangeCadences(cadences.filter(c => c.id !== cadence.id));
+                }
+              }}
+              className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded transition-colors"
+              title="Delete cadence"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+
+          <ol className="space-y-2">
+            {cadence.steps.map((step, index) => (
+              <li key={step.id} className="flex items-center space-x-2 text-sm text-slate-600 dark:text-slate-300">
+                <span className="w-6 text-right text-slate-400">{index + 1}.</span>
+                {step.type === 'call' ? <Phone size={14} className="text-blue-500" /> : <Mail size={14} className="text-purple-500" />}
+                <select
+                  value={step.type}
+                  onChange={e => updateStep(cadence, step.id, { type: e.target.value as CadenceStepType })}
+                  className={inputClass}
+                >
+                  <option value="call">Call</option>
+                  <option value="email">Email</option>
+                </select>
+                <span>after</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={step.delayDays}
+                  onChange={e => updateStep(cadence, step.id, { delayDays: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className={`${inputClass} w-16`}
+                />
+                <span>{step.delayDays === 1 ? 'day' : 'days'}</span>
+                <input
+                  type="text"
+                  value={step.note || ''}
+                  onChange={e => updateStep(cadence, step.id, { note: e.target.value || undefined })}
+                  placeholder="Note (optional)"
+                  className={`${inputClass} flex-1`}
+                />
+                <button
+                  onClick={() => update(cadence.id, { steps: cadence.steps.filter(s => s.id !== step.id) })}
+                  className="p-2 text-slate-400 hover:text-red-600 rounded transition-colors"
+                  title="Remove step"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ol>
+          <button
+            onClick={() => update(cadence.id, { steps: [...cadence.steps, { id: uuidv4(), type: 'call', delayDays: 7 }] })}
+            className="text-sm text-blue-600 dark:text-blue-400 font-medium hover:underline flex items-center"
+          >
+            <Plus size={14} className="mr-1" /> Add step
+          </button>
+
+          <div className="pt-3 border-t border-slate-100 dark:border-slate-700">
+            <div className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">Ends on</div>
+            <div className="flex flex-wrap gap-4 text-sm text-slate-600 dark:text-slate-300">
+              {CATEGORIES.map(category => (
+                <label key={category} className="flex items-center space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={cadence.exitCategories.includes(category)}
+                    onChange={() => toggleExitCategory(cadence, category)}
+                  />
+                  <span>{OUTCOME_CATEGORY_LABELS[category]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
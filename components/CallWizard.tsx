@@ -1,39 +1,95 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Lead, Script, CallLog, CallAnalysis } from '../types';
+import { Lead, Script, CallLog, CallAnalysis, DataFetchError, CallOutcome, OutcomeCategory, CallFlowStage, ScriptBranch, ScriptNode, ScriptPathStep, Objection, ScriptExperiment, AuthUser } from '../types';
 import { v4 as uuidv4 } from 'uuid';
-import { X, Phone, Mic, StopCircle, Cloud, Loader2, Check, UserX, ShieldCheck, UserCheck, ThumbsUp, ThumbsDown, Calendar, HelpCircle, FileText, ArrowRight, Mail, PenTool, Sparkles, Lock } from 'lucide-react';
-import { generateCallAnalysis } from '../services/geminiService';
+import { X, Phone, Mic, StopCircle, Cloud, Loader2, Check, UserX, ShieldCheck, UserCheck, ThumbsUp, ThumbsDown, Calendar, HelpCircle, FileText, ArrowRight, Mail, PenTool, Sparkles, Lock, Undo2, MessageSquareWarning, FlaskConical } from 'lucide-react';
+import { analyzeCallRecording } from '../services/geminiService';
+import { computeScriptAdherence, estimateCallAnalysis, htmlToText } from '../services/callAnalysis';
 import { Button } from './Button';
+import { DataFetchErrorNotice } from './DataFetchErrorNotice';
+import { DEFAULT_CALL_OUTCOMES, outcomesInCategory } from '../services/outcomes';
+import { findNode, nodeForStage, visitedNodes } from '../services/scriptGraph';
+import { BRANCH_KIND_COLORS } from './ScriptGraphEditor';
+import { ObjectionLookup, RaisedObjectionDraft } from './ObjectionLookup';
+import { isOvercomeByOutcome } from '../services/objections';
+import { assignVariant } from '../services/experiments';
+import { currentVersion } from '../services/scriptVersions';
+import { renderTemplate } from '../services/templateEngine';
 
 type CallStep = 'CONNECT' | 'REACHED_WHOM' | 'GATEKEEPER_PATH' | 'DM_PATH' | 'INTEREST_SUBPATH' | 'APPOINTMENT' | 'SUMMARY';
 
+// Where a branching script and the wizard meet; reaching one moves the other along
+const STEP_STAGES: Partial<Record<CallStep, CallFlowStage>> = {
+  CONNECT: 'opening',
+  GATEKEEPER_PATH: 'gatekeeper',
+  DM_PATH: 'decisionMaker',
+  INTEREST_SUBPATH: 'interest',
+  APPOINTMENT: 'appointment',
+};
+
+const STAGE_STEPS: Record<CallFlowStage, CallStep> = {
+  opening: 'CONNECT',
+  gatekeeper: 'GATEKEEPER_PATH',
+  decisionMaker: 'DM_PATH',
+  interest: 'INTEREST_SUBPATH',
+  appointment: 'APPOINTMENT',
+};
+
+// A branching script starts at its start node; other scripts have no path
+const startPathOf = (script?: Script): ScriptPathStep[] => {
+  const start = script?.graph && findNode(script.graph, script.graph.startNodeId);
+  return start ? [{ nodeId: start.id, title: start.title }] : [];
+};
+
+const CATEGORY_ICONS: Record<OutcomeCategory, React.ElementType> = {
+  no_contact: UserX,
+  gatekeeper: X,
+  rejection: ThumbsDown,
+  interest: Mail,
+  appointment: Calendar,
+};
+
 interface CallWizardProps {
   lead: Lead;
   scripts: Script[];
+  objections?: Objection[];
+  experiment?: ScriptExperiment; // Running A/B test, which picks the script
+  currentUser?: AuthUser | null; // Assigns A/B variants by caller and fills the {{me.*}} variables
   onClose: () => void;
   onLogCall: (log: CallLog, updatedLeadStatus?: string, appointmentDate?: string) => void;
   isPremium?: boolean; // For future paywall integration
+  outcomes?: CallOutcome[];
+  sessionBar?: React.ReactNode; // Power-dialer progress shown above the wizard
 }
 
-export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose, onLogCall, isPremium = true }) => {
+export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, objections = [], experiment, currentUser, onClose, onLogCall, isPremium = true, outcomes = DEFAULT_CALL_OUTCOMES, sessionBar }) => {
   const [callStep, setCallStep] = useState<CallStep>('CONNECT');
-  const [selectedScriptId, setSelectedScriptId] = useState<string>('');
+  // The A/B test variant is preselected; calls only count for the test if the caller keeps it
+  const assignedVariant = experiment ? assignVariant(experiment, lead.id, currentUser?.id) : undefined;
+  const assignedScript = scripts.find(s => s.id === assignedVariant?.scriptId);
+  const [selectedScriptId, setSelectedScriptId] = useState<string>(assignedScript?.id || '');
+  const [scriptPath, setScriptPath] = useState<ScriptPathStep[]>(() => startPathOf(assignedScript)); // Nodes of a branching script visited so far
+  const [raisedObjections, setRaisedObjections] = useState<RaisedObjectionDraft[]>([]);
+  const [isObjectionLookupOpen, setIsObjectionLookupOpen] = useState(false);
   const [appointmentDate, setAppointmentDate] = useState('');
   const [appointmentTime, setAppointmentTime] = useState('');
+  const [callbackDate, setCallbackDate] = useState('');
+  const [callbackTime, setCallbackTime] = useState('');
   
   // Data Collection State
   const [notes, setNotes] = useState('');
-  const [selectedOutcome, setSelectedOutcome] = useState('');
+  const [selectedOutcome, setSelectedOutcome] = useState<CallOutcome | null>(null);
   const [manualSentiment, setManualSentiment] = useState<'Positive' | 'Neutral' | 'Negative' | null>(null);
   const [generatedAnalysis, setGeneratedAnalysis] = useState<CallAnalysis | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisError, setAnalysisError] = useState<DataFetchError | null>(null);
   
   // Recording State
   const [isRecording, setIsRecording] = useState(false);
   const [recordingBlob, setRecordingBlob] = useState<Blob | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  const recordingDoneRef = useRef<((blob: Blob) => void) | null>(null);
 
   useEffect(() => {
     // Initiate tel link on mount
@@ -42,6 +98,20 @@ export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose,
     }
   }, [lead.phone]);
 
+  // "/" opens the objection lookup unless the caller is typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      const isTyping = ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable;
+      if (e.key === '/' && !isTyping && callStep !== 'SUMMARY') {
+        e.preventDefault();
+        setIsObjectionLookupOpen(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [callStep]);
+
   const startRecording = async () => {
     try {
         const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -53,9 +123,11 @@ export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose,
         };
         
         mediaRecorderRef.current.onstop = () => {
-            const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
+            const blob = new Blob(chunksRef.current, { type: mediaRecorderRef.current?.mimeType || 'audio/webm' });
             setRecordingBlob(blob);
             stream.getTracks().forEach(track => track.stop());
+            recordingDoneRef.current?.(blob);
+            recordingDoneRef.current = null;
         };
 
         mediaRecorderRef.current.start();
@@ -66,36 +138,55 @@ export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose,
     }
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-        mediaRecorderRef.current.stop();
+  // Resolves with the finished recording once the recorder has flushed its last chunk
+  const stopRecording = (): Promise<Blob | null> => {
+    if (!mediaRecorderRef.current || !isRecording) return Promise.resolve(recordingBlob);
+    return new Promise(resolve => {
+        recordingDoneRef.current = resolve;
+        mediaRecorderRef.current!.stop();
         setIsRecording(false);
-    }
+    });
   };
 
-  const handleOutcomeSelection = async (outcome: string) => {
+  const handleOutcomeSelection = async (outcome: CallOutcome) => {
       setSelectedOutcome(outcome);
-      if (isRecording) stopRecording();
       setCallStep('SUMMARY');
-      
-      // Trigger Analysis
       setIsAnalyzing(true);
-      try {
-          const analysis = await generateCallAnalysis(outcome, lead.name);
-          setGeneratedAnalysis(analysis);
-          // Set initial sentiment based on AI if not manually set
-          if (!manualSentiment) setManualSentiment(analysis.sentiment);
-      } catch (e) {
-          console.error("Analysis failed", e);
-      } finally {
-          setIsAnalyzing(false);
+      setAnalysisError(null);
+
+      const recording = await stopRecording();
+      let analysis: CallAnalysis | null = null;
+
+      if (recording && recording.size > 0) {
+          const scriptText = graph
+              ? visitedNodes(graph, scriptPath).map(node => htmlToText(interpolate(node.content))).join('\n')
+              : selectedScriptId ? htmlToText(getInterpolatedScript() || '') : undefined;
+          const result = await analyzeCallRecording(recording, { leadName: lead.name, outcome: outcome.label, scriptText });
+          if (result.error) setAnalysisError(result.error);
+          if (result.analysis) {
+              const adherence = scriptText ? computeScriptAdherence(result.analysis.transcript || '', scriptText) : null;
+              analysis = { ...result.analysis, scriptAdherence: adherence ?? 0 };
+          }
       }
+
+      // Without a usable recording there is nothing to analyze; fall back to an outcome-based estimate
+      if (!analysis) analysis = estimateCallAnalysis(outcome);
+
+      setGeneratedAnalysis(analysis);
+      // Set initial sentiment based on AI if not manually set
+      if (!manualSentiment) setManualSentiment(analysis.sentiment);
+      setIsAnalyzing(false);
   };
 
+  const isFollowingExperiment = !!assignedScript && selectedScriptId === assignedScript.id;
+
+  const isAdherenceAssessed = generatedAnalysis?.basedOn === 'recording' && !!selectedScriptId;
+
   const handleFinalSave = () => {
+      if (!selectedOutcome) return;
       let finalApptDate = undefined;
-      if (selectedOutcome === 'Appointment Set' && appointmentDate) {
-          finalApptDate = `${appointmentDate}T${appointmentTime || '12:00'}:00`;
+      if (selectedOutcome.category === 'appointment' && appointmentDate) {
+          finalApptDate = new Date(`${appointmentDate}T${appointmentTime || '12:00'}:00`).toISOString();
       }
 
       // Merge manual input with AI analysis
@@ -104,63 +195,156 @@ export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose,
           scriptAdherence: generatedAnalysis?.scriptAdherence || 0,
           confidence: generatedAnalysis?.confidence || 'Medium',
           sentiment: manualSentiment || generatedAnalysis?.sentiment || 'Neutral',
-          keyTakeaways: notes ? notes.split('\n').filter(n => n.trim().length > 0) : generatedAnalysis?.keyTakeaways || [],
-          userNotes: notes
+          keyTakeaways: generatedAnalysis?.keyTakeaways?.length
+            ? generatedAnalysis.keyTakeaways
+            : notes.split('\n').filter(n => n.trim().length > 0),
+          userNotes: notes,
+          transcript: generatedAnalysis?.transcript,
+          basedOn: generatedAnalysis?.basedOn
       };
 
       const newLog: CallLog = {
         id: uuidv4(),
         timestamp: new Date().toISOString(),
-        outcome: selectedOutcome,
+        outcomeId: selectedOutcome.id,
+        outcome: selectedOutcome.label,
         appointmentDate: finalApptDate,
         recordingUrl: recordingBlob ? URL.createObjectURL(recordingBlob) : undefined,
         recordingStatus: recordingBlob ? 'Uploaded' : undefined,
         analysis: finalAnalysis,
+        scriptId: selectedScriptId || undefined,
+        scriptVersion: selectedScript ? currentVersion(selectedScript) : undefined,
+        experimentId: isFollowingExperiment ? experiment!.id : undefined,
+        variantId: isFollowingExperiment ? assignedVariant!.id : undefined,
+        scriptPath: graph && scriptPath.length > 0 ? scriptPath : undefined,
+        objections: raisedObjections.length > 0
+          ? raisedObjections.map(r => ({ ...r, overcome: r.overcome ?? isOvercomeByOutcome(selectedOutcome.category) }))
+          : undefined,
+        callbackAt: callbackDate && selectedOutcome.category !== 'appointment' ? new Date(`${callbackDate}T${callbackTime || '09:00'}:00`).toISOString() : undefined,
         notes: notes // Redundant but good for backward compat
       };
 
-      // Determine new lead status based on outcome
-      let newStatus = undefined;
-      if (selectedOutcome === 'Appointment Set' || selectedOutcome === 'Interested') newStatus = 'Contacted';
-      else if (lead.status === 'New') newStatus = 'Contacted';
+      // The outcome decides the new lead status; any call at least moves a new lead to Contacted
+      const newStatus = selectedOutcome.leadStatus || (lead.status === 'New' ? 'Contacted' : undefined);
 
       onLogCall(newLog, newStatus, finalApptDate);
   };
 
-  const getInterpolatedScript = () => {
-    if (!selectedScriptId) return null;
-    const script = scripts.find(s => s.id === selectedScriptId);
-    if (!script) return null;
-
-    let content = script.content;
-    const replacements: Record<string, string> = {
-      leadName: lead.name,
-      company: lead.name,
-      companyName: lead.name,
-      category: lead.category,
-      ceo: lead.ceo || 'Decision Maker',
-      ceoName: lead.ceo || 'the owner',
-      myName: 'Me', 
-      myCompany: 'LeadScout'
-    };
+  // One button per catalog outcome of a category
+  const renderOutcomeButtons = (category: OutcomeCategory, disabled = false) => outcomesInCategory(outcomes, category).map(outcome => {
+      const Icon = CATEGORY_ICONS[category];
+      return (
+          <button 
+            key={outcome.id}
+            onClick={() => handleOutcomeSelection(outcome)} 
+            disabled={disabled}
+            title={outcome.description}
+            className={`p-4 rounded-xl border border-slate-200 dark:border-slate-700 transition-all flex flex-col items-center gap-2 ${disabled ? 'opacity-50 cursor-not-allowed' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'}`}
+          >
+            <Icon size={24} style={{ color: outcome.color }} />
+            <span className="font-medium text-slate-700 dark:text-slate-300">{outcome.label}</span>
+          </button>
+      );
+  });
+
+  const interpolate = (html: string) => renderTemplate(html, { lead, user: currentUser });
+
+  const selectedScript = scripts.find(s => s.id === selectedScriptId);
+  const graph = selectedScript?.graph;
+  const currentNode = graph ? findNode(graph, scriptPath[scriptPath.length - 1]?.nodeId) : undefined;
+
+  const getInterpolatedScript = () => selectedScript ? interpolate(selectedScript.content) : null;
 
-    Object.entries(replacements).forEach(([key, value]) => {
-      const regex = new RegExp(`{{${key}}}`, 'g');
-      content = content.replace(regex, value);
+  const handleSelectScript = (scriptId: string) => {
+    setSelectedScriptId(scriptId);
+    setScriptPath(startPathOf(scripts.find(s => s.id === scriptId)));
+  };
+
+  // `branchLabel` is the answer that led away from the current node
+  const enterNode = (node: ScriptNode, branchLabel?: string) => {
+    setScriptPath(prev => {
+      const last = prev[prev.length - 1];
+      if (last?.nodeId === node.id) return prev;
+      return [...prev.slice(0, -1), ...(last ? [{ ...last, branchLabel }] : []), { nodeId: node.id, title: node.title }];
     });
-    
-    return content;
+  };
+
+  const goToStep = (step: CallStep) => {
+    setCallStep(step);
+    const stage = STEP_STAGES[step];
+    const node = graph && stage && currentNode?.stage !== stage ? nodeForStage(graph, stage) : undefined;
+    if (node) enterNode(node);
+  };
+
+  const handleRaiseObjection = (objection: Objection) => {
+    setRaisedObjections(prev => prev.some(r => r.objectionId === objection.id)
+      ? prev
+      : [...prev, { objectionId: objection.id, title: objection.title }]);
+  };
+
+  const handleSetOvercome = (objectionId: string, overcome: boolean) => {
+    setRaisedObjections(prev => prev.map(r => r.objectionId === objectionId ? { ...r, overcome } : r));
+  };
+
+  const handleBranch = (branch: ScriptBranch) => {
+    if (!graph) return;
+    // An objection answer that is in the library counts as raised
+    const objection = branch.kind === 'objection'
+      ? objections.find(o => o.title.trim().toLowerCase() === branch.label.trim().toLowerCase())
+      : undefined;
+    if (objection) handleRaiseObjection(objection);
+    if (branch.outcomeId) {
+      const outcome = outcomes.find(o => o.id === branch.outcomeId);
+      if (!outcome) return;
+      setScriptPath(prev => prev.map((step, i) => i === prev.length - 1 ? { ...step, branchLabel: branch.label } : step));
+      // Appointments still need a date
+      if (outcome.category === 'appointment') setCallStep('APPOINTMENT');
+      else handleOutcomeSelection(outcome);
+      return;
+    }
+    const target = findNode(graph, branch.targetNodeId);
+    if (!target) return;
+    enterNode(target, branch.label);
+    if (target.stage) setCallStep(STAGE_STEPS[target.stage]);
+  };
+
+  const handleScriptBack = () => {
+    setScriptPath(prev => prev.length > 1
+      ? [...prev.slice(0, -2), { ...prev[prev.length - 2], branchLabel: undefined }]
+      : prev);
   };
 
   return (
-    <div className="fixed inset-0 z-[100] bg-slate-900/70 flex items-center justify-center p-4 backdrop-blur-sm">
+    <div className="fixed inset-0 z-[100] bg-slate-900/70 flex flex-col items-center justify-center p-4 backdrop-blur-sm">
+       {sessionBar}
        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-5xl w-full h-[700px] flex overflow-hidden animate-in fade-in zoom-in duration-200 border border-slate-200 dark:border-slate-700">
           
           {/* Left Side: Script & Notes */}
-          <div className="w-5/12 border-r border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 flex flex-col">
-              <div className="p-4 border-b border-slate-200 dark:border-slate-700">
-                  <h3 className="font-bold text-slate-800 dark:text-white">{lead.name}</h3>
-                  <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{lead.category} • {lead.ceo || 'No CEO'}</p>
+          <div className="w-5/12 border-r border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 flex flex-col relative">
+              {isObjectionLookupOpen && (
+                  <ObjectionLookup
+                    objections={objections}
+                    raised={raisedObjections}
+                    onRaise={handleRaiseObjection}
+                    onSetOvercome={handleSetOvercome}
+                    onClose={() => setIsObjectionLookupOpen(false)}
+                  />
+              )}
+              <div className="p-4 border-b border-slate-200 dark:border-slate-700 flex justify-between items-start">
+                  <div className="min-w-0">
+                      <h3 className="font-bold text-slate-800 dark:text-white">{lead.name}</h3>
+                      <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{lead.category} • {lead.ceo || 'No CEO'}</p>
+                  </div>
+                  {objections.length > 0 && callStep !== 'SUMMARY' && (
+                      <button
+                        onClick={() => setIsObjectionLookupOpen(true)}
+                        className="shrink-0 ml-2 px-2 py-1 text-xs rounded border border-amber-200 dark:border-amber-800 text-amber-700 dark:text-amber-300 hover:bg-amber-50 dark:hover:bg-amber-900/20 flex items-center"
+                        title="Look up an objection (/)"
+                      >
+                          <MessageSquareWarning size={12} className="mr-1" /> Objection
+                          {raisedObjections.length > 0 && <span className="ml-1 font-bold">{raisedObjections.length}</span>}
+                      </button>
+                  )}
               </div>
               
               <div className="p-4 border-b border-slate-200 dark:border-slate-700">
@@ -168,15 +352,54 @@ export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose,
                  <select 
                     className="w-full border border-slate-300 dark:border-slate-600 rounded p-2 text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
                     value={selectedScriptId}
-                    onChange={(e) => setSelectedScriptId(e.target.value)}
+                    onChange={(e) => handleSelectScript(e.target.value)}
                  >
                      <option value="">-- No Script --</option>
                      {scripts.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
                  </select>
+                 {experiment && assignedVariant && assignedScript && (
+                     <p className={`mt-2 text-xs flex items-center ${isFollowingExperiment ? 'text-purple-600 dark:text-purple-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                         <FlaskConical size={12} className="mr-1 shrink-0" />
+                         {isFollowingExperiment
+                           ? `A/B test "${experiment.name}": variant ${assignedVariant.label}`
+                           : `Only calls with "${assignedScript.name}" count for the A/B test`}
+                     </p>
+                 )}
               </div>
 
               <div className="flex-1 overflow-y-auto p-4 bg-white dark:bg-slate-800">
-                  {selectedScriptId ? (
+                  {graph && currentNode ? (
+                      <div className="space-y-4">
+                          <div className="flex items-center justify-between">
+                              <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase">{currentNode.title}</h4>
+                              {scriptPath.length > 1 && (
+                                  <button onClick={handleScriptBack} className="text-xs text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 flex items-center">
+                                      <Undo2 size={12} className="mr-1" /> {scriptPath[scriptPath.length - 2].title}
+                                  </button>
+                              )}
+                          </div>
+                          <div 
+                            className="text-sm text-slate-700 dark:text-slate-300 leading-relaxed font-sans"
+                            dangerouslySetInnerHTML={{ __html: interpolate(currentNode.content) }}
+                          />
+                          {currentNode.branches.length > 0 && (
+                              <div className="space-y-2">
+                                  <p className="text-[10px] font-bold text-slate-400 uppercase">They say</p>
+                                  {currentNode.branches.map(branch => (
+                                      <button
+                                        key={branch.id}
+                                        onClick={() => handleBranch(branch)}
+                                        disabled={callStep === 'SUMMARY' || (!branch.outcomeId && !findNode(graph, branch.targetNodeId))}
+                                        className={`w-full text-left px-3 py-2 rounded-lg border text-sm flex items-center justify-between transition-colors hover:bg-slate-50 dark:hover:bg-slate-700/50 disabled:opacity-50 disabled:cursor-not-allowed ${BRANCH_KIND_COLORS[branch.kind]}`}
+                                      >
+                                          <span>{branch.label || 'Untitled answer'}</span>
+                                          <ArrowRight size={14} className="shrink-0 ml-2" />
+                                      </button>
+                                  ))}
+                              </div>
+                          )}
+                      </div>
+                  ) : selectedScriptId ? (
                       <div 
                         className="text-sm text-slate-700 dark:text-slate-300 leading-relaxed font-sans"
                         dangerouslySetInnerHTML={{ __html: getInterpolatedScript() || '' }}
@@ -238,7 +461,7 @@ export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose,
                     <div className="space-y-6 animate-in slide-in-from-right-4 duration-300">
                         <div className="text-center mb-6">
                             <div className="inline-flex items-center px-3 py-1 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 text-sm font-medium mb-2">
-                                Outcome: {selectedOutcome}
+                                Outcome: {selectedOutcome?.label}
                             </div>
                             <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Call Review</h2>
                         </div>
@@ -260,16 +483,17 @@ export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose,
                             {isAnalyzing ? (
                                 <div className="flex items-center justify-center py-8">
                                     <Loader2 size={24} className="animate-spin text-purple-600 mr-2" />
-                                    <span className="text-sm text-purple-600">Analyzing conversation...</span>
+                                    <span className="text-sm text-purple-600">{recordingBlob || isRecording ? 'Transcribing and analyzing conversation...' : 'Preparing summary...'}</span>
                                 </div>
                             ) : (
+                              <div className="space-y-3">
                                 <div className="grid grid-cols-3 gap-4">
                                     <div className="bg-white dark:bg-slate-900/50 p-3 rounded-lg text-center">
                                         <div className="text-2xl font-bold text-slate-800 dark:text-white">{generatedAnalysis?.callScore}</div>
                                         <div className="text-[10px] text-slate-500 uppercase tracking-wide">Call Score</div>
                                     </div>
                                     <div className="bg-white dark:bg-slate-900/50 p-3 rounded-lg text-center">
-                                        <div className="text-2xl font-bold text-slate-800 dark:text-white">{generatedAnalysis?.scriptAdherence}%</div>
+                                        <div className="text-2xl font-bold text-slate-800 dark:text-white">{isAdherenceAssessed ? `${generatedAnalysis?.scriptAdherence}%` : '–'}</div>
                                         <div className="text-[10px] text-slate-500 uppercase tracking-wide">Adherence</div>
                                     </div>
                                     <div className="bg-white dark:bg-slate-900/50 p-3 rounded-lg text-center">
@@ -277,6 +501,28 @@ export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose,
                                         <div className="text-[10px] text-slate-500 uppercase tracking-wide">Confidence</div>
                                     </div>
                                 </div>
+
+                                {generatedAnalysis?.basedOn === 'outcome' && (
+                                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                                        Estimated from the outcome only. Record the call to get a transcript and script adherence.
+                                    </p>
+                                )}
+
+                                {analysisError && <DataFetchErrorNotice error={analysisError} title="Recording could not be analyzed" />}
+
+                                {generatedAnalysis?.keyTakeaways && generatedAnalysis.keyTakeaways.length > 0 && (
+                                    <ul className="list-disc pl-5 text-xs text-slate-600 dark:text-slate-300 space-y-1">
+                                        {generatedAnalysis.keyTakeaways.map((t, i) => <li key={i}>{t}</li>)}
+                                    </ul>
+                                )}
+
+                                {generatedAnalysis?.transcript && (
+                                    <details className="bg-white dark:bg-slate-900/50 rounded-lg p-3 text-xs">
+                                        <summary className="cursor-pointer font-bold text-slate-600 dark:text-slate-300">Transcript</summary>
+                                        <p className="mt-2 whitespace-pre-wrap text-slate-600 dark:text-slate-400 max-h-48 overflow-y-auto">{generatedAnalysis.transcript}</p>
+                                    </details>
+                                )}
+                              </div>
                             )}
                         </div>
 
@@ -305,6 +551,51 @@ export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose,
                             </div>
                         </div>
 
+                        {/* Objections */}
+                        {raisedObjections.length > 0 && selectedOutcome && (
+                            <div>
+                                <label className="block text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">Objections</label>
+                                <div className="space-y-1">
+                                    {raisedObjections.map(r => (
+                                        <label key={r.objectionId} className="flex items-center justify-between p-2 rounded-lg border border-slate-200 dark:border-slate-600 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                                            <span>{r.title}</span>
+                                            <span className="flex items-center text-xs text-slate-500 dark:text-slate-400">
+                                                <input
+                                                  type="checkbox"
+                                                  checked={r.overcome ?? isOvercomeByOutcome(selectedOutcome.category)}
+                                                  onChange={e => handleSetOvercome(r.objectionId, e.target.checked)}
+                                                  className="mr-1"
+                                                />
+                                                Got past it
+                                            </span>
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Callback */}
+                        {selectedOutcome?.category !== 'appointment' && (
+                            <div>
+                                <label className="block text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">Schedule Callback <span className="font-normal text-slate-400">(optional)</span></label>
+                                <div className="flex space-x-3">
+                                    <input 
+                                        type="date" 
+                                        value={callbackDate} 
+                                        onChange={e => setCallbackDate(e.target.value)}
+                                        className="flex-1 border border-slate-300 dark:border-slate-600 rounded p-2 text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white" 
+                                    />
+                                    <input 
+                                        type="time" 
+                                        value={callbackTime} 
+                                        onChange={e => setCallbackTime(e.target.value)}
+                                        disabled={!callbackDate}
+                                        className="w-32 border border-slate-300 dark:border-slate-600 rounded p-2 text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white disabled:opacity-50" 
+                                    />
+                                </div>
+                            </div>
+                        )}
+
                         {/* Actions */}
                         <div className="pt-4 flex items-center space-x-4 border-t border-slate-100 dark:border-slate-700 mt-8">
                             <button onClick={() => setCallStep('CONNECT')} className="text-slate-500 dark:text-slate-400 text-sm hover:underline">
@@ -321,18 +612,13 @@ export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose,
                     <div className="space-y-6 text-center animate-in fade-in zoom-in duration-200">
                       <h4 className="text-lg font-medium text-slate-800 dark:text-white">Did you reach someone?</h4>
                       <div className="grid grid-cols-2 gap-4">
-                          <button onClick={() => setCallStep('REACHED_WHOM')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-green-500 hover:bg-green-50 dark:hover:bg-green-900/20 transition-all flex flex-col items-center gap-2 group">
+                          <button onClick={() => goToStep('REACHED_WHOM')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-green-500 hover:bg-green-50 dark:hover:bg-green-900/20 transition-all flex flex-col items-center gap-2 group">
                             <div className="w-10 h-10 bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400 rounded-full flex items-center justify-center group-hover:bg-green-200 dark:group-hover:bg-green-900/50">
                               <Check size={20} />
                             </div>
                             <span className="font-medium text-slate-700 dark:text-slate-300">Yes, Connected</span>
                           </button>
-                          <button onClick={() => handleOutcomeSelection('No Answer')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-all flex flex-col items-center gap-2 group">
-                            <div className="w-10 h-10 bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400 rounded-full flex items-center justify-center group-hover:bg-red-200 dark:group-hover:bg-red-900/50">
-                              <UserX size={20} />
-                            </div>
-                            <span className="font-medium text-slate-700 dark:text-slate-300">No Answer</span>
-                          </button>
+                          {renderOutcomeButtons('no_contact')}
                       </div>
                     </div>
                 )}
@@ -341,12 +627,12 @@ export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose,
                     <div className="space-y-6 text-center animate-in fade-in slide-in-from-right-4 duration-200">
                       <h4 className="text-lg font-medium text-slate-800 dark:text-white">Who are you speaking with?</h4>
                       <div className="grid grid-cols-2 gap-4">
-                          <button onClick={() => setCallStep('GATEKEEPER_PATH')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-all flex flex-col items-center gap-2">
+                          <button onClick={() => goToStep('GATEKEEPER_PATH')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-all flex flex-col items-center gap-2">
                             <ShieldCheck size={24} className="text-blue-500" />
                             <span className="font-medium text-slate-700 dark:text-slate-300">Gatekeeper</span>
                             <span className="text-xs text-slate-400">Receptionist, Assistant</span>
                           </button>
-                          <button onClick={() => setCallStep('DM_PATH')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-purple-500 hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-all flex flex-col items-center gap-2">
+                          <button onClick={() => goToStep('DM_PATH')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-purple-500 hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-all flex flex-col items-center gap-2">
                             <UserCheck size={24} className="text-purple-500" />
                             <span className="font-medium text-slate-700 dark:text-slate-300">Decision Maker</span>
                             <span className="text-xs text-slate-400">CEO, Owner, Manager</span>
@@ -359,14 +645,11 @@ export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose,
                     <div className="space-y-6 text-center animate-in fade-in slide-in-from-right-4 duration-200">
                       <h4 className="text-lg font-medium text-slate-800 dark:text-white">Did they put you through?</h4>
                       <div className="grid grid-cols-2 gap-4">
-                          <button onClick={() => setCallStep('DM_PATH')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-green-500 hover:bg-green-50 dark:hover:bg-green-900/20 transition-all flex flex-col items-center gap-2">
+                          <button onClick={() => goToStep('DM_PATH')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-green-500 hover:bg-green-50 dark:hover:bg-green-900/20 transition-all flex flex-col items-center gap-2">
                             <Check size={24} className="text-green-500" />
                             <span className="font-medium text-slate-700 dark:text-slate-300">Yes, transferred</span>
                           </button>
-                          <button onClick={() => handleOutcomeSelection('Gatekeeper Blocked')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-orange-500 hover:bg-orange-50 dark:hover:bg-orange-900/20 transition-all flex flex-col items-center gap-2">
-                            <X size={24} className="text-orange-500" />
-                            <span className="font-medium text-slate-700 dark:text-slate-300">No, blocked</span>
-                          </button>
+                          {renderOutcomeButtons('gatekeeper')}
                       </div>
                     </div>
                 )}
@@ -375,14 +658,11 @@ export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose,
                     <div className="space-y-6 text-center animate-in fade-in slide-in-from-right-4 duration-200">
                       <h4 className="text-lg font-medium text-slate-800 dark:text-white">Was there interest?</h4>
                       <div className="grid grid-cols-2 gap-4">
-                          <button onClick={() => setCallStep('INTEREST_SUBPATH')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-green-500 hover:bg-green-50 dark:hover:bg-green-900/20 transition-all flex flex-col items-center gap-2">
+                          <button onClick={() => goToStep('INTEREST_SUBPATH')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-green-500 hover:bg-green-50 dark:hover:bg-green-900/20 transition-all flex flex-col items-center gap-2">
                             <ThumbsUp size={24} className="text-green-500" />
                             <span className="font-medium text-slate-700 dark:text-slate-300">Yes, Interested</span>
                           </button>
-                          <button onClick={() => handleOutcomeSelection('Not Interested')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-slate-500 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-all flex flex-col items-center gap-2">
-                            <ThumbsDown size={24} className="text-slate-500" />
-                            <span className="font-medium text-slate-700 dark:text-slate-300">No Interest</span>
-                          </button>
+                          {renderOutcomeButtons('rejection')}
                       </div>
                     </div>
                 )}
@@ -391,7 +671,7 @@ export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose,
                    <div className="space-y-6 text-center animate-in fade-in slide-in-from-right-4 duration-200">
                       <h4 className="text-lg font-medium text-slate-800 dark:text-white">Great! What's next?</h4>
                       <div className="grid grid-cols-1 gap-4">
-                          <button onClick={() => setCallStep('APPOINTMENT')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-green-500 hover:bg-green-50 dark:hover:bg-green-900/20 transition-all flex items-center justify-between group">
+                          <button onClick={() => goToStep('APPOINTMENT')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-green-500 hover:bg-green-50 dark:hover:bg-green-900/20 transition-all flex items-center justify-between group">
                              <div className="flex items-center space-x-3">
                                 <div className="p-2 bg-green-100 dark:bg-green-900/30 rounded-lg text-green-600 dark:text-green-400"><Calendar size={20}/></div>
                                 <div className="text-left">
@@ -401,16 +681,18 @@ export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose,
                              </div>
                              <ArrowRight size={18} className="text-slate-300 dark:text-slate-500 group-hover:text-green-500"/>
                           </button>
-                          <button onClick={() => handleOutcomeSelection('Interested')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-all flex items-center justify-between group">
-                             <div className="flex items-center space-x-3">
-                                <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg text-blue-600 dark:text-blue-400"><Mail size={20}/></div>
-                                <div className="text-left">
-                                  <span className="block font-bold text-slate-700 dark:text-slate-300">Send Info / Follow Up</span>
-                                  <span className="text-xs text-slate-500 dark:text-slate-400">Lead wants material first</span>
-                                </div>
-                             </div>
-                             <ArrowRight size={18} className="text-slate-300 dark:text-slate-500 group-hover:text-blue-500"/>
-                          </button>
+                          {outcomesInCategory(outcomes, 'interest').map(outcome => (
+                            <button key={outcome.id} onClick={() => handleOutcomeSelection(outcome)} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-all flex items-center justify-between group">
+                               <div className="flex items-center space-x-3">
+                                  <div className="p-2 rounded-lg" style={{ backgroundColor: `${outcome.color}26`, color: outcome.color }}><Mail size={20}/></div>
+                                  <div className="text-left">
+                                    <span className="block font-bold text-slate-700 dark:text-slate-300">{outcome.label}</span>
+                                    {outcome.description && <span className="text-xs text-slate-500 dark:text-slate-400">{outcome.description}</span>}
+                                  </div>
+                               </div>
+                               <ArrowRight size={18} className="text-slate-300 dark:text-slate-500 group-hover:text-slate-500"/>
+                            </button>
+                          ))}
                       </div>
                    </div>
                 )}
@@ -441,15 +723,8 @@ export const CallWizard: React.FC<CallWizardProps> = ({ lead, scripts, onClose,
                       </div>
 
                       <div className="grid grid-cols-2 gap-4">
-                          <button 
-                            onClick={() => handleOutcomeSelection('Appointment Set')} 
-                            disabled={!appointmentDate}
-                            className={`p-4 rounded-xl border transition-all flex flex-col items-center gap-2 ${!appointmentDate ? 'border-slate-200 dark:border-slate-700 opacity-50 cursor-not-allowed' : 'border-slate-200 dark:border-slate-700 hover:border-green-500 hover:bg-green-50 dark:hover:bg-green-900/20'}`}
-                          >
-                            <Calendar size={24} className="text-green-500" />
-                            <span className="font-medium text-slate-700 dark:text-slate-300">Confirm Booking</span>
-                          </button>
-                          <button onClick={() => handleOutcomeSelection('Interested')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-all flex flex-col items-center gap-2">
+                          {renderOutcomeButtons('appointment', !appointmentDate)}
+                          <button onClick={() => goToStep('INTEREST_SUBPATH')} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 hover:border-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-all flex flex-col items-center gap-2">
                             <HelpCircle size={24} className="text-blue-500" />
                             <span className="font-medium text-slate-700 dark:text-slate-300">Cancel Date</span>
                           </button>
@@ -0,0 +1,243 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, X, Database, Users, Zap, Bookmark, Trash2, AlertTriangle, CornerDownLeft } from 'lucide-react';
+import { Button } from './Button';
+import { SavedFilter } from '../types';
+import { isEmptyQuery, LeadQueryContext, LeadSearchEntry, LeadSearchHit, parseLeadQuery, QUERY_FIELDS, searchLeads } from '../services/leadQuery';
+
+interface CommandPaletteProps {
+  entries: LeadSearchEntry[];
+  context: LeadQueryContext;
+  savedFilters: SavedFilter[];
+  onSaveFilter: (name: string, query: string) => void;
+  onDeleteFilter: (id: string) => void;
+  onOpenLead: (entry: LeadSearchEntry) => void;
+  onDial: (name: string, entries: LeadSearchEntry[]) => void;
+  onClose: () => void;
+}
+
+// Rendering thousands of rows makes typing sluggish; the dialer still gets every match
+const MAX_VISIBLE_RESULTS = 50;
+
+const STATUS_COLORS: Record<string, string> = {
+  New: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  Reviewed: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  Contacted: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  Invalid: 'bg-slate-100 text-slate-500 dark:bg-slate-700 dark:text-slate-400',
+};
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({
+  entries,
+  context,
+  savedFilters,
+  onSaveFilter,
+  onDeleteFilter,
+  onOpenLead,
+  onDial,
+  onClose,
+}) => {
+  const [queryText, setQueryText] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isNaming, setIsNaming] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => { inputRef.current?.focus(); }, []);
+
+  const query = useMemo(() => parseLeadQuery(queryText), [queryText]);
+  const hits = useMemo(
+    () => isEmptyQuery(query) ? [] : searchLeads(entries, query, context),
+    [entries, query, context]
+  );
+  const visibleHits = hits.slice(0, MAX_VISIBLE_RESULTS);
+
+  const savedViewCounts = useMemo(
+    () => new Map(savedFilters.map(f => [f.id, searchLeads(entries, parseLeadQuery(f.query), context).length])),
+    [savedFilters, entries, context]
+  );
+
+  useEffect(() => setActiveIndex(0), [queryText]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Enter in the view name field saves the view instead of opening a lead
+    if (e.target !== inputRef.current && e.key !== 'Escape') return;
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, visibleHits.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && visibleHits[activeIndex]) {
+      e.preventDefault();
+      onOpenLead(visibleHits[activeIndex]);
+    }
+  };
+
+  const handleSaveView = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!viewName.trim()) return;
+    onSaveFilter(viewName.trim(), queryText.trim());
+    setViewName('');
+    setIsNaming(false);
+  };
+
+  const renderHit = (hit: LeadSearchHit, index: number) => (
+    <button
+      key={`${hit.source.type}:${hit.source.id}:${hit.lead.id}`}
+      onClick={() => onOpenLead(hit)}
+      onMouseEnter={() => setActiveIndex(index)}
+      className={`w-full text-left px-4 py-2.5 flex items-start justify-between ${
+        index === activeIndex ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+      }`}
+    >
+      <div className="min-w-0">
+        <div className="flex items-center space-x-2">
+          <span className="font-medium text-slate-800 dark:text-white truncate">{hit.lead.name}</span>
+          <span className={`text-[10px] px-1.5 py-0.5 rounded-full ${STATUS_COLORS[hit.lead.status] || STATUS_COLORS.New}`}>{hit.lead.status}</span>
+          {hit.lead.leadScore !== undefined && (
+            <span className="text-xs text-slate-400">Score {hit.lead.leadScore}</span>
+          )}
+        </div>
+        <div className="flex items-center text-xs text-slate-500 dark:text-slate-400">
+          {hit.source.type === 'project' ? <Database size={12} className="mr-1 shrink-0" /> : <Users size={12} className="mr-1 shrink-0" />}
+          <span className="truncate">{hit.source.name}{hit.lead.address ? ` · ${hit.lead.address}` : ''}</span>
+        </div>
+        {hit.snippet && (
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5 truncate">
+            <span className="font-medium">{hit.snippet.label}:</span> {hit.snippet.text}
+          </p>
+        )}
+      </div>
+      {index === activeIndex && <CornerDownLeft size={14} className="text-slate-400 mt-1 shrink-0" />}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 flex items-start justify-center p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-slate-800 rounded-xl shadow-xl w-full max-w-2xl max-h-[75vh] flex flex-col animate-in zoom-in duration-200 border border-slate-200 dark:border-slate-700"
+        onClick={e => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center px-4 border-b border-slate-100 dark:border-slate-700">
+          <Search size={18} className="text-slate-400 shrink-0" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={queryText}
+            onChange={e => setQueryText(e.target.value)}
+            placeholder="Search leads, notes, calls… or filter: status:New score:>70"
+            className="flex-1 px-3 py-4 bg-transparent outline-none text-slate-900 dark:text-white placeholder:text-slate-400"
+          />
+          <button onClick={onClose}><X size={18} className="text-slate-400 hover:text-slate-200" /></button>
+        </div>
+
+        {query.errors.length > 0 && (
+          <div className="px-4 py-2 text-xs text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 flex items-start">
+            <AlertTriangle size={14} className="mr-2 mt-0.5 shrink-0" />
+            <span>{query.errors.join('; ')}</span>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          {isEmptyQuery(query) ? (
+            <div className="p-4 space-y-5">
+              {savedFilters.length > 0 && (
+                <div>
+                  <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">Saved Views</h4>
+                  <div className="space-y-1">
+                    {savedFilters.map(filter => (
+                      <div key={filter.id} className="flex items-center justify-between group rounded-lg px-2 py-1.5 hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                        <button onClick={() => setQueryText(filter.query)} className="flex-1 text-left min-w-0">
+                          <span className="flex items-center text-sm font-medium text-slate-800 dark:text-white">
+                            <Bookmark size={14} className="mr-2 text-blue-500" /> {filter.name}
+                            <span className="ml-2 text-xs font-normal text-slate-400">{savedViewCounts.get(filter.id)} leads</span>
+                          </span>
+                          <code className="block text-xs text-slate-500 dark:text-slate-400 truncate ml-6">{filter.query}</code>
+                        </button>
+                        <div className="flex items-center space-x-1 shrink-0">
+                          <button
+                            onClick={() => onDial(filter.name, searchLeads(entries, parseLeadQuery(filter.query), context))}
+                            className="p-1.5 text-slate-400 hover:text-green-600 rounded"
+                            title="Start a power-dialer session with these leads"
+                          >
+                            <Zap size={16} />
+                          </button>
+                          <button
+                            onClick={() => onDeleteFilter(filter.id)}
+                            className="p-1.5 text-slate-400 hover:text-red-600 rounded opacity-0 group-hover:opacity-100"
+                            title="Delete view"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div>
+                <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2">Filters</h4>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                  Words search every lead, note, call and register entry. Combine filters; "-" excludes, commas mean "or".
+                </p>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                  {QUERY_FIELDS.map(field => (
+                    <button
+                      key={field.name}
+                      onClick={() => { setQueryText(field.example); inputRef.current?.focus(); }}
+                      className="text-left text-xs py-0.5 text-slate-600 dark:text-slate-300 hover:text-blue-600 dark:hover:text-blue-400 truncate"
+                      title={field.description}
+                    >
+                      <code className="text-blue-600 dark:text-blue-400">{field.example}</code>
+                      <span className="ml-2 text-slate-400">{field.description}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ) : hits.length === 0 ? (
+            <p className="p-8 text-center text-sm text-slate-500 dark:text-slate-400">No leads match.</p>
+          ) : (
+            <div className="py-1">
+              {visibleHits.map(renderHit)}
+              {hits.length > visibleHits.length && (
+                <p className="px-4 py-2 text-xs text-slate-400">{hits.length - visibleHits.length} more — narrow the search to see them.</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {!isEmptyQuery(query) && (
+          <div className="p-3 border-t border-slate-100 dark:border-slate-700 flex items-center justify-between">
+            <span className="text-xs text-slate-500 dark:text-slate-400">{hits.length} results</span>
+            {isNaming ? (
+              <form onSubmit={handleSaveView} className="flex items-center space-x-2">
+                <input
+                  autoFocus
+                  type="text"
+                  value={viewName}
+                  onChange={e => setViewName(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Escape') { e.stopPropagation(); setIsNaming(false); } }}
+                  placeholder="View name"
+                  className="border border-slate-300 dark:border-slate-600 rounded-lg px-2 py-1 text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                />
+                <Button type="submit" size="sm" disabled={!viewName.trim()}>Save</Button>
+              </form>
+            ) : (
+              <div className="flex items-center space-x-2">
+                <Button variant="outline" size="sm" onClick={() => setIsNaming(true)}>
+                  <Bookmark size={14} className="mr-1" /> Save View
+                </Button>
+                <Button size="sm" onClick={() => onDial(queryText.trim(), hits)} disabled={hits.length === 0}>
+                  <Zap size={14} className="mr-1" /> Dial {hits.length}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
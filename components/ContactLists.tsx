@@ -1,9 +1,15 @@
 import React, { useState } from 'react';
-import { ContactList, Lead, PipelineStage } from '../types';
-import { Users, Trash2, Calendar, ChevronRight, Mail, Phone, ExternalLink, Globe, Plus, UserPlus, X, Briefcase, FileText, CheckCircle2, Sparkles, Search, Loader2 } from 'lucide-react';
+import { ContactList, Lead, PipelineStage, WorkspaceMember, CallOutcome, Cadence, CrmProvider, ScoringRule } from '../types';
+import { Users, Trash2, Calendar, ChevronRight, Mail, Phone, ExternalLink, Globe, Plus, UserPlus, X, Briefcase, FileText, CheckCircle2, Sparkles, Search, Loader2, Zap, Upload, Download, Share2, Copy, Kanban } from 'lucide-react';
+import { ImportWizard } from './ImportWizard';
+import { ExportModal } from './ExportModal';
 import { Button } from './Button';
 import { v4 as uuidv4 } from 'uuid';
 import { LeadDetailPanel } from './LeadDetailPanel';
+import { AssigneeSelect } from './AssigneeSelect';
+import { CadenceSelect } from './CadenceSelect';
+import { getMemberName } from '../services/workspaceService';
+import { getCrmProvider } from '../services/crmMapping';
 
 interface ContactListsProps {
   lists: ContactList[];
@@ -16,8 +22,25 @@ interface ContactListsProps {
   onEnrich?: (lead: Lead, listId: string) => void; 
   onFindSimilar?: (lead: Lead) => void; 
   isDevMode?: boolean;
+  members?: WorkspaceMember[];
+  currentUserId?: string;
+  onAssignList?: (listId: string, userId: string | undefined) => void;
+  outcomes?: CallOutcome[];
+  cadences?: Cadence[];
+  scoringRules?: ScoringRule[];
+  onSetListCadence?: (listId: string, cadenceId: string | undefined) => void;
+  onStartDialSession?: (listId: string, leads: Lead[]) => void;
+  onAddListToPipeline?: (listId: string) => void;
+  onImportLeads?: (leads: Partial<Lead>[], listId?: string, newListName?: string) => void;
+  onPushToCrm?: (listId: string, leads: Lead[]) => Promise<void>; // Set when the workspace has a CRM connection
+  crmProvider?: CrmProvider;
+  duplicateCount?: number; // Duplicate groups across all projects and lists
+  onReviewDuplicates?: () => void;
 }
 
+// A lead without its own assignee belongs to whoever works the list
+const ownerOf = (lead: Lead, list: ContactList) => lead.assignedTo || list.assignedTo;
+
 const STAGE_COLORS: Record<PipelineStage, string> = {
   'Cold': 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/30 dark:text-blue-300 dark:border-blue-800',
   'Qualified': 'bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900/30 dark:text-yellow-300 dark:border-yellow-800',
@@ -51,10 +74,28 @@ export const ContactLists: React.FC<ContactListsProps> = ({
   onStartCall, 
   onEnrich, 
   onFindSimilar,
-  isDevMode 
+  isDevMode,
+  members = [],
+  currentUserId,
+  onAssignList,
+  outcomes,
+  cadences = [],
+  scoringRules,
+  onSetListCadence,
+  onStartDialSession,
+  onAddListToPipeline,
+  onImportLeads,
+  onPushToCrm,
+  crmProvider,
+  duplicateCount = 0,
+  onReviewDuplicates
 }) => {
   const [activeListId, setActiveListId] = useState<string | null>(null);
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
+  const [showMyLeadsOnly, setShowMyLeadsOnly] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isPushingToCrm, setIsPushingToCrm] = useState(false);
   
   // Create List Modal State
   const [isCreatingList, setIsCreatingList] = useState(false);
@@ -73,6 +114,46 @@ export const ContactLists: React.FC<ContactListsProps> = ({
 
   const activeList = lists.find(l => l.id === activeListId);
 
+  const isMine = (lead: Lead, list: ContactList) => !!currentUserId && ownerOf(lead, list) === currentUserId;
+  const visibleLists = showMyLeadsOnly
+    ? lists.filter(list => list.assignedTo === currentUserId || list.leads.some(lead => isMine(lead, list)))
+    : lists;
+  const visibleLeads = activeList
+    ? (showMyLeadsOnly ? activeList.leads.filter(lead => isMine(lead, activeList)) : activeList.leads)
+    : [];
+  const notInPipeline = activeList ? activeList.leads.filter(lead => !lead.deal).length : 0;
+
+  const myLeadsToggle = members.length > 1 && (
+    <label className="flex items-center text-sm text-slate-600 dark:text-slate-300 cursor-pointer select-none">
+      <input
+        type="checkbox"
+        checked={showMyLeadsOnly}
+        onChange={e => setShowMyLeadsOnly(e.target.checked)}
+        className="mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+      />
+      My leads
+    </label>
+  );
+
+  const importWizard = isImporting && onImportLeads && (
+    <ImportWizard
+      lists={lists}
+      initialListId={activeListId || undefined}
+      onImport={onImportLeads}
+      onClose={() => setIsImporting(false)}
+    />
+  );
+
+  const handlePushToCrm = async (list: ContactList, leads: Lead[]) => {
+    if (!onPushToCrm) return;
+    setIsPushingToCrm(true);
+    try {
+      await onPushToCrm(list.id, leads);
+    } finally {
+      setIsPushingToCrm(false);
+    }
+  };
+
   const handleCreateList = (e: React.FormEvent) => {
     e.preventDefault();
     if (newListName.trim()) {
@@ -96,7 +177,6 @@ export const ContactLists: React.FC<ContactListsProps> = ({
         ceo: newContact.ceo || null,
         status: 'New',
         confidence: 'Low',
-        leadScore: 10, // Start low for manual entry
         sourceUrl: 'Manual',
         notes: 'Manually added to list.',
         isEnriching: false,
@@ -140,7 +220,10 @@ export const ContactLists: React.FC<ContactListsProps> = ({
         )}
       </div>
       <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-1">{list.name}</h3>
-      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">{list.leads.length} contacts</p>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+        {list.leads.length} contacts
+        {list.assignedTo && <span> • {getMemberName(members, list.assignedTo)}</span>}
+      </p>
       
       <div className="pt-4 border-t border-slate-100 dark:border-slate-700 flex items-center text-xs text-slate-400">
          <Calendar size={12} className="mr-1" />
@@ -153,7 +236,17 @@ export const ContactLists: React.FC<ContactListsProps> = ({
   if (activeList) {
     return (
       <div className="bg-white dark:bg-slate-800 rounded-lg shadow border border-slate-200 dark:border-slate-700 flex flex-col h-full relative">
-        
+        {importWizard}
+        {isExporting && (
+          <ExportModal
+            leads={visibleLeads}
+            baseName={activeList.name}
+            outcomes={outcomes}
+            members={members}
+            onClose={() => setIsExporting(false)}
+          />
+        )}
+
         {/* Add Contact Modal */}
         {isAddingContact && (
           <div className="absolute inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4">
@@ -205,6 +298,59 @@ export const ContactLists: React.FC<ContactListsProps> = ({
             )}
           </div>
           <div className="flex items-center space-x-2">
+            {myLeadsToggle}
+            {members.length > 0 && onAssignList && (
+              <AssigneeSelect
+                members={members}
+                value={activeList.assignedTo}
+                onChange={(userId) => onAssignList(activeList.id, userId)}
+                placeholder="No owner"
+              />
+            )}
+            {cadences.length > 0 && onSetListCadence && (
+              <CadenceSelect
+                cadences={cadences}
+                value={activeList.cadenceId}
+                onChange={(cadenceId) => onSetListCadence(activeList.id, cadenceId)}
+              />
+            )}
+            {onStartDialSession && (
+              <Button size="sm" onClick={() => onStartDialSession(activeList.id, visibleLeads)} disabled={visibleLeads.length === 0}>
+                <Zap size={16} className="mr-2" /> Power Dial
+              </Button>
+            )}
+            {onAddListToPipeline && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => onAddListToPipeline(activeList.id)}
+                disabled={notInPipeline === 0}
+                title={notInPipeline === 0 ? 'Every lead of this list is in the pipeline' : `Start deals at ${activeList.stage || 'Cold'} for ${notInPipeline} leads`}
+                className="dark:bg-slate-700 dark:text-white dark:border-slate-600 dark:hover:bg-slate-600"
+              >
+                <Kanban size={16} className="mr-2" /> Add to Pipeline
+              </Button>
+            )}
+            {onPushToCrm && crmProvider && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => handlePushToCrm(activeList, visibleLeads)}
+                isLoading={isPushingToCrm}
+                disabled={visibleLeads.length === 0}
+                className="dark:bg-slate-700 dark:text-white dark:border-slate-600 dark:hover:bg-slate-600"
+              >
+                <Share2 size={16} className="mr-2" /> Push to {getCrmProvider(crmProvider).label}
+              </Button>
+            )}
+            <Button variant="secondary" size="sm" onClick={() => setIsExporting(true)} disabled={visibleLeads.length === 0} className="dark:bg-slate-700 dark:text-white dark:border-slate-600 dark:hover:bg-slate-600">
+              <Download size={16} className="mr-2" /> Export
+            </Button>
+            {onImportLeads && (
+              <Button variant="secondary" size="sm" onClick={() => setIsImporting(true)} className="dark:bg-slate-700 dark:text-white dark:border-slate-600 dark:hover:bg-slate-600">
+                <Upload size={16} className="mr-2" /> Import
+              </Button>
+            )}
             <Button variant="secondary" size="sm" onClick={() => setIsAddingContact(true)} className="dark:bg-slate-700 dark:text-white dark:border-slate-600 dark:hover:bg-slate-600">
                <UserPlus size={16} className="mr-2" /> Add Contact
             </Button>
@@ -218,7 +364,11 @@ export const ContactLists: React.FC<ContactListsProps> = ({
         </div>
 
         <div className="flex-1 overflow-auto bg-white dark:bg-slate-800">
-          {activeList.leads.length === 0 ? (
+          {visibleLeads.length === 0 && showMyLeadsOnly ? (
+            <div className="p-12 text-center text-slate-500 dark:text-slate-400">
+              <p>No contacts in this list are assigned to you.</p>
+            </div>
+          ) : activeList.leads.length === 0 ? (
             <div className="p-12 text-center text-slate-500 dark:text-slate-400">
               <Users size={48} className="mx-auto mb-4 text-slate-300 dark:text-slate-600" />
               <p>This list is empty.</p>
@@ -237,7 +387,7 @@ export const ContactLists: React.FC<ContactListsProps> = ({
                 </tr>
               </thead>
               <tbody className="bg-white dark:bg-slate-800 divide-y divide-slate-200 dark:divide-slate-700">
-                {activeList.leads.map(lead => (
+                {visibleLeads.map(lead => (
                   <tr key={lead.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50 cursor-pointer group" onClick={() => setSelectedLead(lead)}>
                     <td className="px-6 py-4 whitespace-nowrap">
                        <ScoreBadge score={lead.leadScore} />
@@ -245,6 +395,9 @@ export const ContactLists: React.FC<ContactListsProps> = ({
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="font-medium text-slate-900 dark:text-white">{lead.name}</div>
                       <div className="text-xs text-slate-500 dark:text-slate-400">{lead.category}</div>
+                      {lead.assignedTo && (
+                        <div className="text-xs text-blue-600 dark:text-blue-400">{getMemberName(members, lead.assignedTo)}</div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {lead.website ? (
@@ -324,6 +477,11 @@ export const ContactLists: React.FC<ContactListsProps> = ({
             onUpdate={handleLeadUpdate} 
             onStartCall={(lead) => onStartCall(lead, activeList.id)}
             isDevMode={isDevMode}
+            members={members}
+            outcomes={outcomes}
+            cadences={cadences}
+            scoringRules={scoringRules}
+            currentUserId={currentUserId}
         />
       </div>
     );
@@ -332,6 +490,7 @@ export const ContactLists: React.FC<ContactListsProps> = ({
   // Dashboard View
   return (
     <div className="space-y-6 relative h-full">
+      {importWizard}
       {isCreatingList && (
          <div className="absolute inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4">
              <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl w-full max-w-sm animate-in zoom-in duration-200 border border-slate-200 dark:border-slate-700">
@@ -362,9 +521,22 @@ export const ContactLists: React.FC<ContactListsProps> = ({
 
       <div className="flex items-center justify-between">
          <h2 className="text-2xl font-bold text-slate-800 dark:text-white">Saved Contact Lists</h2>
-         <Button onClick={() => setIsCreatingList(true)}>
-             <Plus size={16} className="mr-2" /> Create List
-         </Button>
+         <div className="flex items-center space-x-4">
+           {myLeadsToggle}
+           {onReviewDuplicates && duplicateCount > 0 && (
+             <Button variant="secondary" onClick={onReviewDuplicates} className="dark:bg-slate-700 dark:text-white dark:border-slate-600 dark:hover:bg-slate-600">
+               <Copy size={16} className="mr-2" /> Duplicates ({duplicateCount})
+             </Button>
+           )}
+           {onImportLeads && (
+             <Button variant="secondary" onClick={() => setIsImporting(true)} className="dark:bg-slate-700 dark:text-white dark:border-slate-600 dark:hover:bg-slate-600">
+               <Upload size={16} className="mr-2" /> Import
+             </Button>
+           )}
+           <Button onClick={() => setIsCreatingList(true)}>
+               <Plus size={16} className="mr-2" /> Create List
+           </Button>
+         </div>
       </div>
 
       {lists.length === 0 ? (
@@ -380,7 +552,7 @@ export const ContactLists: React.FC<ContactListsProps> = ({
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {lists.map(renderListCard)}
+          {visibleLists.map(renderListCard)}
         </div>
       )}
     </div>
@@ -1,13 +1,64 @@
 import React, { useMemo, useState } from 'react';
-import { Project, CallLog, ContactList } from '../types';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { Phone, Calendar, Clock, Search, TrendingUp, UserCheck, CalendarCheck, FileText } from 'lucide-react';
+import { Project, CallLog, ContactList, Script, CallOutcome, Objection, ScriptExperiment } from '../types';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, LineChart, Line, Legend } from 'recharts';
+import { Phone, Calendar, Search, TrendingUp, UserCheck, CalendarCheck, Trophy, Kanban, MessageSquareWarning, FlaskConical } from 'lucide-react';
+import {
+  DateRange, TrendGranularity, addDays, startOfDay, startOfWeek, isInRange, rangeLengthInDays,
+  summarizeCalls, buildTrend, breakdownCalls,
+} from '../services/callMetrics';
+import { DEFAULT_CALL_OUTCOMES, resolveOutcome } from '../services/outcomes';
+import { DEAL_STAGE_LABELS, buildStageFunnel, collectDeals, formatDealValue } from '../services/pipeline';
+import { summarizeObjections } from '../services/objections';
+import { MIN_CONNECTS_PER_VARIANT, summarizeExperiment } from '../services/experiments';
+import { OutcomeBadge } from './OutcomeBadge';
 
 interface ControllingProps {
   projects: Project[];
   contactLists: ContactList[];
+  scripts?: Script[];
+  outcomes?: CallOutcome[];
+  objections?: Objection[];
+  experiments?: ScriptExperiment[];
 }
 
+type RangePreset = 'this-week' | 'last-week' | 'last-7' | 'last-30' | 'this-month' | 'last-90' | 'custom';
+type BreakdownDimension = 'caller' | 'project' | 'script';
+
+const RANGE_PRESETS: { id: RangePreset; label: string }[] = [
+  { id: 'this-week', label: 'This week' },
+  { id: 'last-week', label: 'Last week' },
+  { id: 'last-7', label: 'Last 7 days' },
+  { id: 'last-30', label: 'Last 30 days' },
+  { id: 'this-month', label: 'This month' },
+  { id: 'last-90', label: 'Last 90 days' },
+  { id: 'custom', label: 'Custom' },
+];
+
+// Daily points get unreadable beyond roughly a quarter
+const MAX_DAILY_POINTS = 92;
+
+const presetRange = (preset: Exclude<RangePreset, 'custom'>, today = new Date()): DateRange => {
+  switch (preset) {
+    case 'this-week': return { from: startOfWeek(today), to: today };
+    case 'last-week': {
+      const from = addDays(startOfWeek(today), -7);
+      return { from, to: addDays(from, 6) };
+    }
+    case 'last-7': return { from: addDays(today, -6), to: today };
+    case 'last-30': return { from: addDays(today, -29), to: today };
+    case 'this-month': return { from: new Date(today.getFullYear(), today.getMonth(), 1), to: today };
+    case 'last-90': return { from: addDays(today, -89), to: today };
+  }
+};
+
+const toInputDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const fromInputDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
 interface EnrichedLog extends CallLog {
   leadName: string;
   leadId: string;
@@ -17,19 +68,28 @@ interface EnrichedLog extends CallLog {
   sourceType: 'Project' | 'CRM';
 }
 
-export const Controlling: React.FC<ControllingProps> = ({ projects, contactLists }) => {
+export const Controlling: React.FC<ControllingProps> = ({ projects, contactLists, scripts = [], outcomes = DEFAULT_CALL_OUTCOMES, objections = [], experiments = [] }) => {
+  const [rangePreset, setRangePreset] = useState<RangePreset>('this-week');
+  const [customRange, setCustomRange] = useState<DateRange>(() => presetRange('last-30'));
+  const [granularity, setGranularity] = useState<TrendGranularity>('day');
+  const [breakdownBy, setBreakdownBy] = useState<BreakdownDimension>('caller');
   const [searchTerm, setSearchTerm] = useState('');
   const [outcomeFilter, setOutcomeFilter] = useState('All');
+  const [callerFilter, setCallerFilter] = useState('All');
 
   // Aggregate all logs from Projects AND CRM Lists
   const allLogs = useMemo(() => {
     const logs: EnrichedLog[] = [];
+    // A lead saved from a project into a list carries the same call logs; count each call once
+    const seen = new Set<string>();
     
     // 1. Gather from Projects
     projects.forEach(project => {
       project.leads.forEach(lead => {
         if (lead.callLogs) {
           lead.callLogs.forEach(log => {
+            if (seen.has(log.id)) return;
+            seen.add(log.id);
             logs.push({
               ...log,
               leadName: lead.name,
@@ -49,6 +109,8 @@ export const Controlling: React.FC<ControllingProps> = ({ projects, contactLists
       list.leads.forEach(lead => {
         if (lead.callLogs) {
           lead.callLogs.forEach(log => {
+             if (seen.has(log.id)) return;
+             seen.add(log.id);
              logs.push({
                ...log,
                leadName: lead.name,
@@ -67,68 +129,92 @@ export const Controlling: React.FC<ControllingProps> = ({ projects, contactLists
     return logs.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   }, [projects, contactLists]);
 
+  const range = rangePreset === 'custom' ? customRange : presetRange(rangePreset);
+  const effectiveGranularity: TrendGranularity = rangeLengthInDays(range) > MAX_DAILY_POINTS ? 'week' : granularity;
+
+  // Everything below only looks at calls within the selected period
+  const rangeLogs = useMemo(
+    () => allLogs.filter(log => isInRange(log.timestamp, range)),
+    [allLogs, range.from.getTime(), range.to.getTime()]
+  );
+
+  const trendData = useMemo(
+    () => buildTrend(rangeLogs, range, effectiveGranularity, outcomes),
+    [rangeLogs, effectiveGranularity, outcomes]
+  );
+
+  const breakdown = useMemo(() => {
+    if (breakdownBy === 'caller') {
+      return breakdownCalls<EnrichedLog>(rangeLogs, log => log.callerId || 'unattributed', log => log.callerName || 'Unattributed', outcomes);
+    }
+    if (breakdownBy === 'project') {
+      return breakdownCalls<EnrichedLog>(rangeLogs, log => log.projectId, log => log.projectName, outcomes);
+    }
+    return breakdownCalls<EnrichedLog>(
+      rangeLogs,
+      log => log.scriptId || 'none',
+      log => log.scriptId ? (scripts.find(s => s.id === log.scriptId)?.name || 'Deleted script') : 'No script',
+      outcomes
+    );
+  }, [rangeLogs, breakdownBy, scripts, outcomes]);
+
+  // Everyone who logged a call. Calls logged before workspaces existed have no caller.
+  const callers = useMemo(() => {
+    const names = new Map<string, string>();
+    rangeLogs.forEach(log => {
+      if (log.callerId && !names.has(log.callerId)) names.set(log.callerId, log.callerName || 'Unknown');
+    });
+    return Array.from(names.entries()).map(([id, name]) => ({ id, name }));
+  }, [rangeLogs]);
+
   // Filter logs for table
   const filteredLogs = useMemo(() => {
-    return allLogs.filter(log => {
+    return rangeLogs.filter(log => {
       const matchesSearch = log.leadName.toLowerCase().includes(searchTerm.toLowerCase()) || 
                             log.projectName.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesFilter = outcomeFilter === 'All' || log.outcome === outcomeFilter;
-      return matchesSearch && matchesFilter;
+      const matchesFilter = outcomeFilter === 'All' || resolveOutcome(log, outcomes).id === outcomeFilter;
+      const matchesCaller = callerFilter === 'All' ||
+                            (callerFilter === 'Unattributed' ? !log.callerId : log.callerId === callerFilter);
+      return matchesSearch && matchesFilter && matchesCaller;
     });
-  }, [allLogs, searchTerm, outcomeFilter]);
+  }, [rangeLogs, searchTerm, outcomeFilter, callerFilter, outcomes]);
 
-  // KPI Calculations
-  const stats = useMemo(() => {
-    const totalCalls = allLogs.length;
-    const uniqueLeadsCalled = new Set(allLogs.map(l => l.leadId)).size;
-    const appointments = allLogs.filter(l => l.outcome.includes('Appointment')).length;
-    const interested = allLogs.filter(l => l.outcome.includes('Interested')).length; // Includes appointments
-    const noAnswers = allLogs.filter(l => l.outcome.includes('No Answer')).length;
-    
-    // Conversion Rate: Appointments / Total Calls
-    const conversionRate = totalCalls > 0 ? ((appointments / totalCalls) * 100).toFixed(1) : '0.0';
-    
-    // Connection Rate: (Total - No Answer) / Total
-    const connectedCount = totalCalls - noAnswers;
-    const connectionRate = totalCalls > 0 ? ((connectedCount / totalCalls) * 100).toFixed(1) : '0.0';
+  const deals = useMemo(() => collectDeals(projects, contactLists), [projects, contactLists]);
+  const funnel = useMemo(
+    () => buildStageFunnel(deals, range),
+    [deals, range.from.getTime(), range.to.getTime()]
+  );
+  const funnelData = funnel.steps.map(step => ({ name: DEAL_STAGE_LABELS[step.stage], value: step.reached }));
+  const stageChanges = useMemo(
+    () => deals.reduce((sum, { deal }) => sum + deal.history.filter(change => change.from && isInRange(change.at, range)).length, 0),
+    [deals, range.from.getTime(), range.to.getTime()]
+  );
 
-    return { totalCalls, uniqueLeadsCalled, appointments, conversionRate, connectionRate, interested };
-  }, [allLogs]);
+  const objectionStats = useMemo(() => summarizeObjections(rangeLogs, objections), [rangeLogs, objections]);
+  const callsWithObjections = rangeLogs.filter(log => log.objections && log.objections.length > 0).length;
+
+  // A test runs over its own time span, so its results ignore the selected period
+  const experimentResults = useMemo(() => experiments
+    .filter(e => e.status !== 'draft')
+    .map(experiment => ({ experiment, results: summarizeExperiment(experiment, allLogs, outcomes) }))
+    .filter(({ experiment, results }) => experiment.status === 'running' || results.some(r => r.dials > 0)),
+    [experiments, allLogs, outcomes]);
+
+  // KPI Calculations
+  const stats = useMemo(() => summarizeCalls(rangeLogs, outcomes), [rangeLogs, outcomes]);
 
-  // Chart Data: Outcomes Grouped
+  // Chart Data: calls per catalog outcome
   const chartData = useMemo(() => {
-    const counts: Record<string, number> = {};
-    allLogs.forEach(log => {
-      // Group simplified outcomes
-      let key = log.outcome;
-      if (key.includes('Appointment')) key = 'Appointment';
-      else if (key.includes('Interested')) key = 'Interested';
-      else if (key.includes('No Answer')) key = 'No Answer';
-      else if (key.includes('Gatekeeper')) key = 'Gatekeeper';
-      
-      counts[key] = (counts[key] || 0) + 1;
+    const counts = new Map<string, { name: string; value: number; color: string }>();
+    rangeLogs.forEach(log => {
+      const outcome = resolveOutcome(log, outcomes);
+      const entry = counts.get(outcome.id) || { name: outcome.label, value: 0, color: outcome.color };
+      entry.value++;
+      counts.set(outcome.id, entry);
     });
 
-    return Object.entries(counts)
-      .map(([name, value]) => ({ name, value }))
-      .sort((a, b) => b.value - a.value);
-  }, [allLogs]);
-
-  const COLORS = {
-    'Appointment': '#22c55e', // green-500
-    'Interested': '#3b82f6', // blue-500
-    'No Answer': '#ef4444', // red-500
-    'Gatekeeper': '#f97316', // orange-500
-    'Not Interested': '#64748b' // slate-500
-  };
-
-  const getColor = (outcome: string) => {
-    if (outcome.includes('Appointment')) return COLORS['Appointment'];
-    if (outcome.includes('Interested')) return COLORS['Interested'];
-    if (outcome.includes('No Answer')) return COLORS['No Answer'];
-    if (outcome.includes('Gatekeeper')) return COLORS['Gatekeeper'];
-    return COLORS['Not Interested'];
-  };
+    return Array.from(counts.values()).sort((a, b) => b.value - a.value);
+  }, [rangeLogs, outcomes]);
 
   return (
     <div className="space-y-8">
@@ -137,9 +223,38 @@ export const Controlling: React.FC<ControllingProps> = ({ projects, contactLists
            <h2 className="text-2xl font-bold text-slate-800">Sales Controlling</h2>
            <p className="text-slate-500">Unified overview of activities across Scraped Projects and CRM Lists.</p>
         </div>
-        <div className="flex items-center space-x-2 text-sm text-slate-500 bg-white px-3 py-1.5 rounded-full border border-slate-200 shadow-sm">
-           <Clock size={14} />
-           <span>Last updated: {new Date().toLocaleTimeString()}</span>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+           <Calendar size={16} className="text-slate-400" />
+           <select
+             value={rangePreset}
+             onChange={(e) => setRangePreset(e.target.value as RangePreset)}
+             className="border border-slate-300 rounded-lg px-3 py-1.5 outline-none bg-white text-slate-900"
+           >
+              {RANGE_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+           </select>
+           {rangePreset === 'custom' ? (
+             <>
+               <input
+                 type="date"
+                 value={toInputDate(customRange.from)}
+                 max={toInputDate(customRange.to)}
+                 onChange={(e) => e.target.value && setCustomRange({ ...customRange, from: fromInputDate(e.target.value) })}
+                 className="border border-slate-300 rounded-lg px-2 py-1.5 outline-none bg-white text-slate-900"
+               />
+               <span className="text-slate-400">–</span>
+               <input
+                 type="date"
+                 value={toInputDate(customRange.to)}
+                 min={toInputDate(customRange.from)}
+                 onChange={(e) => e.target.value && setCustomRange({ ...customRange, to: fromInputDate(e.target.value) })}
+                 className="border border-slate-300 rounded-lg px-2 py-1.5 outline-none bg-white text-slate-900"
+               />
+             </>
+           ) : (
+             <span className="text-slate-500">
+               {range.from.toLocaleDateString()} – {range.to.toLocaleDateString()}
+             </span>
+           )}
         </div>
       </div>
 
@@ -147,9 +262,9 @@ export const Controlling: React.FC<ControllingProps> = ({ projects, contactLists
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm flex items-start justify-between">
            <div>
-              <p className="text-sm font-medium text-slate-500 uppercase tracking-wide">Total Calls</p>
-              <h3 className="text-3xl font-bold text-slate-900 mt-2">{stats.totalCalls}</h3>
-              <p className="text-sm text-slate-400 mt-1">{stats.uniqueLeadsCalled} unique leads</p>
+              <p className="text-sm font-medium text-slate-500 uppercase tracking-wide">Dials</p>
+              <h3 className="text-3xl font-bold text-slate-900 mt-2">{stats.dials}</h3>
+              <p className="text-sm text-slate-400 mt-1">{stats.uniqueLeads} unique leads</p>
            </div>
            <div className="p-3 bg-blue-50 rounded-lg text-blue-600">
               <Phone size={24} />
@@ -159,8 +274,8 @@ export const Controlling: React.FC<ControllingProps> = ({ projects, contactLists
         <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm flex items-start justify-between">
            <div>
               <p className="text-sm font-medium text-slate-500 uppercase tracking-wide">Connection Rate</p>
-              <h3 className="text-3xl font-bold text-slate-900 mt-2">{stats.connectionRate}%</h3>
-              <p className="text-sm text-slate-400 mt-1">Answered calls</p>
+              <h3 className="text-3xl font-bold text-slate-900 mt-2">{stats.connectionRate.toFixed(1)}%</h3>
+              <p className="text-sm text-slate-400 mt-1">{stats.connects} answered calls</p>
            </div>
            <div className="p-3 bg-indigo-50 rounded-lg text-indigo-600">
               <UserCheck size={24} />
@@ -181,7 +296,7 @@ export const Controlling: React.FC<ControllingProps> = ({ projects, contactLists
         <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm flex items-start justify-between">
            <div>
               <p className="text-sm font-medium text-slate-500 uppercase tracking-wide">Success Rate</p>
-              <h3 className="text-3xl font-bold text-slate-900 mt-2">{stats.conversionRate}%</h3>
+              <h3 className="text-3xl font-bold text-slate-900 mt-2">{stats.conversionRate.toFixed(1)}%</h3>
               <p className="text-sm text-slate-400 mt-1">Calls to Appt.</p>
            </div>
            <div className="p-3 bg-amber-50 rounded-lg text-amber-600">
@@ -190,6 +305,262 @@ export const Controlling: React.FC<ControllingProps> = ({ projects, contactLists
         </div>
       </div>
 
+      {/* Trend */}
+      <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+         <div className="flex justify-between items-center mb-6">
+            <h3 className="font-bold text-slate-800">Activity Trend</h3>
+            <div className="flex rounded-lg border border-slate-200 overflow-hidden text-sm">
+               {(['day', 'week'] as TrendGranularity[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setGranularity(option)}
+                    disabled={option === 'day' && rangeLengthInDays(range) > MAX_DAILY_POINTS}
+                    title={option === 'day' && rangeLengthInDays(range) > MAX_DAILY_POINTS ? 'Period too long for daily points' : undefined}
+                    className={`px-3 py-1 capitalize ${effectiveGranularity === option ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50 disabled:opacity-50'}`}
+                  >
+                    {option === 'day' ? 'Daily' : 'Weekly'}
+                  </button>
+               ))}
+            </div>
+         </div>
+         <div className="h-[260px]">
+            {rangeLogs.length > 0 ? (
+              <ResponsiveContainer width="100%" height="100%">
+                 <LineChart data={trendData} margin={{ left: -20, right: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="label" tick={{fontSize: 12, fill: '#64748b'}} />
+                    <YAxis allowDecimals={false} tick={{fontSize: 12, fill: '#64748b'}} />
+                    <Tooltip contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }} />
+                    <Legend />
+                    <Line type="monotone" dataKey="dials" name="Dials" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                    <Line type="monotone" dataKey="connects" name="Connects" stroke="#6366f1" strokeWidth={2} dot={false} />
+                    <Line type="monotone" dataKey="appointments" name="Appointments" stroke="#22c55e" strokeWidth={2} dot={false} />
+                 </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-full flex items-center justify-center text-slate-400 italic">No calls in this period</div>
+            )}
+         </div>
+      </div>
+
+      {/* Breakdown / Leaderboard */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+         <div className="p-6 border-b border-slate-200 flex flex-col sm:flex-row justify-between items-center gap-4 bg-slate-50">
+            <h3 className="font-bold text-slate-800 flex items-center">
+               <Trophy size={18} className="mr-2 text-amber-500" />
+               {breakdownBy === 'caller' ? 'Leaderboard' : 'Breakdown'}
+            </h3>
+            <div className="flex rounded-lg border border-slate-200 overflow-hidden text-sm">
+               {([['caller', 'By Caller'], ['project', 'By Project'], ['script', 'By Script']] as [BreakdownDimension, string][]).map(([id, label]) => (
+                  <button
+                    key={id}
+                    onClick={() => setBreakdownBy(id)}
+                    className={`px-3 py-1 ${breakdownBy === id ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    {label}
+                  </button>
+               ))}
+            </div>
+         </div>
+         <table className="min-w-full divide-y divide-slate-200">
+            <thead className="bg-white">
+               <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider w-12">#</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                     {breakdownBy === 'caller' ? 'Caller' : breakdownBy === 'project' ? 'Project / List' : 'Script'}
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Dials</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Connects</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Connection Rate</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Appointments</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Success Rate</th>
+               </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 bg-white">
+               {breakdown.length === 0 ? (
+                  <tr>
+                     <td colSpan={7} className="px-6 py-8 text-center text-slate-500">No calls in this period.</td>
+                  </tr>
+               ) : (
+                  breakdown.map((row, index) => (
+                     <tr key={row.key} className="hover:bg-slate-50 transition-colors">
+                        <td className="px-6 py-3 text-sm text-slate-400">{index + 1}</td>
+                        <td className="px-6 py-3 text-sm font-medium text-slate-900">{row.label}</td>
+                        <td className="px-6 py-3 text-sm text-right text-slate-700">{row.dials}</td>
+                        <td className="px-6 py-3 text-sm text-right text-slate-700">{row.connects}</td>
+                        <td className="px-6 py-3 text-sm text-right text-slate-700">{row.connectionRate.toFixed(1)}%</td>
+                        <td className="px-6 py-3 text-sm text-right font-bold text-green-600">{row.appointments}</td>
+                        <td className="px-6 py-3 text-sm text-right text-slate-700">{row.conversionRate.toFixed(1)}%</td>
+                     </tr>
+                  ))
+               )}
+            </tbody>
+         </table>
+      </div>
+
+      {/* Pipeline Funnel */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+         <div className="p-6 border-b border-slate-200 flex flex-col sm:flex-row justify-between items-center gap-4 bg-slate-50">
+            <h3 className="font-bold text-slate-800 flex items-center">
+               <Kanban size={18} className="mr-2 text-blue-500" />
+               Pipeline Funnel
+            </h3>
+            <p className="text-sm text-slate-500">
+               {funnel.cohort} deals entered the pipeline in this period · {stageChanges} stage changes
+            </p>
+         </div>
+         {funnel.cohort === 0 ? (
+            <div className="px-6 py-8 text-center text-slate-500">No deals entered the pipeline in this period.</div>
+         ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2">
+               <div className="p-6 h-[260px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                     <BarChart data={funnelData} margin={{ left: -20, right: 10 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                        <XAxis dataKey="name" tick={{fontSize: 12, fill: '#64748b'}} />
+                        <YAxis allowDecimals={false} tick={{fontSize: 12, fill: '#64748b'}} />
+                        <Tooltip
+                          contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                          cursor={{fill: '#f8fafc'}}
+                        />
+                        <Bar dataKey="value" name="Deals" fill="#3b82f6" radius={[4, 4, 0, 0]} barSize={40} />
+                     </BarChart>
+                  </ResponsiveContainer>
+               </div>
+               <div className="border-t lg:border-t-0 lg:border-l border-slate-200">
+                  <table className="min-w-full divide-y divide-slate-200">
+                     <thead className="bg-white">
+                        <tr>
+                           <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Stage</th>
+                           <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Reached</th>
+                           <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Conversion</th>
+                           <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Value</th>
+                        </tr>
+                     </thead>
+                     <tbody className="divide-y divide-slate-200 bg-white">
+                        {funnel.steps.map(step => (
+                           <tr key={step.stage}>
+                              <td className="px-6 py-3 text-sm font-medium text-slate-900">{DEAL_STAGE_LABELS[step.stage]}</td>
+                              <td className="px-6 py-3 text-sm text-right text-slate-700">{step.reached}</td>
+                              <td className="px-6 py-3 text-sm text-right text-slate-700">
+                                 {step.conversion === null ? '–' : `${step.conversion.toFixed(1)}%`}
+                              </td>
+                              <td className="px-6 py-3 text-sm text-right text-slate-700">{formatDealValue(step.value)}</td>
+                           </tr>
+                        ))}
+                     </tbody>
+                  </table>
+                  <div className="px-6 py-3 bg-slate-50 border-t border-slate-200 text-sm text-slate-600 flex flex-wrap gap-x-6 gap-y-1">
+                     <span>Won: <span className="font-bold text-green-600">{funnel.won}</span> ({formatDealValue(funnel.wonValue)})</span>
+                     <span>Lost: <span className="font-bold text-red-600">{funnel.lost}</span></span>
+                     <span>Avg. time to win: {funnel.avgDaysToWin === null ? '–' : `${funnel.avgDaysToWin.toFixed(1)} days`}</span>
+                  </div>
+               </div>
+            </div>
+         )}
+      </div>
+
+      {/* Objections */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+         <div className="p-6 border-b border-slate-200 flex flex-col sm:flex-row justify-between items-center gap-4 bg-slate-50">
+            <h3 className="font-bold text-slate-800 flex items-center">
+               <MessageSquareWarning size={18} className="mr-2 text-amber-500" />
+               Objections
+            </h3>
+            <p className="text-sm text-slate-500">
+               Raised on {callsWithObjections} of {rangeLogs.length} calls in this period
+            </p>
+         </div>
+         <table className="min-w-full divide-y divide-slate-200">
+            <thead className="bg-white">
+               <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Objection</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Raised</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Overcome</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Overcome Rate</th>
+               </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 bg-white">
+               {objectionStats.length === 0 ? (
+                  <tr>
+                     <td colSpan={4} className="px-6 py-8 text-center text-slate-500">No objections logged in this period.</td>
+                  </tr>
+               ) : (
+                  objectionStats.map(row => (
+                     <tr key={row.objectionId} className="hover:bg-slate-50 transition-colors">
+                        <td className="px-6 py-3 text-sm font-medium text-slate-900">{row.title}</td>
+                        <td className="px-6 py-3 text-sm text-right text-slate-700">{row.raised}</td>
+                        <td className="px-6 py-3 text-sm text-right font-bold text-green-600">{row.overcome}</td>
+                        <td className="px-6 py-3 text-sm text-right text-slate-700">{row.overcomeRate.toFixed(1)}%</td>
+                     </tr>
+                  ))
+               )}
+            </tbody>
+         </table>
+      </div>
+
+      {/* A/B Tests */}
+      {experimentResults.map(({ experiment, results }) => (
+        <div key={experiment.id} className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+           <div className="p-6 border-b border-slate-200 flex flex-col sm:flex-row justify-between items-center gap-4 bg-slate-50">
+              <h3 className="font-bold text-slate-800 flex items-center">
+                 <FlaskConical size={18} className="mr-2 text-purple-500" />
+                 A/B Test: {experiment.name}
+              </h3>
+              <p className="text-sm text-slate-500">
+                 {experiment.status === 'running' ? 'Running' : 'Stopped'}
+                 {experiment.startedAt && ` since ${new Date(experiment.startedAt).toLocaleDateString()}`}
+                 {experiment.stoppedAt && ` until ${new Date(experiment.stoppedAt).toLocaleDateString()}`}
+                 {` · assigned by ${experiment.assignBy}`}
+              </p>
+           </div>
+           <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-white">
+                 <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Variant</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Dials</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Connects</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Appointments</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Appt. Rate</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Lift</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">p-value</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Result</th>
+                 </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 bg-white">
+                 {results.map((row, index) => (
+                    <tr key={row.variant.id} className="hover:bg-slate-50 transition-colors">
+                       <td className="px-6 py-3 text-sm font-medium text-slate-900">
+                          <span className="font-bold mr-2">{row.variant.label}</span>
+                          {scripts.find(s => s.id === row.variant.scriptId)?.name || 'Deleted script'}
+                          {index === 0 && <span className="ml-1 text-xs text-slate-400">(control)</span>}
+                       </td>
+                       <td className="px-6 py-3 text-sm text-right text-slate-700">{row.dials}</td>
+                       <td className="px-6 py-3 text-sm text-right text-slate-700">{row.connects}</td>
+                       <td className="px-6 py-3 text-sm text-right font-bold text-green-600">{row.appointments}</td>
+                       <td className="px-6 py-3 text-sm text-right text-slate-700">{row.appointmentRate.toFixed(1)}%</td>
+                       <td className={`px-6 py-3 text-sm text-right ${row.lift === null ? 'text-slate-400' : row.lift >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {row.lift === null ? '–' : `${row.lift >= 0 ? '+' : ''}${row.lift.toFixed(1)} pts`}
+                       </td>
+                       <td className="px-6 py-3 text-sm text-right text-slate-700">{row.pValue === null ? '–' : row.pValue.toFixed(3)}</td>
+                       <td className="px-6 py-3 text-sm text-right">
+                          {index === 0 ? (
+                             <span className="text-slate-400">–</span>
+                          ) : row.significant ? (
+                             <span className="px-2 py-0.5 rounded-full text-xs font-bold bg-green-100 text-green-700">Significant</span>
+                          ) : row.connects < MIN_CONNECTS_PER_VARIANT || results[0].connects < MIN_CONNECTS_PER_VARIANT ? (
+                             <span className="text-xs text-slate-400" title={`At least ${MIN_CONNECTS_PER_VARIANT} connects per variant`}>Need more calls</span>
+                          ) : (
+                             <span className="text-xs text-slate-500">No clear difference</span>
+                          )}
+                       </td>
+                    </tr>
+                 ))}
+              </tbody>
+           </table>
+        </div>
+      ))}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
          {/* Outcome Chart */}
          <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm lg:col-span-1 flex flex-col">
@@ -207,7 +578,7 @@ export const Controlling: React.FC<ControllingProps> = ({ projects, contactLists
                       />
                       <Bar dataKey="value" radius={[0, 4, 4, 0]} barSize={32}>
                         {chartData.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={getColor(entry.name)} />
+                          <Cell key={`cell-${index}`} fill={entry.color} />
                         ))}
                       </Bar>
                     </BarChart>
@@ -239,11 +610,19 @@ export const Controlling: React.FC<ControllingProps> = ({ projects, contactLists
                     className="border border-slate-300 rounded-lg text-sm px-3 py-2 outline-none bg-white text-slate-900"
                   >
                      <option value="All">All Outcomes</option>
-                     <option value="Appointment Set">Appointment</option>
-                     <option value="No Answer">No Answer</option>
-                     <option value="Interested">Interested</option>
-                     <option value="Gatekeeper Blocked">Blocked</option>
+                     {outcomes.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
                   </select>
+                  {callers.length > 0 && (
+                    <select 
+                      value={callerFilter} 
+                      onChange={(e) => setCallerFilter(e.target.value)}
+                      className="border border-slate-300 rounded-lg text-sm px-3 py-2 outline-none bg-white text-slate-900"
+                    >
+                       <option value="All">All Callers</option>
+                       {callers.map(caller => <option key={caller.id} value={caller.id}>{caller.name}</option>)}
+                       <option value="Unattributed">Unattributed</option>
+                    </select>
+                  )}
                </div>
             </div>
             
@@ -254,13 +633,14 @@ export const Controlling: React.FC<ControllingProps> = ({ projects, contactLists
                         <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Time</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Lead</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Source</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Caller</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Outcome</th>
                      </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-200 bg-white">
                      {filteredLogs.length === 0 ? (
                         <tr>
-                           <td colSpan={4} className="px-6 py-12 text-center text-slate-500">
+                           <td colSpan={5} className="px-6 py-12 text-center text-slate-500">
                               No calls found matching your filters.
                            </td>
                         </tr>
@@ -285,15 +665,11 @@ export const Controlling: React.FC<ControllingProps> = ({ projects, contactLists
                                      <span className="text-[10px] uppercase tracking-wide text-slate-400">{log.sourceType}</span>
                                  </div>
                               </td>
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-700">
+                                 {log.callerName || <span className="text-slate-400 italic">Unattributed</span>}
+                              </td>
                               <td className="px-6 py-4 whitespace-nowrap">
-                                 <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium
-                                    ${log.outcome.includes('Appointment') ? 'bg-green-100 text-green-800' :
-                                      log.outcome.includes('No Answer') ? 'bg-red-50 text-red-700' :
-                                      log.outcome.includes('Interested') ? 'bg-blue-100 text-blue-800' :
-                                      'bg-slate-100 text-slate-700'
-                                    }`}>
-                                    {log.outcome}
-                                 </span>
+                                 <OutcomeBadge outcome={resolveOutcome(log, outcomes)} label={log.outcome} />
                               </td>
                            </tr>
                         ))
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, RotateCcw, PlugZap, Unplug, CheckCircle2, FlaskConical } from 'lucide-react';
+import { Button } from './Button';
+import { CrmConnection, CrmFieldMapping, CrmObject, CrmProvider, Workspace } from '../types';
+import { CRM_PROVIDERS, DEFAULT_CRM_MAPPINGS, getCrmProvider, mockCrmBaseUrl } from '../services/crmMapping';
+import { EXPORT_FIELDS, ExportFieldGroup } from '../services/leadExport';
+import { deleteCrmConnection, saveCrmConnection, testCrmConnection } from '../services/crmService';
+
+interface CrmSettingsProps {
+  workspace: Workspace | null;
+  currentUserId?: string;
+  connection: CrmConnection | null;
+  onChangeConnection: (connection: CrmConnection | null) => void;
+}
+
+const FIELD_GROUPS: ExportFieldGroup[] = ['Lead', 'Commercial register', 'Call history'];
+
+const inputClass = 'w-full border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white';
+
+export const CrmSettings: React.FC<CrmSettingsProps> = ({ workspace, currentUserId, connection, onChangeConnection }) => {
+  const [provider, setProvider] = useState<CrmProvider>(connection?.provider || 'hubspot');
+  const [baseUrl, setBaseUrl] = useState(connection?.baseUrl || getCrmProvider('hubspot').defaultBaseUrl);
+  const [token, setToken] = useState('');
+  const [mappings, setMappings] = useState<CrmFieldMapping[]>(connection?.mappings || DEFAULT_CRM_MAPPINGS.hubspot);
+  const [pushCalls, setPushCalls] = useState(connection?.pushCalls ?? true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Another owner may have changed the connection since the form was filled in
+  useEffect(() => {
+    if (!connection) return;
+    setProvider(connection.provider);
+    setBaseUrl(connection.baseUrl);
+    setMappings(connection.mappings);
+    setPushCalls(connection.pushCalls);
+  }, [connection]);
+
+  if (!workspace) {
+    return <p className="text-slate-500 dark:text-slate-400 text-sm">CRM connections are not available while offline.</p>;
+  }
+
+  const isOwner = workspace.members.some(m => m.userId === currentUserId && m.role === 'owner');
+  const info = getCrmProvider(provider);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setMessage(null);
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message || 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleProviderChange = (next: CrmProvider) => {
+    setProvider(next);
+    setBaseUrl(getCrmProvider(next).defaultBaseUrl);
+    setMappings(DEFAULT_CRM_MAPPINGS[next]);
+    setToken('');
+  };
+
+  const fillMockCrm = () => {
+    setBaseUrl(mockCrmBaseUrl(window.location.origin, provider));
+    setToken('mock-token');
+  };
+
+  const updateMapping = (index: number, changes: Partial<CrmFieldMapping>) =>
+    setMappings(prev => prev.map((m, i) => i === index ? { ...m, ...changes } : m));
+
+  const handleSave = () => run(async () => {
+    const saved = await saveCrmConnection(workspace.id, { provider, baseUrl, token: token || undefined, mappings, pushCalls });
+    onChangeConnection(saved);
+    setToken('');
+    setMessage('Connection saved.');
+  });
+
+  const handleTest = () => run(async () => {
+    await testCrmConnection(workspace.id);
+    setMessage(`Connected to ${info.label}.`);
+  });
+
+  const handleDisconnect = () => run(async () => {
+    await deleteCrmConnection(workspace.id);
+    onChangeConnection(null);
+    handleProviderChange('hubspot');
+    setMessage('CRM disconnected.');
+  });
+
+  // Saved connection with unsaved edits would be tested with the old settings
+  const isSavedProvider = connection?.provider === provider;
+
+  return (
+    <div className="space-y-6">
+      <p className="text-slate-500 dark:text-slate-400 text-sm">
+        Push leads, their decision maker and logged calls from projects and contact lists into your CRM.
+        Pushing again updates the same records and only adds new calls.
+        {!isOwner && ' Only workspace owners can change the connection.'}
+      </p>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="flex items-center p-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm text-green-700 dark:text-green-300">
+          <CheckCircle2 size={16} className="mr-2" /> {message}
+        </div>
+      )}
+
+      <fieldset disabled={!isOwner || isBusy} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">CRM</label>
+            <select className={inputClass} value={provider} onChange={e => handleProviderChange(e.target.value as CrmProvider)}>
+              {CRM_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{info.tokenLabel}</label>
+            <input
+              type="password"
+              className={inputClass}
+              value={token}
+              onChange={e => setToken(e.target.value)}
+              placeholder={isSavedProvider && connection?.hasToken ? 'Saved – leave empty to keep' : ''}
+              autoComplete="off"
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">API URL</label>
+          <div className="flex space-x-2">
+            <input type="url" className={inputClass} value={baseUrl} onChange={e => setBaseUrl(e.target.value)} placeholder={info.baseUrlHint} />
+            <Button type="button" variant="outline" size="sm" onClick={fillMockCrm} title="Fill in the local mock CRM served by the dev server">
+              <FlaskConical size={16} className="mr-1" /> Mock
+            </Button>
+          </div>
+        </div>
+        <label className="flex items-center text-sm text-slate-600 dark:text-slate-300 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={pushCalls}
+            onChange={e => setPushCalls(e.target.checked)}
+            className="mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+          />
+          Log calls as call activities
+        </label>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-bold text-slate-800 dark:text-white">Field Mapping</h4>
+            <button
+              type="button"
+              onClick={() => setMappings(DEFAULT_CRM_MAPPINGS[provider])}
+              className="flex items-center text-xs text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400"
+            >
+              <RotateCcw size={12} className="mr-1" /> Reset to defaults
+            </button>
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+            The {info.objectLabels.contact.toLowerCase()} is created from the lead's CEO; its name is always set. Use the CRM's API names as targets, including custom fields.
+          </p>
+          <div className="space-y-2">
+            {mappings.map((mapping, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <select className={inputClass} value={mapping.source} onChange={e => updateMapping(index, { source: e.target.value })}>
+                  {FIELD_GROUPS.map(group => (
+                    <optgroup key={group} label={group}>
+                      {EXPORT_FIELDS.filter(f => f.group === group).map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                    </optgroup>
+                  ))}
+                </select>
+                <span className="text-slate-400">→</span>
+                <select
+                  className={`${inputClass} w-40 shrink-0`}
+                  value={mapping.object}
+                  onChange={e => updateMapping(index, { object: e.target.value as CrmObject })}
+                >
+                  <option value="company">{info.objectLabels.company}</option>
+                  <option value="contact">{info.objectLabels.contact}</option>
+                </select>
+                <input
+                  type="text"
+                  className={inputClass}
+                  value={mapping.target}
+                  onChange={e => updateMapping(index, { target: e.target.value })}
+                  placeholder="CRM field"
+                />
+                <button
+                  type="button"
+                  onClick={() => setMappings(prev => prev.filter((_, i) => i !== index))}
+                  className="p-2 text-slate-400 hover:text-red-600 rounded"
+                  title="Remove mapping"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setMappings(prev => [...prev, { source: 'name', object: 'company', target: '' }])}
+            className="flex items-center text-sm text-blue-600 dark:text-blue-400 hover:underline mt-3"
+          >
+            <Plus size={14} className="mr-1" /> Add field
+          </button>
+        </div>
+      </fieldset>
+
+      {isOwner && (
+        <div className="flex items-center justify-between pt-4 border-t border-slate-200 dark:border-slate-700">
+          <div className="space-x-2">
+            <Button onClick={handleSave} isLoading={isBusy}>
+              <PlugZap size={16} className="mr-2" /> {connection ? 'Save' : 'Connect'}
+            </Button>
+            {connection && (
+              <Button variant="outline" onClick={handleTest} disabled={isBusy || !isSavedProvider}>
+                Test Connection
+              </Button>
+            )}
+          </div>
+          {connection && (
+            <Button variant="danger" onClick={handleDisconnect} disabled={isBusy}>
+              <Unplug size={16} className="mr-2" /> Disconnect
+            </Button>
+          )}
+        </div>
+      )}
+      {!isOwner && connection && (
+        <Button variant="outline" onClick={handleTest} disabled={isBusy}>Test Connection</Button>
+      )}
+    </div>
+  );
+};
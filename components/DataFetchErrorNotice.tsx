@@ -0,0 +1,40 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { DataFetchError, DataFetchIssueKind } from '../types';
+import { isFatalDataFetchError } from '../services/responseSchemas';
+
+interface DataFetchErrorNoticeProps {
+  error: DataFetchError;
+  title?: string;
+}
+
+const KIND_LABELS: Record<DataFetchIssueKind, string> = {
+  parse_error: 'Unreadable response',
+  missing_field: 'Missing',
+  wrong_type: 'Invalid',
+  request_failed: 'Request failed',
+};
+
+export const DataFetchErrorNotice: React.FC<DataFetchErrorNoticeProps> = ({ error, title }) => {
+  const fatal = isFatalDataFetchError(error);
+
+  return (
+    <div className={`p-3 rounded-lg border text-xs ${fatal
+      ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'
+      : 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-700 dark:text-amber-300'}`}
+    >
+      <div className="flex items-center font-bold mb-1">
+        <AlertTriangle size={14} className="mr-1" />
+        {title || (fatal ? 'No data could be retrieved' : 'Some fields were rejected')}
+      </div>
+      <ul className="space-y-0.5">
+        {error.issues.map((issue, idx) => (
+          <li key={idx}>
+            <span className="font-semibold">{KIND_LABELS[issue.kind]}:</span> {issue.message}
+          </li>
+        ))}
+      </ul>
+      <p className="mt-1 opacity-70">{new Date(error.at).toLocaleString()}</p>
+    </div>
+  );
+};
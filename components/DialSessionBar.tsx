@@ -0,0 +1,55 @@
+import React from 'react';
+import { SkipForward, Square, Zap } from 'lucide-react';
+import { DialSessionStats } from '../services/dialSession';
+
+interface DialSessionBarProps {
+  name: string;
+  stats: DialSessionStats;
+  onSkip: () => void;
+  onEnd: () => void;
+}
+
+export const DialSessionBar: React.FC<DialSessionBarProps> = ({ name, stats, onSkip, onEnd }) => {
+  const progress = stats.total > 0 ? (stats.done / stats.total) * 100 : 0;
+
+  return (
+    <div className="max-w-5xl w-full mb-3 bg-slate-900 text-white rounded-xl shadow-lg px-5 py-3 flex items-center space-x-6 border border-slate-700">
+      <div className="flex items-center space-x-2 min-w-0">
+        <Zap size={18} className="text-amber-400 shrink-0" />
+        <div className="min-w-0">
+          <div className="text-sm font-bold truncate">{name}</div>
+          <div className="text-xs text-slate-400">Lead {Math.min(stats.done + 1, stats.total)} of {stats.total}</div>
+        </div>
+      </div>
+
+      <div className="flex-1">
+        <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${progress}%` }} />
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-4 text-xs text-slate-300 whitespace-nowrap">
+        <span><span className="font-bold text-white">{stats.dials}</span> dials</span>
+        <span><span className="font-bold text-white">{stats.connects}</span> connects</span>
+        <span><span className="font-bold text-green-400">{stats.appointments}</span> appointments</span>
+        {stats.callsPerHour > 0 && <span><span className="font-bold text-white">{stats.callsPerHour}</span>/h</span>}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={onSkip}
+          className="flex items-center text-xs font-medium px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 transition-colors"
+          title="Skip this lead without logging a call"
+        >
+          <SkipForward size={14} className="mr-1" /> Skip
+        </button>
+        <button
+          onClick={onEnd}
+          className="flex items-center text-xs font-medium px-3 py-1.5 rounded-lg bg-red-600 hover:bg-red-700 transition-colors"
+        >
+          <Square size={12} className="mr-1" /> End Session
+        </button>
+      </div>
+    </div>
+  );
+};
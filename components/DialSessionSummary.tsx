@@ -0,0 +1,53 @@
+import React from 'react';
+import { Zap } from 'lucide-react';
+import { Button } from './Button';
+import { DialSession, DialSessionStats, RECENT_ATTEMPT_HOURS } from '../services/dialSession';
+
+interface DialSessionSummaryProps {
+  session: DialSession;
+  stats: DialSessionStats;
+  onClose: () => void;
+}
+
+export const DialSessionSummary: React.FC<DialSessionSummaryProps> = ({ session, stats, onClose }) => {
+  const minutes = Math.round((new Date(session.endedAt || Date.now()).getTime() - new Date(session.startedAt).getTime()) / 60000);
+  const { noPhone, recentlyCalled } = session.excluded;
+
+  const Stat = ({ label, value }: { label: string; value: string | number }) => (
+    <div className="bg-slate-50 dark:bg-slate-900/50 rounded-lg p-3 text-center">
+      <div className="text-2xl font-bold text-slate-800 dark:text-white">{value}</div>
+      <div className="text-xs text-slate-500 dark:text-slate-400">{label}</div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl w-full max-w-md p-6 border border-slate-200 dark:border-slate-700 animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center space-x-2 mb-1">
+          <Zap size={20} className="text-amber-500" />
+          <h3 className="text-lg font-bold text-slate-800 dark:text-white">Session finished</h3>
+        </div>
+        <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+          {session.name} · {minutes} min · {stats.done} of {stats.total} leads worked
+        </p>
+
+        <div className="grid grid-cols-3 gap-3 mb-4">
+          <Stat label="Dials" value={stats.dials} />
+          <Stat label="Connects" value={`${stats.connectionRate}%`} />
+          <Stat label="Appointments" value={stats.appointments} />
+          <Stat label="Skipped" value={stats.skipped} />
+          <Stat label="Calls / hour" value={stats.callsPerHour || '-'} />
+          <Stat label="Conversion" value={`${stats.conversionRate}%`} />
+        </div>
+
+        {(noPhone > 0 || recentlyCalled > 0) && (
+          <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+            Left out: {noPhone} without phone number, {recentlyCalled} called in the last {RECENT_ATTEMPT_HOURS} hours.
+          </p>
+        )}
+
+        <Button onClick={onClose} className="w-full">Done</Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { X, Merge, CheckCircle2, Copy } from 'lucide-react';
+import { Button } from './Button';
+import { Lead, WorkspaceMember } from '../types';
+import { DUPLICATE_REASON_LABELS, DuplicateGroup, MERGE_FIELDS, MergeChoices, mergeLeads } from '../services/leadDedup';
+import { getMemberName } from '../services/workspaceService';
+
+interface DuplicateReviewProps {
+  groups: DuplicateGroup[];
+  members?: WorkspaceMember[];
+  onMerge: (group: DuplicateGroup, merged: Lead) => void;
+  onDismiss: (group: DuplicateGroup) => void;
+  onClose: () => void;
+}
+
+interface MergeEditorProps {
+  group: DuplicateGroup;
+  members: WorkspaceMember[];
+  onMerge: (merged: Lead) => void;
+  onDismiss: () => void;
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+// The record with the most history is the best default to keep
+const defaultPrimary = (group: DuplicateGroup) =>
+  [...group.candidates].sort((a, b) => (b.lead.callLogs?.length || 0) - (a.lead.callLogs?.length || 0))[0].lead.id;
+
+const MergeEditor: React.FC<MergeEditorProps> = ({ group, members, onMerge, onDismiss }) => {
+  const [primaryId, setPrimaryId] = useState(() => defaultPrimary(group));
+  const [choices, setChoices] = useState<MergeChoices>({});
+
+  const records = group.candidates.map(c => c.lead);
+  const primary = records.find(r => r.id === primaryId) || records[0];
+  const others = records.filter(r => r.id !== primary.id);
+  const ordered = [primary, ...others];
+
+  const merged = mergeLeads(primary, others, choices);
+
+  const formatValue = (field: keyof Lead, value: unknown) =>
+    field === 'assignedTo' ? getMemberName(members, value as string) : String(value);
+
+  // Only fields where the records disagree need a decision
+  const conflicts = MERGE_FIELDS.filter(({ field }) =>
+    new Set(records.map(r => r[field]).filter(v => !isBlank(v)).map(String)).size > 1
+  );
+  // Same order as mergeLeads: the chosen record, else the first one with a value
+  const sourceOf = (field: keyof Lead) =>
+    choices[field] || ordered.find(r => !isBlank(r[field]))?.id;
+
+  const callCount = merged.callLogs?.length || 0;
+  const noteCount = records.filter(r => r.notes?.trim()).length;
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-wrap gap-2">
+        {group.reasons.map(reason => (
+          <span key={reason} className="text-xs px-2 py-1 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+            {DUPLICATE_REASON_LABELS[reason]}
+          </span>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left align-top">
+              <th className="p-2 w-28"></th>
+              {records.map(record => {
+                const candidate = group.candidates.find(c => c.lead.id === record.id)!;
+                return (
+                  <th key={record.id} className="p-2 font-normal">
+                    <label className="flex items-start cursor-pointer">
+                      <input
+                        type="radio"
+                        checked={record.id === primary.id}
+                        onChange={() => setPrimaryId(record.id)}
+                        className="mt-1 mr-2 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span>
+                        <span className="block font-semibold text-slate-800 dark:text-white">{record.name}</span>
+                        <span className="block text-xs text-slate-500 dark:text-slate-400">
+                          {candidate.sources.map(s => `${s.type === 'project' ? 'Project' : 'List'}: ${s.name}`).join(', ')}
+                        </span>
+                        <span className="block text-xs text-slate-500 dark:text-slate-400">
+                          {record.status} · {record.callLogs?.length || 0} calls
+                        </span>
+                      </span>
+                    </label>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {conflicts.map(({ field, label }) => (
+              <tr key={field}>
+                <td className="p-2 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">{label}</td>
+                {records.map(record => {
+                  const value = record[field];
+                  return (
+                    <td key={record.id} className="p-2">
+                      {isBlank(value) ? (
+                        <span className="text-slate-300 dark:text-slate-600">—</span>
+                      ) : (
+                        <label className="flex items-start cursor-pointer text-slate-700 dark:text-slate-200">
+                          <input
+                            type="radio"
+                            name={`${group.id}-${field}`}
+                            checked={sourceOf(field) === record.id}
+                            onChange={() => setChoices(prev => ({ ...prev, [field]: record.id }))}
+                            className="mt-1 mr-2 text-blue-600 focus:ring-blue-500"
+                          />
+                          <span className="break-words line-clamp-3">{formatValue(field, value)}</span>
+                        </label>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {conflicts.length === 0 && (
+          <p className="text-sm text-slate-500 dark:text-slate-400 p-2">The records don't contradict each other.</p>
+        )}
+      </div>
+
+      <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50 text-sm text-slate-600 dark:text-slate-300">
+        Combined automatically: {callCount} {callCount === 1 ? 'call' : 'calls'}
+        {noteCount > 1 && `, notes from ${noteCount} records`}
+        {merged.commercialData && ', commercial register data'}
+        . The merged lead replaces the others in every project and list, and keeps the status that got furthest ({merged.status}).
+      </div>
+
+      <div className="flex justify-between">
+        <Button variant="outline" size="sm" onClick={onDismiss}>
+          <CheckCircle2 size={16} className="mr-2" /> Not duplicates
+        </Button>
+        <Button size="sm" onClick={() => onMerge(merged)}>
+          <Merge size={16} className="mr-2" /> Merge {records.length} records
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const DuplicateReview: React.FC<DuplicateReviewProps> = ({ groups, members = [], onMerge, onDismiss, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(groups[0]?.id || null);
+  // After a merge or dismissal the next group is shown
+  const selected = groups.find(g => g.id === selectedId) || groups[0];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl w-full max-w-6xl h-[85vh] flex flex-col animate-in zoom-in duration-200 border border-slate-200 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold text-slate-800 dark:text-white">Duplicate Leads</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {groups.length} {groups.length === 1 ? 'business appears' : 'businesses appear'} more than once across your projects and lists
+            </p>
+          </div>
+          <button onClick={onClose}><X size={20} className="text-slate-400 hover:text-slate-200" /></button>
+        </div>
+
+        {groups.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-slate-500 dark:text-slate-400">
+            <CheckCircle2 size={32} className="mb-3 text-green-500" />
+            No duplicates found.
+          </div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            <div className="w-64 shrink-0 border-r border-slate-100 dark:border-slate-700 overflow-y-auto">
+              {groups.map(group => (
+                <button
+                  key={group.id}
+                  onClick={() => setSelectedId(group.id)}
+                  className={`w-full text-left px-4 py-3 border-b border-slate-100 dark:border-slate-700 transition-colors ${
+                    group.id === selected?.id ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'
+                  }`}
+                >
+                  <span className="block text-sm font-medium text-slate-800 dark:text-white truncate">{group.candidates[0].lead.name}</span>
+                  <span className="flex items-center text-xs text-slate-500 dark:text-slate-400">
+                    <Copy size={12} className="mr-1" /> {group.candidates.length} records
+                  </span>
+                </button>
+              ))}
+            </div>
+            <div className="flex-1 p-6 overflow-y-auto">
+              {selected && (
+                <MergeEditor
+                  key={selected.id}
+                  group={selected}
+                  members={members}
+                  onMerge={merged => onMerge(selected, merged)}
+                  onDismiss={() => onDismiss(selected)}
+                />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
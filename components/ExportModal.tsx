@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { X, Download } from 'lucide-react';
+import { Button } from './Button';
+import { CallOutcome, Lead, WorkspaceMember } from '../types';
+import { DEFAULT_CALL_OUTCOMES } from '../services/outcomes';
+import {
+  buildLeadExport, DEFAULT_EXPORT_FIELD_IDS, downloadBlob, EXPORT_FIELDS, EXPORT_FORMATS,
+  ExportFieldGroup, ExportFormat, exportFileName,
+} from '../services/leadExport';
+
+interface ExportModalProps {
+  leads: Lead[];
+  baseName: string; // Project or list name, used for the file name
+  outcomes?: CallOutcome[];
+  members?: WorkspaceMember[];
+  onClose: () => void;
+}
+
+const GROUPS: ExportFieldGroup[] = ['Lead', 'Commercial register', 'Call history'];
+
+export const ExportModal: React.FC<ExportModalProps> = ({ leads, baseName, outcomes = DEFAULT_CALL_OUTCOMES, members = [], onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [fieldIds, setFieldIds] = useState<Set<string>>(new Set(DEFAULT_EXPORT_FIELD_IDS));
+
+  const toggleField = (id: string) => {
+    setFieldIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const setGroup = (group: ExportFieldGroup, selected: boolean) => {
+    setFieldIds(prev => {
+      const next = new Set(prev);
+      EXPORT_FIELDS.filter(f => f.group === group).forEach(f => selected ? next.add(f.id) : next.delete(f.id));
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    const blob = buildLeadExport(leads, Array.from(fieldIds), format, { outcomes, members });
+    downloadBlob(blob, exportFileName(baseName, format));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col animate-in zoom-in duration-200 border border-slate-200 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold text-slate-800 dark:text-white">Export Leads</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400">{leads.length} leads from {baseName}</p>
+          </div>
+          <button onClick={onClose}><X size={20} className="text-slate-400 hover:text-slate-200" /></button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Format</label>
+            <div className="flex space-x-2">
+              {EXPORT_FORMATS.map(f => (
+                <button
+                  key={f.id}
+                  onClick={() => setFormat(f.id)}
+                  className={`px-4 py-2 rounded-md text-sm font-medium border transition-colors ${
+                    format === f.id
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white text-slate-700 border-slate-300 hover:bg-slate-50 dark:bg-slate-700 dark:text-slate-200 dark:border-slate-600 dark:hover:bg-slate-600'
+                  }`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+            {format === 'vcard' && (
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+                Company, CEO, phone, email, website and address become contact fields; other selected fields are added to the note.
+              </p>
+            )}
+          </div>
+
+          {GROUPS.map(group => {
+            const fields = EXPORT_FIELDS.filter(f => f.group === group);
+            return (
+              <div key={group}>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300">{group}</h4>
+                  <div className="space-x-3 text-xs">
+                    <button onClick={() => setGroup(group, true)} className="text-blue-600 dark:text-blue-400 hover:underline">All</button>
+                    <button onClick={() => setGroup(group, false)} className="text-slate-500 dark:text-slate-400 hover:underline">None</button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {fields.map(field => (
+                    <label key={field.id} className="flex items-center text-sm text-slate-600 dark:text-slate-300 cursor-pointer select-none">
+                      <input
+                        type="checkbox"
+                        checked={fieldIds.has(field.id)}
+                        onChange={() => toggleField(field.id)}
+                        className="mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      {field.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 dark:border-slate-700 flex justify-end space-x-2">
+          <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
+          <Button size="sm" onClick={handleExport} disabled={fieldIds.size === 0 || leads.length === 0}>
+            <Download size={16} className="mr-2" /> Export {leads.length} leads
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
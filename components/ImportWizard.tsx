@@ -0,0 +1,291 @@
+import React, { useMemo, useState } from 'react';
+import { X, Upload, FileSpreadsheet, AlertTriangle, CheckCircle2, Copy, Loader2, ArrowLeft } from 'lucide-react';
+import { Button } from './Button';
+import { ContactList, Lead } from '../types';
+import { buildImportRows, ColumnMapping, guessMapping, IMPORT_FIELDS, ImportDuplicate, ImportField, ImportRow, ImportTable, readImportFile } from '../services/leadImport';
+
+interface ImportWizardProps {
+  lists: ContactList[];
+  initialListId?: string;
+  onImport: (leads: Partial<Lead>[], listId?: string, newListName?: string) => void;
+  onClose: () => void;
+}
+
+type Step = 'UPLOAD' | 'MAPPING' | 'PREVIEW';
+type PreviewFilter = 'all' | 'errors' | 'duplicates';
+
+const NEW_LIST = '__new__';
+const PREVIEW_LIMIT = 200;
+
+const describeDuplicate = (duplicate: ImportDuplicate) =>
+  duplicate.listName
+    ? `Same ${duplicate.matchedOn} as "${duplicate.leadName}" in ${duplicate.listName}`
+    : `Same ${duplicate.matchedOn} as row ${duplicate.rowNumber}`;
+
+const inputClass = 'w-full border dark:border-slate-600 rounded p-2 text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white';
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ lists, initialListId, onImport, onClose }) => {
+  const [step, setStep] = useState<Step>('UPLOAD');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [targetListId, setTargetListId] = useState(initialListId || NEW_LIST);
+  const [newListName, setNewListName] = useState('');
+  const [isReading, setIsReading] = useState(false);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [filter, setFilter] = useState<PreviewFilter>('all');
+
+  const rows: ImportRow[] = useMemo(
+    () => (table && step === 'PREVIEW' ? buildImportRows(table, mapping, lists) : []),
+    [table, mapping, lists, step]
+  );
+
+  const validRows = rows.filter(r => r.errors.length === 0);
+  const errorCount = rows.length - validRows.length;
+  const duplicateCount = validRows.filter(r => r.duplicate).length;
+  const rowsToImport = validRows.filter(r => includeDuplicates || !r.duplicate);
+  const nameIsMapped = mapping.includes('name');
+
+  const visibleRows = rows.filter(r =>
+    filter === 'errors' ? r.errors.length > 0 : filter === 'duplicates' ? !!r.duplicate : true
+  );
+
+  const handleFile = async (file: File) => {
+    setIsReading(true);
+    setReadError(null);
+    try {
+      const parsed = await readImportFile(file);
+      setTable(parsed);
+      setMapping(guessMapping(parsed.headers));
+      if (!newListName) setNewListName(file.name.replace(/\.[^.]+$/, ''));
+      setStep('MAPPING');
+    } catch (e) {
+      console.error('Import failed', e);
+      setReadError(e instanceof Error ? e.message : 'The file could not be read.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const setColumnField = (column: number, field: ImportField | null) => {
+    // Each lead field takes one column, so choosing it again moves it
+    setMapping(prev => prev.map((current, i) => i === column ? field : (field && current === field ? null : current)));
+  };
+
+  const samplesFor = (column: number) =>
+    (table?.rows || []).map(r => (r[column] || '').trim()).filter(Boolean).slice(0, 3);
+
+  const handleImport = () => {
+    const leads = rowsToImport.map(r => r.lead);
+    if (targetListId === NEW_LIST) onImport(leads, undefined, newListName.trim() || table?.fileName);
+    else onImport(leads, targetListId);
+    onClose();
+  };
+
+  const renderUpload = () => (
+    <div className="p-6 space-y-5">
+      <div>
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Import into</label>
+        <select className={inputClass} value={targetListId} onChange={e => setTargetListId(e.target.value)}>
+          <option value={NEW_LIST}>New list…</option>
+          {lists.map(list => <option key={list.id} value={list.id}>{list.name} ({list.leads.length})</option>)}
+        </select>
+        {targetListId === NEW_LIST && (
+          <input
+            type="text"
+            className={`${inputClass} mt-2`}
+            placeholder="List name (defaults to the file name)"
+            value={newListName}
+            onChange={e => setNewListName(e.target.value)}
+          />
+        )}
+      </div>
+
+      <label className="flex flex-col items-center justify-center border-2 border-dashed border-slate-300 dark:border-slate-600 rounded-lg p-10 cursor-pointer hover:border-blue-400 hover:bg-blue-50/50 dark:hover:bg-slate-700/50 transition-colors">
+        {isReading ? (
+          <Loader2 size={32} className="animate-spin text-blue-500 mb-3" />
+        ) : (
+          <Upload size={32} className="text-slate-400 mb-3" />
+        )}
+        <span className="text-sm font-medium text-slate-700 dark:text-slate-200">Choose a file to import</span>
+        <span className="text-xs text-slate-500 dark:text-slate-400 mt-1">CSV, Excel (.xlsx) or vCard (.vcf)</span>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,.xlsx,.vcf,.vcard"
+          className="hidden"
+          disabled={isReading}
+          onChange={e => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleFile(file);
+          }}
+        />
+      </label>
+
+      {readError && (
+        <div className="flex items-start text-sm text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded p-3">
+          <AlertTriangle size={16} className="mr-2 mt-0.5 shrink-0" /> {readError}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderMapping = () => table && (
+    <div className="flex flex-col min-h-0">
+      <div className="px-6 py-3 text-sm text-slate-600 dark:text-slate-300 border-b border-slate-100 dark:border-slate-700">
+        <FileSpreadsheet size={14} className="inline mr-1 -mt-0.5" />
+        <span className="font-medium">{table.fileName}</span> — {table.rows.length} rows. Choose the lead field for each column.
+      </div>
+      <div className="overflow-auto flex-1">
+        <table className="min-w-full divide-y divide-slate-200 dark:divide-slate-700">
+          <thead className="bg-slate-50 dark:bg-slate-900/50 sticky top-0">
+            <tr>
+              <th className="px-6 py-2 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Column</th>
+              <th className="px-6 py-2 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Sample values</th>
+              <th className="px-6 py-2 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Lead field</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {table.headers.map((header, column) => (
+              <tr key={column}>
+                <td className="px-6 py-2 text-sm font-medium text-slate-800 dark:text-white">{header}</td>
+                <td className="px-6 py-2 text-xs text-slate-500 dark:text-slate-400 max-w-xs truncate">{samplesFor(column).join(' · ') || '—'}</td>
+                <td className="px-6 py-2">
+                  <select
+                    className={inputClass}
+                    value={mapping[column] || ''}
+                    onChange={e => setColumnField(column, (e.target.value || null) as ImportField | null)}
+                  >
+                    <option value="">Don't import</option>
+                    {IMPORT_FIELDS.map(def => (
+                      <option key={def.field} value={def.field}>{def.label}{def.required ? ' *' : ''}</option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {!nameIsMapped && (
+        <div className="px-6 py-2 text-sm text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 border-t border-amber-200 dark:border-amber-800">
+          Map a column to Company Name to continue.
+        </div>
+      )}
+    </div>
+  );
+
+  const filterButton = (value: PreviewFilter, label: string) => (
+    <button
+      onClick={() => setFilter(value)}
+      className={`px-3 py-1 rounded-full text-xs font-medium ${filter === value ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300'}`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderPreview = () => (
+    <div className="flex flex-col min-h-0">
+      <div className="px-6 py-3 border-b border-slate-100 dark:border-slate-700 space-y-3">
+        <div className="flex flex-wrap gap-4 text-sm">
+          <span className="flex items-center text-green-700 dark:text-green-400"><CheckCircle2 size={16} className="mr-1" /> {validRows.length - duplicateCount} ready</span>
+          <span className="flex items-center text-amber-700 dark:text-amber-400"><Copy size={16} className="mr-1" /> {duplicateCount} duplicates</span>
+          <span className="flex items-center text-red-700 dark:text-red-400"><AlertTriangle size={16} className="mr-1" /> {errorCount} with errors (skipped)</span>
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="flex space-x-2">
+            {filterButton('all', `All (${rows.length})`)}
+            {filterButton('errors', `Errors (${errorCount})`)}
+            {filterButton('duplicates', `Duplicates (${rows.filter(r => r.duplicate).length})`)}
+          </div>
+          {duplicateCount > 0 && (
+            <label className="flex items-center text-sm text-slate-600 dark:text-slate-300 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={includeDuplicates}
+                onChange={e => setIncludeDuplicates(e.target.checked)}
+                className="mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+              />
+              Import duplicates anyway
+            </label>
+          )}
+        </div>
+      </div>
+      <div className="overflow-auto flex-1">
+        <table className="min-w-full divide-y divide-slate-200 dark:divide-slate-700">
+          <thead className="bg-slate-50 dark:bg-slate-900/50 sticky top-0">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Row</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Company</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Contact</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {visibleRows.slice(0, PREVIEW_LIMIT).map(row => (
+              <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50/50 dark:bg-red-900/10' : ''}>
+                <td className="px-4 py-2 text-xs text-slate-400">{row.rowNumber}</td>
+                <td className="px-4 py-2 text-sm text-slate-800 dark:text-white">
+                  {row.lead.name || <span className="italic text-slate-400">—</span>}
+                  {row.lead.category && <div className="text-xs text-slate-500 dark:text-slate-400">{row.lead.category}</div>}
+                </td>
+                <td className="px-4 py-2 text-xs text-slate-600 dark:text-slate-300">
+                  {[row.lead.ceo, row.lead.phone, row.lead.email, row.lead.website].filter(Boolean).join(' · ') || '—'}
+                </td>
+                <td className="px-4 py-2 text-xs">
+                  {row.errors.length > 0 ? (
+                    <span className="text-red-700 dark:text-red-400">{row.errors.join('; ')}</span>
+                  ) : row.duplicate ? (
+                    <span className="text-amber-700 dark:text-amber-400">{describeDuplicate(row.duplicate)}</span>
+                  ) : (
+                    <span className="text-green-700 dark:text-green-400">Ready</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {visibleRows.length > PREVIEW_LIMIT && (
+          <p className="text-center text-xs text-slate-400 py-3">Showing the first {PREVIEW_LIMIT} of {visibleRows.length} rows.</p>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col animate-in zoom-in duration-200 border border-slate-200 dark:border-slate-700">
+        <div className="p-6 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold text-slate-800 dark:text-white">Import Contacts</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {step === 'UPLOAD' ? 'Step 1 of 3: Choose a file' : step === 'MAPPING' ? 'Step 2 of 3: Map columns' : 'Step 3 of 3: Review'}
+            </p>
+          </div>
+          <button onClick={onClose}><X size={20} className="text-slate-400 hover:text-slate-200" /></button>
+        </div>
+
+        {step === 'UPLOAD' && renderUpload()}
+        {step === 'MAPPING' && renderMapping()}
+        {step === 'PREVIEW' && renderPreview()}
+
+        {step !== 'UPLOAD' && (
+          <div className="p-4 border-t border-slate-100 dark:border-slate-700 flex justify-between">
+            <Button variant="outline" size="sm" onClick={() => setStep(step === 'PREVIEW' ? 'MAPPING' : 'UPLOAD')}>
+              <ArrowLeft size={16} className="mr-2" /> Back
+            </Button>
+            {step === 'MAPPING' ? (
+              <Button size="sm" disabled={!nameIsMapped} onClick={() => { setFilter('all'); setStep('PREVIEW'); }}>
+                Preview
+              </Button>
+            ) : (
+              <Button size="sm" disabled={rowsToImport.length === 0} onClick={handleImport}>
+                Import {rowsToImport.length} contacts
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,17 +1,24 @@
 
 import React from 'react';
-import { LayoutDashboard, PlusCircle, Database, Settings, LogOut, Menu, Users, BarChart2, FileText, Terminal, Moon, Sun } from 'lucide-react';
+import { AuthUser, Workspace } from '../types';
+import { LayoutDashboard, PlusCircle, Database, Settings, LogOut, Menu, Users, BarChart2, FileText, Terminal, Moon, Sun, Layers, ListTodo, CalendarDays, Search, Kanban } from 'lucide-react';
 
 interface LayoutProps {
   children: React.ReactNode;
-  activeTab: 'dashboard' | 'search' | 'projects' | 'contacts' | 'controlling' | 'scripts';
-  onNavigate: (tab: 'dashboard' | 'search' | 'projects' | 'contacts' | 'controlling' | 'scripts') => void;
+  activeTab: 'dashboard' | 'search' | 'projects' | 'tasks' | 'calendar' | 'contacts' | 'pipeline' | 'controlling' | 'scripts';
+  onNavigate: (tab: 'dashboard' | 'search' | 'projects' | 'tasks' | 'calendar' | 'contacts' | 'pipeline' | 'controlling' | 'scripts') => void;
   isDevMode?: boolean;
   onToggleDevMode?: () => void;
   isDarkMode?: boolean;
   onToggleDarkMode?: () => void;
   onOpenSettings?: () => void;
   onLogout?: () => void;
+  currentUser?: AuthUser | null;
+  workspaces?: Workspace[];
+  activeWorkspaceId?: string | null;
+  onSwitchWorkspace?: (workspaceId: string) => void;
+  dueTaskCount?: number; // Follow-ups due today, shown on the Tasks entry
+  onOpenSearch?: () => void;
 }
 
 export const Layout: React.FC<LayoutProps> = ({ 
@@ -23,11 +30,50 @@ export const Layout: React.FC<LayoutProps> = ({
   isDarkMode, 
   onToggleDarkMode,
   onOpenSettings,
-  onLogout
+  onLogout,
+  currentUser,
+  workspaces = [],
+  activeWorkspaceId,
+  onSwitchWorkspace,
+  dueTaskCount = 0,
+  onOpenSearch
 }) => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = React.useState(false);
 
-  const NavItem = ({ id, icon: Icon, label }: { id: typeof activeTab, icon: any, label: string }) => (
+  const WorkspaceSwitcher = () => workspaces.length > 0 ? (
+    <div className="flex items-center px-4 py-2 mb-2 rounded-lg bg-slate-800 text-slate-300">
+      <Layers size={16} className="mr-2 shrink-0 text-slate-500" />
+      <select
+        value={activeWorkspaceId || ''}
+        onChange={(e) => {
+          onSwitchWorkspace && onSwitchWorkspace(e.target.value);
+          setIsMobileMenuOpen(false);
+        }}
+        className="w-full bg-transparent text-sm font-medium outline-none truncate"
+        title="Switch workspace"
+      >
+        {workspaces.map(w => (
+          <option key={w.id} value={w.id} className="text-slate-900">{w.name}</option>
+        ))}
+      </select>
+    </div>
+  ) : null;
+
+  const SearchButton = () => onOpenSearch ? (
+    <button
+      onClick={() => {
+        onOpenSearch();
+        setIsMobileMenuOpen(false);
+      }}
+      className="flex items-center w-full px-4 py-2 mb-2 rounded-lg border border-slate-700 text-slate-400 hover:text-white hover:border-slate-500 transition-colors"
+    >
+      <Search size={16} className="mr-2" />
+      <span className="text-sm">Search leads</span>
+      <kbd className="ml-auto text-[10px] font-sans px-1.5 py-0.5 rounded bg-slate-800 text-slate-500">Ctrl K</kbd>
+    </button>
+  ) : null;
+
+  const NavItem = ({ id, icon: Icon, label, badge }: { id: typeof activeTab, icon: any, label: string, badge?: number }) => (
     <button
       onClick={() => {
         onNavigate(id);
@@ -41,6 +87,9 @@ export const Layout: React.FC<LayoutProps> = ({
     >
       <Icon size={20} className="mr-3" />
       <span className="font-medium">{label}</span>
+      {!!badge && (
+        <span className="ml-auto min-w-[20px] px-1.5 py-0.5 rounded-full bg-amber-500 text-white text-xs font-bold text-center">{badge}</span>
+      )}
     </button>
   );
 
@@ -56,10 +105,15 @@ export const Layout: React.FC<LayoutProps> = ({
         </div>
         
         <nav className="flex-1 px-4 py-6">
+          <WorkspaceSwitcher />
+          <SearchButton />
           <NavItem id="dashboard" icon={LayoutDashboard} label="Dashboard" />
           <NavItem id="search" icon={PlusCircle} label="New Search" />
           <NavItem id="projects" icon={Database} label="My Projects" />
+          <NavItem id="tasks" icon={ListTodo} label="Tasks" badge={dueTaskCount} />
+          <NavItem id="calendar" icon={CalendarDays} label="Calendar" />
           <NavItem id="contacts" icon={Users} label="CRM" />
+          <NavItem id="pipeline" icon={Kanban} label="Pipeline" />
           <NavItem id="scripts" icon={FileText} label="Scripts" />
           <div className="pt-4 mt-4 border-t border-slate-800">
              <div className="px-4 text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Analytics</div>
@@ -92,6 +146,13 @@ export const Layout: React.FC<LayoutProps> = ({
             <span>Settings</span>
           </button>
 
+          {currentUser && (
+            <div className="px-4 pt-2 text-xs text-slate-500 truncate" title={currentUser.username}>
+              Signed in as <span className="text-slate-300 font-medium">{currentUser.displayName}</span>
+              {currentUser.role === 'admin' && <span className="ml-1 text-[10px] uppercase text-blue-400">Admin</span>}
+            </div>
+          )}
+
           {onLogout && (
             <button 
               onClick={onLogout}
@@ -120,10 +181,15 @@ export const Layout: React.FC<LayoutProps> = ({
       {/* Mobile Menu Overlay */}
       {isMobileMenuOpen && (
         <div className="fixed inset-0 bg-slate-900 z-40 flex flex-col pt-20 px-4 md:hidden">
+          <WorkspaceSwitcher />
+          <SearchButton />
           <NavItem id="dashboard" icon={LayoutDashboard} label="Dashboard" />
           <NavItem id="search" icon={PlusCircle} label="New Search" />
           <NavItem id="projects" icon={Database} label="My Projects" />
+          <NavItem id="tasks" icon={ListTodo} label="Tasks" badge={dueTaskCount} />
+          <NavItem id="calendar" icon={CalendarDays} label="Calendar" />
           <NavItem id="contacts" icon={Users} label="CRM" />
+          <NavItem id="pipeline" icon={Kanban} label="Pipeline" />
           <NavItem id="scripts" icon={FileText} label="Scripts" />
           <NavItem id="controlling" icon={BarChart2} label="Controlling" />
           <div className="mt-4 border-t border-slate-800 pt-4">
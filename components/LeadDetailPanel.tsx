@@ -1,8 +1,19 @@
 import React from 'react';
-import { X, Globe, Phone, Mail, User, CheckCircle, AlertCircle, HelpCircle, FileText, ShieldCheck, Check, History, CalendarClock, Trophy, PlayCircle, Building2, Scale, Banknote, Calendar, Loader2, Terminal } from 'lucide-react';
-import { Lead, EmailStatus } from '../types';
+import { X, Globe, Phone, Mail, User, CheckCircle, AlertCircle, HelpCircle, FileText, ShieldCheck, Check, History, CalendarClock, Trophy, PlayCircle, Building2, Scale, Banknote, Calendar, Loader2, Terminal, Repeat, PhoneCall, ChevronDown, ChevronUp, Kanban, GitBranch, MessageSquareWarning } from 'lucide-react';
+import { Lead, EmailStatus, WorkspaceMember, CallOutcome, Cadence, ScoringRule, DealStage } from '../types';
 import { Button } from './Button';
 import { fetchHandelsregisterData } from '../services/geminiService';
+import { getLeadSourceProvider } from '../services/leadSources';
+import { DataFetchErrorNotice } from './DataFetchErrorNotice';
+import { AssigneeSelect } from './AssigneeSelect';
+import { OutcomeBadge } from './OutcomeBadge';
+import { DEFAULT_CALL_OUTCOMES, resolveOutcome } from '../services/outcomes';
+import { CadenceSelect } from './CadenceSelect';
+import { enrollInCadence, stopCadence } from '../services/cadences';
+import { getCrmProvider } from '../services/crmMapping';
+import { DEFAULT_SCORING_RULES, describeRule, scoreLead } from '../services/leadScoring';
+import { DEAL_STAGES, DEAL_STAGE_LABELS, moveDeal } from '../services/pipeline';
+import { describePath } from '../services/scriptGraph';
 
 interface LeadDetailPanelProps {
   lead: Lead | null;
@@ -10,13 +21,19 @@ interface LeadDetailPanelProps {
   onUpdate: (updatedLead: Lead) => void;
   onStartCall?: (lead: Lead) => void;
   isDevMode?: boolean;
+  members?: WorkspaceMember[]; // Workspace members the lead can be assigned to
+  outcomes?: CallOutcome[];
+  cadences?: Cadence[];
+  scoringRules?: ScoringRule[];
+  currentUserId?: string; // Recorded on stage changes
 }
 
-export const LeadDetailPanel: React.FC<LeadDetailPanelProps> = ({ lead, onClose, onUpdate, onStartCall, isDevMode }) => {
+export const LeadDetailPanel: React.FC<LeadDetailPanelProps> = ({ lead, onClose, onUpdate, onStartCall, isDevMode, members = [], outcomes = DEFAULT_CALL_OUTCOMES, cadences = [], scoringRules = DEFAULT_SCORING_RULES, currentUserId }) => {
   const [formData, setFormData] = React.useState<Lead | null>(null);
   const [activeTab, setActiveTab] = React.useState<'details' | 'legal'>('details');
   const [isFetchingLegal, setIsFetchingLegal] = React.useState(false);
   const [debugLog, setDebugLog] = React.useState<string>("");
+  const [showScoreBreakdown, setShowScoreBreakdown] = React.useState(false);
 
   React.useEffect(() => {
     setFormData(lead);
@@ -27,6 +44,13 @@ export const LeadDetailPanel: React.FC<LeadDetailPanelProps> = ({ lead, onClose,
 
   if (!lead || !formData) return null;
 
+  // Scored from the form so unsaved edits show their effect right away
+  const scoreResult = scoreLead(formData, scoringRules, { outcomes });
+
+  const activeCadence = formData.cadence?.status === 'active'
+    ? cadences.find(c => c.id === formData.cadence!.cadenceId)
+    : undefined;
+
   const handleChange = (field: keyof Lead, value: any) => {
     setFormData({ ...formData, [field]: value });
   };
@@ -137,13 +161,128 @@ export const LeadDetailPanel: React.FC<LeadDetailPanelProps> = ({ lead, onClose,
                    </div>
                    
                    {/* Lead Score Indicator */}
-                   <div className="flex items-center space-x-2 bg-white dark:bg-slate-700 px-2 py-1 rounded border border-slate-200 dark:border-slate-600 shadow-sm">
-                      <Trophy size={14} className={formData.leadScore && formData.leadScore > 75 ? "text-yellow-500" : "text-slate-400 dark:text-slate-500"} />
-                      <span className="text-sm font-bold text-slate-700 dark:text-slate-200">{formData.leadScore || 0}</span>
+                   <button
+                      onClick={() => setShowScoreBreakdown(!showScoreBreakdown)}
+                      className="flex items-center space-x-2 bg-white dark:bg-slate-700 px-2 py-1 rounded border border-slate-200 dark:border-slate-600 shadow-sm hover:border-blue-300 dark:hover:border-blue-500"
+                      title="Show how the score is made up"
+                   >
+                      <Trophy size={14} className={scoreResult.score > 75 ? "text-yellow-500" : "text-slate-400 dark:text-slate-500"} />
+                      <span className="text-sm font-bold text-slate-700 dark:text-slate-200">{scoreResult.score}</span>
                       <span className="text-[10px] text-slate-400 dark:text-slate-500 uppercase">Score</span>
-                   </div>
+                      {showScoreBreakdown ? <ChevronUp size={12} className="text-slate-400" /> : <ChevronDown size={12} className="text-slate-400" />}
+                   </button>
                 </div>
 
+                {showScoreBreakdown && (
+                  <div className="mt-3 p-3 bg-white dark:bg-slate-700 rounded-lg border border-slate-200 dark:border-slate-600 text-sm">
+                    {scoreResult.items.length === 0 ? (
+                      <p className="text-slate-500 dark:text-slate-400">No scoring rule matches this lead.</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {scoreResult.items.map(({ rule, points }) => (
+                          <li key={rule.id} className="flex justify-between">
+                            <span className="text-slate-600 dark:text-slate-300">{describeRule(rule)}</span>
+                            <span className={`font-mono ${points < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                              {points > 0 ? '+' : ''}{points}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {scoreResult.rawTotal !== scoreResult.score && (
+                      <p className="mt-2 pt-2 border-t border-slate-100 dark:border-slate-600 text-xs text-slate-500 dark:text-slate-400">
+                        Total {scoreResult.rawTotal}, capped to {scoreResult.score}.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {members.length > 0 && (
+                  <div className="mt-3 flex items-center text-sm text-slate-500 dark:text-slate-400">
+                    <User size={14} className="mr-2" /> Assigned to
+                    <AssigneeSelect
+                      members={members}
+                      value={formData.assignedTo}
+                      onChange={(userId) => handleChange('assignedTo', userId)}
+                      className="ml-2"
+                    />
+                  </div>
+                )}
+
+                {cadences.length > 0 && (
+                  <div className="mt-3 flex items-center text-sm text-slate-500 dark:text-slate-400">
+                    <Repeat size={14} className="mr-2" /> Follow-up
+                    {activeCadence ? (
+                      <>
+                        <span className="ml-2 text-slate-700 dark:text-slate-200">
+                          {activeCadence.name}: {activeCadence.steps[formData.cadence!.stepIndex]?.type === 'email' ? 'email' : 'call'} on {new Date(formData.cadence!.dueAt).toLocaleDateString()}
+                        </span>
+                        <button
+                          onClick={() => handleChange('cadence', stopCadence(formData.cadence!))}
+                          className="ml-2 text-xs text-slate-400 hover:text-red-600 hover:underline"
+                        >
+                          Stop
+                        </button>
+                      </>
+                    ) : (
+                      <CadenceSelect
+                        cadences={cadences}
+                        onChange={(cadenceId) => {
+                          const cadence = cadences.find(c => c.id === cadenceId);
+                          if (cadence) handleChange('cadence', enrollInCadence(cadence));
+                        }}
+                        placeholder={formData.cadence ? `Ended: ${formData.cadence.endReason || formData.cadence.status}` : 'Not in a cadence'}
+                        className="ml-2"
+                      />
+                    )}
+                  </div>
+                )}
+
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+                  <span className="flex items-center"><Kanban size={14} className="mr-2" /> Pipeline</span>
+                  <select
+                    value={formData.deal?.stage || ''}
+                    onChange={(e) => e.target.value && setFormData(moveDeal(formData, e.target.value as DealStage, currentUserId))}
+                    className="text-sm border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                  >
+                    {/* Once in the pipeline a lead leaves it as Lost, so its stage history is kept for the funnel */}
+                    {!formData.deal && <option value="">Not in pipeline</option>}
+                    {DEAL_STAGES.map(stage => <option key={stage} value={stage}>{DEAL_STAGE_LABELS[stage]}</option>)}
+                  </select>
+                  {formData.deal && (
+                    <>
+                      <input
+                        type="number"
+                        min={0}
+                        value={formData.deal.value ?? ''}
+                        onChange={(e) => handleChange('deal', { ...formData.deal!, value: e.target.value ? Number(e.target.value) : undefined })}
+                        placeholder="Value (EUR)"
+                        className="text-sm border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white w-28"
+                      />
+                      <input
+                        type="date"
+                        value={formData.deal.expectedCloseDate || ''}
+                        onChange={(e) => handleChange('deal', { ...formData.deal!, expectedCloseDate: e.target.value || undefined })}
+                        title="Expected close date"
+                        className="text-sm border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                      />
+                    </>
+                  )}
+                </div>
+
+                {formData.callbackAt && (
+                  <div className="mt-3 flex items-center text-sm text-slate-500 dark:text-slate-400">
+                    <PhoneCall size={14} className="mr-2" /> Callback
+                    <span className="ml-2 text-slate-700 dark:text-slate-200">{new Date(formData.callbackAt).toLocaleString()}</span>
+                    <button
+                      onClick={() => handleChange('callbackAt', undefined)}
+                      className="ml-2 text-xs text-slate-400 hover:text-red-600 hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                )}
+
                 {/* Tabs */}
                 <div className="flex mt-6 border-b border-slate-200 dark:border-slate-700 space-x-6">
                     <button 
@@ -164,6 +303,10 @@ export const LeadDetailPanel: React.FC<LeadDetailPanelProps> = ({ lead, onClose,
               {/* TAB CONTENT: DETAILS */}
               {activeTab === 'details' && (
                   <div className="relative flex-1 py-6 px-4 sm:px-6 space-y-6">
+
+                    {formData.enrichmentError && (
+                      <DataFetchErrorNotice error={formData.enrichmentError} title="Last enrichment had problems" />
+                    )}
                     
                     {/* Company Info */}
                     <div className="space-y-4">
@@ -297,13 +440,7 @@ export const LeadDetailPanel: React.FC<LeadDetailPanelProps> = ({ lead, onClose,
                             <div key={log.id} className="bg-white dark:bg-slate-700 p-3 rounded-lg border border-slate-200 dark:border-slate-600 shadow-sm">
                               <div className="flex justify-between items-start mb-2">
                                 <div className="flex items-center space-x-2">
-                                    <span className={`text-xs font-bold px-2 py-0.5 rounded-full ${
-                                        log.outcome.includes('Appointment') ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' :
-                                        log.outcome.includes('No Answer') ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' :
-                                        'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
-                                    }`}>
-                                    {log.outcome}
-                                    </span>
+                                    <OutcomeBadge outcome={resolveOutcome(log, outcomes)} label={log.outcome} className="font-bold" />
                                     {log.recordingStatus === 'Uploaded' && (
                                         <span title="Recording saved to cloud" className="text-blue-500">
                                             <PlayCircle size={14} />
@@ -324,7 +461,9 @@ export const LeadDetailPanel: React.FC<LeadDetailPanelProps> = ({ lead, onClose,
                                       </div>
                                       <div>
                                           <span className="text-slate-400 mr-1">Adherence:</span>
-                                          <span className="font-bold text-slate-700 dark:text-slate-200">{log.analysis.scriptAdherence}%</span>
+                                          <span className="font-bold text-slate-700 dark:text-slate-200">
+                                              {log.analysis.basedOn === 'outcome' || (log.analysis.basedOn === 'recording' && !log.scriptId) ? '–' : `${log.analysis.scriptAdherence}%`}
+                                          </span>
                                       </div>
                                       <div>
                                           <span className="text-slate-400 mr-1">Sentiment:</span>
@@ -338,7 +477,29 @@ export const LeadDetailPanel: React.FC<LeadDetailPanelProps> = ({ lead, onClose,
                                   </div>
                               )}
 
+                              {log.scriptVersion && (
+                                  <p className="text-xs text-slate-500 dark:text-slate-400 mb-1" title="Version of the script used on the call">
+                                      Script version {log.scriptVersion}{log.experimentId && ' · A/B test'}
+                                  </p>
+                              )}
+                              {log.scriptPath && log.scriptPath.length > 0 && (
+                                  <p className="text-xs text-slate-500 dark:text-slate-400 mb-1 flex items-start" title="Path through the branching script">
+                                      <GitBranch size={12} className="mr-1 mt-0.5 shrink-0" /> {describePath(log.scriptPath)}
+                                  </p>
+                              )}
+                              {log.objections && log.objections.length > 0 && (
+                                  <p className="text-xs text-slate-500 dark:text-slate-400 mb-1 flex items-start" title="Objections raised on the call">
+                                      <MessageSquareWarning size={12} className="mr-1 mt-0.5 shrink-0" />
+                                      {log.objections.map(o => `${o.title}${o.overcome ? ' ✓' : ''}`).join(', ')}
+                                  </p>
+                              )}
                               {log.notes && <p className="text-xs text-slate-600 dark:text-slate-300 mt-1">{log.notes}</p>}
+                              {log.analysis?.transcript && (
+                                  <details className="mt-2 text-xs">
+                                      <summary className="cursor-pointer text-slate-500 dark:text-slate-400">Transcript</summary>
+                                      <p className="mt-1 whitespace-pre-wrap text-slate-600 dark:text-slate-300 max-h-40 overflow-y-auto">{log.analysis.transcript}</p>
+                                  </details>
+                              )}
                             </div>
                           ))}
                         </div>
@@ -361,7 +522,22 @@ export const LeadDetailPanel: React.FC<LeadDetailPanelProps> = ({ lead, onClose,
                     <div className="bg-slate-50 dark:bg-slate-700/50 p-3 rounded-lg border border-slate-200 dark:border-slate-700">
                         <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 mb-2">Metadata</h4>
                         <p className="text-xs text-slate-400 truncate">Source: {formData.sourceUrl || 'Google Maps'}</p>
+                        {formData.source && (
+                          <p className="text-xs text-slate-400 truncate">Found via: {getLeadSourceProvider(formData.source)?.label || formData.source}</p>
+                        )}
                         <p className="text-xs text-slate-400">Rating: {formData.rating} stars ({formData.reviewCount} reviews)</p>
+                        {formData.distanceKm !== undefined && (
+                          <p className="text-xs text-slate-400">Distance from search center: {formData.distanceKm} km</p>
+                        )}
+                        {formData.crm && (
+                          <p className="text-xs text-slate-400 truncate">
+                            {getCrmProvider(formData.crm.provider).label}:{' '}
+                            {formData.crm.url
+                              ? <a href={formData.crm.url} target="_blank" rel="noreferrer" className="text-blue-500 hover:underline">record {formData.crm.companyId}</a>
+                              : `record ${formData.crm.companyId}`}
+                            {' '}• pushed {new Date(formData.crm.pushedAt).toLocaleString()}
+                          </p>
+                        )}
                     </div>
 
                   </div>
@@ -456,6 +632,10 @@ export const LeadDetailPanel: React.FC<LeadDetailPanelProps> = ({ lead, onClose,
                                   )}
                               </div>
                               
+                              {formData.commercialData.fetchError && (
+                                  <DataFetchErrorNotice error={formData.commercialData.fetchError} />
+                              )}
+
                               <div className="text-center pt-4">
                                   <p className="text-[10px] text-slate-400">
                                       Data retrieved from Handelsregister public records via Search Grounding. 
@@ -1,7 +1,8 @@
 import React from 'react';
-import { Search, MapPin, Target, List } from 'lucide-react';
+import { Search, MapPin, Target, List, Layers, Upload, CheckCircle2 } from 'lucide-react';
 import { Button } from './Button';
 import { SearchParams } from '../types';
+import { getLeadSourceProviders, registerCsvLeadSource, DEFAULT_LEAD_SOURCES } from '../services/leadSources';
 
 interface NewSearchProps {
   onStartSearch: (params: SearchParams) => void;
@@ -17,7 +18,26 @@ export const NewSearch: React.FC<NewSearchProps> = ({ onStartSearch, isProcessin
     minReviews: 0,
     mustHaveWebsite: false,
     limit: 10,
+    sources: DEFAULT_LEAD_SOURCES,
   });
+  const [providers, setProviders] = React.useState(() => getLeadSourceProviders());
+  const csvInputRef = React.useRef<HTMLInputElement>(null);
+
+  const toggleSource = (id: string) => {
+    const sources = params.sources.includes(id)
+      ? params.sources.filter(s => s !== id)
+      : [...params.sources, id];
+    setParams({ ...params, sources });
+  };
+
+  const handleCsvUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const id = registerCsvLeadSource(file.name, await file.text());
+    setProviders(getLeadSourceProviders());
+    setParams(prev => ({ ...prev, sources: prev.sources.includes(id) ? prev.sources : [...prev.sources, id] }));
+    e.target.value = '';
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -142,6 +162,41 @@ export const NewSearch: React.FC<NewSearchProps> = ({ onStartSearch, isProcessin
             </div>
           </div>
 
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="flex items-center text-sm font-medium text-slate-700 dark:text-slate-300">
+                <Layers className="w-4 h-4 mr-2 text-slate-400" /> Lead Sources
+              </label>
+              <button
+                type="button"
+                onClick={() => csvInputRef.current?.click()}
+                className="flex items-center text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <Upload size={12} className="mr-1" /> Add CSV file
+              </button>
+              <input ref={csvInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleCsvUpload} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {providers.map(provider => {
+                const isSelected = params.sources.includes(provider.id);
+                return (
+                  <button
+                    key={provider.id}
+                    type="button"
+                    onClick={() => toggleSource(provider.id)}
+                    className={`text-left p-3 rounded-lg border transition-colors ${isSelected ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20' : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600'}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-slate-800 dark:text-white truncate">{provider.label}</span>
+                      {isSelected && <CheckCircle2 size={16} className="text-blue-600 dark:text-blue-400 shrink-0" />}
+                    </div>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{provider.description}</p>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
           <div className="pt-4 flex items-center justify-between">
             <label className="flex items-center space-x-2 cursor-pointer">
               <input
@@ -153,7 +208,7 @@ export const NewSearch: React.FC<NewSearchProps> = ({ onStartSearch, isProcessin
               <span className="text-sm text-slate-700 dark:text-slate-300">Only fetch businesses with a website</span>
             </label>
 
-            <Button type="submit" size="lg" isLoading={isProcessing}>
+            <Button type="submit" size="lg" isLoading={isProcessing} disabled={params.sources.length === 0}>
               Start Lead Extraction
             </Button>
           </div>
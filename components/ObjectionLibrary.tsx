@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { Plus, Search, Edit, Trash2, Save, MessageSquareWarning } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { Objection } from '../types';
+import { Button } from './Button';
+import { OBJECTION_CATEGORIES, searchObjections } from '../services/objections';
+
+interface ObjectionLibraryProps {
+  objections: Objection[];
+  onChange: (objections: Objection[]) => void;
+}
+
+// Responses are edited one per line, keywords comma separated
+interface ObjectionForm {
+  title: string;
+  category: string;
+  responses: string;
+  keywords: string;
+}
+
+const toForm = (objection: Objection): ObjectionForm => ({
+  title: objection.title,
+  category: objection.category,
+  responses: objection.responses.join('\n'),
+  keywords: (objection.keywords || []).join(', '),
+});
+
+const inputClass = "w-full border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white";
+
+export const ObjectionLibrary: React.FC<ObjectionLibraryProps> = ({ objections, onChange }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ObjectionForm | null>(null);
+
+  const categories = Array.from(new Set([...OBJECTION_CATEGORIES, ...objections.map(o => o.category)]));
+  const visible = searchObjections(objections, searchTerm, categoryFilter || undefined);
+
+  const handleEdit = (objection: Objection) => {
+    setEditingId(objection.id);
+    setForm(toForm(objection));
+  };
+
+  const handleCreate = () => {
+    const objection: Objection = { id: uuidv4(), title: '', category: categoryFilter || OBJECTION_CATEGORIES[0], responses: [] };
+    onChange([objection, ...objections]);
+    setSearchTerm('');
+    handleEdit(objection);
+  };
+
+  const handleSave = () => {
+    if (!editingId || !form || !form.title.trim()) return;
+    const keywords = form.keywords.split(',').map(k => k.trim()).filter(Boolean);
+    onChange(objections.map(o => o.id === editingId ? {
+      ...o,
+      title: form.title.trim(),
+      category: form.category.trim() || OBJECTION_CATEGORIES[0],
+      responses: form.responses.split('\n').map(r => r.trim()).filter(Boolean),
+      keywords: keywords.length > 0 ? keywords : undefined,
+    } : o));
+    setEditingId(null);
+    setForm(null);
+  };
+
+  const handleCancel = () => {
+    // A new objection that was never saved has no title
+    if (editingId && !objections.find(o => o.id === editingId)?.title) {
+      onChange(objections.filter(o => o.id !== editingId));
+    }
+    setEditingId(null);
+    setForm(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+        <p className="text-slate-500 dark:text-slate-400 text-sm max-w-lg">
+          Objections your team hears again and again, with the responses that work. Callers look them up with <kbd className="px-1 border border-slate-300 dark:border-slate-600 rounded text-xs">/</kbd> during a call.
+        </p>
+        <Button onClick={handleCreate}>
+          <Plus size={16} className="mr-2" /> New Objection
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+          <input
+            type="text"
+            placeholder="Search objections and responses..."
+            value={searchTerm}
+            onChange={e => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-slate-300 dark:border-slate-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+          />
+        </div>
+        <select value={categoryFilter} onChange={e => setCategoryFilter(e.target.value)} className={`${inputClass} w-auto`}>
+          <option value="">All categories</option>
+          {categories.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+      </div>
+
+      {visible.length === 0 && (
+        <div className="text-center py-12 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700 border-dashed">
+          <MessageSquareWarning size={32} className="mx-auto mb-2 text-slate-300 dark:text-slate-500" />
+          <p className="text-slate-500 dark:text-slate-400">{objections.length === 0 ? 'No objections yet.' : 'No objection matches.'}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {visible.map(objection => editingId === objection.id && form ? (
+          <div key={objection.id} className="p-4 rounded-xl border border-blue-500 ring-1 ring-blue-500 bg-white dark:bg-slate-800 space-y-3">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={form.title}
+                onChange={e => setForm({ ...form, title: e.target.value })}
+                placeholder="What the prospect says"
+                className={`${inputClass} font-medium`}
+                autoFocus
+              />
+              <input
+                type="text"
+                list="objection-categories"
+                value={form.category}
+                onChange={e => setForm({ ...form, category: e.target.value })}
+                className={`${inputClass} w-40`}
+              />
+              <datalist id="objection-categories">
+                {categories.map(c => <option key={c} value={c} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Recommended responses, one per line, best first</label>
+              <textarea
+                rows={4}
+                value={form.responses}
+                onChange={e => setForm({ ...form, responses: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Other ways prospects say it (comma separated)</label>
+              <input
+                type="text"
+                value={form.keywords}
+                onChange={e => setForm({ ...form, keywords: e.target.value })}
+                placeholder="e.g. too expensive, price"
+                className={inputClass}
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="secondary" size="sm" onClick={handleCancel}>Cancel</Button>
+              <Button size="sm" onClick={handleSave} disabled={!form.title.trim()}>
+                <Save size={14} className="mr-1" /> Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div key={objection.id} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-sm group">
+            <div className="flex justify-between items-start">
+              <div>
+                <h3 className="font-bold text-slate-800 dark:text-white">“{objection.title}”</h3>
+                <span className="text-xs font-medium uppercase tracking-wide text-slate-400">{objection.category}</span>
+              </div>
+              <div className="flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => handleEdit(objection)} className="p-1.5 text-slate-400 hover:text-blue-600" title="Edit">
+                  <Edit size={14} />
+                </button>
+                <button
+                  onClick={() => window.confirm(`Delete "${objection.title}"?`) && onChange(objections.filter(o => o.id !== objection.id))}
+                  className="p-1.5 text-slate-400 hover:text-red-600"
+                  title="Delete"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+            <ol className="mt-3 space-y-1.5 list-decimal pl-5 text-sm text-slate-600 dark:text-slate-300">
+              {objection.responses.map((response, i) => <li key={i}>{response}</li>)}
+            </ol>
+            {objection.responses.length === 0 && <p className="mt-3 text-sm italic text-slate-400">No responses yet.</p>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
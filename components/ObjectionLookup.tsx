@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Search, X, Check, MessageSquareWarning } from 'lucide-react';
+import { Objection, RaisedObjection } from '../types';
+import { searchObjections } from '../services/objections';
+
+// Whether the caller got past it is unknown until they say so or the call ends
+export type RaisedObjectionDraft = Omit<RaisedObjection, 'overcome'> & { overcome?: boolean };
+
+interface ObjectionLookupProps {
+  objections: Objection[];
+  raised: RaisedObjectionDraft[];
+  onRaise: (objection: Objection) => void;
+  onSetOvercome: (objectionId: string, overcome: boolean) => void;
+  onClose: () => void;
+}
+
+export const ObjectionLookup: React.FC<ObjectionLookupProps> = ({ objections, raised, onRaise, onSetOvercome, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [openId, setOpenId] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => inputRef.current?.focus(), []);
+
+  const matches = searchObjections(objections, query);
+  const opened = objections.find(o => o.id === openId);
+
+  const handleOpen = (objection: Objection) => {
+    setOpenId(objection.id);
+    onRaise(objection);
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-20 bg-white dark:bg-slate-800 flex flex-col animate-in fade-in duration-150"
+      onKeyDown={e => {
+        if (e.key === 'Escape') { e.stopPropagation(); onClose(); }
+        if (e.key === 'Enter' && !opened && matches[0]) handleOpen(matches[0]);
+      }}
+    >
+      <div className="p-3 border-b border-slate-200 dark:border-slate-700 flex items-center space-x-2">
+        <Search size={16} className="text-slate-400 shrink-0" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={e => { setQuery(e.target.value); setOpenId(null); }}
+          placeholder="What did they say?"
+          className="flex-1 bg-transparent text-sm outline-none text-slate-900 dark:text-white"
+        />
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" title="Close (Esc)">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {opened ? (
+          <div className="space-y-3">
+            <button onClick={() => setOpenId(null)} className="text-xs text-slate-400 hover:text-slate-600 dark:hover:text-slate-200">← All objections</button>
+            <h4 className="font-bold text-slate-800 dark:text-white">“{opened.title}”</h4>
+            <ol className="space-y-2 list-decimal pl-5 text-sm text-slate-700 dark:text-slate-300">
+              {opened.responses.map((response, i) => <li key={i}>{response}</li>)}
+            </ol>
+          </div>
+        ) : matches.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center mt-6">No objection matches. Add it to the library after the call.</p>
+        ) : (
+          matches.map(objection => (
+            <button
+              key={objection.id}
+              onClick={() => handleOpen(objection)}
+              className="w-full text-left px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50"
+            >
+              <span className="block text-sm font-medium text-slate-800 dark:text-slate-200">{objection.title}</span>
+              <span className="text-[10px] uppercase font-bold text-slate-400">{objection.category}</span>
+            </button>
+          ))
+        )}
+      </div>
+
+      {raised.length > 0 && (
+        <div className="p-3 border-t border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+          <p className="text-[10px] font-bold text-slate-400 uppercase mb-2 flex items-center">
+            <MessageSquareWarning size={12} className="mr-1" /> Raised on this call
+          </p>
+          <div className="space-y-1">
+            {raised.map(r => (
+              <label key={r.objectionId} className="flex items-center justify-between text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                <span className="truncate">{r.title}</span>
+                <span className="flex items-center text-xs text-slate-500 dark:text-slate-400 shrink-0 ml-2">
+                  <input
+                    type="checkbox"
+                    checked={!!r.overcome}
+                    onChange={e => onSetOvercome(r.objectionId, e.target.checked)}
+                    className="mr-1"
+                  />
+                  <Check size={12} className="mr-0.5" /> Got past it
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import React from 'react';
+import { CallOutcome } from '../types';
+
+interface OutcomeBadgeProps {
+  outcome: CallOutcome;
+  label?: string; // Defaults to the catalog label
+  className?: string;
+}
+
+export const OutcomeBadge: React.FC<OutcomeBadgeProps> = ({ outcome, label, className = '' }) => (
+  <span
+    className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${className}`}
+    style={{ backgroundColor: `${outcome.color}26`, color: outcome.color }}
+  >
+    {label || outcome.label}
+  </span>
+);
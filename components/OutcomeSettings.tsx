@@ -0,0 +1,130 @@
+import React from 'react';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { Button } from './Button';
+import { CallOutcome, LeadStatus, OutcomeCategory } from '../types';
+import { DEFAULT_CALL_OUTCOMES, OUTCOME_CATEGORY_LABELS, outcomesInCategory } from '../services/outcomes';
+
+interface OutcomeSettingsProps {
+  outcomes: CallOutcome[];
+  onChangeOutcomes: (outcomes: CallOutcome[]) => void;
+}
+
+const CATEGORIES = Object.keys(OUTCOME_CATEGORY_LABELS) as OutcomeCategory[];
+const LEAD_STATUSES: LeadStatus[] = ['New', 'Reviewed', 'Contacted', 'Invalid'];
+
+const inputClass = "border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white";
+
+export const OutcomeSettings: React.FC<OutcomeSettingsProps> = ({ outcomes, onChangeOutcomes }) => {
+  const update = (id: string, changes: Partial<CallOutcome>) => {
+    onChangeOutcomes(outcomes.map(o => o.id === id ? { ...o, ...changes } : o));
+  };
+
+  const handleAdd = () => {
+    onChangeOutcomes([...outcomes, {
+      id: uuidv4(),
+      label: 'New Outcome',
+      category: 'rejection',
+      isConnect: true,
+      isConversion: false,
+      leadStatus: 'Contacted',
+      color: '#8b5cf6',
+    }]);
+  };
+
+  const handleReset = () => {
+    if (window.confirm('Restore the default outcomes? Custom outcomes are removed; past calls keep their labels.')) {
+      onChangeOutcomes(DEFAULT_CALL_OUTCOMES);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <p className="text-slate-500 dark:text-slate-400 text-sm max-w-lg">
+          The outcomes callers pick at the end of a call. The category decides where the button appears in the call wizard;
+          connect and conversion drive the rates in Controlling.
+        </p>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={handleReset}>
+            <RotateCcw size={16} className="mr-2" /> Defaults
+          </Button>
+          <Button onClick={handleAdd}>
+            <Plus size={16} className="mr-2" /> Add Outcome
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {outcomes.map(outcome => {
+          // Every category needs at least one outcome or its step in the call wizard has no way out
+          const isLastOfCategory = outcomesInCategory(outcomes, outcome.category).length === 1;
+          return (
+            <div key={outcome.id} className="p-4 bg-white dark:bg-slate-700/30 border border-slate-200 dark:border-slate-700 rounded-lg space-y-3">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="color"
+                  value={outcome.color}
+                  onChange={e => update(outcome.id, { color: e.target.value })}
+                  className="w-9 h-9 rounded cursor-pointer bg-transparent"
+                  title="Color"
+                />
+                <input
+                  type="text"
+                  value={outcome.label}
+                  onChange={e => update(outcome.id, { label: e.target.value })}
+                  className={`${inputClass} flex-1 font-medium`}
+                />
+                <select
+                  value={outcome.category}
+                  onChange={e => update(outcome.id, { category: e.target.value as OutcomeCategory })}
+                  disabled={isLastOfCategory}
+                  className={inputClass}
+                  title={isLastOfCategory ? 'The last outcome of a category cannot be moved' : undefined}
+                >
+                  {CATEGORIES.map(c => <option key={c} value={c}>{OUTCOME_CATEGORY_LABELS[c]}</option>)}
+                </select>
+                <button
+                  onClick={() => onChangeOutcomes(outcomes.filter(o => o.id !== outcome.id))}
+                  disabled={isLastOfCategory}
+                  className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-slate-400"
+                  title={isLastOfCategory ? 'The last outcome of a category cannot be deleted' : 'Delete outcome'}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600 dark:text-slate-300">
+                <input
+                  type="text"
+                  value={outcome.description || ''}
+                  onChange={e => update(outcome.id, { description: e.target.value || undefined })}
+                  placeholder="Description (optional)"
+                  className={`${inputClass} flex-1 min-w-[180px]`}
+                />
+                <label className="flex items-center space-x-2">
+                  <span>Lead status</span>
+                  <select
+                    value={outcome.leadStatus || ''}
+                    onChange={e => update(outcome.id, { leadStatus: (e.target.value || undefined) as LeadStatus | undefined })}
+                    className={inputClass}
+                  >
+                    <option value="">Keep</option>
+                    {LEAD_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center space-x-2 cursor-pointer">
+                  <input type="checkbox" checked={outcome.isConnect} onChange={e => update(outcome.id, { isConnect: e.target.checked })} />
+                  <span>Connect</span>
+                </label>
+                <label className="flex items-center space-x-2 cursor-pointer">
+                  <input type="checkbox" checked={outcome.isConversion} onChange={e => update(outcome.id, { isConversion: e.target.checked })} />
+                  <span>Conversion</span>
+                </label>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { Search, Database, Users, CalendarClock, User } from 'lucide-react';
+import { DealStage, WorkspaceMember } from '../types';
+import { DEAL_STAGES, DEAL_STAGE_LABELS, DealEntry, formatDealValue, isOverdue } from '../services/pipeline';
+import { getMemberName } from '../services/workspaceService';
+
+interface PipelineBoardProps {
+  deals: DealEntry[];
+  members?: WorkspaceMember[];
+  currentUserId?: string;
+  showOwnerFilter?: boolean; // Only useful with more than one workspace member
+  onMoveDeal: (entry: DealEntry, stage: DealStage) => void;
+  onOpenDeal: (entry: DealEntry) => void;
+}
+
+// Won and lost columns grow forever; the board only needs the most relevant cards
+const MAX_CARDS_PER_COLUMN = 100;
+
+const STAGE_ACCENTS: Record<DealStage, string> = {
+  Cold: 'border-t-slate-400',
+  Qualified: 'border-t-blue-500',
+  Proposal: 'border-t-indigo-500',
+  Closing: 'border-t-amber-500',
+  Closed: 'border-t-green-500',
+  Lost: 'border-t-red-400',
+};
+
+const entryKey = (entry: DealEntry) => `${entry.source.type}:${entry.source.id}:${entry.lead.id}`;
+
+// Earliest expected close first, deals without a date last
+const byCloseDate = (a: DealEntry, b: DealEntry) =>
+  (a.deal.expectedCloseDate || '9999').localeCompare(b.deal.expectedCloseDate || '9999');
+
+export const PipelineBoard: React.FC<PipelineBoardProps> = ({
+  deals,
+  members = [],
+  currentUserId,
+  showOwnerFilter,
+  onMoveDeal,
+  onOpenDeal
+}) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [onlyMine, setOnlyMine] = useState(false);
+  const [draggedKey, setDraggedKey] = useState<string | null>(null);
+  const [dropStage, setDropStage] = useState<DealStage | null>(null);
+
+  const columns = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    const visible = deals.filter(entry =>
+      (!onlyMine || entry.lead.assignedTo === currentUserId) &&
+      (!term || entry.lead.name.toLowerCase().includes(term) || entry.source.name.toLowerCase().includes(term))
+    );
+    return DEAL_STAGES.map(stage => {
+      const cards = visible.filter(entry => entry.deal.stage === stage).sort(byCloseDate);
+      return { stage, cards, value: cards.reduce((sum, entry) => sum + (entry.deal.value || 0), 0) };
+    });
+  }, [deals, searchTerm, onlyMine, currentUserId]);
+
+  const openValue = columns
+    .filter(c => c.stage !== 'Closed' && c.stage !== 'Lost')
+    .reduce((sum, c) => sum + c.value, 0);
+
+  const handleDrop = (stage: DealStage) => {
+    const entry = deals.find(d => entryKey(d) === draggedKey);
+    if (entry && entry.deal.stage !== stage) onMoveDeal(entry, stage);
+    setDraggedKey(null);
+    setDropStage(null);
+  };
+
+  return (
+    <div className="space-y-6 h-full flex flex-col">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-white">Pipeline</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Drag deals between stages. Open pipeline value: <span className="font-semibold text-slate-700 dark:text-slate-200">{formatDealValue(openValue)}</span>
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          {showOwnerFilter && (
+            <label className="flex items-center space-x-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={onlyMine} onChange={e => setOnlyMine(e.target.checked)} />
+              <span>My deals</span>
+            </label>
+          )}
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
+            <input
+              type="text"
+              placeholder="Filter deals..."
+              value={searchTerm}
+              onChange={e => setSearchTerm(e.target.value)}
+              className="pl-10 pr-4 py-2 border border-slate-300 dark:border-slate-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+            />
+          </div>
+        </div>
+      </div>
+
+      {deals.length === 0 ? (
+        <div className="text-center py-12 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700 border-dashed">
+          <p className="text-slate-500 dark:text-slate-400">No deals yet.</p>
+          <p className="text-sm text-slate-400 dark:text-slate-500 mt-1">
+            Put a lead into the pipeline from its detail panel, or add a whole contact list from the CRM page.
+          </p>
+        </div>
+      ) : (
+        <div className="flex-1 flex space-x-4 overflow-x-auto pb-2">
+          {columns.map(({ stage, cards, value }) => (
+            <div
+              key={stage}
+              onDragOver={e => { e.preventDefault(); setDropStage(stage); }}
+              onDragLeave={() => setDropStage(current => current === stage ? null : current)}
+              onDrop={e => { e.preventDefault(); handleDrop(stage); }}
+              className={`w-64 shrink-0 flex flex-col rounded-lg border-t-4 ${STAGE_ACCENTS[stage]} transition-colors ${
+                dropStage === stage && draggedKey ? 'bg-blue-50 dark:bg-blue-900/20' : 'bg-slate-100 dark:bg-slate-800/60'
+              }`}
+            >
+              <div className="px-3 py-2 flex justify-between items-baseline">
+                <h3 className="font-semibold text-slate-700 dark:text-slate-200">
+                  {DEAL_STAGE_LABELS[stage]} <span className="text-xs font-normal text-slate-400">{cards.length}</span>
+                </h3>
+                {value > 0 && <span className="text-xs text-slate-500 dark:text-slate-400">{formatDealValue(value)}</span>}
+              </div>
+              <div className="flex-1 overflow-y-auto px-2 pb-2 space-y-2 min-h-[120px]">
+                {cards.slice(0, MAX_CARDS_PER_COLUMN).map(entry => {
+                  const overdue = isOverdue(entry.deal);
+                  return (
+                    <div
+                      key={entryKey(entry)}
+                      draggable
+                      onDragStart={e => { e.dataTransfer.effectAllowed = 'move'; setDraggedKey(entryKey(entry)); }}
+                      onDragEnd={() => { setDraggedKey(null); setDropStage(null); }}
+                      onClick={() => onOpenDeal(entry)}
+                      className={`p-3 bg-white dark:bg-slate-700 rounded-lg border border-slate-200 dark:border-slate-600 shadow-sm cursor-grab hover:border-blue-300 dark:hover:border-blue-500 ${
+                        draggedKey === entryKey(entry) ? 'opacity-50' : ''
+                      }`}
+                    >
+                      <div className="flex justify-between items-start">
+                        <span className="text-sm font-medium text-slate-800 dark:text-white line-clamp-2">{entry.lead.name}</span>
+                        {entry.deal.value !== undefined && (
+                          <span className="ml-2 text-xs font-semibold text-green-700 dark:text-green-400 whitespace-nowrap">{formatDealValue(entry.deal.value)}</span>
+                        )}
+                      </div>
+                      <div className="flex items-center text-xs text-slate-500 dark:text-slate-400 mt-1">
+                        {entry.source.type === 'project' ? <Database size={12} className="mr-1 shrink-0" /> : <Users size={12} className="mr-1 shrink-0" />}
+                        <span className="truncate">{entry.source.name}</span>
+                      </div>
+                      {(entry.deal.expectedCloseDate || entry.lead.assignedTo) && (
+                        <div className="flex items-center justify-between text-xs mt-2">
+                          {entry.deal.expectedCloseDate ? (
+                            <span className={`flex items-center ${overdue ? 'text-red-600 dark:text-red-400 font-medium' : 'text-slate-500 dark:text-slate-400'}`}>
+                              <CalendarClock size={12} className="mr-1" /> {new Date(entry.deal.expectedCloseDate).toLocaleDateString()}
+                            </span>
+                          ) : <span />}
+                          {entry.lead.assignedTo && (
+                            <span className="flex items-center text-blue-600 dark:text-blue-400 truncate">
+                              <User size={12} className="mr-1" /> {getMemberName(members, entry.lead.assignedTo)}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+                {cards.length > MAX_CARDS_PER_COLUMN && (
+                  <p className="text-xs text-center text-slate-400 py-1">{cards.length - MAX_CARDS_PER_COLUMN} more — filter to find them</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,20 @@
 import React, { useState, useMemo } from 'react';
-import { Project, Lead, ContactList, Script } from '../types';
-import { Download, Filter, Search, Edit, Loader2, Sparkles, FolderPlus, X, ExternalLink, Globe, Radar, CheckCircle2, Plus, Check, HelpCircle, ShieldCheck, Phone, Mail, Calendar, BarChart3, ChevronUp, ChevronDown } from 'lucide-react';
+import { Project, Lead, ContactList, Script, WorkspaceMember, CallOutcome, Cadence, CrmProvider, ScoringRule } from '../types';
+import { JobGroupStatus } from '../services/jobQueue';
+import { Download, Filter, Search, Edit, Loader2, Sparkles, FolderPlus, X, ExternalLink, Globe, Radar, CheckCircle2, Plus, Check, HelpCircle, ShieldCheck, Phone, Mail, Calendar, BarChart3, ChevronUp, ChevronDown, AlertTriangle, Pause, Play, Square, Zap, Share2, Target } from 'lucide-react';
 import { Button } from './Button';
 import { LeadDetailPanel } from './LeadDetailPanel';
+import { DataFetchErrorNotice } from './DataFetchErrorNotice';
+import { summarizeDataFetchError } from '../services/responseSchemas';
+import { getMemberName } from '../services/workspaceService';
+import { DEFAULT_CALL_OUTCOMES, resolveOutcome } from '../services/outcomes';
+import { OutcomeBadge } from './OutcomeBadge';
+import { AssigneeSelect } from './AssigneeSelect';
+import { CadenceSelect } from './CadenceSelect';
+import { ExportModal } from './ExportModal';
+import { getCrmProvider } from '../services/crmMapping';
+import { matchesLeadQuery, parseLeadQuery } from '../services/leadQuery';
+import { scoreSimilarity, SimilarityResult } from '../services/lookalike';
 
 interface ProjectViewProps {
   project: Project;
@@ -15,6 +27,19 @@ interface ProjectViewProps {
   isLoadingMore?: boolean;
   scripts?: Script[];
   onStartCall: (lead: Lead) => void; // New Prop for Global Call Wizard
+  enrichmentStatus?: JobGroupStatus; // Enrichment queue progress for this project
+  onPauseEnrichment?: () => void;
+  onResumeEnrichment?: () => void;
+  onCancelEnrichment?: () => void;
+  members?: WorkspaceMember[];
+  currentUserId?: string;
+  outcomes?: CallOutcome[];
+  cadences?: Cadence[];
+  scoringRules?: ScoringRule[];
+  onStartDialSession?: (leads: Lead[]) => void; // Power dialer through the given leads, in order
+  onPushToCrm?: (leads: Lead[]) => Promise<void>; // Set when the workspace has a CRM connection
+  onOpenSeedLead?: () => void; // Set for lookalike projects whose seed lead still exists
+  crmProvider?: CrmProvider;
 }
 
 export const ProjectView: React.FC<ProjectViewProps> = ({ 
@@ -27,15 +52,31 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
   onLoadMore,
   isLoadingMore,
   scripts = [],
-  onStartCall
+  onStartCall,
+  enrichmentStatus,
+  onPauseEnrichment,
+  onResumeEnrichment,
+  onCancelEnrichment,
+  members = [],
+  currentUserId,
+  outcomes = DEFAULT_CALL_OUTCOMES,
+  cadences = [],
+  scoringRules,
+  onStartDialSession,
+  onPushToCrm,
+  crmProvider,
+  onOpenSeedLead
 }) => {
   const [selectedLead, setSelectedLead] = React.useState<Lead | null>(null);
   const [searchTerm, setSearchTerm] = React.useState('');
   const [statusFilter, setStatusFilter] = React.useState<string>('All');
+  const [showMyLeadsOnly, setShowMyLeadsOnly] = React.useState(false);
   const [selectedLeadIds, setSelectedLeadIds] = React.useState<Set<string>>(new Set());
   const [showSaveListModal, setShowSaveListModal] = React.useState(false);
   const [showCallStats, setShowCallStats] = React.useState(false);
-  const [sortField, setSortField] = React.useState<'leadScore' | 'name'>('name');
+  const [showExportModal, setShowExportModal] = React.useState(false);
+  const [isPushingToCrm, setIsPushingToCrm] = React.useState(false);
+  const [sortField, setSortField] = React.useState<'leadScore' | 'name' | 'similarity'>(project.lookalike ? 'similarity' : 'name');
   const [sortDirection, setSortDirection] = React.useState<'asc' | 'desc'>('desc');
   
   // Visual feedback state
@@ -50,17 +91,29 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
     onUpdateProject({ ...project, leads: updatedLeads });
   };
 
+  // Recomputed as enrichment adds descriptions and register data to the lookalikes
+  const similarity = useMemo(() => {
+    const lookalike = project.lookalike;
+    if (!lookalike) return new Map<string, SimilarityResult>();
+    return new Map(project.leads.map(lead => [lead.id, scoreSimilarity(lead, lookalike.profile, project.radius)]));
+  }, [project.leads, project.lookalike, project.radius]);
+
+  // Same query language as the global search, e.g. "status:New score:>70 bakery"
+  const searchQuery = useMemo(() => parseLeadQuery(searchTerm), [searchTerm]);
+
   const filteredLeads = useMemo(() => {
+    const source = { type: 'project' as const, id: project.id, name: project.name };
+    const queryContext = { outcomes, members, currentUserId };
     let leads = project.leads.filter(lead => {
-      const matchesSearch = lead.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                            lead.category.toLowerCase().includes(searchTerm.toLowerCase());
+      const matchesSearch = matchesLeadQuery({ lead, source }, searchQuery, queryContext);
       const matchesStatus = statusFilter === 'All' || lead.status === statusFilter;
-      return matchesSearch && matchesStatus;
+      const matchesOwner = !showMyLeadsOnly || lead.assignedTo === currentUserId;
+      return matchesSearch && matchesStatus && matchesOwner;
     });
 
     return leads.sort((a, b) => {
-      let valA: any = sortField === 'name' ? a.name : (a.leadScore || 0);
-      let valB: any = sortField === 'name' ? b.name : (b.leadScore || 0);
+      let valA: any = sortField === 'name' ? a.name : sortField === 'similarity' ? (similarity.get(a.id)?.score || 0) : (a.leadScore || 0);
+      let valB: any = sortField === 'name' ? b.name : sortField === 'similarity' ? (similarity.get(b.id)?.score || 0) : (b.leadScore || 0);
       
       if (sortField === 'name') {
          valA = valA.toLowerCase();
@@ -71,7 +124,27 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
       if (valA > valB) return sortDirection === 'asc' ? 1 : -1;
       return 0;
     });
-  }, [project.leads, searchTerm, statusFilter, sortField, sortDirection]);
+  }, [project.leads, searchQuery, statusFilter, showMyLeadsOnly, currentUserId, outcomes, members, sortField, sortDirection, similarity]);
+
+  // The power dialer and exports work through the selection, or the whole filtered table, in table order
+  const dialLeads = selectedLeadIds.size > 0 ? filteredLeads.filter(l => selectedLeadIds.has(l.id)) : filteredLeads;
+
+  const handleAssignSelected = (userId: string | undefined) => {
+    const updatedLeads = project.leads.map(l => selectedLeadIds.has(l.id) ? { ...l, assignedTo: userId } : l);
+    onUpdateProject({ ...project, leads: updatedLeads });
+    setSelectedLeadIds(new Set());
+  };
+
+  const handlePushSelected = async () => {
+    if (!onPushToCrm) return;
+    setIsPushingToCrm(true);
+    try {
+      await onPushToCrm(dialLeads);
+      setSelectedLeadIds(new Set());
+    } finally {
+      setIsPushingToCrm(false);
+    }
+  };
 
   const toggleSelection = (id: string) => {
     const newSet = new Set(selectedLeadIds);
@@ -80,7 +153,7 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
     setSelectedLeadIds(newSet);
   };
 
-  const handleSort = (field: 'leadScore' | 'name') => {
+  const handleSort = (field: 'leadScore' | 'name' | 'similarity') => {
     if (sortField === field) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
     } else {
@@ -93,54 +166,25 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
   const callStats = React.useMemo(() => {
     let totalCalls = 0;
     let leadsCalled = 0;
-    const outcomes: Record<string, number> = {};
+    const counts = new Map<string, { outcome: CallOutcome; count: number }>();
     
     project.leads.forEach(lead => {
         if (lead.callLogs && lead.callLogs.length > 0) {
             leadsCalled++;
             totalCalls += lead.callLogs.length;
             lead.callLogs.forEach(log => {
-                outcomes[log.outcome] = (outcomes[log.outcome] || 0) + 1;
+                const outcome = resolveOutcome(log, outcomes);
+                const entry = counts.get(outcome.id) || { outcome, count: 0 };
+                entry.count++;
+                counts.set(outcome.id, entry);
             });
         }
     });
 
-    const outcomeEntries = Object.entries(outcomes).sort((a, b) => b[1] - a[1]);
-
-    return { totalCalls, leadsCalled, outcomes, outcomeEntries };
-  }, [project.leads]);
-
-  const handleExport = () => {
-    const headers = ['Company Name', 'Lead Score', 'Category', 'Address', 'Website', 'Phone', 'Email', 'Email Status', 'CEO', 'Description', 'Status', 'Last Call', 'Setting Date', 'Source URL'];
-    const csvContent = [
-      headers.join(','),
-      ...filteredLeads.map(lead => [
-        `"${lead.name}"`,
-        lead.leadScore || 0,
-        `"${lead.category}"`,
-        `"${lead.address}"`,
-        lead.website,
-        lead.phone,
-        lead.email,
-        lead.emailStatus,
-        lead.ceo,
-        `"${lead.companyDescription || ''}"`,
-        lead.status,
-        `"${lead.lastCallResult || ''}"`,
-        `"${lead.appointmentDate || ''}"`,
-        lead.sourceUrl
-      ].join(','))
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', `${project.name.replace(/\s+/g, '_')}_leads.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
+    const outcomeEntries = Array.from(counts.values()).sort((a, b) => b.count - a.count);
+
+    return { totalCalls, leadsCalled, outcomeEntries };
+  }, [project.leads, outcomes]);
 
   const handleBulkEnrichClick = () => {
     onBulkEnrich(Array.from(selectedLeadIds));
@@ -203,6 +247,16 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
 
   return (
     <div className="flex flex-col h-full bg-white dark:bg-slate-800 rounded-lg shadow border border-slate-200 dark:border-slate-700 overflow-hidden relative">
+      {showExportModal && (
+        <ExportModal
+          leads={dialLeads}
+          baseName={project.name}
+          outcomes={outcomes}
+          members={members}
+          onClose={() => setShowExportModal(false)}
+        />
+      )}
+
       {/* Save List Modal */}
       {showSaveListModal && (
         <div className="absolute inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4">
@@ -262,14 +316,37 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
           <p className="text-sm text-slate-500 dark:text-slate-400 mt-1 pl-6">
             {project.leads.length} leads found • {project.location} ({project.radius}km)
           </p>
+          {project.lookalike && (
+            <p className="flex items-center text-sm text-slate-500 dark:text-slate-400 mt-1 pl-6">
+              <Target size={14} className="mr-1 text-blue-500" /> Lookalikes of
+              {onOpenSeedLead ? (
+                <button onClick={onOpenSeedLead} className="ml-1 font-medium text-blue-600 dark:text-blue-400 hover:underline">{project.lookalike.seedName}</button>
+              ) : (
+                <span className="ml-1 font-medium">{project.lookalike.seedName}</span>
+              )}
+              {project.lookalike.queries.length > 0 && (
+                <span className="ml-1 truncate" title={project.lookalike.queries.join(', ')}>• searched {project.lookalike.queries.join(', ')}</span>
+              )}
+            </p>
+          )}
         </div>
         <div className="flex items-center space-x-2">
           <Button variant="secondary" size="sm" onClick={() => setShowCallStats(!showCallStats)} className={showCallStats ? 'bg-blue-50 border-blue-200 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 dark:border-blue-800' : ''}>
             <BarChart3 size={16} className="mr-2" />
             {showCallStats ? 'Hide Stats' : 'Call Reporting'}
           </Button>
-          <Button variant="secondary" size="sm" onClick={handleExport}>
-            <Download size={16} className="mr-2" /> Export CSV
+          {onStartDialSession && (
+            <Button
+              size="sm"
+              onClick={() => onStartDialSession(dialLeads)}
+              disabled={dialLeads.length === 0}
+              title={selectedLeadIds.size > 0 ? 'Call the selected leads one after another' : 'Call the filtered leads one after another'}
+            >
+              <Zap size={16} className="mr-2" /> Power Dial ({dialLeads.length})
+            </Button>
+          )}
+          <Button variant="secondary" size="sm" onClick={() => setShowExportModal(true)}>
+            <Download size={16} className="mr-2" /> Export ({dialLeads.length})
           </Button>
           <Button variant="outline" size="sm" onClick={() => onLoadMore(project)} isLoading={isLoadingMore}>
             <Plus size={16} className="mr-2" /> Find More
@@ -277,6 +354,57 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
         </div>
       </div>
 
+      {/* Lead sources that failed on the last search; without any leads they are the whole story */}
+      {project.searchErrors && project.searchErrors.length > 0 && project.status !== 'Fetching' && (
+        project.leads.length === 0 ? (
+          <div className="p-4 border-b border-slate-200 dark:border-slate-700 space-y-2">
+            {project.searchErrors.map(failure => (
+              <DataFetchErrorNotice key={failure.sourceId} error={failure.error} title={`${failure.label} found nothing because the search failed`} />
+            ))}
+          </div>
+        ) : (
+          <div className="flex items-center bg-amber-50 dark:bg-amber-900/20 border-b border-amber-100 dark:border-amber-800 px-4 py-2 text-sm text-amber-700 dark:text-amber-300">
+            <AlertTriangle size={14} className="mr-2 shrink-0" />
+            <span>
+              {project.searchErrors.map(failure => (
+                <span key={failure.sourceId} title={summarizeDataFetchError(failure.error)} className="mr-3">{failure.label} failed on the last search</span>
+              ))}
+            </span>
+          </div>
+        )
+      )}
+
+      {/* Enrichment Queue Controls */}
+      {enrichmentStatus && (enrichmentStatus.queued + enrichmentStatus.running > 0) && (
+        <div className="flex items-center justify-between bg-blue-50 dark:bg-blue-900/20 border-b border-blue-100 dark:border-blue-800 px-4 py-2 text-sm text-blue-800 dark:text-blue-200">
+          <div className="flex items-center">
+            {enrichmentStatus.paused
+              ? <Pause size={14} className="mr-2" />
+              : <Loader2 size={14} className="animate-spin mr-2" />}
+            <span>
+              {enrichmentStatus.paused ? 'Enrichment paused' : 'Enriching leads'}: {enrichmentStatus.succeeded + enrichmentStatus.failed} done,
+              {' '}{enrichmentStatus.running} running, {enrichmentStatus.queued} waiting
+              {enrichmentStatus.retrying > 0 && <span className="text-amber-600 dark:text-amber-400"> ({enrichmentStatus.retrying} backing off after errors)</span>}
+              {enrichmentStatus.failed > 0 && <span className="text-red-600 dark:text-red-400"> • {enrichmentStatus.failed} failed</span>}
+            </span>
+          </div>
+          <div className="flex items-center space-x-2">
+            {enrichmentStatus.paused ? (
+              <Button variant="secondary" size="sm" onClick={onResumeEnrichment}>
+                <Play size={14} className="mr-1" /> Resume
+              </Button>
+            ) : (
+              <Button variant="secondary" size="sm" onClick={onPauseEnrichment}>
+                <Pause size={14} className="mr-1" /> Pause
+              </Button>
+            )}
+            <Button variant="secondary" size="sm" onClick={onCancelEnrichment}>
+              <Square size={14} className="mr-1" /> Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Call Stats Dashboard */}
       {showCallStats && (
         <div className="bg-slate-50 dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 p-4 animate-in slide-in-from-top-4 duration-300">
@@ -311,17 +439,14 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
                    {callStats.outcomeEntries.length === 0 ? (
                       <p className="text-xs text-slate-400 italic">No call data available yet.</p>
                    ) : (
-                     callStats.outcomeEntries.slice(0, 3).map(([outcome, count]) => (
-                       <div key={outcome} className="flex items-center text-sm">
-                          <span className="w-32 truncate text-slate-600 dark:text-slate-300">{outcome}</span>
+                     callStats.outcomeEntries.slice(0, 3).map(({ outcome, count }) => (
+                       <div key={outcome.id} className="flex items-center text-sm">
+                          <span className="w-32 truncate text-slate-600 dark:text-slate-300">{outcome.label}</span>
                           <div className="flex-1 mx-2">
                              <div className="w-full bg-slate-100 dark:bg-slate-600 rounded-full h-2">
                                 <div 
-                                  className={`h-2 rounded-full ${
-                                    outcome.includes('Appointment') ? 'bg-green-500' : 
-                                    outcome.includes('No Answer') ? 'bg-red-400' : 'bg-blue-400'
-                                  }`} 
-                                  style={{ width: `${(count / callStats.totalCalls) * 100}%` }}
+                                  className="h-2 rounded-full"
+                                  style={{ width: `${(count / callStats.totalCalls) * 100}%`, backgroundColor: outcome.color }}
                                 ></div>
                              </div>
                           </div>
@@ -341,10 +466,11 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
           <input 
             type="text" 
-            placeholder="Search companies..." 
+            placeholder="Search or filter, e.g. status:New score:>70" 
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
-            className="w-full pl-10 pr-4 py-2 border border-slate-300 dark:border-slate-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+            title={searchQuery.errors.join('\n') || undefined}
+            className={`w-full pl-10 pr-4 py-2 border ${searchQuery.errors.length > 0 ? 'border-amber-400' : 'border-slate-300 dark:border-slate-600'} rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none bg-white dark:bg-slate-700 text-slate-900 dark:text-white`}
           />
         </div>
         
@@ -361,6 +487,25 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
             <option value="Contacted">Contacted</option>
             <option value="Invalid">Invalid</option>
           </select>
+          {members.length > 1 && (
+            <label className="flex items-center text-sm text-slate-600 dark:text-slate-300 cursor-pointer select-none pl-2 whitespace-nowrap">
+              <input
+                type="checkbox"
+                checked={showMyLeadsOnly}
+                onChange={(e) => setShowMyLeadsOnly(e.target.checked)}
+                className="mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+              />
+              My leads
+            </label>
+          )}
+          {cadences.length > 0 && (
+            <CadenceSelect
+              cadences={cadences}
+              value={project.cadenceId}
+              onChange={(cadenceId) => onUpdateProject({ ...project, cadenceId })}
+              className="py-2"
+            />
+          )}
         </div>
       </div>
 
@@ -378,9 +523,17 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
               </button>
            </div>
            <div className="flex space-x-3">
+              {members.length > 0 && (
+                <AssigneeSelect members={members} onChange={handleAssignSelected} placeholder="Assign to..." />
+              )}
               <Button size="sm" variant="secondary" onClick={() => setShowSaveListModal(true)} className="bg-white dark:bg-slate-700 border-blue-200 dark:border-slate-600 text-blue-700 dark:text-blue-300 hover:bg-blue-50 dark:hover:bg-slate-600">
                  <FolderPlus size={16} className="mr-2" /> Save to List
               </Button>
+              {onPushToCrm && crmProvider && (
+                <Button size="sm" variant="secondary" onClick={handlePushSelected} isLoading={isPushingToCrm} className="bg-white dark:bg-slate-700 border-blue-200 dark:border-slate-600 text-blue-700 dark:text-blue-300 hover:bg-blue-50 dark:hover:bg-slate-600">
+                   <Share2 size={16} className="mr-2" /> Push to {getCrmProvider(crmProvider).label}
+                </Button>
+              )}
               <Button size="sm" onClick={handleBulkEnrichClick}>
                  <Sparkles size={16} className="mr-2" /> Enrich Selected
               </Button>
@@ -404,6 +557,14 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
                   checked={filteredLeads.length > 0 && selectedLeadIds.size === filteredLeads.length}
                 />
               </th>
+              {project.lookalike && (
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-800" onClick={() => handleSort('similarity')}>
+                   <div className="flex items-center">
+                      Match
+                      {sortField === 'similarity' && (sortDirection === 'asc' ? <ChevronUp size={12} className="ml-1"/> : <ChevronDown size={12} className="ml-1"/>)}
+                   </div>
+                </th>
+              )}
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-800" onClick={() => handleSort('leadScore')}>
                  <div className="flex items-center">
                     Score
@@ -437,16 +598,32 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
                     onChange={() => toggleSelection(lead.id)}
                   />
                 </td>
+                {project.lookalike && (
+                  <td className="px-6 py-4 whitespace-nowrap" title={similarity.get(lead.id)?.reasons.join('\n') || 'Little in common yet'}>
+                     <span className="text-sm font-semibold text-slate-700 dark:text-slate-200">{similarity.get(lead.id)?.score ?? 0}%</span>
+                  </td>
+                )}
                 <td className="px-6 py-4 whitespace-nowrap">
                    <ScoreBadge score={lead.leadScore} />
                 </td>
                 <td className="px-6 py-4">
                   <div className="flex items-center">
                     <div>
-                      <div className="text-sm font-medium text-slate-900 dark:text-white cursor-pointer hover:text-blue-600 dark:hover:text-blue-400" onClick={() => setSelectedLead(lead)}>
+                      <div className="flex items-center text-sm font-medium text-slate-900 dark:text-white cursor-pointer hover:text-blue-600 dark:hover:text-blue-400" onClick={() => setSelectedLead(lead)}>
                         {lead.name}
+                        {lead.enrichmentError && !lead.isEnriching && (
+                          <span title={summarizeDataFetchError(lead.enrichmentError)}>
+                            <AlertTriangle size={14} className="ml-1 text-amber-500" />
+                          </span>
+                        )}
                       </div>
-                      <div className="text-sm text-slate-500 dark:text-slate-400">{lead.category}</div>
+                      <div className="text-sm text-slate-500 dark:text-slate-400">
+                        {lead.category}
+                        {lead.distanceKm !== undefined && <span className="text-slate-400"> • {lead.distanceKm} km</span>}
+                      </div>
+                      {lead.assignedTo && (
+                        <div className="text-xs text-blue-600 dark:text-blue-400">{getMemberName(members, lead.assignedTo)}</div>
+                      )}
                     </div>
                   </div>
                 </td>
@@ -527,14 +704,8 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
                   <StatusBadge status={lead.status} leadId={lead.id} />
                 </td>
                  <td className="px-6 py-4 whitespace-nowrap text-sm">
-                   {lead.lastCallResult ? (
-                     <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
-                       lead.lastCallResult === 'Appointment Set' ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' :
-                       lead.lastCallResult === 'No Answer' ? 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300' :
-                       'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300'
-                     }`}>
-                       {lead.lastCallResult}
-                     </span>
+                   {lead.callLogs?.length ? (
+                     <OutcomeBadge outcome={resolveOutcome(lead.callLogs[0], outcomes)} label={lead.lastCallResult} />
                    ) : (
                      <span className="text-slate-400 text-xs">-</span>
                    )}
@@ -559,7 +730,7 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
             
             {filteredLeads.length === 0 && (
               <tr>
-                <td colSpan={11} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">
+                <td colSpan={project.lookalike ? 12 : 11} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">
                    {(project.status === 'Fetching') ? (
                       <div className="flex flex-col items-center justify-center py-10">
                         <div className="relative flex items-center justify-center w-20 h-20 mb-6">
@@ -602,6 +773,11 @@ export const ProjectView: React.FC<ProjectViewProps> = ({
         onClose={() => setSelectedLead(null)} 
         onUpdate={handleLeadUpdate}
         onStartCall={onStartCall} 
+        members={members}
+        outcomes={outcomes}
+        cadences={cadences}
+        scoringRules={scoringRules}
+        currentUserId={currentUserId}
       />
     </div>
   );
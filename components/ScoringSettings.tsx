@@ -0,0 +1,148 @@
+import React from 'react';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { Button } from './Button';
+import { ScoringOperator, ScoringRule } from '../types';
+import {
+  DEFAULT_SCORING_RULES,
+  OPERATOR_LABELS,
+  OPERATORS_BY_KIND,
+  ScoringFieldGroup,
+  SCORING_FIELDS,
+  findScoringField,
+  operatorNeedsValue,
+} from '../services/leadScoring';
+
+interface ScoringSettingsProps {
+  rules: ScoringRule[];
+  onChangeRules: (rules: ScoringRule[]) => void;
+}
+
+const GROUPS: ScoringFieldGroup[] = ['Lead', 'Commercial register', 'Call history'];
+
+const VALUE_PLACEHOLDERS: Partial<Record<ScoringOperator, string>> = {
+  equals: 'e.g. GmbH, AG',
+  contains: 'e.g. software',
+  atLeast: 'e.g. 4',
+  atMost: 'e.g. 10',
+  olderThanYears: 'Years',
+  youngerThanYears: 'Years',
+};
+
+const inputClass = "border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white";
+
+export const ScoringSettings: React.FC<ScoringSettingsProps> = ({ rules, onChangeRules }) => {
+  const update = (id: string, changes: Partial<ScoringRule>) => {
+    onChangeRules(rules.map(r => r.id === id ? { ...r, ...changes } : r));
+  };
+
+  // A field of another kind may not support the current operator
+  const handleFieldChange = (rule: ScoringRule, fieldId: string) => {
+    const operators = OPERATORS_BY_KIND[findScoringField(fieldId)?.kind || 'text'];
+    const operator = operators.includes(rule.operator) ? rule.operator : operators[0];
+    update(rule.id, { field: fieldId, operator, value: operator === rule.operator ? rule.value : undefined });
+  };
+
+  const handleAdd = () => {
+    onChangeRules([...rules, { id: uuidv4(), field: 'reviewCount', operator: 'atLeast', value: '20', points: 5, enabled: true }]);
+  };
+
+  const maxScore = rules.filter(r => r.enabled && r.points > 0).reduce((sum, r) => sum + r.points, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <p className="text-slate-500 dark:text-slate-400 text-sm max-w-lg">
+          A lead's score is the sum of the points of every rule it meets, between 0 and 100. Scores update
+          whenever a lead or these rules change.
+        </p>
+        <Button onClick={handleAdd}>
+          <Plus size={16} className="mr-2" /> Add Rule
+        </Button>
+      </div>
+
+      {rules.length === 0 && (
+        <div className="text-center py-12 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700 border-dashed">
+          <p className="text-slate-500 dark:text-slate-400">No rules yet. Every lead scores 0.</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {rules.map(rule => {
+          const field = findScoringField(rule.field);
+          const operators = OPERATORS_BY_KIND[field?.kind || 'text'];
+          return (
+            <div
+              key={rule.id}
+              className={`flex items-center space-x-2 p-3 bg-white dark:bg-slate-700/30 border border-slate-200 dark:border-slate-700 rounded-lg ${rule.enabled ? '' : 'opacity-60'}`}
+            >
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={e => update(rule.id, { enabled: e.target.checked })}
+                title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+              />
+              <select value={rule.field} onChange={e => handleFieldChange(rule, e.target.value)} className={`${inputClass} w-44`}>
+                {!field && <option value={rule.field}>{rule.field} (unknown)</option>}
+                {GROUPS.map(group => (
+                  <optgroup key={group} label={group}>
+                    {SCORING_FIELDS.filter(f => f.group === group).map(f => (
+                      <option key={f.id} value={f.id}>{f.label}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+              <select
+                value={rule.operator}
+                onChange={e => update(rule.id, { operator: e.target.value as ScoringOperator })}
+                className={inputClass}
+              >
+                {operators.map(op => <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>)}
+              </select>
+              {operatorNeedsValue(rule.operator) ? (
+                <input
+                  type={field?.kind === 'text' ? 'text' : 'number'}
+                  value={rule.value || ''}
+                  onChange={e => update(rule.id, { value: e.target.value || undefined })}
+                  placeholder={VALUE_PLACEHOLDERS[rule.operator]}
+                  className={`${inputClass} flex-1 min-w-0`}
+                />
+              ) : (
+                <span className="flex-1" />
+              )}
+              <input
+                type="number"
+                value={rule.points}
+                onChange={e => update(rule.id, { points: parseInt(e.target.value) || 0 })}
+                className={`${inputClass} w-20 text-right`}
+                title="Points (negative to subtract)"
+              />
+              <span className="text-sm text-slate-500 dark:text-slate-400">pts</span>
+              <button
+                onClick={() => onChangeRules(rules.filter(r => r.id !== rule.id))}
+                className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded transition-colors"
+                title="Delete rule"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-between items-center pt-3 border-t border-slate-100 dark:border-slate-700">
+        <span className="text-sm text-slate-500 dark:text-slate-400">
+          Highest possible score: {Math.min(100, maxScore)}{maxScore > 100 && ` (rules add up to ${maxScore})`}
+        </span>
+        <button
+          onClick={() => {
+            if (window.confirm('Replace all rules with the default scoring model?')) onChangeRules(DEFAULT_SCORING_RULES);
+          }}
+          className="text-sm text-slate-500 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 flex items-center"
+        >
+          <RotateCcw size={14} className="mr-1" /> Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+};
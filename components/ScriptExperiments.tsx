@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { Plus, FlaskConical, Play, Square, Trash2, X } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { Script, ScriptExperiment } from '../types';
+import { Button } from './Button';
+import { VARIANT_LABELS, activeExperiment } from '../services/experiments';
+
+interface ScriptExperimentsProps {
+  experiments: ScriptExperiment[];
+  scripts: Script[];
+  currentUserId?: string;
+  onChange: (experiments: ScriptExperiment[]) => void;
+}
+
+const STATUS_CLASSES: Record<ScriptExperiment['status'], string> = {
+  draft: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300',
+  running: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  stopped: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+};
+
+const inputClass = "w-full border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white";
+
+export const ScriptExperiments: React.FC<ScriptExperimentsProps> = ({ experiments, scripts, currentUserId, onChange }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [assignBy, setAssignBy] = useState<ScriptExperiment['assignBy']>('lead');
+  const [scriptIds, setScriptIds] = useState<string[]>([]);
+
+  const running = activeExperiment(experiments);
+  const scriptName = (id: string) => scripts.find(s => s.id === id)?.name || 'Deleted script';
+  const canCreate = name.trim() && scriptIds.length >= 2 && scriptIds.every(Boolean) && new Set(scriptIds).size === scriptIds.length;
+
+  const handleOpen = () => {
+    setName('');
+    setAssignBy('lead');
+    setScriptIds(scripts.slice(0, 2).map(s => s.id));
+    setIsCreating(true);
+  };
+
+  const handleCreate = () => {
+    if (!canCreate) return;
+    const experiment: ScriptExperiment = {
+      id: uuidv4(),
+      name: name.trim(),
+      variants: scriptIds.map((scriptId, i) => ({ id: uuidv4(), label: VARIANT_LABELS[i], scriptId })),
+      assignBy,
+      status: 'draft',
+      createdAt: new Date().toISOString(),
+      createdBy: currentUserId,
+    };
+    onChange([experiment, ...experiments]);
+    setIsCreating(false);
+  };
+
+  const update = (id: string, changes: Partial<ScriptExperiment>) =>
+    onChange(experiments.map(e => e.id === id ? { ...e, ...changes } : e));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+        <p className="text-slate-500 dark:text-slate-400 text-sm max-w-lg">
+          Test scripts against each other. While a test runs, every lead (or caller) is given one of its scripts in the call wizard. Results are in Controlling.
+        </p>
+        <Button onClick={handleOpen} disabled={scripts.length < 2}>
+          <Plus size={16} className="mr-2" /> New A/B Test
+        </Button>
+      </div>
+
+      {isCreating && (
+        <div className="p-4 rounded-xl border border-blue-500 ring-1 ring-blue-500 bg-white dark:bg-slate-800 space-y-3">
+          <div className="flex justify-between items-center">
+            <h3 className="font-bold text-slate-800 dark:text-white">New A/B Test</h3>
+            <button onClick={() => setIsCreating(false)}><X size={18} className="text-slate-400" /></button>
+          </div>
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="e.g. Question opener vs. value opener"
+            className={inputClass}
+            autoFocus
+          />
+          <div className="space-y-2">
+            {scriptIds.map((scriptId, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <span className="w-6 text-sm font-bold text-slate-500 dark:text-slate-400">{VARIANT_LABELS[i]}</span>
+                <select
+                  value={scriptId}
+                  onChange={e => setScriptIds(scriptIds.map((id, j) => j === i ? e.target.value : id))}
+                  className={inputClass}
+                >
+                  <option value="">Choose a script</option>
+                  {scripts.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+                {i === 0 && <span className="text-xs text-slate-400 w-14 shrink-0">Control</span>}
+                {i >= 2 && (
+                  <button onClick={() => setScriptIds(scriptIds.filter((_, j) => j !== i))} className="p-1 text-slate-400 hover:text-red-600 w-14 shrink-0" title="Remove variant">
+                    <Trash2 size={14} />
+                  </button>
+                )}
+                {i === 1 && <span className="w-14 shrink-0" />}
+              </div>
+            ))}
+            {scriptIds.length < VARIANT_LABELS.length && (
+              <button onClick={() => setScriptIds([...scriptIds, ''])} className="text-xs text-blue-600 hover:underline ml-8">
+                + Add variant {VARIANT_LABELS[scriptIds.length]}
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+            <span>Assign scripts by</span>
+            <select value={assignBy} onChange={e => setAssignBy(e.target.value as ScriptExperiment['assignBy'])} className={`${inputClass} w-auto`}>
+              <option value="lead">Lead</option>
+              <option value="caller">Caller</option>
+            </select>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="secondary" size="sm" onClick={() => setIsCreating(false)}>Cancel</Button>
+            <Button size="sm" onClick={handleCreate} disabled={!canCreate}>Create</Button>
+          </div>
+        </div>
+      )}
+
+      {experiments.length === 0 && !isCreating && (
+        <div className="text-center py-12 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700 border-dashed">
+          <FlaskConical size={32} className="mx-auto mb-2 text-slate-300 dark:text-slate-500" />
+          <p className="text-slate-500 dark:text-slate-400">{scripts.length < 2 ? 'Create at least two scripts to test them.' : 'No A/B tests yet.'}</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {experiments.map(experiment => (
+          <div key={experiment.id} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-sm">
+            <div className="flex flex-col sm:flex-row justify-between sm:items-start gap-3">
+              <div>
+                <h3 className="font-bold text-slate-800 dark:text-white flex items-center">
+                  {experiment.name}
+                  <span className={`ml-2 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${STATUS_CLASSES[experiment.status]}`}>{experiment.status}</span>
+                </h3>
+                <p className="text-xs text-slate-400 mt-0.5">
+                  By {experiment.assignBy}
+                  {experiment.startedAt && ` · started ${new Date(experiment.startedAt).toLocaleDateString()}`}
+                  {experiment.stoppedAt && ` · stopped ${new Date(experiment.stoppedAt).toLocaleDateString()}`}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                {experiment.status === 'draft' && (
+                  <Button
+                    size="sm"
+                    onClick={() => update(experiment.id, { status: 'running', startedAt: new Date().toISOString() })}
+                    disabled={!!running}
+                    title={running ? `Stop "${running.name}" first` : undefined}
+                  >
+                    <Play size={14} className="mr-1" /> Start
+                  </Button>
+                )}
+                {experiment.status === 'running' && (
+                  <Button size="sm" variant="secondary" onClick={() => update(experiment.id, { status: 'stopped', stoppedAt: new Date().toISOString() })}>
+                    <Square size={14} className="mr-1" /> Stop
+                  </Button>
+                )}
+                <button
+                  onClick={() => window.confirm(`Delete "${experiment.name}"? Calls keep their script, but the test's results are gone.`) && onChange(experiments.filter(e => e.id !== experiment.id))}
+                  className="p-1.5 text-slate-400 hover:text-red-600"
+                  title="Delete"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+            <div className="mt-3 flex flex-wrap gap-2">
+              {experiment.variants.map((variant, i) => (
+                <span key={variant.id} className="px-2 py-1 rounded-lg bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-xs text-slate-700 dark:text-slate-300">
+                  <span className="font-bold mr-1">{variant.label}</span>{scriptName(variant.scriptId)}{i === 0 && <span className="text-slate-400"> (control)</span>}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
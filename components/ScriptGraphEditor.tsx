@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Flag, AlertTriangle, CornerDownRight } from 'lucide-react';
+import { CallFlowStage, CallOutcome, ScriptBranch, ScriptBranchKind, ScriptGraph, ScriptNode } from '../types';
+import {
+  BRANCH_KINDS,
+  CALL_FLOW_STAGES,
+  createScriptBranch,
+  createScriptNode,
+  danglingBranches,
+  findNode,
+  removeNode,
+  unreachableNodes,
+} from '../services/scriptGraph';
+import { TemplateIssues } from './TemplateIssues';
+
+interface ScriptGraphEditorProps {
+  graph: ScriptGraph;
+  outcomes: CallOutcome[];
+  onChange: (graph: ScriptGraph) => void;
+  editorRef: React.RefObject<HTMLDivElement>; // Talk track of the selected node, for the formatting toolbar
+}
+
+export const BRANCH_KIND_COLORS: Record<ScriptBranchKind, string> = {
+  gatekeeper: 'border-blue-300 text-blue-700 dark:border-blue-700 dark:text-blue-300',
+  objection: 'border-amber-300 text-amber-700 dark:border-amber-700 dark:text-amber-300',
+  interest: 'border-green-300 text-green-700 dark:border-green-700 dark:text-green-300',
+  other: 'border-slate-300 text-slate-600 dark:border-slate-600 dark:text-slate-300',
+};
+
+const inputClass = "border border-slate-300 dark:border-slate-600 rounded p-1.5 text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white";
+
+export const ScriptGraphEditor: React.FC<ScriptGraphEditorProps> = ({ graph, outcomes, onChange, editorRef }) => {
+  const [selectedId, setSelectedId] = useState(graph.startNodeId);
+  const selected = findNode(graph, selectedId) || graph.nodes[0];
+  // Talk track as typed, committed on blur; checked for unknown variables meanwhile
+  const [draft, setDraft] = useState<{ nodeId: string; html: string } | null>(null);
+
+  const unreachable = new Set(unreachableNodes(graph).map(n => n.id));
+  const dangling = new Set(danglingBranches(graph).map(b => b.id));
+
+  const updateNode = (nodeId: string, changes: Partial<ScriptNode>) => {
+    onChange({ ...graph, nodes: graph.nodes.map(n => n.id === nodeId ? { ...n, ...changes } : n) });
+  };
+
+  const updateBranch = (node: ScriptNode, branchId: string, changes: Partial<ScriptBranch>) => {
+    updateNode(node.id, { branches: node.branches.map(b => b.id === branchId ? { ...b, ...changes } : b) });
+  };
+
+  const handleAddNode = () => {
+    const node = createScriptNode('New step');
+    onChange({ ...graph, nodes: [...graph.nodes, node] });
+    setSelectedId(node.id);
+  };
+
+  const handleDeleteNode = (node: ScriptNode) => {
+    if (graph.nodes.length <= 1) return;
+    if (!window.confirm(`Delete "${node.title}"? Answers leading to it will lead nowhere.`)) return;
+    const next = removeNode(graph, node.id);
+    onChange(next);
+    setSelectedId(next.startNodeId);
+  };
+
+  // "node:<id>" or "outcome:<id>", so one select covers both kinds of target
+  const branchTarget = (branch: ScriptBranch) =>
+    branch.outcomeId ? `outcome:${branch.outcomeId}` : branch.targetNodeId ? `node:${branch.targetNodeId}` : '';
+
+  const handleTargetChange = (node: ScriptNode, branch: ScriptBranch, value: string) => {
+    const [type, id] = value.split(':');
+    updateBranch(node, branch.id, {
+      targetNodeId: type === 'node' ? id : undefined,
+      outcomeId: type === 'outcome' ? id : undefined,
+    });
+  };
+
+  return (
+    <div className="flex-1 flex flex-col md:flex-row gap-4 min-h-[400px]">
+      {/* Node list */}
+      <div className="md:w-1/3 flex flex-col border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+        <div className="flex-1 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700">
+          {graph.nodes.map(node => (
+            <button
+              key={node.id}
+              onClick={() => setSelectedId(node.id)}
+              className={`w-full text-left px-3 py-2 text-sm flex items-center justify-between ${
+                node.id === selected?.id ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'
+              }`}
+            >
+              <span className="flex items-center min-w-0">
+                {node.id === graph.startNodeId && <Flag size={12} className="mr-1.5 text-green-600 shrink-0" />}
+                <span className="truncate text-slate-800 dark:text-slate-200">{node.title || 'Untitled step'}</span>
+              </span>
+              <span className="flex items-center space-x-1 shrink-0 ml-2">
+                {node.stage && (
+                  <span className="text-[10px] uppercase font-bold text-slate-400">
+                    {CALL_FLOW_STAGES.find(s => s.id === node.stage)?.label}
+                  </span>
+                )}
+                {(unreachable.has(node.id) || node.branches.some(b => dangling.has(b.id))) && (
+                  <AlertTriangle size={12} className="text-amber-500" />
+                )}
+              </span>
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleAddNode}
+          className="px-3 py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 border-t border-slate-200 dark:border-slate-700 flex items-center"
+        >
+          <Plus size={14} className="mr-1" /> Add Step
+        </button>
+      </div>
+
+      {/* Selected node */}
+      {selected && (
+        <div className="flex-1 flex flex-col space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={selected.title}
+              onChange={e => updateNode(selected.id, { title: e.target.value })}
+              className={`${inputClass} flex-1 min-w-[160px] font-medium`}
+              placeholder="Step title"
+            />
+            <select
+              value={selected.stage || ''}
+              onChange={e => updateNode(selected.id, { stage: (e.target.value || undefined) as CallFlowStage | undefined })}
+              className={inputClass}
+              title="Call step this is said at. The call wizard jumps here when the caller reaches that step."
+            >
+              <option value="">Any call step</option>
+              {CALL_FLOW_STAGES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
+            {selected.id !== graph.startNodeId && (
+              <button
+                onClick={() => onChange({ ...graph, startNodeId: selected.id })}
+                className="text-xs text-slate-500 dark:text-slate-400 hover:text-green-600 flex items-center"
+              >
+                <Flag size={12} className="mr-1" /> Start here
+              </button>
+            )}
+            <button
+              onClick={() => handleDeleteNode(selected)}
+              disabled={graph.nodes.length <= 1}
+              className="p-1.5 text-slate-400 hover:text-red-600 disabled:opacity-40"
+              title="Delete step"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+
+          {unreachable.has(selected.id) && (
+            <p className="text-xs text-amber-600 dark:text-amber-400 flex items-center">
+              <AlertTriangle size={12} className="mr-1" /> No answer leads to this step yet.
+            </p>
+          )}
+
+          {/* Uncontrolled like the single-text editor; committed when it loses focus */}
+          <div
+            key={selected.id}
+            ref={editorRef}
+            contentEditable
+            onInput={e => setDraft({ nodeId: selected.id, html: e.currentTarget.innerHTML })}
+            onBlur={e => updateNode(selected.id, { content: e.currentTarget.innerHTML })}
+            className="w-full p-3 border border-slate-300 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white overflow-y-auto focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[140px]"
+            dangerouslySetInnerHTML={{ __html: selected.content }}
+            style={{ lineHeight: '1.6' }}
+          />
+          <TemplateIssues html={draft?.nodeId === selected.id ? draft.html : selected.content} />
+
+          <div>
+            <h4 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-2">Prospect answers</h4>
+            <div className="space-y-2">
+              {selected.branches.map(branch => (
+                <div key={branch.id} className="flex items-center gap-2">
+                  <CornerDownRight size={14} className="text-slate-400 shrink-0" />
+                  <input
+                    type="text"
+                    value={branch.label}
+                    onChange={e => updateBranch(selected, branch.id, { label: e.target.value })}
+                    className={`${inputClass} flex-1 min-w-0`}
+                    placeholder="e.g. Send me an email"
+                  />
+                  <select
+                    value={branch.kind}
+                    onChange={e => updateBranch(selected, branch.id, { kind: e.target.value as ScriptBranchKind })}
+                    className={`${inputClass} border ${BRANCH_KIND_COLORS[branch.kind]}`}
+                  >
+                    {BRANCH_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+                  </select>
+                  <select
+                    value={branchTarget(branch)}
+                    onChange={e => handleTargetChange(selected, branch, e.target.value)}
+                    className={`${inputClass} w-44 ${dangling.has(branch.id) ? 'border-amber-400' : ''}`}
+                  >
+                    <option value="">Leads to...</option>
+                    <optgroup label="Go to step">
+                      {graph.nodes.filter(n => n.id !== selected.id).map(n => (
+                        <option key={n.id} value={`node:${n.id}`}>{n.title || 'Untitled step'}</option>
+                      ))}
+                    </optgroup>
+                    <optgroup label="End call as">
+                      {outcomes.map(o => <option key={o.id} value={`outcome:${o.id}`}>{o.label}</option>)}
+                    </optgroup>
+                  </select>
+                  <button
+                    onClick={() => updateNode(selected.id, { branches: selected.branches.filter(b => b.id !== branch.id) })}
+                    className="p-1.5 text-slate-400 hover:text-red-600"
+                    title="Remove answer"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => updateNode(selected.id, { branches: [...selected.branches, createScriptBranch('', 'other')] })}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline flex items-center"
+              >
+                <Plus size={14} className="mr-1" /> Add Answer
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
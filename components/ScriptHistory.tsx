@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { History, X, RotateCcw } from 'lucide-react';
+import { Script, WorkspaceMember } from '../types';
+import { Button } from './Button';
+import { currentVersion, diffWords, listVersions, restoreVersion, versionText } from '../services/scriptVersions';
+import { getMemberName } from '../services/workspaceService';
+
+interface ScriptHistoryProps {
+  script: Script;
+  members?: WorkspaceMember[];
+  onRestore: (script: Script) => void;
+  onClose: () => void;
+}
+
+const DIFF_CLASSES = {
+  same: '',
+  added: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  removed: 'bg-red-100 text-red-700 line-through dark:bg-red-900/40 dark:text-red-300',
+};
+
+export const ScriptHistory: React.FC<ScriptHistoryProps> = ({ script, members = [], onRestore, onClose }) => {
+  const versions = listVersions(script);
+  // The version before the current one, if there is any
+  const [selectedVersion, setSelectedVersion] = useState(versions[1]?.version ?? versions[0].version);
+
+  const selected = versions.find(v => v.version === selectedVersion) || versions[0];
+  const isCurrent = selected.version === currentVersion(script);
+  const parts = diffWords(versionText(selected), versionText(script));
+
+  const handleRestore = () => {
+    if (!window.confirm(`Restore version ${selected.version}? It is saved as a new version, so the current text stays in the history.`)) return;
+    onRestore(restoreVersion(script, selected));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl max-w-4xl w-full max-h-[85vh] flex flex-col animate-in zoom-in duration-200 border border-slate-200 dark:border-slate-700">
+        <div className="flex justify-between items-center p-4 border-b border-slate-200 dark:border-slate-700">
+          <h3 className="text-lg font-bold text-slate-800 dark:text-white flex items-center">
+            <History size={18} className="mr-2 text-blue-600" /> History of “{script.name}”
+          </h3>
+          <button onClick={onClose}><X size={20} className="text-slate-400" /></button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-56 shrink-0 border-r border-slate-200 dark:border-slate-700 overflow-y-auto">
+            {versions.map(version => (
+              <button
+                key={version.version}
+                onClick={() => setSelectedVersion(version.version)}
+                className={`w-full text-left px-4 py-3 border-b border-slate-100 dark:border-slate-700/50 ${version.version === selected.version ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'}`}
+              >
+                <span className="block text-sm font-medium text-slate-800 dark:text-slate-200">
+                  Version {version.version}{version.version === currentVersion(script) && ' (current)'}
+                </span>
+                <span className="block text-xs text-slate-500 dark:text-slate-400">
+                  {version.savedAt ? new Date(version.savedAt).toLocaleString() : 'Initial version'}
+                </span>
+                {getMemberName(members, version.savedBy) && (
+                  <span className="block text-xs text-slate-400">{getMemberName(members, version.savedBy)}</span>
+                )}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="px-4 py-2 text-xs text-slate-500 dark:text-slate-400 border-b border-slate-100 dark:border-slate-700/50">
+              {isCurrent
+                ? 'The current version.'
+                : <>Changes from version {selected.version} to the current one: <span className={DIFF_CLASSES.removed}>removed</span> <span className={DIFF_CLASSES.added}>added</span></>}
+            </div>
+            <div className="flex-1 overflow-y-auto p-4 text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap leading-relaxed">
+              {selected.name !== script.name && !isCurrent && (
+                <p className="mb-3 text-xs">
+                  Name: <span className={DIFF_CLASSES.removed}>{selected.name}</span> <span className={DIFF_CLASSES.added}>{script.name}</span>
+                </p>
+              )}
+              {parts.map((part, i) => <span key={i} className={DIFF_CLASSES[part.type]}>{part.text}</span>)}
+            </div>
+            <div className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end space-x-2">
+              <Button variant="secondary" size="sm" onClick={onClose}>Close</Button>
+              <Button size="sm" onClick={handleRestore} disabled={isCurrent}>
+                <RotateCcw size={14} className="mr-1" /> Restore version {selected.version}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,29 +1,33 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Script } from '../types';
+import { CallOutcome, Objection, Script, ScriptExperiment, WorkspaceMember } from '../types';
 import { v4 as uuidv4 } from 'uuid';
-import { Edit, Trash2, Plus, Sparkles, Save, X, FileText, Copy, Check, Eye, EyeOff, Bold, Italic, Highlighter, Eraser, Search, Replace } from 'lucide-react';
+import { Edit, Trash2, Plus, Sparkles, Save, X, FileText, Copy, Check, Eye, EyeOff, Bold, Italic, Highlighter, Eraser, Search, Replace, GitBranch, History } from 'lucide-react';
 import { Button } from './Button';
 import { generateColdCallScript } from '../services/geminiService';
+import { DEFAULT_CALL_OUTCOMES } from '../services/outcomes';
+import { createStarterGraph, findNode } from '../services/scriptGraph';
+import { ScriptGraphEditor } from './ScriptGraphEditor';
+import { ObjectionLibrary } from './ObjectionLibrary';
+import { ScriptHistory } from './ScriptHistory';
+import { ScriptExperiments } from './ScriptExperiments';
+import { currentVersion } from '../services/scriptVersions';
+import { PREVIEW_CONTEXT, TEMPLATE_VARIABLES, TemplateVariableGroup, renderTemplate } from '../services/templateEngine';
+import { TemplateIssues } from './TemplateIssues';
 
 interface ScriptsProps {
   scripts: Script[];
   onAddScript: (script: Script) => void;
   onUpdateScript: (script: Script) => void;
   onDeleteScript: (id: string) => void;
+  outcomes?: CallOutcome[]; // Outcomes a branch of a branching script can end the call with
+  objections?: Objection[];
+  onChangeObjections?: (objections: Objection[]) => void;
+  experiments?: ScriptExperiment[];
+  onChangeExperiments?: (experiments: ScriptExperiment[]) => void;
+  members?: WorkspaceMember[]; // To show who saved a version
+  currentUserId?: string;
 }
 
-// Dummy data for live preview
-const PREVIEW_DATA: Record<string, string> = {
-  leadName: "John Smith",
-  company: "Nebula Innovations",
-  companyName: "Nebula Innovations",
-  category: "Software Startup",
-  ceo: "Sarah Miller",
-  ceoName: "Sarah Miller",
-  myName: "Alex",
-  myCompany: "LeadScout AI"
-};
-
 const THEMES = {
   slate: 'bg-slate-50 dark:bg-slate-800 border-slate-200 dark:border-slate-700',
   blue: 'bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800',
@@ -40,9 +44,25 @@ const HEADER_THEMES = {
   amber: 'bg-amber-100 dark:bg-amber-900/50 border-b border-amber-200 dark:border-amber-800 text-amber-900 dark:text-amber-100',
 };
 
+const VARIABLE_GROUPS: TemplateVariableGroup[] = ['Shortcuts', 'Lead', 'Commercial register', 'Me'];
+
 const PILL_CLASS = "inline-block bg-amber-100 text-amber-800 px-1.5 py-0.5 rounded border border-amber-200 text-xs font-bold mx-0.5 select-none align-middle";
 
-export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdateScript, onDeleteScript }) => {
+export const Scripts: React.FC<ScriptsProps> = ({
+  scripts,
+  onAddScript,
+  onUpdateScript,
+  onDeleteScript,
+  outcomes = DEFAULT_CALL_OUTCOMES,
+  objections = [],
+  onChangeObjections,
+  experiments = [],
+  onChangeExperiments,
+  members = [],
+  currentUserId
+}) => {
+  const [view, setView] = useState<'scripts' | 'objections' | 'experiments'>('scripts');
+  const [historyScriptId, setHistoryScriptId] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<Partial<Script>>({});
   const [isGenerating, setIsGenerating] = useState(false);
@@ -50,6 +70,7 @@ export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdate
   const [showAiModal, setShowAiModal] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [previewMode, setPreviewMode] = useState<Record<string, boolean>>({});
+  const [liveContent, setLiveContent] = useState(''); // Editor HTML as typed, to flag unknown variables
 
   // Find & Replace State
   const [showFindReplace, setShowFindReplace] = useState(false);
@@ -68,6 +89,7 @@ export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdate
   const handleEdit = (script: Script) => {
     setEditingId(script.id);
     setEditForm({ ...script });
+    setLiveContent(script.content);
     setShowFindReplace(false);
   };
 
@@ -88,7 +110,10 @@ export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdate
   const handleSave = () => {
     if (editingId && editForm.name) {
       // Get content from ref to ensure latest HTML
-      const content = editorRef.current ? editorRef.current.innerHTML : editForm.content || '';
+      const graph = editForm.graph;
+      const content = graph
+        ? findNode(graph, graph.startNodeId)?.content || ''
+        : editorRef.current ? editorRef.current.innerHTML : editForm.content || '';
       onUpdateScript({ ...editForm, content } as Script);
       setEditingId(null);
       setEditForm({});
@@ -102,6 +127,19 @@ export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdate
     setShowFindReplace(false);
   };
 
+  const handleToggleBranching = () => {
+    if (editForm.graph) {
+      if (!window.confirm('Keep only the start step as a single text? The other steps and answers are removed.')) return;
+      const content = findNode(editForm.graph, editForm.graph.startNodeId)?.content || '';
+      setEditForm(prev => ({ ...prev, content, graph: undefined }));
+      setLiveContent(content);
+    } else {
+      const content = editorRef.current ? editorRef.current.innerHTML : editForm.content || '';
+      setEditForm(prev => ({ ...prev, content, graph: createStarterGraph(content) }));
+    }
+    setShowFindReplace(false);
+  };
+
   // Editor Commands
   const executeCommand = (command: string, value?: string) => {
     document.execCommand(command, false, value);
@@ -175,14 +213,7 @@ export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdate
       setPreviewMode(prev => ({ ...prev, [id]: !prev[id] }));
   };
 
-  const renderPreview = (htmlContent: string) => {
-      let previewHtml = htmlContent;
-      Object.entries(PREVIEW_DATA).forEach(([key, value]) => {
-          const regex = new RegExp(`{{${key}}}`, 'g');
-          previewHtml = previewHtml.replace(regex, value);
-      });
-      return previewHtml;
-  };
+  const historyScript = scripts.find(s => s.id === historyScriptId);
 
   // Find & Replace Logic
   const handleFindReplace = () => {
@@ -202,6 +233,7 @@ export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdate
        
        // Force update form state just in case we save immediately
        setEditForm(prev => ({ ...prev, content: newHtml }));
+       setLiveContent(newHtml);
     } catch (e) {
        console.error("Replace failed", e);
     }
@@ -214,6 +246,7 @@ export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdate
            <h2 className="text-2xl font-bold text-slate-800 dark:text-white">Sales Scripts</h2>
            <p className="text-slate-500 dark:text-slate-400">Manage rich-text templates. Use smart variables for dynamic calls.</p>
         </div>
+        {view === 'scripts' && (
         <div className="flex space-x-3">
             <Button variant="secondary" onClick={() => setShowAiModal(true)} className="bg-purple-50 text-purple-700 border-purple-200 hover:bg-purple-100 dark:bg-purple-900/30 dark:text-purple-300 dark:border-purple-800 dark:hover:bg-purple-900/50">
                 <Sparkles size={16} className="mr-2" /> AI Assistant
@@ -222,8 +255,34 @@ export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdate
                 <Plus size={16} className="mr-2" /> New Script
             </Button>
         </div>
+        )}
       </div>
 
+      {(onChangeObjections || onChangeExperiments) && (
+        <div className="flex rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden text-sm w-fit">
+          {([
+            ['scripts', 'Scripts', true],
+            ['objections', 'Objection Library', !!onChangeObjections],
+            ['experiments', 'A/B Tests', !!onChangeExperiments],
+          ] as const).filter(([, , shown]) => shown).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className={`px-4 py-1.5 ${view === id ? 'bg-blue-600 text-white' : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {view === 'objections' && onChangeObjections ? (
+        <ObjectionLibrary objections={objections} onChange={onChangeObjections} />
+      ) : view === 'experiments' && onChangeExperiments ? (
+        <ScriptExperiments experiments={experiments} scripts={scripts} currentUserId={currentUserId} onChange={onChangeExperiments} />
+      ) : (
+      <>
+
       {/* AI Modal */}
       {showAiModal && (
          <div className="fixed inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4 backdrop-blur-sm">
@@ -263,6 +322,15 @@ export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdate
          </div>
       )}
 
+      {historyScript && (
+        <ScriptHistory
+          script={historyScript}
+          members={members}
+          onRestore={onUpdateScript}
+          onClose={() => setHistoryScriptId(null)}
+        />
+      )}
+
       {/* Scripts Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {scripts.map(script => {
@@ -311,7 +379,16 @@ export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdate
                           <button onClick={() => executeCommand('backColor', '#dcfce7')} className="p-1.5 hover:bg-white dark:hover:bg-slate-700 rounded text-green-600" title="Highlight Green"><Highlighter size={16}/></button>
                           <button onClick={() => executeCommand('removeFormat')} className="p-1.5 hover:bg-white dark:hover:bg-slate-700 rounded text-slate-400" title="Clear Formatting"><Eraser size={16}/></button>
                           <div className="w-px h-4 bg-slate-300 dark:bg-slate-600 mx-1"></div>
-                          <button onClick={() => setShowFindReplace(!showFindReplace)} className={`p-1.5 rounded ${showFindReplace ? 'bg-blue-100 text-blue-600' : 'text-slate-600 dark:text-slate-400 hover:bg-white dark:hover:bg-slate-700'}`} title="Find & Replace"><Search size={16}/></button>
+                          {!editForm.graph && (
+                            <button onClick={() => setShowFindReplace(!showFindReplace)} className={`p-1.5 rounded ${showFindReplace ? 'bg-blue-100 text-blue-600' : 'text-slate-600 dark:text-slate-400 hover:bg-white dark:hover:bg-slate-700'}`} title="Find & Replace"><Search size={16}/></button>
+                          )}
+                          <button
+                            onClick={handleToggleBranching}
+                            className={`p-1.5 rounded ${editForm.graph ? 'bg-blue-100 text-blue-600' : 'text-slate-600 dark:text-slate-400 hover:bg-white dark:hover:bg-slate-700'}`}
+                            title={editForm.graph ? 'Back to a single text' : 'Branching script: steps with answers for gatekeepers, objections and interest'}
+                          >
+                            <GitBranch size={16}/>
+                          </button>
 
                           <div className="w-px h-4 bg-slate-300 dark:bg-slate-600 mx-1"></div>
                           
@@ -326,6 +403,21 @@ export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdate
                                       {v}
                                   </button>
                               ))}
+                              <select
+                                value=""
+                                onChange={e => e.target.value && insertVariable(e.target.value)}
+                                className="text-xs border border-slate-300 dark:border-slate-600 rounded py-0.5 px-1 bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200"
+                                title={'Defaults: {{ceo | "the owner"}} · Filters: {{lead.ceo | first}} · Conditions: {{#if lead.ceo}}…{{else}}…{{/if}}'}
+                              >
+                                  <option value="">More…</option>
+                                  {VARIABLE_GROUPS.map(group => (
+                                      <optgroup key={group} label={group}>
+                                          {TEMPLATE_VARIABLES.filter(v => v.group === group).map(v => (
+                                              <option key={v.key} value={v.key}>{v.key} ({v.label})</option>
+                                          ))}
+                                      </optgroup>
+                                  ))}
+                              </select>
                           </div>
                       </div>
 
@@ -353,15 +445,25 @@ export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdate
                         </div>
                       )}
   
-                      {/* Rich Text Editor */}
-                      {/* Uncontrolled to fix cursor issues */}
-                      <div 
-                        ref={editorRef}
-                        contentEditable
-                        className="flex-1 w-full p-4 border border-slate-300 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white overflow-y-auto focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[300px]"
-                        dangerouslySetInnerHTML={{ __html: editForm.content || '' }}
-                        style={{ lineHeight: '1.6' }}
-                      />
+                      {editForm.graph ? (
+                        <ScriptGraphEditor
+                          graph={editForm.graph}
+                          outcomes={outcomes}
+                          onChange={(graph) => setEditForm(prev => ({ ...prev, graph }))}
+                          editorRef={editorRef}
+                        />
+                      ) : (
+                        // Rich Text Editor, uncontrolled to fix cursor issues
+                        <div 
+                          ref={editorRef}
+                          contentEditable
+                          className="flex-1 w-full p-4 border border-slate-300 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white overflow-y-auto focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[300px]"
+                          onInput={e => setLiveContent(e.currentTarget.innerHTML)}
+                          dangerouslySetInnerHTML={{ __html: editForm.content || '' }}
+                          style={{ lineHeight: '1.6' }}
+                        />
+                      )}
+                      {!editForm.graph && <TemplateIssues html={liveContent} />}
   
                       <div className="flex justify-end space-x-3 pt-2">
                           <Button variant="secondary" size="sm" onClick={handleCancel}>Cancel</Button>
@@ -375,6 +477,15 @@ export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdate
                         <div>
                             <h3 className="font-bold text-lg flex items-center">{script.name}</h3>
                             <span className="text-xs font-medium opacity-70 uppercase tracking-wide">{script.category}</span>
+                            {currentVersion(script) > 1 && (
+                                <span className="ml-2 text-xs font-medium opacity-70">v{currentVersion(script)}</span>
+                            )}
+                            {script.graph && (
+                                <span className="ml-2 text-xs font-medium opacity-70 inline-flex items-center" title="Branching script">
+                                    <GitBranch size={12} className="mr-1" />
+                                    {script.graph.nodes.length} steps · {script.graph.nodes.reduce((sum, n) => sum + n.branches.length, 0)} answers
+                                </span>
+                            )}
                         </div>
                         <div className="flex space-x-1">
                             <button 
@@ -384,6 +495,9 @@ export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdate
                             >
                                 {previewMode[script.id] ? <EyeOff size={16} /> : <Eye size={16} />}
                             </button>
+                            <button onClick={() => setHistoryScriptId(script.id)} className="p-2 text-slate-500 dark:text-slate-400 hover:text-blue-700 dark:hover:text-blue-300 rounded hover:bg-white/30" title="Version history">
+                                <History size={16} />
+                            </button>
                             <button onClick={() => handleEdit(script)} className="p-2 text-slate-500 dark:text-slate-400 hover:text-blue-700 dark:hover:text-blue-300 rounded hover:bg-white/30">
                                 <Edit size={16} />
                             </button>
@@ -397,7 +511,7 @@ export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdate
                          <div 
                             className="flex-1 text-sm text-slate-700 dark:text-slate-300 leading-relaxed font-sans bg-white/50 dark:bg-slate-900/50 p-4 rounded-lg border border-white/50 dark:border-slate-700/50 shadow-sm overflow-auto max-h-[300px]"
                             dangerouslySetInnerHTML={{ 
-                                __html: previewMode[script.id] ? renderPreview(script.content) : script.content 
+                                __html: previewMode[script.id] ? renderTemplate(script.content, PREVIEW_CONTEXT) : script.content 
                             }}
                          />
                          
@@ -426,6 +540,8 @@ export const Scripts: React.FC<ScriptsProps> = ({ scripts, onAddScript, onUpdate
              </div>
         )}
       </div>
+      </>
+      )}
     </div>
   );
 };
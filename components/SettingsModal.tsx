@@ -1,8 +1,13 @@
 import React, { useState } from 'react';
-import { X, Phone, Plus, Trash2, CheckCircle2, Settings as SettingsIcon } from 'lucide-react';
+import { X, Phone, Plus, Trash2, CheckCircle2, Settings as SettingsIcon, Users, ListChecks, Repeat, Share2, Trophy } from 'lucide-react';
 import { Button } from './Button';
-import { PhoneNumber } from '../types';
+import { Cadence, CallOutcome, CrmConnection, PhoneNumber, ScoringRule, Workspace } from '../types';
 import { AddPhoneNumberModal } from './AddPhoneNumberModal';
+import { TeamSettings } from './TeamSettings';
+import { OutcomeSettings } from './OutcomeSettings';
+import { CadenceSettings } from './CadenceSettings';
+import { CrmSettings } from './CrmSettings';
+import { ScoringSettings } from './ScoringSettings';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -10,14 +15,49 @@ interface SettingsModalProps {
   phoneNumbers: PhoneNumber[];
   onAddNumber: (phone: PhoneNumber) => void;
   onRemoveNumber: (id: string) => void;
+  workspace: Workspace | null;
+  currentUserId?: string;
+  onAddMember: (username: string) => Promise<void>;
+  onRemoveMember: (userId: string) => Promise<void>;
+  onCreateWorkspace: (name: string) => Promise<void>;
+  outcomes: CallOutcome[];
+  onChangeOutcomes: (outcomes: CallOutcome[]) => void;
+  cadences: Cadence[];
+  onChangeCadences: (cadences: Cadence[]) => void;
+  scoringRules: ScoringRule[];
+  onChangeScoringRules: (rules: ScoringRule[]) => void;
+  crmConnection: CrmConnection | null;
+  onChangeCrmConnection: (connection: CrmConnection | null) => void;
 }
 
+const TAB_TITLES: Record<string, string> = {
+  'phone-numbers': 'Phone Numbers',
+  'team': 'Team',
+  'outcomes': 'Call Outcomes',
+  'cadences': 'Follow-up Cadences',
+  'scoring': 'Lead Scoring',
+  'crm': 'CRM Connection',
+};
+
 export const SettingsModal: React.FC<SettingsModalProps> = ({ 
   isOpen, 
   onClose, 
   phoneNumbers, 
   onAddNumber, 
-  onRemoveNumber 
+  onRemoveNumber,
+  workspace,
+  currentUserId,
+  onAddMember,
+  onRemoveMember,
+  onCreateWorkspace,
+  outcomes,
+  onChangeOutcomes,
+  cadences,
+  onChangeCadences,
+  scoringRules,
+  onChangeScoringRules,
+  crmConnection,
+  onChangeCrmConnection
 }) => {
   const [activeTab, setActiveTab] = useState('phone-numbers');
   const [showAddNumber, setShowAddNumber] = useState(false);
@@ -44,6 +84,41 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                    <Phone size={16} />
                    <span>Phone Numbers</span>
                 </button>
+                <button 
+                  onClick={() => setActiveTab('team')}
+                  className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${activeTab === 'team' ? 'bg-white dark:bg-slate-800 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-800'}`}
+                >
+                   <Users size={16} />
+                   <span>Team</span>
+                </button>
+                <button 
+                  onClick={() => setActiveTab('outcomes')}
+                  className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${activeTab === 'outcomes' ? 'bg-white dark:bg-slate-800 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-800'}`}
+                >
+                   <ListChecks size={16} />
+                   <span>Call Outcomes</span>
+                </button>
+                <button 
+                  onClick={() => setActiveTab('cadences')}
+                  className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${activeTab === 'cadences' ? 'bg-white dark:bg-slate-800 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-800'}`}
+                >
+                   <Repeat size={16} />
+                   <span>Cadences</span>
+                </button>
+                <button 
+                  onClick={() => setActiveTab('scoring')}
+                  className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${activeTab === 'scoring' ? 'bg-white dark:bg-slate-800 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-800'}`}
+                >
+                   <Trophy size={16} />
+                   <span>Lead Scoring</span>
+                </button>
+                <button 
+                  onClick={() => setActiveTab('crm')}
+                  className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${activeTab === 'crm' ? 'bg-white dark:bg-slate-800 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-800'}`}
+                >
+                   <Share2 size={16} />
+                   <span>CRM</span>
+                </button>
                 <button 
                   disabled
                   className="w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-sm font-medium text-slate-400 cursor-not-allowed opacity-60"
@@ -56,12 +131,44 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
           {/* Content Area */}
           <div className="flex-1 flex flex-col bg-white dark:bg-slate-800">
              <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center">
-                <h3 className="text-xl font-bold text-slate-800 dark:text-white">Phone Numbers</h3>
+                <h3 className="text-xl font-bold text-slate-800 dark:text-white">{TAB_TITLES[activeTab]}</h3>
                 <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200">
                    <X size={24} />
                 </button>
              </div>
              
+             {activeTab === 'team' ? (
+             <div className="flex-1 overflow-y-auto p-8">
+                <TeamSettings
+                   workspace={workspace}
+                   currentUserId={currentUserId}
+                   onAddMember={onAddMember}
+                   onRemoveMember={onRemoveMember}
+                   onCreateWorkspace={onCreateWorkspace}
+                />
+             </div>
+             ) : activeTab === 'outcomes' ? (
+             <div className="flex-1 overflow-y-auto p-8">
+                <OutcomeSettings outcomes={outcomes} onChangeOutcomes={onChangeOutcomes} />
+             </div>
+             ) : activeTab === 'cadences' ? (
+             <div className="flex-1 overflow-y-auto p-8">
+                <CadenceSettings cadences={cadences} onChangeCadences={onChangeCadences} />
+             </div>
+             ) : activeTab === 'scoring' ? (
+             <div className="flex-1 overflow-y-auto p-8">
+                <ScoringSettings rules={scoringRules} onChangeRules={onChangeScoringRules} />
+             </div>
+             ) : activeTab === 'crm' ? (
+             <div className="flex-1 overflow-y-auto p-8">
+                <CrmSettings
+                   workspace={workspace}
+                   currentUserId={currentUserId}
+                   connection={crmConnection}
+                   onChangeConnection={onChangeCrmConnection}
+                />
+             </div>
+             ) : (
              <div className="flex-1 overflow-y-auto p-8">
                 <div className="flex justify-between items-center mb-6">
                    <p className="text-slate-500 dark:text-slate-400 text-sm">
@@ -112,6 +219,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                    )}
                 </div>
              </div>
+             )}
           </div>
        </div>
 
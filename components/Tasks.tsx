@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import { Phone, PhoneCall, Mail, Check, X, SkipForward, Play, ListTodo, Database, Users } from 'lucide-react';
+import { Button } from './Button';
+import { FollowUpTask, isDue, isOverdue } from '../services/cadences';
+
+interface TasksProps {
+  tasks: FollowUpTask[];
+  currentUserId?: string;
+  showOwnerFilter?: boolean; // Only useful with more than one workspace member
+  onStartCall: (task: FollowUpTask) => void;
+  onStartCalls: (tasks: FollowUpTask[]) => void; // Works through the tasks one call after another
+  onComplete: (task: FollowUpTask) => void;
+  onStop: (task: FollowUpTask) => void;
+}
+
+const KIND_LABELS: Record<FollowUpTask['kind'], string> = {
+  callback: 'Callback',
+  call: 'Call',
+  email: 'Email',
+};
+
+const formatDue = (task: FollowUpTask) => {
+  const due = new Date(task.dueAt);
+  return task.kind === 'callback'
+    ? due.toLocaleString(undefined, { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })
+    : due.toLocaleDateString();
+};
+
+export const Tasks: React.FC<TasksProps> = ({
+  tasks,
+  currentUserId,
+  showOwnerFilter,
+  onStartCall,
+  onStartCalls,
+  onComplete,
+  onStop
+}) => {
+  const [onlyMine, setOnlyMine] = useState(false);
+
+  const visibleTasks = useMemo(
+    () => onlyMine ? tasks.filter(t => t.ownerId === currentUserId) : tasks,
+    [tasks, onlyMine, currentUserId]
+  );
+  const dueTasks = visibleTasks.filter(t => isDue(t));
+  const upcomingTasks = visibleTasks.filter(t => !isDue(t));
+  const dueCalls = dueTasks.filter(t => t.kind !== 'email' && !!t.lead.phone);
+
+  const TaskRow: React.FC<{ task: FollowUpTask }> = ({ task }) => {
+    const overdue = isOverdue(task);
+    const KindIcon = task.kind === 'email' ? Mail : task.kind === 'callback' ? PhoneCall : Phone;
+    const stepNumber = task.cadence && task.lead.cadence ? task.lead.cadence.stepIndex + 1 : 0;
+
+    return (
+      <div className="flex items-center justify-between p-4 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-sm">
+        <div className="flex items-center space-x-4 min-w-0">
+          <div className={`w-10 h-10 shrink-0 rounded-full flex items-center justify-center ${task.kind === 'email' ? 'bg-purple-100 text-purple-600 dark:bg-purple-900/30 dark:text-purple-400' : 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400'}`}>
+            <KindIcon size={18} />
+          </div>
+          <div className="min-w-0">
+            <div className="flex items-center space-x-2">
+              <span className="font-bold text-slate-800 dark:text-white truncate">{task.lead.name}</span>
+              <span className="text-xs font-semibold uppercase tracking-wider text-slate-400">{KIND_LABELS[task.kind]}</span>
+            </div>
+            <div className="flex items-center text-xs text-slate-500 dark:text-slate-400 space-x-2">
+              {task.source.type === 'project' ? <Database size={12} /> : <Users size={12} />}
+              <span className="truncate">{task.source.name}</span>
+              {task.cadence && (
+                <>
+                  <span>•</span>
+                  <span>{task.cadence.name}, step {stepNumber} of {task.cadence.steps.length}</span>
+                </>
+              )}
+            </div>
+            {task.step?.note && <p className="text-xs text-slate-600 dark:text-slate-300 mt-1">{task.step.note}</p>}
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2 shrink-0 ml-4">
+          <span className={`text-xs font-medium mr-2 ${overdue ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}`}>
+            {overdue ? 'Overdue · ' : ''}{formatDue(task)}
+          </span>
+          {task.kind === 'email' ? (
+            <>
+              {task.lead.email && (
+                <a
+                  href={`mailto:${task.lead.email}`}
+                  className="p-2 text-slate-400 hover:text-purple-600 hover:bg-purple-50 dark:hover:bg-purple-900/30 rounded transition-colors"
+                  title={`Write to ${task.lead.email}`}
+                >
+                  <Mail size={16} />
+                </a>
+              )}
+              <Button size="sm" variant="secondary" onClick={() => onComplete(task)}>
+                <Check size={14} className="mr-1" /> Done
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button size="sm" onClick={() => onStartCall(task)} disabled={!task.lead.phone}>
+                <Phone size={14} className="mr-1" /> Call
+              </Button>
+              <button
+                onClick={() => onComplete(task)}
+                className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 dark:hover:text-slate-200 dark:hover:bg-slate-700 rounded transition-colors"
+                title={task.kind === 'callback' ? 'Dismiss callback' : 'Skip this step'}
+              >
+                <SkipForward size={16} />
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => onStop(task)}
+            className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded transition-colors"
+            title="Stop following up"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-white">Due Today</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Callbacks and cadence steps that are due or overdue. Logging a call advances the lead's cadence.
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          {showOwnerFilter && (
+            <label className="flex items-center space-x-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={onlyMine} onChange={e => setOnlyMine(e.target.checked)} />
+              <span>My tasks</span>
+            </label>
+          )}
+          <Button onClick={() => onStartCalls(dueCalls)} disabled={dueCalls.length === 0}>
+            <Play size={16} className="mr-2" /> Start Calling ({dueCalls.length})
+          </Button>
+        </div>
+      </div>
+
+      {dueTasks.length === 0 ? (
+        <div className="text-center py-12 bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 border-dashed">
+          <ListTodo size={32} className="mx-auto text-slate-300 dark:text-slate-600 mb-2" />
+          <p className="text-slate-500 dark:text-slate-400">Nothing due today.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {dueTasks.map(task => <TaskRow key={task.id} task={task} />)}
+        </div>
+      )}
+
+      {upcomingTasks.length > 0 && (
+        <div>
+          <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-3">Upcoming</h3>
+          <div className="space-y-3">
+            {upcomingTasks.map(task => <TaskRow key={task.id} task={task} />)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
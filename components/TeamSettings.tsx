@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { UserPlus, Trash2, Crown, LogOut, Plus } from 'lucide-react';
+import { Button } from './Button';
+import { Workspace } from '../types';
+
+interface TeamSettingsProps {
+  workspace: Workspace | null;
+  currentUserId?: string;
+  onAddMember: (username: string) => Promise<void>;
+  onRemoveMember: (userId: string) => Promise<void>;
+  onCreateWorkspace: (name: string) => Promise<void>;
+}
+
+export const TeamSettings: React.FC<TeamSettingsProps> = ({
+  workspace,
+  currentUserId,
+  onAddMember,
+  onRemoveMember,
+  onCreateWorkspace
+}) => {
+  const [username, setUsername] = useState('');
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Runs a server action, showing its error message instead of failing silently
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message || 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!workspace) {
+    return <p className="text-slate-500 dark:text-slate-400 text-sm">Workspaces are not available while offline.</p>;
+  }
+
+  const isOwner = workspace.members.some(m => m.userId === currentUserId && m.role === 'owner');
+
+  const handleAddMember = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim()) return;
+    run(async () => {
+      await onAddMember(username.trim());
+      setUsername('');
+    });
+  };
+
+  const handleCreateWorkspace = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newWorkspaceName.trim()) return;
+    run(async () => {
+      await onCreateWorkspace(newWorkspaceName.trim());
+      setNewWorkspaceName('');
+    });
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <p className="text-slate-500 dark:text-slate-400 text-sm mb-4">
+          Everyone in <span className="font-medium text-slate-700 dark:text-slate-200">{workspace.name}</span> shares its projects, lists and scripts.
+          Leads and lists can be assigned to a member from the project and CRM views.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {workspace.members.map(member => (
+            <div key={member.userId} className="flex items-center justify-between p-3 bg-white dark:bg-slate-700/30 border border-slate-200 dark:border-slate-700 rounded-lg">
+              <div className="flex items-center space-x-3">
+                <div className="w-9 h-9 rounded-full bg-slate-200 dark:bg-slate-700 flex items-center justify-center text-slate-600 dark:text-slate-300 font-bold">
+                  {member.displayName.charAt(0).toUpperCase()}
+                </div>
+                <div>
+                  <div className="flex items-center text-sm font-medium text-slate-800 dark:text-white">
+                    {member.displayName}
+                    {member.userId === currentUserId && <span className="ml-1 text-slate-400 font-normal">(you)</span>}
+                    {member.role === 'owner' && <Crown size={14} className="ml-2 text-amber-500" />}
+                  </div>
+                  <div className="text-xs text-slate-500 dark:text-slate-400">@{member.username}</div>
+                </div>
+              </div>
+              {member.userId === currentUserId ? (
+                <button
+                  onClick={() => run(() => onRemoveMember(member.userId))}
+                  disabled={isBusy}
+                  className="flex items-center text-xs text-slate-400 hover:text-red-600 dark:hover:text-red-400 px-2 py-1 rounded transition-colors"
+                  title="Leave workspace"
+                >
+                  <LogOut size={14} className="mr-1" /> Leave
+                </button>
+              ) : isOwner && (
+                <button
+                  onClick={() => run(() => onRemoveMember(member.userId))}
+                  disabled={isBusy}
+                  className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded transition-colors"
+                  title="Remove member"
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {isOwner && (
+          <form onSubmit={handleAddMember} className="flex items-center space-x-2 mt-4">
+            <input
+              type="text"
+              value={username}
+              onChange={e => setUsername(e.target.value)}
+              placeholder="Username of a registered account"
+              className="flex-1 border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+            />
+            <Button type="submit" isLoading={isBusy}>
+              <UserPlus size={16} className="mr-2" /> Add Member
+            </Button>
+          </form>
+        )}
+      </div>
+
+      <div className="pt-6 border-t border-slate-200 dark:border-slate-700">
+        <h4 className="text-sm font-bold text-slate-800 dark:text-white mb-2">New Workspace</h4>
+        <form onSubmit={handleCreateWorkspace} className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={newWorkspaceName}
+            onChange={e => setNewWorkspaceName(e.target.value)}
+            placeholder="e.g. Sales Team Berlin"
+            className="flex-1 border border-slate-300 dark:border-slate-600 rounded-lg p-2 text-sm bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+          />
+          <Button type="submit" variant="secondary" disabled={isBusy}>
+            <Plus size={16} className="mr-2" /> Create
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
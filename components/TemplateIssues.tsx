@@ -0,0 +1,24 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { checkTemplate } from '../services/templateEngine';
+
+interface TemplateIssuesProps {
+  html: string;
+}
+
+/** Warnings for template tags the call wizard can't fill, shown under a script editor. */
+export const TemplateIssues: React.FC<TemplateIssuesProps> = ({ html }) => {
+  const issues = checkTemplate(html);
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="p-2 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 text-xs text-amber-700 dark:text-amber-300 space-y-0.5">
+      {issues.map((issue, i) => (
+        <p key={i} className="flex items-start">
+          <AlertTriangle size={12} className="mr-1 mt-0.5 shrink-0" />
+          <span><code className="font-mono">{issue.tag}</code>: {issue.message}</span>
+        </p>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Plugin } from 'vite';
+import type { AuthUser } from '../types';
+import { createJsonStore } from './jsonStore';
+import { createRouter, getBearerToken, HttpError, readJsonBody, Route, sendJson } from './http';
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const SCRYPT_KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 8;
+
+interface StoredUser extends AuthUser {
+  passwordHash: string; // "scrypt$<salt hex>$<hash hex>"
+}
+
+interface StoredSession {
+  tokenHash: string; // SHA-256 of the bearer token; the token itself is never stored
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+interface AuthData {
+  users: StoredUser[];
+  sessions: StoredSession[];
+}
+
+const store = createJsonStore<AuthData>('auth.json', () => ({ users: [], sessions: [] }));
+
+const scryptAsync = (password: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) => error ? reject(error) : resolve(key));
+  });
+
+const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+};
+
+const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+// Used for unknown usernames so a login takes as long whether or not the account exists
+const DUMMY_HASH_PROMISE = hashPassword(randomUUID());
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const toPublicUser = ({ passwordHash, ...user }: StoredUser): AuthUser => user;
+
+const normalizeUsername = (username: unknown) => String(username || '').trim().toLowerCase();
+
+const createSession = async (userId: string): Promise<string> => {
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  await store.update(data => {
+    // Expired sessions are pruned whenever a new one is created
+    data.sessions = data.sessions.filter(s => new Date(s.expiresAt).getTime() > now);
+    data.sessions.push({
+      tokenHash: hashToken(token),
+      userId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+    });
+  });
+  return token;
+};
+
+/**
+ * Resolves the user behind the request's bearer token. Throws a 401 HttpError otherwise.
+ * Other server modules use this to protect their routes.
+ */
+export const authenticate = async (req: IncomingMessage): Promise<AuthUser> => {
+  const token = getBearerToken(req);
+  if (!token) throw new HttpError(401, 'Not signed in');
+
+  const data = await store.read();
+  const tokenHash = hashToken(token);
+  const session = data.sessions.find(s => s.tokenHash === tokenHash);
+  if (!session || new Date(session.expiresAt).getTime() <= Date.now()) {
+    throw new HttpError(401, 'Session expired, please sign in again');
+  }
+
+  const user = data.users.find(u => u.id === session.userId);
+  if (!user) throw new HttpError(401, 'Account no longer exists');
+  return toPublicUser(user);
+};
+
+export const listUsers = async (): Promise<AuthUser[]> => (await store.read()).users.map(toPublicUser);
+
+const routes: Route[] = [
+  {
+    method: 'POST',
+    pattern: '/api/auth/register',
+    handler: async (req, res) => {
+      const body = await readJsonBody<{ username?: string; password?: string; displayName?: string }>(req);
+      const username = normalizeUsername(body.username);
+      const password = String(body.password || '');
+
+      if (username.length < 3) throw new HttpError(400, 'Username must be at least 3 characters.');
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      }
+
+      const passwordHash = await hashPassword(password);
+      const user = await store.update(data => {
+        if (data.users.some(u => u.username === username)) throw new HttpError(409, 'This username is already taken.');
+        const created: StoredUser = {
+          id: randomUUID(),
+          username,
+          displayName: String(body.displayName || '').trim() || username,
+          // The first account on a fresh install administers it
+          role: data.users.length === 0 ? 'admin' : 'caller',
+          createdAt: new Date().toISOString(),
+          passwordHash,
+        };
+        data.users.push(created);
+        return created;
+      });
+
+      const token = await createSession(user.id);
+      sendJson(res, 201, { token, user: toPublicUser(user) });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/api/auth/login',
+    handler: async (req, res) => {
+      const body = await readJsonBody<{ username?: string; password?: string }>(req);
+      const username = normalizeUsername(body.username);
+      const password = String(body.password || '');
+
+      const user = (await store.read()).users.find(u => u.username === username);
+      const valid = await verifyPassword(password, user ? user.passwordHash : await DUMMY_HASH_PROMISE);
+      if (!user || !valid) throw new HttpError(401, 'Invalid credentials. Please try again.');
+
+      const token = await createSession(user.id);
+      sendJson(res, 200, { token, user: toPublicUser(user) });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/api/auth/logout',
+    handler: async (req, res) => {
+      const token = getBearerToken(req);
+      if (token) {
+        const tokenHash = hashToken(token);
+        await store.update(data => {
+          data.sessions = data.sessions.filter(s => s.tokenHash !== tokenHash);
+        });
+      }
+      sendJson(res, 200, { ok: true });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/auth/session',
+    handler: async (req, res) => {
+      const user = await authenticate(req);
+      sendJson(res, 200, { user });
+    },
+  },
+];
+
+/**
+ * Serves the auth API from the Vite dev (and preview) server, so `npm run dev` is all it takes
+ * to run the app with real accounts. Users and sessions are stored in `.data/auth.json`.
+ */
+export const authApiPlugin = (): Plugin => {
+  const router = createRouter(routes);
+  return {
+    name: 'leadscout-auth-api',
+    configureServer(server) {
+      server.middlewares.use(router);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(router);
+    },
+  };
+};
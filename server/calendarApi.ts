@@ -0,0 +1,110 @@
+import { randomBytes } from 'node:crypto';
+import type { Plugin } from 'vite';
+import type { ContactList, Project } from '../types';
+import { collectAppointments, toCalendarEvent } from '../services/appointments';
+import { buildICalendar } from '../services/icalendar';
+import { authenticate, listUsers } from './authApi';
+import { createJsonStore } from './jsonStore';
+import { createRouter, HttpError, Route, sendJson } from './http';
+import { readWorkspaceCollection, requireMembership } from './workspaceApi';
+
+// Appointments older than this are left out of the feed to keep it small
+const FEED_HISTORY_DAYS = 90;
+
+interface CalendarFeed {
+  // The token is the only credential calendar apps can send, so it is kept readable
+  // and shown again on request, like the secret address of a hosted calendar
+  token: string;
+  workspaceId: string;
+  userId: string;
+  createdAt: string;
+}
+
+const store = createJsonStore<{ feeds: CalendarFeed[] }>('calendar-feeds.json', () => ({ feeds: [] }));
+
+const feedPath = (feed: CalendarFeed) => `/api/calendar/${feed.token}.ics`;
+
+const newToken = () => randomBytes(24).toString('base64url');
+
+const routes: Route[] = [
+  {
+    method: 'GET',
+    pattern: '/api/workspaces/:id/calendar-feed',
+    handler: async (req, res, params) => {
+      const user = await authenticate(req);
+      await requireMembership(params.id, user);
+      const feed = await store.update(data => {
+        let existing = data.feeds.find(f => f.workspaceId === params.id && f.userId === user.id);
+        if (!existing) {
+          existing = { token: newToken(), workspaceId: params.id, userId: user.id, createdAt: new Date().toISOString() };
+          data.feeds.push(existing);
+        }
+        return existing;
+      });
+      sendJson(res, 200, { path: feedPath(feed) });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/api/workspaces/:id/calendar-feed/reset',
+    handler: async (req, res, params) => {
+      const user = await authenticate(req);
+      await requireMembership(params.id, user);
+      // Invalidates the old address, e.g. after it was shared by mistake
+      const feed = await store.update(data => {
+        data.feeds = data.feeds.filter(f => !(f.workspaceId === params.id && f.userId === user.id));
+        const created = { token: newToken(), workspaceId: params.id, userId: user.id, createdAt: new Date().toISOString() };
+        data.feeds.push(created);
+        return created;
+      });
+      sendJson(res, 200, { path: feedPath(feed) });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/calendar/:file',
+    handler: async (req, res, params) => {
+      const token = params.file.replace(/\.ics$/, '');
+      const feed = (await store.read()).feeds.find(f => f.token === token);
+      if (!feed) throw new HttpError(404, 'Calendar not found');
+
+      // The feed stops working for people who left the workspace
+      const user = (await listUsers()).find(u => u.id === feed.userId);
+      if (!user) throw new HttpError(404, 'Calendar not found');
+      const workspace = await requireMembership(feed.workspaceId, user);
+
+      const projects = await readWorkspaceCollection<Project[]>(feed.workspaceId, 'projects') || [];
+      const contactLists = await readWorkspaceCollection<ContactList[]>(feed.workspaceId, 'contactLists') || [];
+
+      // ?mine=1 limits the feed to appointments the subscriber booked
+      const onlyMine = new URL(req.url || '/', 'http://localhost').searchParams.get('mine') === '1';
+      const since = Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+      const events = collectAppointments(projects, contactLists)
+        .filter(a => new Date(a.start).getTime() >= since)
+        .filter(a => !onlyMine || a.log.callerId === user.id)
+        .map(toCalendarEvent);
+
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-store');
+      res.end(buildICalendar(events, `${workspace.name} Appointments`));
+    },
+  },
+];
+
+/**
+ * iCalendar feed of the appointments booked in a workspace, for subscribing from calendar apps.
+ * Feed tokens are stored in `.data/calendar-feeds.json`.
+ */
+export const calendarApiPlugin = (): Plugin => {
+  const router = createRouter(routes);
+  return {
+    name: 'leadscout-calendar-api',
+    configureServer(server) {
+      server.middlewares.use(router);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(router);
+    },
+  };
+};
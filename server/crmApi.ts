@@ -0,0 +1,223 @@
+import type { Plugin } from 'vite';
+import type { CallOutcome, CrmConnection, CrmFieldMapping, CrmLink, CrmProvider, CrmPushResult, Lead, WorkspaceMember } from '../types';
+import { CRM_PROVIDERS, mapLeadFields, splitPersonName, toCallActivity } from '../services/crmMapping';
+import { ExportContext } from '../services/leadExport';
+import { DEFAULT_CALL_OUTCOMES } from '../services/outcomes';
+import { authenticate, listUsers } from './authApi';
+import { createCrmConnector, CrmRequestError } from './crmConnectors';
+import { createJsonStore } from './jsonStore';
+import { createRouter, HttpError, readJsonBody, Route, sendJson } from './http';
+import { readWorkspaceCollection, requireMembership } from './workspaceApi';
+
+// Leads are pushed one after another to stay well within CRM rate limits
+const MAX_LEADS_PER_PUSH = 200;
+const MAX_PUSH_BYTES = 20 * 1024 * 1024;
+
+interface StoredConnection {
+  workspaceId: string;
+  provider: CrmProvider;
+  baseUrl: string;
+  token: string;
+  mappings: CrmFieldMapping[];
+  pushCalls: boolean;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+const store = createJsonStore<{ connections: StoredConnection[] }>('crm-connections.json', () => ({ connections: [] }));
+
+const toConnection = (stored: StoredConnection): CrmConnection => ({
+  provider: stored.provider,
+  baseUrl: stored.baseUrl,
+  hasToken: !!stored.token,
+  mappings: stored.mappings,
+  pushCalls: stored.pushCalls,
+  updatedAt: stored.updatedAt,
+});
+
+const findConnection = async (workspaceId: string) =>
+  (await store.read()).connections.find(c => c.workspaceId === workspaceId);
+
+const requireConnection = async (workspaceId: string) => {
+  const connection = await findConnection(workspaceId);
+  if (!connection) throw new HttpError(404, 'No CRM is connected to this workspace');
+  return connection;
+};
+
+const crmErrorMessage = (error: unknown) =>
+  error instanceof CrmRequestError
+    ? `${error.message} (HTTP ${error.status})`
+    : error instanceof Error ? error.message : String(error);
+
+/** Outcome labels and member names, for mapped fields such as "Last Call" or "Owner". */
+const loadExportContext = async (workspaceId: string, members: { userId: string; role: WorkspaceMember['role'] }[]): Promise<ExportContext> => {
+  const users = await listUsers();
+  return {
+    outcomes: await readWorkspaceCollection<CallOutcome[]>(workspaceId, 'outcomes') || DEFAULT_CALL_OUTCOMES,
+    members: members.map(m => {
+      const user = users.find(u => u.id === m.userId);
+      return { userId: m.userId, role: m.role, username: user?.username || 'unknown', displayName: user?.displayName || 'Former member' };
+    }),
+  };
+};
+
+/**
+ * Creates or updates the lead's company and contact, then logs the calls that were not sent yet.
+ * A link from another provider is ignored, so switching CRMs pushes everything again.
+ * When a step fails, the records created so far are still returned so a retry updates them.
+ */
+const pushLead = async (lead: Lead, connection: StoredConnection, context: ExportContext): Promise<CrmPushResult> => {
+  const connector = createCrmConnector(connection.provider, connection.baseUrl, connection.token);
+  const previous = lead.crm?.provider === connection.provider ? lead.crm : undefined;
+  let link: CrmLink | undefined;
+
+  try {
+    const companyId = await connector.upsertCompany(
+      mapLeadFields(lead, connection.mappings, 'company', context),
+      previous?.companyId
+    );
+    // A re-created company starts without contact and calls
+    const sameCompany = companyId === previous?.companyId;
+    link = {
+      provider: connection.provider,
+      companyId,
+      contactId: sameCompany ? previous?.contactId : undefined,
+      url: connector.recordUrl(companyId),
+      pushedAt: new Date().toISOString(),
+      pushedCallIds: sameCompany ? [...previous!.pushedCallIds] : [],
+    };
+
+    if (lead.ceo?.trim()) {
+      link.contactId = await connector.upsertContact(
+        mapLeadFields(lead, connection.mappings, 'contact', context),
+        splitPersonName(lead.ceo),
+        companyId,
+        link.contactId
+      );
+    }
+
+    if (connection.pushCalls) {
+      // Oldest first, so the CRM timeline is built in order
+      const newCalls = [...(lead.callLogs || [])].reverse().filter(log => !link!.pushedCallIds.includes(log.id));
+      for (const log of newCalls) {
+        await connector.logCall(toCallActivity(log), companyId, link.contactId);
+        link.pushedCallIds.push(log.id);
+      }
+    }
+    return { leadId: lead.id, link };
+  } catch (error) {
+    return { leadId: lead.id, link, error: crmErrorMessage(error) };
+  }
+};
+
+const routes: Route[] = [
+  {
+    method: 'GET',
+    pattern: '/api/workspaces/:id/crm',
+    handler: async (req, res, params) => {
+      const user = await authenticate(req);
+      await requireMembership(params.id, user);
+      const connection = await findConnection(params.id);
+      sendJson(res, 200, { connection: connection ? toConnection(connection) : null });
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/api/workspaces/:id/crm',
+    handler: async (req, res, params) => {
+      const user = await authenticate(req);
+      await requireMembership(params.id, user, true);
+      const body = await readJsonBody<Partial<CrmConnection> & { token?: string }>(req);
+
+      if (!CRM_PROVIDERS.some(p => p.id === body.provider)) throw new HttpError(400, 'Unknown CRM provider');
+      if (!/^https?:\/\//.test(body.baseUrl || '')) throw new HttpError(400, 'The API URL must start with http:// or https://');
+      if (!Array.isArray(body.mappings)) throw new HttpError(400, 'Field mappings are missing');
+
+      const saved = await store.update(data => {
+        const existing = data.connections.find(c => c.workspaceId === params.id);
+        // An empty token keeps the saved one, unless the provider changed
+        const token = body.token?.trim() || (existing?.provider === body.provider ? existing.token : '');
+        if (!token) throw new HttpError(400, 'An API token is required');
+
+        const connection: StoredConnection = {
+          workspaceId: params.id,
+          provider: body.provider!,
+          baseUrl: body.baseUrl!.trim().replace(/\/+$/, ''),
+          token,
+          mappings: body.mappings!
+            .filter(m => m && typeof m.source === 'string' && typeof m.target === 'string' && m.target.trim())
+            .map(m => ({ source: m.source, object: m.object === 'contact' ? 'contact' : 'company', target: m.target.trim() })),
+          pushCalls: body.pushCalls !== false,
+          updatedAt: new Date().toISOString(),
+          updatedBy: user.id,
+        };
+        data.connections = [...data.connections.filter(c => c.workspaceId !== params.id), connection];
+        return connection;
+      });
+      sendJson(res, 200, { connection: toConnection(saved) });
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/api/workspaces/:id/crm',
+    handler: async (req, res, params) => {
+      const user = await authenticate(req);
+      await requireMembership(params.id, user, true);
+      await store.update(data => {
+        data.connections = data.connections.filter(c => c.workspaceId !== params.id);
+      });
+      sendJson(res, 200, { ok: true });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/api/workspaces/:id/crm/test',
+    handler: async (req, res, params) => {
+      const user = await authenticate(req);
+      await requireMembership(params.id, user);
+      const connection = await requireConnection(params.id);
+      try {
+        await createCrmConnector(connection.provider, connection.baseUrl, connection.token).test();
+      } catch (error) {
+        throw new HttpError(502, `Connection failed: ${crmErrorMessage(error)}`);
+      }
+      sendJson(res, 200, { ok: true });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/api/workspaces/:id/crm/push',
+    handler: async (req, res, params) => {
+      const user = await authenticate(req);
+      const workspace = await requireMembership(params.id, user);
+      const connection = await requireConnection(params.id);
+      const { leads } = await readJsonBody<{ leads?: Lead[] }>(req, MAX_PUSH_BYTES);
+      if (!Array.isArray(leads) || leads.length === 0) throw new HttpError(400, 'No leads to push');
+      if (leads.length > MAX_LEADS_PER_PUSH) throw new HttpError(400, `At most ${MAX_LEADS_PER_PUSH} leads can be pushed at once`);
+
+      const context = await loadExportContext(params.id, workspace.members);
+      const results: CrmPushResult[] = [];
+      for (const lead of leads) {
+        results.push(await pushLead(lead, connection, context));
+      }
+      sendJson(res, 200, { results });
+    },
+  },
+];
+
+/**
+ * Workspace CRM connection (owner-managed) and pushing leads and calls to it.
+ * Connections, including API tokens, are stored in `.data/crm-connections.json`.
+ */
+export const crmApiPlugin = (): Plugin => {
+  const router = createRouter(routes);
+  return {
+    name: 'leadscout-crm-api',
+    configureServer(server) {
+      server.middlewares.use(router);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(router);
+    },
+  };
+};
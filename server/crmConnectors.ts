@@ -0,0 +1,233 @@
+import type { CrmProvider } from '../types';
+import type { CrmCallActivity } from '../services/crmMapping';
+
+/**
+ * Thin clients for the CRM REST APIs LeadScout pushes to. Each one knows how to create or
+ * update a company and a contact and how to log a call; field mapping happens before.
+ */
+
+export class CrmRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export interface PersonName {
+  firstName: string;
+  lastName: string;
+}
+
+export interface CrmConnector {
+  /** Cheap authenticated request, to check URL and token. */
+  test: () => Promise<void>;
+  /** Returns the record id; updates `existingId` if given. */
+  upsertCompany: (properties: Record<string, string>, existingId?: string) => Promise<string>;
+  upsertContact: (properties: Record<string, string>, name: PersonName, companyId: string, existingId?: string) => Promise<string>;
+  logCall: (activity: CrmCallActivity, companyId: string, contactId?: string) => Promise<void>;
+  recordUrl: (companyId: string) => string | undefined;
+}
+
+const describeError = (body: any, text: string, status: number): string => {
+  const message = body?.message || body?.error || (Array.isArray(body) && body[0]?.message);
+  return typeof message === 'string' && message ? message : text.slice(0, 200) || `CRM responded with status ${status}`;
+};
+
+const request = async <T>(url: string, init: RequestInit = {}): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error: any) {
+    throw new CrmRequestError(502, `Could not reach the CRM: ${error?.message || error}`);
+  }
+  const text = await response.text();
+  let body: any = null;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    // Non-JSON error pages are reported as text
+  }
+  if (!response.ok) throw new CrmRequestError(response.status, describeError(body, text, response.status));
+  return body as T;
+};
+
+/** Updates the record, or creates a new one if there is none yet or it was deleted in the CRM. */
+const upsert = async (existingId: string | undefined, create: () => Promise<string>, update: (id: string) => Promise<void>) => {
+  if (existingId) {
+    try {
+      await update(existingId);
+      return existingId;
+    } catch (error) {
+      if (!(error instanceof CrmRequestError) || error.status !== 404) throw error;
+    }
+  }
+  return create();
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// "2025-01-31T14:30:00.000Z" -> ["2025-01-31", "14:30"] (UTC)
+const utcDateAndTime = (iso: string) => {
+  const [date, time] = new Date(iso).toISOString().split('T');
+  return [date, time.slice(0, 5)];
+};
+
+// https://developers.hubspot.com/docs/api/crm/understanding-the-crm
+const hubspotConnector = (baseUrl: string, token: string): CrmConnector => {
+  const api = <T>(path: string, method = 'GET', body?: unknown) => request<T>(`${baseUrl}${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  // Default association type ids for calls
+  const CALL_TO_COMPANY = 182;
+  const CALL_TO_CONTACT = 194;
+
+  return {
+    test: async () => {
+      await api('/crm/v3/objects/companies?limit=1');
+    },
+    upsertCompany: (properties, existingId) => upsert(
+      existingId,
+      async () => (await api<{ id: string }>('/crm/v3/objects/companies', 'POST', { properties })).id,
+      async id => { await api(`/crm/v3/objects/companies/${id}`, 'PATCH', { properties }); }
+    ),
+    upsertContact: async (properties, name, companyId, existingId) => {
+      const contactProperties = { ...properties, firstname: name.firstName, lastname: name.lastName };
+      const id = await upsert(
+        existingId,
+        async () => (await api<{ id: string }>('/crm/v3/objects/contacts', 'POST', { properties: contactProperties })).id,
+        async id => { await api(`/crm/v3/objects/contacts/${id}`, 'PATCH', { properties: contactProperties }); }
+      );
+      await api(`/crm/v4/objects/contacts/${id}/associations/default/companies/${companyId}`, 'PUT');
+      return id;
+    },
+    logCall: async (activity, companyId, contactId) => {
+      const associate = (id: string, typeId: number) =>
+        ({ to: { id }, types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: typeId }] });
+      await api('/crm/v3/objects/calls', 'POST', {
+        properties: {
+          hs_timestamp: activity.timestamp,
+          hs_call_title: activity.subject,
+          hs_call_body: activity.body,
+          hs_call_direction: 'OUTBOUND',
+          hs_call_status: 'COMPLETED',
+        },
+        associations: [
+          associate(companyId, CALL_TO_COMPANY),
+          ...(contactId ? [associate(contactId, CALL_TO_CONTACT)] : []),
+        ],
+      });
+    },
+    // Record links need the account's portal id, which the API token does not reveal
+    recordUrl: () => undefined,
+  };
+};
+
+// https://developers.pipedrive.com/docs/api/v1
+const pipedriveConnector = (baseUrl: string, token: string): CrmConnector => {
+  const api = async <T>(path: string, method = 'GET', body?: unknown): Promise<T> => {
+    const separator = path.includes('?') ? '&' : '?';
+    const response = await request<{ success: boolean; data: T; error?: string }>(
+      `${baseUrl}/v1${path}${separator}api_token=${encodeURIComponent(token)}`,
+      {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }
+    );
+    if (!response?.success) throw new CrmRequestError(502, response?.error || 'Pipedrive rejected the request');
+    return response.data;
+  };
+
+  return {
+    test: async () => {
+      await api('/users/me');
+    },
+    upsertCompany: (properties, existingId) => upsert(
+      existingId,
+      async () => String((await api<{ id: number }>('/organizations', 'POST', properties)).id),
+      async id => { await api(`/organizations/${id}`, 'PUT', properties); }
+    ),
+    upsertContact: (properties, name, companyId, existingId) => {
+      const person = { ...properties, name: `${name.firstName} ${name.lastName}`.trim(), org_id: Number(companyId) };
+      return upsert(
+        existingId,
+        async () => String((await api<{ id: number }>('/persons', 'POST', person)).id),
+        async id => { await api(`/persons/${id}`, 'PUT', person); }
+      );
+    },
+    logCall: async (activity, companyId, contactId) => {
+      const [dueDate, dueTime] = utcDateAndTime(activity.timestamp);
+      await api('/activities', 'POST', {
+        subject: activity.subject,
+        type: 'call',
+        done: 1,
+        due_date: dueDate,
+        due_time: dueTime,
+        note: activity.body.replace(/\n/g, '<br>'),
+        org_id: Number(companyId),
+        ...(contactId ? { person_id: Number(contactId) } : {}),
+      });
+    },
+    recordUrl: companyId => {
+      // Company domains (https://acme.pipedrive.com/api) also serve the web app
+      const { origin, hostname } = new URL(baseUrl);
+      return hostname.endsWith('.pipedrive.com') && hostname !== 'api.pipedrive.com'
+        ? `${origin}/organization/${companyId}`
+        : undefined;
+    },
+  };
+};
+
+// https://developer.salesforce.com/docs/atlas.en-us.api_rest.meta/api_rest/
+const SALESFORCE_API_VERSION = 'v59.0';
+
+const salesforceConnector = (baseUrl: string, token: string): CrmConnector => {
+  const api = <T>(path: string, method = 'GET', body?: unknown) =>
+    request<T>(`${baseUrl}/services/data/${SALESFORCE_API_VERSION}${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  return {
+    test: async () => {
+      await api('/sobjects');
+    },
+    upsertCompany: (properties, existingId) => upsert(
+      existingId,
+      async () => (await api<{ id: string }>('/sobjects/Account', 'POST', properties)).id,
+      async id => { await api(`/sobjects/Account/${id}`, 'PATCH', properties); }
+    ),
+    upsertContact: (properties, name, companyId, existingId) => {
+      const contact = { ...properties, FirstName: name.firstName, LastName: name.lastName, AccountId: companyId };
+      return upsert(
+        existingId,
+        async () => (await api<{ id: string }>('/sobjects/Contact', 'POST', contact)).id,
+        async id => { await api(`/sobjects/Contact/${id}`, 'PATCH', contact); }
+      );
+    },
+    logCall: async (activity, companyId, contactId) => {
+      await api('/sobjects/Task', 'POST', {
+        Subject: activity.subject,
+        Description: activity.body,
+        ActivityDate: utcDateAndTime(activity.timestamp)[0],
+        Status: 'Completed',
+        TaskSubtype: 'Call',
+        WhatId: companyId,
+        ...(contactId ? { WhoId: contactId } : {}),
+      });
+    },
+    recordUrl: companyId => `${baseUrl}/lightning/r/Account/${companyId}/view`,
+  };
+};
+
+export const createCrmConnector = (provider: CrmProvider, baseUrl: string, token: string): CrmConnector => {
+  const base = trimSlash(baseUrl);
+  switch (provider) {
+    case 'hubspot': return hubspotConnector(base, token);
+    case 'pipedrive': return pipedriveConnector(base, token);
+    case 'salesforce': return salesforceConnector(base, token);
+  }
+};
@@ -0,0 +1,91 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+/**
+ * Small helpers shared by the dev-server API modules.
+ */
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(body));
+};
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export const readJsonBody = async <T>(req: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<T> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk as Buffer);
+  }
+  if (chunks.length === 0) return {} as T;
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8')) as T;
+  } catch (e) {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+};
+
+export const getBearerToken = (req: IncomingMessage): string | null => {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+};
+
+export type RouteHandler = (req: IncomingMessage, res: ServerResponse, params: Record<string, string>) => Promise<void>;
+
+export interface Route {
+  method: string;
+  pattern: string; // e.g. "/api/workspaces/:id/members"
+  handler: RouteHandler;
+}
+
+const matchPattern = (pattern: string, pathname: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/');
+  const pathParts = pathname.split('/');
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+    else if (patternParts[i] !== pathParts[i]) return null;
+  }
+  return params;
+};
+
+/**
+ * Builds a connect-style middleware from a route table.
+ * Requests that match no route are passed on to Vite.
+ */
+export const createRouter = (routes: Route[]) =>
+  async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+
+    for (const route of routes) {
+      if (route.method !== req.method) continue;
+      const params = matchPattern(route.pattern, pathname);
+      if (!params) continue;
+
+      try {
+        await route.handler(req, res, params);
+      } catch (error) {
+        if (error instanceof HttpError) {
+          sendJson(res, error.status, { error: error.message });
+        } else {
+          console.error(`[api] ${req.method} ${pathname} failed`, error);
+          sendJson(res, 500, { error: 'Internal server error' });
+        }
+      }
+      return;
+    }
+    next();
+  };
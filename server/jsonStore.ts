@@ -0,0 +1,47 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+// Local server data lives next to the project and is git-ignored
+export const DATA_DIR = path.resolve(process.cwd(), '.data');
+
+/**
+ * A JSON file holding one document, read once and written atomically (temp file + rename).
+ * Writes are serialized so concurrent requests cannot interleave.
+ */
+export const createJsonStore = <T>(fileName: string, initial: () => T) => {
+  const filePath = path.join(DATA_DIR, fileName);
+  let cache: T | null = null;
+  let writeChain: Promise<void> = Promise.resolve();
+
+  const read = async (): Promise<T> => {
+    if (cache) return cache;
+    try {
+      cache = JSON.parse(await readFile(filePath, 'utf8')) as T;
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+      cache = initial();
+    }
+    return cache;
+  };
+
+  const write = (data: T): Promise<void> => {
+    cache = data;
+    writeChain = writeChain.then(async () => {
+      await mkdir(DATA_DIR, { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf8');
+      await rename(tmpPath, filePath);
+    });
+    return writeChain;
+  };
+
+  /** Read-modify-write in one step. */
+  const update = async <R>(mutate: (data: T) => R): Promise<R> => {
+    const data = await read();
+    const result = mutate(data);
+    await write(data);
+    return result;
+  };
+
+  return { read, update };
+};
@@ -0,0 +1,202 @@
+import { randomBytes } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Plugin } from 'vite';
+import { createJsonStore } from './jsonStore';
+import { createRouter, getBearerToken, HttpError, readJsonBody, Route, sendJson } from './http';
+
+/**
+ * A stand-in for the HubSpot, Pipedrive and Salesforce REST APIs, implementing just the calls
+ * the CRM connectors make. Point a workspace's CRM connection at /mock-crm/<provider> (any token)
+ * to try pushing without a CRM account; GET /mock-crm/<provider>/records shows what arrived.
+ */
+
+interface MockRecord {
+  id: string;
+  fields: Record<string, unknown>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// records[provider][objectType][id]
+type MockData = { records: Record<string, Record<string, Record<string, MockRecord>>> };
+
+const store = createJsonStore<MockData>('mock-crm.json', () => ({ records: {} }));
+
+let nextNumericId = Date.now() % 100000;
+
+const createRecord = (provider: string, type: string, fields: Record<string, unknown>, id: string) =>
+  store.update(data => {
+    const now = new Date().toISOString();
+    const record: MockRecord = { id, fields, createdAt: now, updatedAt: now };
+    data.records[provider] = data.records[provider] || {};
+    data.records[provider][type] = data.records[provider][type] || {};
+    data.records[provider][type][id] = record;
+    return record;
+  });
+
+const updateRecord = (provider: string, type: string, id: string, fields: Record<string, unknown>) =>
+  store.update(data => {
+    const record = data.records[provider]?.[type]?.[id];
+    if (!record) throw new HttpError(404, `${type} ${id} not found`);
+    record.fields = { ...record.fields, ...fields };
+    record.updatedAt = new Date().toISOString();
+    return record;
+  });
+
+const requireBearer = (req: IncomingMessage) => {
+  if (!getBearerToken(req)) throw new HttpError(401, 'Authentication credentials not found');
+};
+
+const requireApiToken = (req: IncomingMessage) => {
+  if (!new URL(req.url || '/', 'http://localhost').searchParams.get('api_token')) {
+    throw new HttpError(401, 'You need to be authorized to make this request');
+  }
+};
+
+const HUBSPOT_OBJECTS = ['companies', 'contacts', 'calls'];
+const SALESFORCE_OBJECTS = ['Account', 'Contact', 'Task'];
+const PIPEDRIVE_OBJECTS = ['organizations', 'persons', 'activities'];
+
+const hubspotRoutes: Route[] = [
+  {
+    method: 'GET',
+    pattern: '/mock-crm/hubspot/crm/v3/objects/:object',
+    handler: async (req, res, params) => {
+      requireBearer(req);
+      const records = Object.values((await store.read()).records.hubspot?.[params.object] || {});
+      sendJson(res, 200, { results: records.map(r => ({ id: r.id, properties: r.fields })) });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/mock-crm/hubspot/crm/v3/objects/:object',
+    handler: async (req, res, params) => {
+      requireBearer(req);
+      if (!HUBSPOT_OBJECTS.includes(params.object)) throw new HttpError(404, `Unknown object type ${params.object}`);
+      const body = await readJsonBody<{ properties?: Record<string, unknown>; associations?: unknown }>(req);
+      const record = await createRecord('hubspot', params.object, { ...body.properties, associations: body.associations }, String(++nextNumericId));
+      sendJson(res, 201, { id: record.id, properties: record.fields, createdAt: record.createdAt });
+    },
+  },
+  {
+    method: 'PATCH',
+    pattern: '/mock-crm/hubspot/crm/v3/objects/:object/:id',
+    handler: async (req, res, params) => {
+      requireBearer(req);
+      const body = await readJsonBody<{ properties?: Record<string, unknown> }>(req);
+      const record = await updateRecord('hubspot', params.object, params.id, body.properties || {});
+      sendJson(res, 200, { id: record.id, properties: record.fields, updatedAt: record.updatedAt });
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/mock-crm/hubspot/crm/v4/objects/contacts/:id/associations/default/companies/:companyId',
+    handler: async (req, res, params) => {
+      requireBearer(req);
+      await updateRecord('hubspot', 'contacts', params.id, { associatedCompanyId: params.companyId });
+      sendJson(res, 200, { status: 'COMPLETE', results: [{ from: { id: params.id }, to: { id: params.companyId } }] });
+    },
+  },
+];
+
+const pipedriveRoutes: Route[] = [
+  {
+    method: 'GET',
+    pattern: '/mock-crm/pipedrive/v1/users/me',
+    handler: async (req, res) => {
+      requireApiToken(req);
+      sendJson(res, 200, { success: true, data: { id: 1, name: 'Mock User', company_name: 'Mock CRM' } });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/mock-crm/pipedrive/v1/:object',
+    handler: async (req, res, params) => {
+      requireApiToken(req);
+      if (!PIPEDRIVE_OBJECTS.includes(params.object)) throw new HttpError(404, `Unknown endpoint ${params.object}`);
+      const body = await readJsonBody<Record<string, unknown>>(req);
+      if (params.object !== 'activities' && !body.name) throw new HttpError(400, 'Name must be given');
+      const record = await createRecord('pipedrive', params.object, body, String(++nextNumericId));
+      sendJson(res, 201, { success: true, data: { id: Number(record.id), ...record.fields } });
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/mock-crm/pipedrive/v1/:object/:id',
+    handler: async (req, res, params) => {
+      requireApiToken(req);
+      const body = await readJsonBody<Record<string, unknown>>(req);
+      const record = await updateRecord('pipedrive', params.object, params.id, body);
+      sendJson(res, 200, { success: true, data: { id: Number(record.id), ...record.fields } });
+    },
+  },
+];
+
+// Salesforce ids are 18 characters; the prefix tells the object type
+const salesforceId = (type: string) =>
+  ({ Account: '001', Contact: '003', Task: '00T' }[type] || '000') + randomBytes(8).toString('hex').slice(0, 15).toUpperCase();
+
+const salesforceRoutes: Route[] = [
+  {
+    method: 'GET',
+    pattern: '/mock-crm/salesforce/services/data/:version/sobjects',
+    handler: async (req, res) => {
+      requireBearer(req);
+      sendJson(res, 200, { encoding: 'UTF-8', sobjects: SALESFORCE_OBJECTS.map(name => ({ name })) });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/mock-crm/salesforce/services/data/:version/sobjects/:type',
+    handler: async (req, res, params) => {
+      requireBearer(req);
+      if (!SALESFORCE_OBJECTS.includes(params.type)) throw new HttpError(404, `The requested resource does not exist`);
+      const body = await readJsonBody<Record<string, unknown>>(req);
+      const required = { Account: 'Name', Contact: 'LastName', Task: 'Subject' }[params.type]!;
+      if (!body[required]) throw new HttpError(400, `Required fields are missing: [${required}]`);
+      const record = await createRecord('salesforce', params.type, body, salesforceId(params.type));
+      sendJson(res, 201, { id: record.id, success: true, errors: [] });
+    },
+  },
+  {
+    method: 'PATCH',
+    pattern: '/mock-crm/salesforce/services/data/:version/sobjects/:type/:id',
+    handler: async (req, res, params) => {
+      requireBearer(req);
+      await updateRecord('salesforce', params.type, params.id, await readJsonBody<Record<string, unknown>>(req));
+      res.statusCode = 204;
+      res.end();
+    },
+  },
+];
+
+const inspectionRoutes: Route[] = [
+  {
+    method: 'GET',
+    pattern: '/mock-crm/:provider/records',
+    handler: async (_req, res, params) => {
+      sendJson(res, 200, (await store.read()).records[params.provider] || {});
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/mock-crm/:provider/records',
+    handler: async (_req, res, params) => {
+      await store.update(data => {
+        delete data.records[params.provider];
+      });
+      sendJson(res, 200, { ok: true });
+    },
+  },
+];
+
+/** Local mock CRM, dev server only; records are kept in `.data/mock-crm.json`. */
+export const mockCrmApiPlugin = (): Plugin => {
+  const router = createRouter([...inspectionRoutes, ...hubspotRoutes, ...pipedriveRoutes, ...salesforceRoutes]);
+  return {
+    name: 'leadscout-mock-crm',
+    configureServer(server) {
+      server.middlewares.use(router);
+    },
+  };
+};
@@ -0,0 +1,210 @@
+import { randomUUID } from 'node:crypto';
+import type { Plugin } from 'vite';
+import type { AuthUser, Workspace, WorkspaceMember } from '../types';
+import { authenticate, listUsers } from './authApi';
+import { createJsonStore } from './jsonStore';
+import { createRouter, HttpError, readJsonBody, Route, sendJson } from './http';
+
+// Collections a workspace shares between its members (mirrors PersistedKey on the client)
+const SHARED_COLLECTIONS = ['projects', 'contactLists', 'scripts', 'phoneNumbers', 'outcomes', 'cadences', 'savedFilters', 'scoringRules', 'objections', 'experiments'];
+
+// Collections are uploaded whole; a project with call transcripts easily exceeds the default body limit
+const MAX_COLLECTION_BYTES = 50 * 1024 * 1024;
+
+interface StoredWorkspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  members: { userId: string; role: WorkspaceMember['role'] }[];
+}
+
+interface StoredCollection {
+  revision: number;
+  value: unknown;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+interface WorkspaceData {
+  workspaces: StoredWorkspace[];
+  // collections[workspaceId][collection]
+  collections: Record<string, Record<string, StoredCollection>>;
+}
+
+const store = createJsonStore<WorkspaceData>('workspaces.json', () => ({ workspaces: [], collections: {} }));
+
+const toWorkspace = (workspace: StoredWorkspace, users: AuthUser[]): Workspace => ({
+  id: workspace.id,
+  name: workspace.name,
+  createdAt: workspace.createdAt,
+  members: workspace.members.map(m => {
+    const user = users.find(u => u.id === m.userId);
+    return {
+      userId: m.userId,
+      role: m.role,
+      username: user?.username || 'unknown',
+      displayName: user?.displayName || 'Former member',
+    };
+  }),
+});
+
+export const requireMembership = async (workspaceId: string, user: AuthUser, ownerOnly = false) => {
+  const workspace = (await store.read()).workspaces.find(w => w.id === workspaceId);
+  const membership = workspace?.members.find(m => m.userId === user.id);
+  // Non-members get a 404 so workspace ids cannot be probed
+  if (!workspace || !membership) throw new HttpError(404, 'Workspace not found');
+  if (ownerOnly && membership.role !== 'owner') throw new HttpError(403, 'Only workspace owners can do this');
+  return workspace;
+};
+
+/** The shared collections of a workspace as last saved by its members. */
+export const readWorkspaceCollection = async <T>(workspaceId: string, name: string): Promise<T | undefined> =>
+  (await store.read()).collections[workspaceId]?.[name]?.value as T | undefined;
+
+const requireCollection = (name: string) => {
+  if (!SHARED_COLLECTIONS.includes(name)) throw new HttpError(404, `Unknown collection "${name}"`);
+};
+
+const routes: Route[] = [
+  {
+    method: 'GET',
+    pattern: '/api/workspaces',
+    handler: async (req, res) => {
+      const user = await authenticate(req);
+      const workspaces = await store.update(data => {
+        let mine = data.workspaces.filter(w => w.members.some(m => m.userId === user.id));
+        if (mine.length === 0) {
+          // Everyone starts with a personal workspace they can invite teammates into
+          const personal: StoredWorkspace = {
+            id: randomUUID(),
+            name: `${user.displayName}'s Workspace`,
+            createdAt: new Date().toISOString(),
+            members: [{ userId: user.id, role: 'owner' }],
+          };
+          data.workspaces.push(personal);
+          mine = [personal];
+        }
+        return mine;
+      });
+      const users = await listUsers();
+      sendJson(res, 200, { workspaces: workspaces.map(w => toWorkspace(w, users)) });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/api/workspaces',
+    handler: async (req, res) => {
+      const user = await authenticate(req);
+      const { name } = await readJsonBody<{ name?: string }>(req);
+      if (!name || !name.trim()) throw new HttpError(400, 'Workspace name is required');
+
+      const workspace: StoredWorkspace = {
+        id: randomUUID(),
+        name: name.trim(),
+        createdAt: new Date().toISOString(),
+        members: [{ userId: user.id, role: 'owner' }],
+      };
+      await store.update(data => { data.workspaces.push(workspace); });
+      sendJson(res, 201, { workspace: toWorkspace(workspace, await listUsers()) });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/api/workspaces/:id/members',
+    handler: async (req, res, params) => {
+      const user = await authenticate(req);
+      await requireMembership(params.id, user, true);
+      const { username, role } = await readJsonBody<{ username?: string; role?: WorkspaceMember['role'] }>(req);
+
+      const users = await listUsers();
+      const invitee = users.find(u => u.username === String(username || '').trim().toLowerCase());
+      if (!invitee) throw new HttpError(404, `No account with username "${username}"`);
+
+      const workspace = await store.update(data => {
+        const target = data.workspaces.find(w => w.id === params.id)!;
+        if (target.members.some(m => m.userId === invitee.id)) throw new HttpError(409, `${invitee.displayName} is already a member`);
+        target.members.push({ userId: invitee.id, role: role === 'owner' ? 'owner' : 'member' });
+        return target;
+      });
+      sendJson(res, 200, { workspace: toWorkspace(workspace, users) });
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/api/workspaces/:id/members/:userId',
+    handler: async (req, res, params) => {
+      const user = await authenticate(req);
+      // Members may leave on their own; removing someone else takes an owner
+      await requireMembership(params.id, user, params.userId !== user.id);
+
+      const workspace = await store.update(data => {
+        const target = data.workspaces.find(w => w.id === params.id)!;
+        const remaining = target.members.filter(m => m.userId !== params.userId);
+        if (!remaining.some(m => m.role === 'owner')) throw new HttpError(400, 'A workspace needs at least one owner');
+        target.members = remaining;
+        return target;
+      });
+      sendJson(res, 200, { workspace: toWorkspace(workspace, await listUsers()) });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/workspaces/:id/data',
+    handler: async (req, res, params) => {
+      const user = await authenticate(req);
+      await requireMembership(params.id, user);
+      const collections = (await store.read()).collections[params.id] || {};
+      sendJson(res, 200, { collections });
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/api/workspaces/:id/data/:collection',
+    handler: async (req, res, params) => {
+      const user = await authenticate(req);
+      await requireMembership(params.id, user);
+      requireCollection(params.collection);
+      const { baseRevision, value } = await readJsonBody<{ baseRevision?: number; value?: unknown }>(req, MAX_COLLECTION_BYTES);
+      if (!Array.isArray(value)) throw new HttpError(400, 'Collection value must be an array');
+
+      // Optimistic concurrency: a write based on an outdated revision is rejected with the current state
+      const result = await store.update(data => {
+        const collections = data.collections[params.id] ||= {};
+        const current = collections[params.collection];
+        if (current && current.revision !== baseRevision) return { conflict: current };
+
+        const next: StoredCollection = {
+          revision: (current?.revision || 0) + 1,
+          value,
+          updatedAt: new Date().toISOString(),
+          updatedBy: user.id,
+        };
+        collections[params.collection] = next;
+        return { saved: next };
+      });
+
+      if ('conflict' in result) {
+        sendJson(res, 409, { error: 'Collection was changed by someone else', collection: result.conflict });
+      } else {
+        sendJson(res, 200, { revision: result.saved!.revision });
+      }
+    },
+  },
+];
+
+/**
+ * Team workspaces: membership and the shared project/list/script data of each workspace.
+ * Data is stored in `.data/workspaces.json`.
+ */
+export const workspaceApiPlugin = (): Plugin => {
+  const router = createRouter(routes);
+  return {
+    name: 'leadscout-workspace-api',
+    configureServer(server) {
+      server.middlewares.use(router);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(router);
+    },
+  };
+};
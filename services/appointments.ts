@@ -0,0 +1,63 @@
+import { CallLog, ContactList, Lead, Project } from "../types";
+import { LeadSource } from "./cadences";
+import { CalendarEvent } from "./icalendar";
+
+export const APPOINTMENT_DURATION_MINUTES = 60;
+
+export interface Appointment {
+  id: string; // Id of the call log that set it
+  start: string;
+  lead: Lead;
+  log: CallLog;
+  source: LeadSource;
+}
+
+/**
+ * Every appointment booked in a call, earliest first.
+ * A lead saved from a project into a list carries the same call logs, so each log is counted once.
+ */
+export const collectAppointments = (projects: Project[], contactLists: ContactList[]): Appointment[] => {
+  const appointments = new Map<string, Appointment>();
+
+  const collect = (leads: Lead[], source: LeadSource) => leads.forEach(lead => {
+    lead.callLogs?.forEach(log => {
+      if (!log.appointmentDate || appointments.has(log.id)) return;
+      appointments.set(log.id, { id: log.id, start: log.appointmentDate, lead, log, source });
+    });
+  });
+
+  projects.forEach(p => collect(p.leads, { type: 'project', id: p.id, name: p.name }));
+  contactLists.forEach(l => collect(l.leads, { type: 'list', id: l.id, name: l.name }));
+
+  return Array.from(appointments.values())
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+};
+
+const describe = (appointment: Appointment): string => {
+  const { lead, log } = appointment;
+  const lines = [
+    lead.ceo && `Contact: ${lead.ceo}`,
+    lead.phone && `Phone: ${lead.phone}`,
+    lead.email && `Email: ${lead.email}`,
+    lead.website && `Website: ${lead.website}`,
+    lead.address && `Address: ${lead.address}`,
+    log.callerName && `Booked by ${log.callerName} on ${new Date(log.timestamp).toLocaleDateString()}`,
+  ].filter(Boolean) as string[];
+
+  const notes = log.analysis?.userNotes || log.notes;
+  if (notes) lines.push('', 'Call notes:', notes);
+  return lines.join('\n');
+};
+
+export const toCalendarEvent = (appointment: Appointment): CalendarEvent => {
+  const start = new Date(appointment.start);
+  return {
+    uid: `${appointment.id}@leadscout`,
+    start,
+    end: new Date(start.getTime() + APPOINTMENT_DURATION_MINUTES * 60 * 1000),
+    summary: `Appointment: ${appointment.lead.name}`,
+    location: appointment.lead.address || undefined,
+    description: describe(appointment),
+    lastModified: new Date(appointment.log.timestamp),
+  };
+};
@@ -0,0 +1,81 @@
+import { AuthUser } from "../types";
+
+const TOKEN_KEY = "leadscout-session";
+
+/**
+ * A non-2xx response from the local API. `body` is the parsed JSON error payload.
+ */
+export class ApiError extends Error {
+  constructor(public status: number, message: string, public body: any) {
+    super(message);
+  }
+}
+
+export const getSessionToken = (): string | null => localStorage.getItem(TOKEN_KEY);
+
+/**
+ * fetch() against the local API with the session token attached.
+ * Non-2xx responses are turned into an ApiError carrying the server's message.
+ */
+export const apiFetch = async <T>(url: string, init: RequestInit = {}): Promise<T> => {
+  const token = getSessionToken();
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...init.headers,
+    },
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiError(response.status, body.error || `Request failed with status ${response.status}`, body);
+  }
+  return body as T;
+};
+
+const startSession = ({ token, user }: { token: string; user: AuthUser }): AuthUser => {
+  localStorage.setItem(TOKEN_KEY, token);
+  return user;
+};
+
+export const login = async (username: string, password: string): Promise<AuthUser> =>
+  startSession(await apiFetch("/api/auth/login", { method: "POST", body: JSON.stringify({ username, password }) }));
+
+export const register = async (username: string, password: string, displayName?: string): Promise<AuthUser> =>
+  startSession(await apiFetch("/api/auth/register", { method: "POST", body: JSON.stringify({ username, password, displayName }) }));
+
+/**
+ * Invalidates the session on the server, then forgets the token locally.
+ * The local token is dropped even if the server cannot be reached.
+ */
+export const logout = async (): Promise<void> => {
+  try {
+    if (getSessionToken()) await apiFetch("/api/auth/logout", { method: "POST" });
+  } catch (error) {
+    console.warn("Could not invalidate session on the server", error);
+  } finally {
+    localStorage.removeItem(TOKEN_KEY);
+  }
+};
+
+/**
+ * Returns the signed-in user for the stored token, or null if there is none or it expired.
+ * The token is only forgotten when the server rejects it; if the server can't be reached it is
+ * kept, so the session comes back once the API is up again.
+ */
+export const fetchSession = async (): Promise<AuthUser | null> => {
+  if (!getSessionToken()) return null;
+  try {
+    const { user } = await apiFetch<{ user: AuthUser }>("/api/auth/session");
+    return user;
+  } catch (error) {
+    if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+      localStorage.removeItem(TOKEN_KEY);
+    } else {
+      console.warn("Could not check the session", error);
+    }
+    return null;
+  }
+};
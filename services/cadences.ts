@@ -0,0 +1,136 @@
+import { Cadence, CadenceEnrollment, CadenceStep, CallOutcome, ContactList, Lead, Project } from "../types";
+import { addDays, startOfDay } from "./callMetrics";
+
+export const DEFAULT_CADENCES: Cadence[] = [
+  {
+    id: 'standard-follow-up',
+    name: 'Standard follow-up',
+    steps: [
+      { id: 'retry-call', type: 'call', delayDays: 2 },
+      { id: 'intro-email', type: 'email', delayDays: 1, note: 'Send a short introduction and ask for a good time to talk' },
+      { id: 'final-call', type: 'call', delayDays: 7 },
+    ],
+    exitCategories: ['rejection', 'appointment'],
+  },
+];
+
+export type FollowUpKind = 'callback' | 'call' | 'email';
+
+/** Where a lead lives, so the call flow can write the result back. */
+export interface LeadSource {
+  type: 'project' | 'list';
+  id: string;
+  name: string;
+}
+
+export interface FollowUpTask {
+  id: string; // `${source.type}:${source.id}:${lead.id}`
+  lead: Lead;
+  source: LeadSource;
+  ownerId?: string; // Assignee of the lead, or of its list
+  kind: FollowUpKind;
+  dueAt: string;
+  cadence?: Cadence;
+  step?: CadenceStep;
+}
+
+const scheduleStep = (cadence: Cadence, stepIndex: number, from: Date): string =>
+  addDays(from, cadence.steps[stepIndex].delayDays).toISOString();
+
+const endEnrollment = (
+  enrollment: CadenceEnrollment,
+  status: 'completed' | 'stopped',
+  reason: string,
+  now: Date
+): CadenceEnrollment => ({ ...enrollment, status, endedAt: now.toISOString(), endReason: reason });
+
+/**
+ * Puts a lead at the start of a cadence. Returns undefined for a cadence without steps.
+ */
+export const enrollInCadence = (cadence: Cadence, now = new Date()): CadenceEnrollment | undefined => {
+  if (cadence.steps.length === 0) return undefined;
+  return {
+    cadenceId: cadence.id,
+    stepIndex: 0,
+    dueAt: scheduleStep(cadence, 0, now),
+    startedAt: now.toISOString(),
+    status: 'active',
+  };
+};
+
+/**
+ * Marks the current step as done and schedules the next one, or completes the cadence after the last step.
+ */
+export const completeCadenceStep = (enrollment: CadenceEnrollment, cadence: Cadence, now = new Date()): CadenceEnrollment => {
+  const next = enrollment.stepIndex + 1;
+  if (next >= cadence.steps.length) return endEnrollment(enrollment, 'completed', 'All steps done', now);
+  return { ...enrollment, stepIndex: next, dueAt: scheduleStep(cadence, next, now) };
+};
+
+export const stopCadence = (enrollment: CadenceEnrollment, reason = 'Stopped manually', now = new Date()): CadenceEnrollment =>
+  endEnrollment(enrollment, 'stopped', reason, now);
+
+/**
+ * The lead's enrollment after a call with the given outcome.
+ *
+ * - An active cadence ends when the outcome's category is one of its exit categories;
+ *   otherwise a due call step counts as done.
+ * - A lead that has never been in a cadence is enrolled in `defaultCadenceId` (from its list or project)
+ *   unless the outcome would end that cadence right away.
+ */
+export const applyCallToCadence = (
+  enrollment: CadenceEnrollment | undefined,
+  outcome: CallOutcome,
+  cadences: Cadence[],
+  defaultCadenceId?: string,
+  now = new Date()
+): CadenceEnrollment | undefined => {
+  if (!enrollment) {
+    const cadence = cadences.find(c => c.id === defaultCadenceId);
+    if (!cadence || cadence.exitCategories.includes(outcome.category)) return undefined;
+    return enrollInCadence(cadence, now);
+  }
+
+  if (enrollment.status !== 'active') return enrollment;
+  const cadence = cadences.find(c => c.id === enrollment.cadenceId);
+  if (!cadence) return stopCadence(enrollment, 'Cadence was deleted', now);
+
+  if (cadence.exitCategories.includes(outcome.category)) return endEnrollment(enrollment, 'stopped', outcome.label, now);
+  if (cadence.steps[enrollment.stepIndex]?.type === 'call') return completeCadenceStep(enrollment, cadence, now);
+  return enrollment;
+};
+
+/**
+ * Every open follow-up across projects and lists, earliest first.
+ * An agreed callback replaces the lead's cadence step until it has been made.
+ */
+export const collectFollowUps = (projects: Project[], contactLists: ContactList[], cadences: Cadence[]): FollowUpTask[] => {
+  const tasks: FollowUpTask[] = [];
+
+  const collect = (leads: Lead[], source: LeadSource, listOwnerId?: string) => leads.forEach(lead => {
+    const id = `${source.type}:${source.id}:${lead.id}`;
+    const ownerId = lead.assignedTo || listOwnerId;
+    if (lead.callbackAt) {
+      tasks.push({ id, lead, source, ownerId, kind: 'callback', dueAt: lead.callbackAt });
+      return;
+    }
+    const enrollment = lead.cadence;
+    if (enrollment?.status !== 'active') return;
+    const cadence = cadences.find(c => c.id === enrollment.cadenceId);
+    const step = cadence?.steps[enrollment.stepIndex];
+    if (!cadence || !step) return;
+    tasks.push({ id, lead, source, ownerId, kind: step.type, dueAt: enrollment.dueAt, cadence, step });
+  });
+
+  projects.forEach(p => collect(p.leads, { type: 'project', id: p.id, name: p.name }));
+  contactLists.forEach(l => collect(l.leads, { type: 'list', id: l.id, name: l.name }, l.assignedTo));
+
+  return tasks.sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+};
+
+/** Due today or overdue. */
+export const isDue = (task: FollowUpTask, now = new Date()): boolean =>
+  new Date(task.dueAt).getTime() < addDays(startOfDay(now), 1).getTime();
+
+export const isOverdue = (task: FollowUpTask, now = new Date()): boolean =>
+  new Date(task.dueAt).getTime() < startOfDay(now).getTime();
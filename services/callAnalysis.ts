@@ -0,0 +1,77 @@
+import { CallAnalysis, CallOutcome, OutcomeCategory } from "../types";
+
+// Filler words that say nothing about whether a talking point was covered (English and German)
+const STOPWORDS = new Set([
+  'that', 'this', 'with', 'have', 'your', 'from', 'what', 'when', 'will', 'would', 'could', 'should', 'there',
+  'about', 'just', 'they', 'them', 'then', 'than', 'were', 'been', 'into', 'also', 'some', 'very', 'here',
+  'dass', 'eine', 'einen', 'einem', 'einer', 'nicht', 'sich', 'wird', 'sind', 'haben', 'ihre', 'ihren',
+  'ihnen', 'auch', 'noch', 'oder', 'aber', 'wenn', 'dann', 'sehr', 'hier', 'mein', 'meine', 'kann',
+]);
+
+// Share of a talking point's keywords that must be heard for it to count as covered
+const COVERAGE_THRESHOLD = 0.5;
+
+/**
+ * Converts script HTML (as stored by the Scripts editor) to plain text, keeping block boundaries as line breaks.
+ */
+export const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(
+    html.replace(/<(br|\/p|\/div|\/li|\/h[1-6])\s*\/?>/gi, '$&\n'),
+    'text/html'
+  );
+  return doc.body.textContent || '';
+};
+
+// Prefix match keeps "interested" / "interest" or "Termin" / "Termine" together without a real stemmer
+const stem = (word: string) => word.slice(0, 6);
+
+const keywordsOf = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => word.length >= 4 && !STOPWORDS.has(word))
+    .map(stem);
+
+/**
+ * Percentage (0-100) of the script's talking points that show up in the transcript.
+ * The script is split into sentences; a sentence counts as covered when at least half of its
+ * keywords were spoken. Sentences with fewer than two keywords ("Hi!") are ignored.
+ * Returns null when the script has no usable talking points.
+ */
+export const computeScriptAdherence = (transcript: string, scriptText: string): number | null => {
+  const spoken = new Set(keywordsOf(transcript));
+
+  const talkingPoints = scriptText
+    .split(/[\n.!?]+/)
+    .map(keywordsOf)
+    .filter(keywords => keywords.length >= 2);
+
+  if (talkingPoints.length === 0) return null;
+
+  const covered = talkingPoints.filter(keywords => {
+    const unique = Array.from(new Set(keywords));
+    const hits = unique.filter(k => spoken.has(k)).length;
+    return hits / unique.length >= COVERAGE_THRESHOLD;
+  }).length;
+
+  return Math.round((covered / talkingPoints.length) * 100);
+};
+
+// Score estimates per outcome category when there is nothing else to go on
+const ESTIMATES: Record<OutcomeCategory, { callScore: number; sentiment: CallAnalysis['sentiment'] }> = {
+  appointment: { callScore: 90, sentiment: 'Positive' },
+  interest: { callScore: 75, sentiment: 'Positive' },
+  rejection: { callScore: 55, sentiment: 'Negative' },
+  gatekeeper: { callScore: 40, sentiment: 'Neutral' },
+  no_contact: { callScore: 40, sentiment: 'Neutral' },
+};
+
+/**
+ * Fallback when no recording is available: scores are derived from the logged outcome only.
+ * There is no transcript, so script adherence is not assessed.
+ */
+export const estimateCallAnalysis = (outcome: CallOutcome): CallAnalysis => ({
+  ...ESTIMATES[outcome.category],
+  scriptAdherence: 0,
+  confidence: 'Low',
+  keyTakeaways: [],
+  basedOn: 'outcome',
+});
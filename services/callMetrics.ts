@@ -0,0 +1,136 @@
+import { CallLog, CallOutcome } from "../types";
+import { resolveOutcome } from "./outcomes";
+
+export type TrendGranularity = 'day' | 'week';
+
+export interface DateRange {
+  from: Date; // Inclusive, start of day
+  to: Date; // Inclusive, any time on the last day
+}
+
+export interface CallSummary {
+  dials: number;
+  connects: number;
+  appointments: number; // Calls with a conversion outcome
+  uniqueLeads: number;
+  connectionRate: number; // Percent of dials that reached someone
+  conversionRate: number; // Percent of dials that converted
+}
+
+export interface TrendPoint {
+  start: string; // ISO date of the bucket's first day
+  label: string;
+  dials: number;
+  connects: number;
+  appointments: number;
+}
+
+export interface BreakdownRow extends CallSummary {
+  key: string;
+  label: string;
+}
+
+/** A call log together with the lead it belongs to. */
+export type LeadCallLog = CallLog & { leadId: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Weeks start on Monday (ISO 8601)
+export const startOfWeek = (date: Date): Date => addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const isInRange = (timestamp: string, range: DateRange): boolean => {
+  const time = new Date(timestamp).getTime();
+  return time >= startOfDay(range.from).getTime() && time < addDays(range.to, 1).getTime();
+};
+
+const percent = (part: number, total: number) => total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+
+export const summarizeCalls = (logs: LeadCallLog[], outcomes: CallOutcome[]): CallSummary => {
+  const resolved = logs.map(l => resolveOutcome(l, outcomes));
+  const dials = logs.length;
+  const connects = resolved.filter(o => o.isConnect).length;
+  const appointments = resolved.filter(o => o.isConversion).length;
+
+  return {
+    dials,
+    connects,
+    appointments,
+    uniqueLeads: new Set(logs.map(l => l.leadId)).size,
+    connectionRate: percent(connects, dials),
+    conversionRate: percent(appointments, dials),
+  };
+};
+
+/**
+ * Dials, connects and appointments per day or week across the range.
+ * Every bucket in the range is returned, including ones without calls, so gaps show up as zeros.
+ */
+export const buildTrend = (
+  logs: LeadCallLog[],
+  range: DateRange,
+  granularity: TrendGranularity,
+  outcomes: CallOutcome[]
+): TrendPoint[] => {
+  const bucketStart = granularity === 'week' ? startOfWeek : startOfDay;
+  const step = granularity === 'week' ? 7 : 1;
+
+  const points = new Map<string, TrendPoint>();
+  const last = startOfDay(range.to).getTime();
+  for (let day = bucketStart(range.from); day.getTime() <= last; day = addDays(day, step)) {
+    const key = toIsoDate(day);
+    points.set(key, {
+      start: key,
+      label: granularity === 'week'
+        ? `Wk ${day.toLocaleDateString(undefined, { day: '2-digit', month: '2-digit' })}`
+        : day.toLocaleDateString(undefined, { day: '2-digit', month: '2-digit' }),
+      dials: 0,
+      connects: 0,
+      appointments: 0,
+    });
+  }
+
+  logs.forEach(log => {
+    const point = points.get(toIsoDate(bucketStart(new Date(log.timestamp))));
+    if (!point) return;
+    const outcome = resolveOutcome(log, outcomes);
+    point.dials++;
+    if (outcome.isConnect) point.connects++;
+    if (outcome.isConversion) point.appointments++;
+  });
+
+  return Array.from(points.values());
+};
+
+/**
+ * Groups calls by `keyOf` and summarizes each group, busiest first.
+ */
+export const breakdownCalls = <T extends LeadCallLog>(
+  logs: T[],
+  keyOf: (log: T) => string,
+  labelOf: (log: T) => string,
+  outcomes: CallOutcome[]
+): BreakdownRow[] => {
+  const groups = new Map<string, { label: string; logs: T[] }>();
+  logs.forEach(log => {
+    const key = keyOf(log);
+    const group = groups.get(key) || { label: labelOf(log), logs: [] };
+    group.logs.push(log);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({ key, label: group.label, ...summarizeCalls(group.logs, outcomes) }))
+    .sort((a, b) => b.dials - a.dials || b.appointments - a.appointments);
+};
+
+/** Number of days in a range, counting both ends. */
+export const rangeLengthInDays = (range: DateRange): number =>
+  Math.round((startOfDay(range.to).getTime() - startOfDay(range.from).getTime()) / DAY_MS) + 1;
@@ -0,0 +1,124 @@
+import { CallLog, CrmFieldMapping, CrmObject, CrmProvider, Lead } from "../types";
+import { EXPORT_FIELDS, ExportContext } from "./leadExport";
+
+/**
+ * How leads and calls map onto CRM records. Shared by the settings UI and the dev server,
+ * which does the actual pushing so API tokens never reach the browser.
+ */
+
+export interface CrmProviderInfo {
+  id: CrmProvider;
+  label: string;
+  defaultBaseUrl: string; // Empty when every account has its own host
+  baseUrlHint: string;
+  tokenLabel: string;
+  objectLabels: Record<CrmObject, string>;
+}
+
+export const CRM_PROVIDERS: CrmProviderInfo[] = [
+  {
+    id: 'hubspot',
+    label: 'HubSpot',
+    defaultBaseUrl: 'https://api.hubapi.com',
+    baseUrlHint: 'https://api.hubapi.com',
+    tokenLabel: 'Private app access token',
+    objectLabels: { company: 'Company', contact: 'Contact' },
+  },
+  {
+    id: 'pipedrive',
+    label: 'Pipedrive',
+    defaultBaseUrl: 'https://api.pipedrive.com',
+    baseUrlHint: 'https://api.pipedrive.com or https://yourcompany.pipedrive.com/api',
+    tokenLabel: 'API token',
+    objectLabels: { company: 'Organization', contact: 'Person' },
+  },
+  {
+    id: 'salesforce',
+    label: 'Salesforce',
+    defaultBaseUrl: '',
+    baseUrlHint: 'Your instance URL, e.g. https://yourorg.my.salesforce.com',
+    tokenLabel: 'OAuth access token',
+    objectLabels: { company: 'Account', contact: 'Contact' },
+  },
+];
+
+export const getCrmProvider = (id: CrmProvider): CrmProviderInfo =>
+  CRM_PROVIDERS.find(p => p.id === id) || CRM_PROVIDERS[0];
+
+/** Path the dev server serves a fake of the provider's API under, for trying out a connection. */
+export const mockCrmBaseUrl = (origin: string, provider: CrmProvider) => `${origin}/mock-crm/${provider}`;
+
+// Only standard properties, so the defaults work in an account without custom fields.
+// The contact's name is always set from the lead's CEO; the mapping adds everything else.
+export const DEFAULT_CRM_MAPPINGS: Record<CrmProvider, CrmFieldMapping[]> = {
+  hubspot: [
+    { source: 'name', object: 'company', target: 'name' },
+    { source: 'website', object: 'company', target: 'domain' },
+    { source: 'phone', object: 'company', target: 'phone' },
+    { source: 'address', object: 'company', target: 'address' },
+    { source: 'companyDescription', object: 'company', target: 'description' },
+    { source: 'email', object: 'contact', target: 'email' },
+    { source: 'phone', object: 'contact', target: 'phone' },
+  ],
+  pipedrive: [
+    { source: 'name', object: 'company', target: 'name' },
+    { source: 'address', object: 'company', target: 'address' },
+    { source: 'email', object: 'contact', target: 'email' },
+    { source: 'phone', object: 'contact', target: 'phone' },
+  ],
+  salesforce: [
+    { source: 'name', object: 'company', target: 'Name' },
+    { source: 'phone', object: 'company', target: 'Phone' },
+    { source: 'website', object: 'company', target: 'Website' },
+    { source: 'address', object: 'company', target: 'BillingStreet' },
+    { source: 'category', object: 'company', target: 'Industry' },
+    { source: 'companyDescription', object: 'company', target: 'Description' },
+    { source: 'email', object: 'contact', target: 'Email' },
+    { source: 'phone', object: 'contact', target: 'Phone' },
+  ],
+};
+
+/** Property values for one CRM object; empty values are left out so they don't overwrite CRM data. */
+export const mapLeadFields = (
+  lead: Lead,
+  mappings: CrmFieldMapping[],
+  object: CrmObject,
+  context: ExportContext
+): Record<string, string> => {
+  const properties: Record<string, string> = {};
+  mappings.filter(m => m.object === object && m.target.trim()).forEach(mapping => {
+    const field = EXPORT_FIELDS.find(f => f.id === mapping.source);
+    const value = field?.value(lead, context);
+    if (value !== null && value !== undefined && value !== '') properties[mapping.target.trim()] = String(value);
+  });
+  return properties;
+};
+
+/** "Dr. Anna Maria Schmidt" -> { firstName: "Dr. Anna Maria", lastName: "Schmidt" } */
+export const splitPersonName = (fullName: string) => {
+  const parts = fullName.trim().split(/\s+/);
+  const lastName = parts.pop() || '';
+  return { firstName: parts.join(' '), lastName };
+};
+
+export interface CrmCallActivity {
+  callId: string;
+  timestamp: string;
+  subject: string;
+  body: string;
+}
+
+export const toCallActivity = (log: CallLog): CrmCallActivity => {
+  const lines = [
+    `Outcome: ${log.outcome}`,
+    log.callerName && `Caller: ${log.callerName}`,
+    log.appointmentDate && `Appointment: ${new Date(log.appointmentDate).toLocaleString()}`,
+    log.callbackAt && `Callback: ${new Date(log.callbackAt).toLocaleString()}`,
+  ].filter(Boolean) as string[];
+
+  const notes = log.analysis?.userNotes || log.notes;
+  if (notes) lines.push('', notes);
+  if (log.analysis?.keyTakeaways?.length) lines.push('', 'Key takeaways:', ...log.analysis.keyTakeaways.map(t => `- ${t}`));
+
+  return { callId: log.id, timestamp: log.timestamp, subject: `Call: ${log.outcome}`, body: lines.join('\n') };
+};
@@ -0,0 +1,40 @@
+import { CrmConnection, CrmPushResult, Lead } from "../types";
+import { apiFetch } from "./authService";
+
+export interface CrmConnectionInput extends Omit<CrmConnection, 'hasToken' | 'updatedAt'> {
+  token?: string; // Leave empty to keep the saved token
+}
+
+const crmUrl = (workspaceId: string, path = "") => `/api/workspaces/${workspaceId}/crm${path}`;
+
+export const getCrmConnection = async (workspaceId: string): Promise<CrmConnection | null> =>
+  (await apiFetch<{ connection: CrmConnection | null }>(crmUrl(workspaceId))).connection;
+
+export const saveCrmConnection = async (workspaceId: string, input: CrmConnectionInput): Promise<CrmConnection> =>
+  (await apiFetch<{ connection: CrmConnection }>(crmUrl(workspaceId), { method: "PUT", body: JSON.stringify(input) })).connection;
+
+export const deleteCrmConnection = async (workspaceId: string): Promise<void> => {
+  await apiFetch(crmUrl(workspaceId), { method: "DELETE" });
+};
+
+export const testCrmConnection = async (workspaceId: string): Promise<void> => {
+  await apiFetch(crmUrl(workspaceId, "/test"), { method: "POST" });
+};
+
+// Transcripts and local recordings are of no use to the CRM and make the request large
+const withoutCallMedia = (lead: Lead): Lead => ({
+  ...lead,
+  callLogs: lead.callLogs?.map(({ recordingUrl, ...log }) =>
+    log.analysis ? { ...log, analysis: { ...log.analysis, transcript: undefined } } : log
+  ),
+});
+
+/**
+ * Pushes leads (and their new calls) through the workspace's CRM connection.
+ * Returns one result per lead; a lead that failed part-way may still carry a link.
+ */
+export const pushLeadsToCrm = async (workspaceId: string, leads: Lead[]): Promise<CrmPushResult[]> =>
+  (await apiFetch<{ results: CrmPushResult[] }>(crmUrl(workspaceId, "/push"), {
+    method: "POST",
+    body: JSON.stringify({ leads: leads.map(withoutCallMedia) }),
+  })).results;
@@ -0,0 +1,73 @@
+/**
+ * Minimal RFC 4180 CSV parser.
+ * Handles quoted fields, escaped quotes ("") and line breaks inside quotes.
+ * The delimiter is auto-detected (comma or semicolon, as exported by German Excel) unless given.
+ */
+export const parseCsv = (text: string, delimiter?: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const sep = delimiter || detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === sep) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop completely empty lines
+  return rows.filter(r => r.some(cell => cell.trim().length > 0));
+};
+
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const commas = (firstLine.match(/,/g) || []).length;
+  const semicolons = (firstLine.match(/;/g) || []).length;
+  const tabs = (firstLine.match(/\t/g) || []).length;
+  if (tabs > commas && tabs > semicolons) return '\t';
+  return semicolons > commas ? ';' : ',';
+};
+
+/**
+ * Serializes rows as RFC 4180 CSV with CRLF line endings.
+ * Fields containing the delimiter, quotes or line breaks are quoted, quotes are doubled.
+ */
+export const toCsv = (rows: (string | number | null | undefined)[][], delimiter = ','): string =>
+  rows.map(row => row.map(value => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(delimiter)).join('\r\n') + '\r\n';
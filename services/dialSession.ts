@@ -0,0 +1,81 @@
+import { CallOutcome, Lead } from "../types";
+import { LeadSource } from "./cadences";
+import { CallSummary, LeadCallLog, summarizeCalls } from "./callMetrics";
+
+// Leads called more recently than this are left out of a session
+export const RECENT_ATTEMPT_HOURS = 24;
+
+export interface DialTarget {
+  lead: Lead;
+  source: LeadSource;
+}
+
+/**
+ * A power-dialer run through a list of leads. The call wizard opens the next target
+ * as soon as a call has been logged.
+ */
+export interface DialSession {
+  name: string;
+  targets: DialTarget[];
+  position: number; // Index of the target being called
+  startedAt: string;
+  endedAt?: string;
+  calls: LeadCallLog[]; // Calls logged during the session
+  skipped: number; // Targets the caller skipped
+  excluded: { noPhone: number; recentlyCalled: number }; // Left out when the session was built
+}
+
+export interface DialSessionStats extends CallSummary {
+  total: number;
+  done: number; // Called or skipped
+  skipped: number;
+  callsPerHour: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const hasRecentAttempt = (lead: Lead, hours: number, now = new Date()): boolean => {
+  const lastCall = lead.callLogs?.[0];
+  return !!lastCall && now.getTime() - new Date(lastCall.timestamp).getTime() < hours * HOUR_MS;
+};
+
+/**
+ * Builds a session from candidate leads, leaving out those without a phone number
+ * and those called within `skipRecentHours` (0 keeps everyone with a phone).
+ */
+export const createDialSession = (
+  name: string,
+  candidates: DialTarget[],
+  skipRecentHours = RECENT_ATTEMPT_HOURS,
+  now = new Date()
+): DialSession => {
+  const excluded = { noPhone: 0, recentlyCalled: 0 };
+  const targets = candidates.filter(({ lead }) => {
+    if (!lead.phone) {
+      excluded.noPhone++;
+      return false;
+    }
+    if (skipRecentHours > 0 && hasRecentAttempt(lead, skipRecentHours, now)) {
+      excluded.recentlyCalled++;
+      return false;
+    }
+    return true;
+  });
+
+  return { name, targets, position: 0, startedAt: now.toISOString(), calls: [], skipped: 0, excluded };
+};
+
+export const summarizeDialSession = (session: DialSession, outcomes: CallOutcome[], now = new Date()): DialSessionStats => {
+  const summary = summarizeCalls(session.calls, outcomes);
+  const end = session.endedAt ? new Date(session.endedAt) : now;
+  const hours = (end.getTime() - new Date(session.startedAt).getTime()) / HOUR_MS;
+
+  return {
+    ...summary,
+    total: session.targets.length,
+    done: Math.min(session.position, session.targets.length),
+    skipped: session.skipped,
+    // Not meaningful during the first few minutes
+    callsPerHour: hours > 0.1 ? Math.round(summary.dials / hours) : 0,
+  };
+};
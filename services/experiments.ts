@@ -0,0 +1,100 @@
+import { CallLog, CallOutcome, ScriptExperiment, ScriptVariant } from "../types";
+import { resolveOutcome } from "./outcomes";
+
+export const VARIANT_LABELS = ['A', 'B', 'C', 'D'];
+
+// Below this many connects per variant a z-test says little, whatever the p-value
+export const MIN_CONNECTS_PER_VARIANT = 20;
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+// FNV-1a with a final mix, as its low bits alone follow the parity of the input.
+// Stable across sessions and machines, so a lead keeps its variant.
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  return h >>> 0;
+};
+
+/** The running experiment calls count for: the one started last. */
+export const activeExperiment = (experiments: ScriptExperiment[]): ScriptExperiment | undefined =>
+  experiments
+    .filter(e => e.status === 'running')
+    .sort((a, b) => (b.startedAt || '').localeCompare(a.startedAt || ''))[0];
+
+/**
+ * Variant a call gets, by lead or by caller. Calls without a known caller can't be assigned by caller.
+ */
+export const assignVariant = (experiment: ScriptExperiment, leadId: string, callerId?: string): ScriptVariant | undefined => {
+  const key = experiment.assignBy === 'lead' ? leadId : callerId;
+  if (!key || experiment.variants.length === 0) return undefined;
+  return experiment.variants[hash(`${experiment.id}:${key}`) % experiment.variants.length];
+};
+
+// Abramowitz-Stegun 7.1.26, accurate to about 1e-7
+const erf = (x: number) => {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return sign * y;
+};
+
+const normalCdf = (z: number) => 0.5 * (1 + erf(z / Math.SQRT2));
+
+/** Two-sided p-value of a two-proportion z-test; null when there is nothing to compare. */
+export const twoProportionPValue = (successesA: number, totalA: number, successesB: number, totalB: number): number | null => {
+  if (totalA === 0 || totalB === 0) return null;
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (standardError === 0) return null;
+  const z = (successesB / totalB - successesA / totalA) / standardError;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+};
+
+export interface VariantResult {
+  variant: ScriptVariant;
+  dials: number;
+  connects: number;
+  appointments: number;
+  appointmentRate: number; // % of connects that ended with an appointment
+  lift: number | null; // Percentage points over the control
+  pValue: number | null; // Against the control
+  significant: boolean;
+}
+
+/**
+ * Connect-to-appointment rate of every variant, each compared with the control (the first variant).
+ * A difference is significant when p < 0.05 and both variants have enough connects.
+ */
+export const summarizeExperiment = (experiment: ScriptExperiment, logs: CallLog[], outcomes: CallOutcome[]): VariantResult[] => {
+  const counts = experiment.variants.map(variant => {
+    const variantLogs = logs.filter(l => l.experimentId === experiment.id && l.variantId === variant.id);
+    const resolved = variantLogs.map(l => resolveOutcome(l, outcomes));
+    return {
+      variant,
+      dials: variantLogs.length,
+      connects: resolved.filter(o => o.isConnect).length,
+      appointments: resolved.filter(o => o.isConversion).length,
+    };
+  });
+
+  const rate = (c: { connects: number; appointments: number }) => c.connects > 0 ? (c.appointments / c.connects) * 100 : 0;
+  const control = counts[0];
+  return counts.map((c, index) => {
+    if (index === 0 || !control) return { ...c, appointmentRate: rate(c), lift: null, pValue: null, significant: false };
+    const pValue = twoProportionPValue(control.appointments, control.connects, c.appointments, c.connects);
+    const enoughData = control.connects >= MIN_CONNECTS_PER_VARIANT && c.connects >= MIN_CONNECTS_PER_VARIANT;
+    return {
+      ...c,
+      appointmentRate: rate(c),
+      lift: control.connects > 0 && c.connects > 0 ? rate(c) - rate(control) : null,
+      pValue,
+      significant: enoughData && pValue !== null && pValue < SIGNIFICANCE_LEVEL,
+    };
+  });
+};
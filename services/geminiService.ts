@@ -1,5 +1,22 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Lead, CallAnalysis, CommercialRegisterData } from "../types";
+import { GoogleGenAI, Type, createPartFromBase64, createPartFromUri } from "@google/genai";
+import { Lead, CallAnalysis, CommercialRegisterData, GeoPoint, DataFetchError, LookalikeProfile } from "../types";
+import {
+  parseJsonResponse,
+  validateList,
+  validateObject,
+  toDataFetchError,
+  requestFailedError,
+  SEARCH_RESULT_SCHEMA,
+  ENRICHMENT_SCHEMA,
+  COMMERCIAL_REGISTER_SCHEMA,
+  CALL_ANALYSIS_SCHEMA,
+  LOOKALIKE_QUERY_SCHEMA,
+  SearchResultPayload,
+  EnrichmentPayload,
+  CommercialRegisterPayload,
+  CallAnalysisPayload,
+  LookalikeQueryPayload,
+} from "./responseSchemas";
 
 const getClient = () => {
   const apiKey = process.env.API_KEY;
@@ -9,46 +26,18 @@ const getClient = () => {
   return new GoogleGenAI({ apiKey });
 };
 
-/**
- * Helper to robustly parse JSON from LLM output, handling markdown fences and common errors.
- */
-const cleanAndParseJSON = (text: string) => {
-  if (!text) return null;
-  let cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
-  
-  try {
-    return JSON.parse(cleaned);
-  } catch (e) {
-    // Attempt to extract JSON object or array from the text using regex
-    const objectMatch = cleaned.match(/\{[\s\S]*\}/);
-    const arrayMatch = cleaned.match(/\[[\s\S]*\]/);
-    
-    if (objectMatch) {
-      try {
-        return JSON.parse(objectMatch[0]);
-      } catch (e2) {}
-    }
-    
-    if (arrayMatch) {
-      try {
-        return JSON.parse(arrayMatch[0]);
-      } catch (e2) {}
-    }
-    
-    console.warn("Failed to parse JSON from response:", text.substring(0, 100) + "...");
-    return null;
-  }
-};
-
 /**
  * Uses the Google Maps tool to find businesses matching the criteria.
  * Supports excluding existing names to find "more" results.
+ * When the geocoded search center is known, Maps retrieval is anchored there.
+ * Throws a DataFetchError when the request fails or the response holds no usable business.
  */
 export const searchBusinesses = async (
   industry: string,
   location: string,
   limit: number = 5,
-  excludeNames: string[] = []
+  excludeNames: string[] = [],
+  area: { center?: GeoPoint; radiusKm?: number } = {}
 ): Promise<Partial<Lead>[]> => {
   const ai = getClient();
   const modelId = "gemini-2.5-flash"; 
@@ -61,7 +50,9 @@ export const searchBusinesses = async (
     ? `Do NOT include the following businesses in the result: ${recentExclusions}.` 
     : "";
 
-  const prompt = `Find at least ${limit} unique ${industry} businesses in or near ${location}.
+  const areaPrompt = area.radiusKm ? ` within ${area.radiusKm} km` : "";
+
+  const prompt = `Find at least ${limit} unique ${industry} businesses in or near ${location}${areaPrompt}.
   ${exclusionPrompt}
   For each business, you MUST provide:
   1. Name
@@ -70,6 +61,7 @@ export const searchBusinesses = async (
   4. Phone Number
   5. Rating
   6. Review Count
+  7. Coordinates (latitude / longitude)
   
   IMPORTANT: Return the result as a raw JSON array of objects with the following keys:
   - name (string)
@@ -78,45 +70,102 @@ export const searchBusinesses = async (
   - phone (string or null)
   - rating (number)
   - reviewCount (number)
+  - latitude (number or null)
+  - longitude (number or null)
   
   Do not include any markdown formatting (like \`\`\`json). Just return the raw JSON string.`;
 
+  let responseText: string | undefined;
   try {
     const response = await ai.models.generateContent({
       model: modelId,
       contents: prompt,
       config: {
         tools: [{ googleMaps: {} }],
-        toolConfig: {
-          retrievalConfig: {
-            latLng: {
-              // Defaulting to a central location if we don't have user geo.
-              latitude: 40.7128, 
-              longitude: -74.0060 
+        ...(area.center ? {
+          toolConfig: {
+            retrievalConfig: {
+              latLng: {
+                latitude: area.center.latitude,
+                longitude: area.center.longitude
+              }
             }
           }
-        },
+        } : {}),
       },
     });
 
-    const parsed = cleanAndParseJSON(response.text || "[]");
-    
-    if (!parsed || !Array.isArray(parsed)) {
+    responseText = response.text;
+  } catch (error) {
+    console.error("Error searching businesses:", error);
+    throw requestFailedError('search', error);
+  }
+
+  const parsed = parseJsonResponse(responseText);
+  if ('issue' in parsed) throw toDataFetchError('search', [parsed.issue]);
+
+  // Entries without a name or address are dropped, other bad fields become null
+  const { value: results, issues } = validateList<SearchResultPayload>(parsed.data, SEARCH_RESULT_SCHEMA);
+  if (issues.length > 0) {
+    // Nothing usable is a failed search; some dropped entries just mean fewer leads
+    if (results.length === 0) throw toDataFetchError('search', issues);
+    console.warn("Business search response had invalid fields", toDataFetchError('search', issues));
+  }
+
+  // Map response to our Lead structure
+  return results.map(item => ({
+    name: item.name,
+    address: item.address,
+    website: item.website,
+    phone: item.phone,
+    rating: item.rating ?? undefined,
+    reviewCount: item.reviewCount ?? undefined,
+    latitude: item.latitude ?? undefined,
+    longitude: item.longitude ?? undefined,
+    sourceUrl: null, // We'll let the UI generate a Maps search link
+  }));
+};
+
+/**
+ * Asks Gemini which industry searches would turn up businesses like the seed lead,
+ * e.g. a won "Steuerberater" can lead to "Lohnbuchhaltung" and "Wirtschaftsprüfer" as well.
+ * Returns an empty list when the model gives nothing usable.
+ */
+export const suggestLookalikeSearches = async (seed: Lead, profile: LookalikeProfile, count: number = 4): Promise<string[]> => {
+  const ai = getClient();
+  const modelId = "gemini-2.5-flash";
+
+  const traits = [
+    `Category: ${profile.category}`,
+    seed.companyDescription ? `Description: ${seed.companyDescription}` : '',
+    profile.keywords.length > 0 ? `Keywords: ${profile.keywords.join(', ')}` : '',
+    profile.legalForm ? `Legal form: ${profile.legalForm}` : '',
+    profile.revenue ? `Revenue: ${seed.commercialData?.latestRevenue}` : '',
+    profile.reviewCount !== undefined ? `Google reviews: ${profile.reviewCount}` : '',
+  ].filter(Boolean).join('\n  ');
+
+  const prompt = `We sold successfully to "${seed.name}" in ${profile.location}.
+  ${traits}
+
+  Suggest ${count} short business-directory search terms (like "Dental Clinic" or "Steuerberater") that find
+  other businesses of the same kind and size near ${profile.location}. Start with the closest match.
+  Write them in the language of the category.
+
+  IMPORTANT: Return a raw JSON array of objects with the key "industry" (string).
+  Do not include any markdown formatting. Just return the raw JSON string.`;
+
+  try {
+    const response = await ai.models.generateContent({ model: modelId, contents: prompt });
+
+    const parsed = parseJsonResponse(response.text);
+    if ('issue' in parsed) {
+      console.warn("Lookalike search suggestions were unusable", toDataFetchError('search', [parsed.issue]));
       return [];
     }
-    
-    // Map response to our Lead structure
-    return parsed.map((item: any) => ({
-      name: item.name,
-      address: item.address,
-      website: item.website || null,
-      phone: item.phone || null,
-      rating: item.rating,
-      reviewCount: item.reviewCount,
-      sourceUrl: null, // We'll let the UI generate a Maps search link
-    }));
+    const { value } = validateList<LookalikeQueryPayload>(parsed.data, LOOKALIKE_QUERY_SCHEMA);
+    return value.map(item => item.industry.trim()).slice(0, count);
   } catch (error) {
-    console.error("Error searching businesses:", error);
+    console.error("Lookalike search suggestions failed", error);
     return [];
   }
 };
@@ -124,9 +173,9 @@ export const searchBusinesses = async (
 /**
  * "Imprint Scraper" Module
  * Uses Google Search grounding to "enrich" the lead with CEO, Email, and Company Description.
+ * Never throws: problems with the request or the response are reported in `enrichmentError`.
  */
 export const enrichLeadData = async (lead: Partial<Lead>): Promise<Partial<Lead>> => {
-  const ai = getClient();
   const modelId = "gemini-3-pro-preview"; 
 
   let prompt = "";
@@ -189,6 +238,7 @@ export const enrichLeadData = async (lead: Partial<Lead>): Promise<Partial<Lead>
   }
 
   try {
+    const ai = getClient();
     const response = await ai.models.generateContent({
       model: modelId,
       contents: prompt,
@@ -198,7 +248,11 @@ export const enrichLeadData = async (lead: Partial<Lead>): Promise<Partial<Lead>
       }
     });
 
-    const data = cleanAndParseJSON(response.text || "{}") || {};
+    const parsed = parseJsonResponse(response.text);
+    if ('issue' in parsed) {
+      return { ...lead, enrichmentError: toDataFetchError('enrichment', [parsed.issue]) };
+    }
+    const { value: data, issues } = validateObject<EnrichmentPayload>(parsed.data, ENRICHMENT_SCHEMA);
     
     // Extract grounding source URLs
     const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
@@ -219,8 +273,7 @@ export const enrichLeadData = async (lead: Partial<Lead>): Promise<Partial<Lead>
       }
     }
 
-    // Simple validation
-    const email = data.email && data.email.includes('@') ? data.email.toLowerCase().trim() : null;
+    const email = data.email ? data.email.toLowerCase() : null;
 
     return {
       ...lead,
@@ -230,18 +283,20 @@ export const enrichLeadData = async (lead: Partial<Lead>): Promise<Partial<Lead>
       email: email || lead.email,
       emailStatus: email ? (data.emailStatus || 'Validated') : lead.emailStatus, // Default to validated if LLM found it but didn't tag it
       companyDescription: data.companyDescription || lead.companyDescription,
-      sourceUrl: foundSourceUrl || lead.sourceUrl
+      sourceUrl: foundSourceUrl || lead.sourceUrl,
+      enrichmentError: toDataFetchError('enrichment', issues),
     };
 
   } catch (error) {
     console.warn(`Failed to enrich lead ${lead.name}`, error);
-    return lead;
+    return { ...lead, enrichmentError: requestFailedError('enrichment', error) };
   }
 };
 
 /**
  * "Handelsregister" Module
  * Specifically targets commercial register data using Gemini Search Grounding.
+ * Problems with the request or the response are reported in `fetchError`.
  */
 export const fetchHandelsregisterData = async (lead: Lead): Promise<CommercialRegisterData> => {
   const ai = getClient();
@@ -290,9 +345,13 @@ export const fetchHandelsregisterData = async (lead: Lead): Promise<CommercialRe
     });
 
     console.log("Gemini Response:", response); // For debugging
-    const data = cleanAndParseJSON(response.text || "{}");
+    const parsed = parseJsonResponse(response.text);
     
-    if (!data) throw new Error("Could not parse JSON from response");
+    if ('issue' in parsed) {
+      return { lastUpdated: new Date().toISOString(), fetchError: toDataFetchError('commercial_register', [parsed.issue]) };
+    }
+
+    const { value: data, issues } = validateObject<CommercialRegisterPayload>(parsed.data, COMMERCIAL_REGISTER_SCHEMA);
 
     return {
       registerId: data.registerId || undefined,
@@ -300,15 +359,16 @@ export const fetchHandelsregisterData = async (lead: Lead): Promise<CommercialRe
       foundingDate: data.foundingDate || undefined,
       legalForm: data.legalForm || undefined,
       shareCapital: data.shareCapital || undefined,
-      managingDirectors: Array.isArray(data.managingDirectors) ? data.managingDirectors : [],
+      managingDirectors: data.managingDirectors || [],
       latestRevenue: data.latestRevenue || undefined,
-      lastUpdated: new Date().toISOString()
+      lastUpdated: new Date().toISOString(),
+      fetchError: toDataFetchError('commercial_register', issues),
     };
 
   } catch (error) {
     console.error("Failed to fetch commercial register data", error);
     // Return partial object to avoid complete failure in UI
-    return { lastUpdated: new Date().toISOString() };
+    return { lastUpdated: new Date().toISOString(), fetchError: requestFailedError('commercial_register', error) };
   }
 };
 
@@ -353,55 +413,98 @@ export const generateColdCallScript = async (
   }
 };
 
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Gemini accepts inline audio up to ~20 MB per request; larger recordings go through the Files API
+const MAX_INLINE_AUDIO_BYTES = 15 * 1024 * 1024;
+
 /**
- * Simulates an AI analysis of a sales call.
- * In a real app, this would process the audio transcript.
- * Here, we generate plausible metrics based on the outcome and basic lead info.
+ * Transcribes a recorded sales call and analyzes it.
+ * Script adherence is not judged by the model; callers compute it from the returned transcript
+ * (see `computeScriptAdherence`) so it is measured the same way for every call.
  */
-export const generateCallAnalysis = async (
-  outcome: string,
-  leadName: string
-): Promise<CallAnalysis> => {
-  // Simulate network delay for "uploading and processing"
-  await new Promise(resolve => setTimeout(resolve, 1500));
-
-  // Base random values
-  let baseScore = 50;
-  let sentiment: 'Positive' | 'Neutral' | 'Negative' = 'Neutral';
-  let confidence: 'High' | 'Medium' | 'Low' = 'Medium';
-  let adherence = Math.floor(Math.random() * (98 - 75) + 75); // 75-98%
-
-  if (outcome.includes('Appointment')) {
-    baseScore = 95;
-    sentiment = 'Positive';
-    confidence = 'High';
-  } else if (outcome.includes('Interested')) {
-    baseScore = 80;
-    sentiment = 'Positive';
-    confidence = 'High';
-  } else if (outcome.includes('No Answer') || outcome.includes('Gatekeeper')) {
-    baseScore = 40;
-    sentiment = 'Neutral';
-    confidence = 'Medium';
-    adherence = 100; // Script doesn't matter much if no one answers
-  } else if (outcome.includes('Not Interested')) {
-    baseScore = 60;
-    sentiment = 'Negative';
-    confidence = 'Medium';
-  }
+export const analyzeCallRecording = async (
+  recording: Blob,
+  context: { leadName: string; outcome: string; scriptText?: string }
+): Promise<{ analysis: CallAnalysis | null; error?: DataFetchError }> => {
+  const modelId = "gemini-2.5-flash";
+  const mimeType = recording.type || "audio/webm";
+
+  const prompt = `
+    You are a sales coach reviewing a recorded cold call.
+    The caller (sales rep) is speaking with someone at "${context.leadName}".
+    The rep logged the outcome as: "${context.outcome}".
+    ${context.scriptText ? `The rep was following this script:\n${context.scriptText.substring(0, 4000)}` : ''}
+
+    1. Transcribe the call verbatim. Prefix each turn with "Rep:" or "Prospect:", one turn per line.
+       Keep the original language of the call.
+    2. Judge the overall sentiment of the prospect: Positive, Neutral or Negative.
+    3. Score the rep's performance from 0 to 100 (opening, discovery questions, objection handling, closing).
+    4. State how confident you are in this assessment: High, Medium or Low (e.g. Low for poor audio or very short calls).
+    5. List 2-4 short, concrete key takeaways for the rep.
+
+    If the recording contains no conversation (silence, voicemail only), return an empty transcript.
+  `;
+
+  try {
+    const ai = getClient();
+    let audioPart;
+    if (recording.size > MAX_INLINE_AUDIO_BYTES) {
+      const uploaded = await ai.files.upload({ file: recording, config: { mimeType } });
+      audioPart = createPartFromUri(uploaded.uri || '', uploaded.mimeType || mimeType);
+    } else {
+      audioPart = createPartFromBase64(await blobToBase64(recording), mimeType);
+    }
 
-  // Add some variance
-  const score = Math.min(100, Math.max(0, baseScore + Math.floor(Math.random() * 10 - 5)));
-
-  return {
-    callScore: score,
-    scriptAdherence: adherence,
-    confidence,
-    sentiment,
-    keyTakeaways: [
-      "Speaker spoke clearly.",
-      outcome.includes('Appointment') ? "Strong closing technique used." : "Objection handling could be improved.",
-      "Pacing was appropriate."
-    ]
-  };
-};
\ No newline at end of file
+    const response = await ai.models.generateContent({
+      model: modelId,
+      contents: [{ role: "user", parts: [audioPart, { text: prompt }] }],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            transcript: { type: Type.STRING },
+            sentiment: { type: Type.STRING, enum: ["Positive", "Neutral", "Negative"] },
+            callScore: { type: Type.NUMBER },
+            confidence: { type: Type.STRING, enum: ["High", "Medium", "Low"] },
+            keyTakeaways: { type: Type.ARRAY, items: { type: Type.STRING } },
+          },
+          required: ["transcript", "sentiment", "callScore", "confidence", "keyTakeaways"],
+        },
+      },
+    });
+
+    const parsed = parseJsonResponse(response.text);
+    if ('issue' in parsed) {
+      return { analysis: null, error: toDataFetchError('call_analysis', [parsed.issue]) };
+    }
+
+    const { value: data, issues } = validateObject<CallAnalysisPayload>(parsed.data, CALL_ANALYSIS_SCHEMA);
+    if (data.transcript === null || data.sentiment === null || data.callScore === null) {
+      return { analysis: null, error: toDataFetchError('call_analysis', issues) };
+    }
+
+    return {
+      analysis: {
+        callScore: Math.min(100, Math.max(0, Math.round(data.callScore))),
+        scriptAdherence: 0,
+        confidence: data.confidence || 'Medium',
+        sentiment: data.sentiment,
+        keyTakeaways: data.keyTakeaways || [],
+        transcript: data.transcript,
+        basedOn: 'recording',
+      },
+      error: toDataFetchError('call_analysis', issues),
+    };
+  } catch (error) {
+    console.error("Call analysis failed", error);
+    return { analysis: null, error: requestFailedError('call_analysis', error) };
+  }
+};
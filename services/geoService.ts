@@ -0,0 +1,110 @@
+import { GeoPoint, Lead } from "../types";
+
+const NOMINATIM_URL = "https://nominatim.openstreetmap.org/search";
+// Nominatim's usage policy allows at most one request per second
+const MIN_REQUEST_INTERVAL_MS = 1100;
+const EARTH_RADIUS_KM = 6371;
+
+const geocodeCache = new Map<string, GeoPoint | null>();
+let requestQueue: Promise<unknown> = Promise.resolve();
+
+const throttled = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = requestQueue.then(task);
+  requestQueue = run
+    .catch(() => undefined)
+    .then(() => new Promise(resolve => setTimeout(resolve, MIN_REQUEST_INTERVAL_MS)));
+  return run;
+};
+
+/**
+ * Resolves a free-text location ("Zahnärzte in München" style city names, postal codes,
+ * street addresses) to coordinates. Results, including misses, are cached per query.
+ */
+export const geocodeLocation = async (query: string): Promise<GeoPoint | null> => {
+  const key = query.trim().toLowerCase();
+  if (!key) return null;
+  if (geocodeCache.has(key)) return geocodeCache.get(key)!;
+
+  try {
+    const point = await throttled(async () => {
+      const params = new URLSearchParams({ q: query, format: "jsonv2", limit: "1" });
+      const response = await fetch(`${NOMINATIM_URL}?${params.toString()}`, {
+        headers: { "Accept": "application/json" },
+      });
+      if (!response.ok) throw new Error(`Geocoding failed with status ${response.status}`);
+
+      const [first] = await response.json();
+      if (!first) return null;
+      return { latitude: Number(first.lat), longitude: Number(first.lon) };
+    });
+    geocodeCache.set(key, point);
+    return point;
+  } catch (error) {
+    // Network errors are not cached so a later attempt can succeed
+    console.warn(`Could not geocode "${query}"`, error);
+    return null;
+  }
+};
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in kilometers.
+ */
+export const haversineKm = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Bounding box around a point, as [minLon, minLat, maxLon, maxLat].
+ */
+export const boundingBox = (center: GeoPoint, radiusKm: number): [number, number, number, number] => {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const lonDelta = latDelta / Math.max(0.01, Math.cos(toRadians(center.latitude)));
+  return [
+    center.longitude - lonDelta,
+    center.latitude - latDelta,
+    center.longitude + lonDelta,
+    center.latitude + latDelta,
+  ];
+};
+
+const hasCoordinates = (lead: Lead) =>
+  typeof lead.latitude === 'number' && typeof lead.longitude === 'number' &&
+  !Number.isNaN(lead.latitude) && !Number.isNaN(lead.longitude);
+
+/**
+ * Geocodes leads that came back without coordinates, stores the distance to the
+ * search center on each lead and drops those outside the radius.
+ * Leads whose address cannot be resolved are kept (without a distance) rather than
+ * silently discarded.
+ */
+export const applyRadiusFilter = async (leads: Lead[], center: GeoPoint, radiusKm: number): Promise<Lead[]> => {
+  const located: Lead[] = [];
+
+  for (const lead of leads) {
+    let point: GeoPoint | null = hasCoordinates(lead)
+      ? { latitude: lead.latitude!, longitude: lead.longitude! }
+      : null;
+
+    if (!point && lead.address) {
+      point = await geocodeLocation(lead.address);
+    }
+
+    if (!point) {
+      located.push(lead);
+      continue;
+    }
+
+    const distanceKm = Math.round(haversineKm(center, point) * 10) / 10;
+    if (distanceKm <= radiusKm) {
+      located.push({ ...lead, latitude: point.latitude, longitude: point.longitude, distanceKm });
+    }
+  }
+
+  return located;
+};
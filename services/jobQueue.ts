@@ -0,0 +1,202 @@
+/**
+ * In-memory job queue with bounded concurrency, per-job retries and exponential backoff.
+ * Jobs belong to a group (e.g. a project) that can be paused, resumed or cancelled on its own.
+ */
+
+export type JobState = 'queued' | 'running' | 'waiting_retry';
+
+export interface QueueJob<T> {
+  id: string;
+  group: string;
+  payload: T;
+  attempts: number;
+  state: JobState;
+  notBefore: number; // Epoch ms; the job is not started earlier
+}
+
+export interface JobGroupStatus {
+  queued: number; // Includes jobs waiting for a retry
+  running: number;
+  retrying: number;
+  succeeded: number;
+  failed: number;
+  paused: boolean;
+}
+
+export interface JobQueueOptions<T, R> {
+  concurrency: number;
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  worker: (payload: T, attempt: number) => Promise<R>;
+  isRetryable: (error: unknown) => boolean;
+  // Rate-limit errors hold back every job, not just the one that hit the limit
+  isRateLimited?: (error: unknown) => boolean;
+  onSuccess?: (job: QueueJob<T>, result: R) => void;
+  onFailure?: (job: QueueJob<T>, error: unknown) => void;
+  onCancel?: (jobs: QueueJob<T>[]) => void;
+  onGroupDrained?: (group: string) => void;
+  onChange?: (status: Record<string, JobGroupStatus>) => void;
+}
+
+export interface JobQueue<T> {
+  enqueue: (id: string, group: string, payload: T) => boolean;
+  pause: (group: string) => void;
+  resume: (group: string) => void;
+  cancel: (group: string) => void;
+  getStatus: () => Record<string, JobGroupStatus>;
+}
+
+export const createJobQueue = <T, R>(options: JobQueueOptions<T, R>): JobQueue<T> => {
+  const jobs: QueueJob<T>[] = [];
+  const pausedGroups = new Set<string>();
+  // Finished counts per group, reset once a group has drained and gets new work
+  const finished = new Map<string, { succeeded: number; failed: number }>();
+  let cooldownUntil = 0;
+  let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const getStatus = (): Record<string, JobGroupStatus> => {
+    const status: Record<string, JobGroupStatus> = {};
+    const entry = (group: string) => status[group] ||= {
+      queued: 0, running: 0, retrying: 0,
+      succeeded: finished.get(group)?.succeeded || 0,
+      failed: finished.get(group)?.failed || 0,
+      paused: pausedGroups.has(group),
+    };
+
+    finished.forEach((_, group) => entry(group));
+    pausedGroups.forEach(group => entry(group));
+    jobs.forEach(job => {
+      const s = entry(job.group);
+      if (job.state === 'running') s.running++;
+      else s.queued++;
+      if (job.state === 'waiting_retry') s.retrying++;
+    });
+    return status;
+  };
+
+  const notify = () => options.onChange?.(getStatus());
+
+  const countFinished = (group: string, key: 'succeeded' | 'failed') => {
+    const counts = finished.get(group) || { succeeded: 0, failed: 0 };
+    counts[key]++;
+    finished.set(group, counts);
+  };
+
+  const removeJob = (job: QueueJob<T>) => {
+    const idx = jobs.indexOf(job);
+    if (idx !== -1) jobs.splice(idx, 1);
+    if (!jobs.some(j => j.group === job.group)) options.onGroupDrained?.(job.group);
+  };
+
+  const backoffDelay = (attempts: number) => {
+    const exponential = options.baseDelayMs * 2 ** (attempts - 1);
+    // Full jitter keeps retries of a failed batch from hitting the API in lockstep
+    return Math.min(options.maxDelayMs, exponential) * (0.5 + Math.random() * 0.5);
+  };
+
+  const run = async (job: QueueJob<T>) => {
+    job.state = 'running';
+    job.attempts++;
+    notify();
+
+    let result: R | undefined;
+    let failure: unknown;
+    let failed = false;
+    try {
+      result = await options.worker(job.payload, job.attempts);
+    } catch (error) {
+      failed = true;
+      failure = error;
+    }
+
+    // A job cancelled while its request was in flight is not reported again
+    if (jobs.includes(job)) {
+      if (!failed) {
+        countFinished(job.group, 'succeeded');
+        removeJob(job);
+        options.onSuccess?.(job, result as R);
+      } else if (job.attempts < options.maxAttempts && options.isRetryable(failure)) {
+        job.state = 'waiting_retry';
+        job.notBefore = Date.now() + backoffDelay(job.attempts);
+        if (options.isRateLimited?.(failure)) cooldownUntil = Math.max(cooldownUntil, job.notBefore);
+      } else {
+        countFinished(job.group, 'failed');
+        removeJob(job);
+        options.onFailure?.(job, failure);
+      }
+    }
+
+    notify();
+    pump();
+  };
+
+  const pump = () => {
+    if (wakeTimer) {
+      clearTimeout(wakeTimer);
+      wakeTimer = null;
+    }
+
+    const now = Date.now();
+    let running = jobs.filter(j => j.state === 'running').length;
+    let nextWake = Infinity;
+
+    for (const job of jobs) {
+      if (running >= options.concurrency) break;
+      if (job.state === 'running' || pausedGroups.has(job.group)) continue;
+
+      const startAt = Math.max(job.notBefore, cooldownUntil);
+      if (startAt > now) {
+        nextWake = Math.min(nextWake, startAt);
+        continue;
+      }
+      running++;
+      run(job);
+    }
+
+    if (nextWake !== Infinity) {
+      wakeTimer = setTimeout(pump, nextWake - now);
+    }
+  };
+
+  return {
+    enqueue: (id, group, payload) => {
+      if (jobs.some(j => j.id === id)) return false;
+      if (!jobs.some(j => j.group === group)) finished.delete(group);
+      jobs.push({ id, group, payload, attempts: 0, state: 'queued', notBefore: 0 });
+      notify();
+      pump();
+      return true;
+    },
+
+    pause: (group) => {
+      pausedGroups.add(group);
+      notify();
+    },
+
+    resume: (group) => {
+      pausedGroups.delete(group);
+      notify();
+      pump();
+    },
+
+    /**
+     * Drops every job of the group.
+     * Requests already in flight cannot be aborted; their results are discarded.
+     */
+    cancel: (group) => {
+      const cancelled = jobs.filter(j => j.group === group);
+      cancelled.forEach(job => jobs.splice(jobs.indexOf(job), 1));
+      pausedGroups.delete(group);
+      finished.delete(group);
+      if (cancelled.length > 0) {
+        options.onCancel?.(cancelled);
+        options.onGroupDrained?.(group);
+      }
+      notify();
+      pump();
+    },
+
+    getStatus,
+  };
+};
@@ -0,0 +1,371 @@
+import { CallLog, CommercialRegisterData, ContactList, DataConfidence, Deal, DealStage, Lead, LeadStatus, PipelineStage, Project } from "../types";
+import { LeadSource } from "./cadences";
+import { PIPELINE_STAGES } from "./pipeline";
+
+export type DuplicateReason = 'phone' | 'website' | 'name' | 'address';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: 'Same phone number',
+  website: 'Same website',
+  name: 'Same name',
+  address: 'Similar name at the same address',
+};
+
+/** One business record; copies saved to several projects or lists share its id. */
+export interface DuplicateCandidate {
+  lead: Lead; // All copies combined
+  sources: LeadSource[];
+}
+
+export interface DuplicateGroup {
+  id: string;
+  candidates: DuplicateCandidate[];
+  reasons: DuplicateReason[];
+}
+
+// Germany, where most leads come from; numbers with a country code keep theirs
+const DEFAULT_COUNTRY_CODE = '49';
+
+const LEGAL_FORMS = /\b(gmbh|mbh|ag|kg|ohg|ug|gbr|e\.?\s?k|e\.?\s?v|co|inc|ltd|llc|plc|corp)\b\.?/g;
+
+// Directory and social media pages are shared by unrelated businesses
+const SHARED_HOSTS = ['facebook.com', 'instagram.com', 'linkedin.com', 'xing.com', 'google.com', 'goo.gl', 'yelp.com', 'yelp.de', 'gelbeseiten.de', 'dasoertliche.de', 'jimdo.com', 'jimdosite.com', 'wixsite.com'];
+
+const foldUmlauts = (text: string) =>
+  text.replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss')
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/** Company name without legal form, punctuation and case, e.g. "Müller & Co. GmbH" → "mueller". */
+export const normalizeCompanyName = (name?: string | null) =>
+  foldUmlauts((name || '').toLowerCase())
+    .replace(LEGAL_FORMS, ' ')
+    .replace(/&|\+|\bund\b|\band\b/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+/**
+ * Phone number in E.164 format ("+49301234567"), or '' when it has too few digits.
+ * National numbers ("030 1234567") get the default country code.
+ */
+export const toE164 = (phone?: string | null, countryCode = DEFAULT_COUNTRY_CODE) => {
+  const cleaned = (phone || '').replace(/\(0\)/g, '').replace(/[^\d+]/g, '');
+  let international: string;
+  if (cleaned.startsWith('+')) international = cleaned.slice(1).replace(/\+/g, '');
+  else if (cleaned.startsWith('00')) international = cleaned.slice(2);
+  else if (cleaned.startsWith('0')) international = countryCode + cleaned.slice(1);
+  else international = countryCode + cleaned;
+  return international.length >= 8 ? `+${international}` : '';
+};
+
+/** Host name without "www.", e.g. "https://www.example.de/kontakt" → "example.de". */
+export const websiteDomain = (website?: string | null) =>
+  (website || '').trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').split(/[/?#:]/)[0];
+
+const ownDomain = (website?: string | null) => {
+  const domain = websiteDomain(website);
+  return domain.includes('.') && !SHARED_HOSTS.some(host => domain === host || domain.endsWith(`.${host}`)) ? domain : '';
+};
+
+const normalizeAddress = (address?: string | null) =>
+  foldUmlauts((address || '').toLowerCase())
+    .replace(/strasse\b|str\./g, 'str')
+    .replace(/\b(germany|deutschland)\b/g, ' ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const postalCode = (address: string) => address.match(/\b\d{5}\b/)?.[0];
+
+const bigrams = (text: string) => {
+  const compact = text.replace(/\s+/g, ' ');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) result.push(compact.slice(i, i + 2));
+  return result;
+};
+
+/** Dice coefficient of two token lists (0 = nothing in common, 1 = identical). */
+const dice = (a: string[], b: string[]) => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const counts = new Map<string, number>();
+  a.forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+  let shared = 0;
+  b.forEach(t => {
+    const count = counts.get(t) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(t, count - 1);
+    }
+  });
+  return (2 * shared) / (a.length + b.length);
+};
+
+export const nameSimilarity = (a?: string | null, b?: string | null) =>
+  dice(bigrams(normalizeCompanyName(a)), bigrams(normalizeCompanyName(b)));
+
+/** Token overlap of two addresses; different postal codes count as different places. */
+export const addressSimilarity = (a?: string | null, b?: string | null) => {
+  const left = normalizeAddress(a);
+  const right = normalizeAddress(b);
+  if (!left || !right) return 0;
+  const leftZip = postalCode(left);
+  const rightZip = postalCode(right);
+  if (leftZip && rightZip && leftZip !== rightZip) return 0;
+  return dice(left.split(' '), right.split(' '));
+};
+
+const SAME_NAME = 0.9;
+const SIMILAR_NAME = 0.6;
+const SAME_ADDRESS = 0.75;
+const NEARBY_ADDRESS = 0.4;
+
+/**
+ * Why two leads look like the same business; empty when they don't.
+ * Equal names only count when the addresses don't contradict it, since chains share names across cities.
+ */
+export const matchLeads = (a: Lead, b: Lead): DuplicateReason[] => {
+  const reasons: DuplicateReason[] = [];
+  const phone = toE164(a.phone);
+  if (phone && phone === toE164(b.phone)) reasons.push('phone');
+  const domain = ownDomain(a.website);
+  if (domain && domain === ownDomain(b.website)) reasons.push('website');
+
+  const names = nameSimilarity(a.name, b.name);
+  const hasBothAddresses = !!a.address?.trim() && !!b.address?.trim();
+  const addresses = hasBothAddresses ? addressSimilarity(a.address, b.address) : 0;
+  if (names >= SAME_NAME && (!hasBothAddresses || addresses >= NEARBY_ADDRESS)) reasons.push('name');
+  if (names >= SIMILAR_NAME && addresses >= SAME_ADDRESS) reasons.push('address');
+  return reasons;
+};
+
+const isDismissed = (a: Lead, b: Lead) =>
+  !!a.notDuplicateOf?.includes(b.id) || !!b.notDuplicateOf?.includes(a.id);
+
+/** The first of `leads` that is the same business as `lead`, by id or by match. */
+export const findDuplicateOf = (lead: Lead, leads: Lead[]): Lead | undefined =>
+  leads.find(other => other.id === lead.id)
+  || leads.find(other => !isDismissed(lead, other) && matchLeads(lead, other).length > 0);
+
+// Keys that put possible duplicates into the same bucket, so not every pair has to be compared
+const blockingKeys = (lead: Lead) => {
+  const keys: string[] = [];
+  const phone = toE164(lead.phone);
+  if (phone) keys.push(`phone:${phone}`);
+  const domain = ownDomain(lead.website);
+  if (domain) keys.push(`web:${domain}`);
+  const name = normalizeCompanyName(lead.name);
+  if (name) keys.push(`name:${name.split(' ')[0]}`);
+  const zip = postalCode(normalizeAddress(lead.address));
+  if (zip) keys.push(`zip:${zip}`);
+  return keys;
+};
+
+// Buckets this large are a common first word or postal code, not a hint
+const MAX_BUCKET_SIZE = 300;
+
+const STATUS_RANK: Record<LeadStatus, number> = { Invalid: 0, New: 1, Reviewed: 2, Contacted: 3 };
+const CONFIDENCE_RANK: Record<DataConfidence, number> = { Low: 0, Medium: 1, High: 2 };
+
+/** Lead fields the user picks a value for when records disagree. */
+export const MERGE_FIELDS: { field: keyof Lead; label: string }[] = [
+  { field: 'name', label: 'Company' },
+  { field: 'category', label: 'Category' },
+  { field: 'address', label: 'Address' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'email', label: 'Email' },
+  { field: 'website', label: 'Website' },
+  { field: 'ceo', label: 'CEO' },
+  { field: 'companyDescription', label: 'Description' },
+  { field: 'assignedTo', label: 'Owner' },
+];
+
+/** Lead id to take each merge field from; fields not listed keep the primary's value if it has one. */
+export type MergeChoices = Partial<Record<keyof Lead, string>>;
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+const setField = <T, K extends keyof T>(target: T, key: K, value: T[K]) => { target[key] = value; };
+
+const mergeCommercialData = (records: (CommercialRegisterData | undefined)[]): CommercialRegisterData | undefined => {
+  const present = records.filter((r): r is CommercialRegisterData => !!r);
+  if (present.length === 0) return undefined;
+  const merged: CommercialRegisterData = {};
+  present.forEach(record => {
+    (Object.keys(record) as (keyof CommercialRegisterData)[]).forEach(key => {
+      if (isEmpty(merged[key]) && !isEmpty(record[key])) setField(merged, key, record[key]);
+    });
+  });
+  const directors = Array.from(new Set(present.flatMap(r => r.managingDirectors || [])));
+  if (directors.length > 0) merged.managingDirectors = directors;
+  // A failed lookup doesn't matter once another record has register data
+  if (merged.registerId) delete merged.fetchError;
+  return merged;
+};
+
+const mergeCallLogs = (records: Lead[]): CallLog[] | undefined => {
+  const byId = new Map<string, CallLog>();
+  records.forEach(r => r.callLogs?.forEach(log => { if (!byId.has(log.id)) byId.set(log.id, log); }));
+  if (byId.size === 0) return undefined;
+  return Array.from(byId.values()).sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+// Lost only wins when every record's deal was lost; any open or won deal is further along
+const dealRank = (stage: DealStage) => stage === 'Lost' ? -1 : PIPELINE_STAGES.indexOf(stage as PipelineStage);
+
+const mergeDeals = (records: Lead[]): Deal | undefined => {
+  const deals = records.map(r => r.deal).filter((d): d is Deal => !!d);
+  if (deals.length === 0) return undefined;
+  const best = deals.reduce((a, b) => dealRank(b.stage) > dealRank(a.stage) ? b : a);
+  const history = new Map(deals.flatMap(d => d.history).map(change => [`${change.at}|${change.stage}`, change]));
+  return {
+    ...best,
+    value: best.value ?? deals.find(d => d.value !== undefined)?.value,
+    expectedCloseDate: best.expectedCloseDate || deals.find(d => d.expectedCloseDate)?.expectedCloseDate,
+    history: Array.from(history.values()).sort((a, b) => a.at.localeCompare(b.at)),
+  };
+};
+
+const laterOf = (a?: string, b?: string) => (!a ? b : !b ? a : a > b ? a : b);
+
+/**
+ * Combines records of the same business into one, keeping the primary's id.
+ * Call logs, notes, register data, deal history and CRM links from all records are kept;
+ * status, confidence and deal stage take the most advanced value.
+ */
+export const mergeLeads = (primary: Lead, others: Lead[], choices: MergeChoices = {}): Lead => {
+  const records = [primary, ...others];
+  const merged: Lead = { ...primary };
+
+  // Primary first, then the other records fill its gaps
+  const pick = <K extends keyof Lead>(field: K): Lead[K] => {
+    const chosen = records.find(r => r.id === choices[field]);
+    if (chosen) return chosen[field];
+    return records.find(r => !isEmpty(r[field]))?.[field] ?? primary[field];
+  };
+  MERGE_FIELDS.forEach(({ field }) => setField(merged, field, pick(field)));
+  (['rating', 'reviewCount', 'sourceUrl', 'source', 'latitude', 'longitude', 'crm', 'cadence'] as (keyof Lead)[])
+    .forEach(field => setField(merged, field, pick(field)));
+
+  // The email status belongs to whichever email was kept
+  merged.emailStatus = records.find(r => r.email === merged.email && r.emailStatus)?.emailStatus;
+
+  const notes = Array.from(new Set(records.map(r => r.notes?.trim()).filter((n): n is string => !!n)));
+  merged.notes = notes.join('\n\n');
+
+  merged.callLogs = mergeCallLogs(records);
+  merged.lastCallResult = merged.callLogs?.[0]?.outcome ?? primary.lastCallResult;
+  merged.appointmentDate = records.map(r => r.appointmentDate).reduce(laterOf, undefined);
+  merged.callbackAt = records.map(r => r.callbackAt).filter(Boolean).sort()[0];
+  merged.commercialData = mergeCommercialData(records.map(r => r.commercialData));
+  merged.deal = mergeDeals(records);
+
+  merged.status = records.reduce((best, r) => STATUS_RANK[r.status] > STATUS_RANK[best] ? r.status : best, primary.status);
+  merged.confidence = records.reduce((best, r) => CONFIDENCE_RANK[r.confidence] > CONFIDENCE_RANK[best] ? r.confidence : best, primary.confidence);
+  const scores = records.map(r => r.leadScore).filter((s): s is number => s !== undefined);
+  merged.leadScore = scores.length > 0 ? Math.max(...scores) : undefined;
+
+  if (merged.commercialData?.registerId || merged.ceo) merged.enrichmentError = undefined;
+  merged.isEnriching = false;
+
+  const mergedIds = new Set(records.map(r => r.id));
+  const dismissed = Array.from(new Set(records.flatMap(r => r.notDuplicateOf || []))).filter(id => !mergedIds.has(id));
+  merged.notDuplicateOf = dismissed.length > 0 ? dismissed : undefined;
+  return merged;
+};
+
+/**
+ * Adds leads to a list of leads, merging each one into the lead it duplicates instead of adding it again.
+ * Used when saving to a contact list, so the same business found in two projects stays one contact.
+ */
+export const addLeadsWithoutDuplicates = (existing: Lead[], incoming: Lead[]): Lead[] => {
+  const result = [...existing];
+  incoming.forEach(lead => {
+    const match = findDuplicateOf(lead, result);
+    if (!match) {
+      result.push(lead);
+    } else if (match.id !== lead.id) {
+      result[result.indexOf(match)] = mergeLeads(match, [lead]);
+    }
+  });
+  return result;
+};
+
+/** Puts the merged lead where the first of the merged leads was and drops the rest. */
+export const replaceMergedLeads = (leads: Lead[], mergedIds: Set<string>, merged: Lead): Lead[] => {
+  let isPlaced = false;
+  return leads.flatMap(lead => {
+    if (!mergedIds.has(lead.id)) return [lead];
+    if (isPlaced) return [];
+    isPlaced = true;
+    return [merged];
+  });
+};
+
+/**
+ * Finds groups of leads across all projects and contact lists that are the same business.
+ * Matches are transitive: if A matches B and B matches C, all three form one group.
+ */
+export const findDuplicateGroups = (projects: Project[], contactLists: ContactList[]): DuplicateGroup[] => {
+  // Copies of one lead in several places count as one record
+  const copies = new Map<string, { leads: Lead[]; sources: LeadSource[] }>();
+  const collect = (leads: Lead[], source: LeadSource) => leads.forEach(lead => {
+    const entry = copies.get(lead.id) || { leads: [], sources: [] };
+    entry.leads.push(lead);
+    entry.sources.push(source);
+    copies.set(lead.id, entry);
+  });
+  projects.forEach(p => collect(p.leads, { type: 'project', id: p.id, name: p.name }));
+  contactLists.forEach(l => collect(l.leads, { type: 'list', id: l.id, name: l.name }));
+
+  const candidates: DuplicateCandidate[] = Array.from(copies.values()).map(({ leads, sources }) => ({
+    lead: leads.length > 1 ? mergeLeads(leads[0], leads.slice(1)) : leads[0],
+    sources,
+  }));
+
+  const buckets = new Map<string, number[]>();
+  candidates.forEach((candidate, index) => blockingKeys(candidate.lead).forEach(key => {
+    const bucket = buckets.get(key) || [];
+    bucket.push(index);
+    buckets.set(key, bucket);
+  }));
+
+  // Union-find over candidate indexes
+  const parent = candidates.map((_, i) => i);
+  const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+  const pairReasons = new Map<string, DuplicateReason[]>();
+
+  buckets.forEach(bucket => {
+    if (bucket.length < 2 || bucket.length > MAX_BUCKET_SIZE) return;
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [a, b] = [bucket[i], bucket[j]];
+        const pairKey = `${a}:${b}`;
+        if (pairReasons.has(pairKey)) continue;
+        const reasons = isDismissed(candidates[a].lead, candidates[b].lead) ? [] : matchLeads(candidates[a].lead, candidates[b].lead);
+        pairReasons.set(pairKey, reasons);
+        if (reasons.length > 0) parent[root(a)] = root(b);
+      }
+    }
+  });
+
+  const groups = new Map<number, number[]>();
+  candidates.forEach((_, i) => {
+    const members = groups.get(root(i)) || [];
+    members.push(i);
+    groups.set(root(i), members);
+  });
+
+  return Array.from(groups.values())
+    .filter(members => members.length > 1)
+    .map(members => {
+      const reasons = new Set<DuplicateReason>();
+      pairReasons.forEach((found, key) => {
+        const [a] = key.split(':').map(Number);
+        if (members.includes(a)) found.forEach(r => reasons.add(r));
+      });
+      const groupCandidates = members.map(i => candidates[i]);
+      return {
+        id: groupCandidates.map(c => c.lead.id).sort().join(':'),
+        candidates: groupCandidates,
+        reasons: Array.from(reasons),
+      };
+    });
+};
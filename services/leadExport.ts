@@ -0,0 +1,197 @@
+import { CallLog, CallOutcome, Lead, WorkspaceMember } from "../types";
+import { toCsv } from "./csv";
+import { foldLine } from "./icalendar";
+import { resolveOutcome } from "./outcomes";
+import { getMemberName } from "./workspaceService";
+import { buildXlsx } from "./xlsxWriter";
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'vcard';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  { id: 'xlsx', label: 'Excel', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { id: 'vcard', label: 'vCard', extension: 'vcf', mimeType: 'text/vcard;charset=utf-8' },
+];
+
+export interface ExportContext {
+  outcomes: CallOutcome[];
+  members: WorkspaceMember[];
+}
+
+export type ExportFieldGroup = 'Lead' | 'Commercial register' | 'Call history';
+
+type ExportValue = string | number | null | undefined;
+
+export interface ExportFieldDefinition {
+  id: string;
+  label: string;
+  group: ExportFieldGroup;
+  value: (lead: Lead, context: ExportContext) => ExportValue;
+  json?: (lead: Lead, context: ExportContext) => unknown; // Structured value for JSON, if it differs
+}
+
+const formatDateTime = (iso?: string) => iso ? new Date(iso).toLocaleString() : '';
+
+const describeCall = (log: CallLog, context: ExportContext) => [
+  formatDateTime(log.timestamp),
+  resolveOutcome(log, context.outcomes).label,
+  log.callerName,
+  log.appointmentDate && `appointment ${formatDateTime(log.appointmentDate)}`,
+  log.callbackAt && `callback ${formatDateTime(log.callbackAt)}`,
+  log.analysis?.userNotes || log.notes,
+].filter(Boolean).join(' – ');
+
+const callRecord = (log: CallLog, context: ExportContext) => ({
+  timestamp: log.timestamp,
+  outcome: resolveOutcome(log, context.outcomes).label,
+  caller: log.callerName || null,
+  appointmentDate: log.appointmentDate || null,
+  callbackAt: log.callbackAt || null,
+  notes: log.analysis?.userNotes || log.notes || null,
+  keyTakeaways: log.analysis?.keyTakeaways || [],
+});
+
+export const EXPORT_FIELDS: ExportFieldDefinition[] = [
+  { id: 'name', label: 'Company Name', group: 'Lead', value: l => l.name },
+  { id: 'leadScore', label: 'Lead Score', group: 'Lead', value: l => l.leadScore ?? 0 },
+  { id: 'category', label: 'Category', group: 'Lead', value: l => l.category },
+  { id: 'address', label: 'Address', group: 'Lead', value: l => l.address },
+  { id: 'website', label: 'Website', group: 'Lead', value: l => l.website },
+  { id: 'phone', label: 'Phone', group: 'Lead', value: l => l.phone },
+  { id: 'email', label: 'Email', group: 'Lead', value: l => l.email },
+  { id: 'emailStatus', label: 'Email Status', group: 'Lead', value: l => l.emailStatus },
+  { id: 'ceo', label: 'CEO', group: 'Lead', value: l => l.ceo },
+  { id: 'companyDescription', label: 'Description', group: 'Lead', value: l => l.companyDescription },
+  { id: 'status', label: 'Status', group: 'Lead', value: l => l.status },
+  { id: 'confidence', label: 'Data Confidence', group: 'Lead', value: l => l.confidence },
+  { id: 'rating', label: 'Rating', group: 'Lead', value: l => l.rating },
+  { id: 'reviewCount', label: 'Reviews', group: 'Lead', value: l => l.reviewCount },
+  { id: 'notes', label: 'Notes', group: 'Lead', value: l => l.notes },
+  { id: 'assignedTo', label: 'Owner', group: 'Lead', value: (l, ctx) => getMemberName(ctx.members, l.assignedTo) },
+  { id: 'appointmentDate', label: 'Setting Date', group: 'Lead', value: l => l.appointmentDate },
+  { id: 'callbackAt', label: 'Callback', group: 'Lead', value: l => l.callbackAt },
+  { id: 'sourceUrl', label: 'Source URL', group: 'Lead', value: l => l.sourceUrl },
+
+  { id: 'registerId', label: 'Register Number', group: 'Commercial register', value: l => l.commercialData?.registerId },
+  { id: 'court', label: 'Register Court', group: 'Commercial register', value: l => l.commercialData?.court },
+  { id: 'legalForm', label: 'Legal Form', group: 'Commercial register', value: l => l.commercialData?.legalForm },
+  { id: 'foundingDate', label: 'Founded', group: 'Commercial register', value: l => l.commercialData?.foundingDate },
+  { id: 'shareCapital', label: 'Share Capital', group: 'Commercial register', value: l => l.commercialData?.shareCapital },
+  { id: 'latestRevenue', label: 'Latest Revenue', group: 'Commercial register', value: l => l.commercialData?.latestRevenue },
+  {
+    id: 'managingDirectors', label: 'Managing Directors', group: 'Commercial register',
+    value: l => l.commercialData?.managingDirectors?.join('; '),
+    json: l => l.commercialData?.managingDirectors || [],
+  },
+  { id: 'registerUpdated', label: 'Register Data Updated', group: 'Commercial register', value: l => l.commercialData?.lastUpdated },
+
+  { id: 'callCount', label: 'Calls', group: 'Call history', value: l => l.callLogs?.length || 0 },
+  { id: 'lastCallDate', label: 'Last Call Date', group: 'Call history', value: l => l.callLogs?.[0]?.timestamp },
+  {
+    id: 'lastCallOutcome', label: 'Last Call', group: 'Call history',
+    value: (l, ctx) => l.callLogs?.[0] ? resolveOutcome(l.callLogs[0], ctx.outcomes).label : l.lastCallResult,
+  },
+  { id: 'lastCaller', label: 'Last Caller', group: 'Call history', value: l => l.callLogs?.[0]?.callerName },
+  {
+    id: 'callHistory', label: 'Call History', group: 'Call history',
+    // Oldest first reads naturally in a single spreadsheet cell
+    value: (l, ctx) => [...(l.callLogs || [])].reverse().map(log => describeCall(log, ctx)).join('\n'),
+    json: (l, ctx) => (l.callLogs || []).map(log => callRecord(log, ctx)),
+  },
+];
+
+/** Same columns as the CSV export had before fields became selectable. */
+export const DEFAULT_EXPORT_FIELD_IDS = [
+  'name', 'leadScore', 'category', 'address', 'website', 'phone', 'email', 'emailStatus',
+  'ceo', 'companyDescription', 'status', 'lastCallOutcome', 'appointmentDate', 'sourceUrl',
+];
+
+const selectFields = (fieldIds: string[]) =>
+  EXPORT_FIELDS.filter(f => fieldIds.includes(f.id));
+
+const toRows = (leads: Lead[], fields: ExportFieldDefinition[], context: ExportContext): ExportValue[][] => [
+  fields.map(f => f.label),
+  ...leads.map(lead => fields.map(f => f.value(lead, context))),
+];
+
+const toJson = (leads: Lead[], fields: ExportFieldDefinition[], context: ExportContext) =>
+  JSON.stringify(leads.map(lead => Object.fromEntries(
+    fields.map(f => [f.id, f.json ? f.json(lead, context) : f.value(lead, context) ?? null])
+  )), null, 2);
+
+const escapeVCard = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Fields with a vCard property of their own; everything else selected goes into NOTE
+const VCARD_PROPERTY_FIELDS = ['name', 'ceo', 'phone', 'email', 'website', 'address'];
+
+const toVCard = (lead: Lead, fields: ExportFieldDefinition[], context: ExportContext): string => {
+  const has = (id: string) => fields.some(f => f.id === id);
+  const person = has('ceo') ? lead.ceo : null;
+  const [first, ...rest] = (person || '').trim().split(/\s+/);
+
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${escapeVCard(person || lead.name)}`,
+    person ? `N:${escapeVCard(rest.join(' '))};${escapeVCard(first)};;;` : 'N:;;;;',
+    `ORG:${escapeVCard(lead.name)}`,
+  ];
+  if (has('phone') && lead.phone) lines.push(`TEL;TYPE=WORK,VOICE:${escapeVCard(lead.phone)}`);
+  if (has('email') && lead.email) lines.push(`EMAIL;TYPE=INTERNET,WORK:${escapeVCard(lead.email)}`);
+  if (has('website') && lead.website) lines.push(`URL:${escapeVCard(lead.website)}`);
+  if (has('address') && lead.address) lines.push(`ADR;TYPE=WORK:;;${escapeVCard(lead.address)};;;;`);
+
+  const note = fields
+    .filter(f => !VCARD_PROPERTY_FIELDS.includes(f.id))
+    .map(f => {
+      const value = f.value(lead, context);
+      if (value === null || value === undefined || value === '') return null;
+      return String(value).includes('\n') ? `${f.label}:\n${value}` : `${f.label}: ${value}`;
+    })
+    .filter(Boolean)
+    .join('\n');
+  if (note) lines.push(`NOTE:${escapeVCard(note)}`);
+
+  lines.push('END:VCARD');
+  return lines.map(foldLine).join('\r\n');
+};
+
+/**
+ * Serializes leads with the chosen fields, in the order of EXPORT_FIELDS.
+ * Spreadsheet formats get one column per field; JSON keeps call history and
+ * managing directors as arrays; vCards map contact fields to properties.
+ */
+export const buildLeadExport = (leads: Lead[], fieldIds: string[], format: ExportFormat, context: ExportContext): Blob => {
+  const fields = selectFields(fieldIds);
+  const { mimeType } = EXPORT_FORMATS.find(f => f.id === format)!;
+
+  switch (format) {
+    case 'csv':
+      // The BOM makes Excel open the file as UTF-8
+      return new Blob(['\uFEFF' + toCsv(toRows(leads, fields, context))], { type: mimeType });
+    case 'xlsx':
+      return buildXlsx(toRows(leads, fields, context), 'Leads');
+    case 'json':
+      return new Blob([toJson(leads, fields, context)], { type: mimeType });
+    case 'vcard':
+      return new Blob([leads.map(lead => toVCard(lead, fields, context)).join('\r\n') + '\r\n'], { type: mimeType });
+  }
+};
+
+export const exportFileName = (baseName: string, format: ExportFormat) => {
+  const { extension } = EXPORT_FORMATS.find(f => f.id === format)!;
+  return `${baseName.replace(/[^\w-]+/g, '_')}_leads.${extension}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
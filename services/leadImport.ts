@@ -0,0 +1,225 @@
+import { ContactList, Lead } from "../types";
+import { parseCsv } from "./csv";
+import { normalizeCompanyName, toE164, websiteDomain } from "./leadDedup";
+import { readXlsxRows } from "./xlsxReader";
+
+/** Uploaded file as a header row plus data rows, whatever format it came in. */
+export interface ImportTable {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export type ImportField = 'name' | 'ceo' | 'phone' | 'email' | 'website' | 'address' | 'category' | 'notes' | 'rating' | 'reviewCount';
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required?: boolean;
+  aliases: string[]; // Lowercase column names (English and German) recognised automatically
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'name', label: 'Company Name', required: true, aliases: ['name', 'company', 'company name', 'organization', 'organisation', 'business', 'firma', 'firmenname', 'unternehmen'] },
+  { field: 'ceo', label: 'CEO / Decision Maker', aliases: ['ceo', 'contact', 'contact person', 'decision maker', 'owner', 'full name', 'ansprechpartner', 'geschäftsführer', 'inhaber'] },
+  { field: 'phone', label: 'Phone', aliases: ['phone', 'telephone', 'tel', 'phone number', 'mobile', 'telefon', 'telefonnummer'] },
+  { field: 'email', label: 'Email', aliases: ['email', 'e-mail', 'mail', 'email address', 'e-mail-adresse'] },
+  { field: 'website', label: 'Website', aliases: ['website', 'url', 'web', 'homepage', 'webseite', 'internet'] },
+  { field: 'address', label: 'Address', aliases: ['address', 'street', 'adresse', 'anschrift', 'straße'] },
+  { field: 'category', label: 'Industry / Category', aliases: ['category', 'industry', 'branche', 'kategorie', 'sector'] },
+  { field: 'notes', label: 'Notes', aliases: ['notes', 'note', 'comment', 'comments', 'notizen', 'bemerkung', 'kommentar'] },
+  { field: 'rating', label: 'Rating', aliases: ['rating', 'stars', 'bewertung'] },
+  { field: 'reviewCount', label: 'Review Count', aliases: ['reviews', 'review count', 'reviewcount', 'bewertungen'] },
+];
+
+/** Lead field per column of the table; null leaves the column out. */
+export type ColumnMapping = (ImportField | null)[];
+
+export interface ImportDuplicate {
+  listName?: string; // Set when the lead is already in a contact list
+  rowNumber?: number; // Set when an earlier row of the same file has the lead
+  leadName: string;
+  matchedOn: 'phone' | 'email' | 'website' | 'name';
+}
+
+export interface ImportRow {
+  rowNumber: number; // As shown in a spreadsheet, the header being row 1
+  lead: Partial<Lead>;
+  errors: string[];
+  duplicate?: ImportDuplicate;
+}
+
+const VCARD_HEADERS = ['Company', 'Contact', 'Title', 'Phone', 'Email', 'Website', 'Address', 'Note'];
+
+const unescapeVCard = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+
+/**
+ * Turns vCard 2.1 to 4.0 contacts into table rows with fixed columns.
+ * Only the first phone number, email and address of each card are kept.
+ */
+export const parseVCard = (text: string): string[][] => {
+  // Folded lines continue with a leading space or tab
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const rows: string[][] = [];
+  let card: Record<string, string> | null = null;
+
+  lines.forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon < 0) return;
+    // "item1.TEL;TYPE=work" -> "TEL"
+    const property = line.slice(0, colon).split(';')[0].replace(/^[^.]*\./, '').toUpperCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (property === 'BEGIN' && value.toUpperCase() === 'VCARD') {
+      card = {};
+      return;
+    }
+    if (!card) return;
+    if (property === 'END') {
+      const fullName = card.FN || (card.N || '').split(';').slice(0, 2).reverse().join(' ').trim();
+      const company = (card.ORG || '').split(';')[0];
+      rows.push([
+        company || fullName,
+        company ? fullName : '',
+        card.TITLE || '',
+        card.TEL || '',
+        card.EMAIL || '',
+        card.URL || '',
+        (card.ADR || '').split(';').map(part => part.trim()).filter(Boolean).join(', '),
+        card.NOTE || '',
+      ].map(unescapeVCard));
+      card = null;
+      return;
+    }
+    if (!(property in card)) card[property] = value.replace(/^tel:/i, '');
+  });
+  return rows;
+};
+
+const fileExtension = (fileName: string) => (fileName.split('.').pop() || '').toLowerCase();
+
+/**
+ * Reads a CSV, XLSX or vCard file into a table.
+ * The first row of spreadsheets is taken as the header row.
+ */
+export const readImportFile = async (file: File): Promise<ImportTable> => {
+  const extension = fileExtension(file.name);
+  let headers: string[];
+  let rows: string[][];
+
+  if (extension === 'vcf' || extension === 'vcard') {
+    headers = VCARD_HEADERS;
+    rows = parseVCard(await file.text());
+  } else {
+    let table: string[][];
+    if (extension === 'xlsx') table = await readXlsxRows(await file.arrayBuffer());
+    else if (['csv', 'tsv', 'txt'].includes(extension)) table = parseCsv(await file.text(), extension === 'tsv' ? '\t' : undefined);
+    else throw new Error('Unsupported file type. Please upload a .csv, .xlsx or .vcf file.');
+
+    const [headerRow = [], ...dataRows] = table;
+    const width = Math.max(headerRow.length, ...dataRows.map(r => r.length));
+    headers = Array.from({ length: width }, (_, i) => (headerRow[i] || '').trim() || `Column ${i + 1}`);
+    rows = dataRows.filter(r => r.some(cell => (cell || '').trim()));
+  }
+
+  if (rows.length === 0) throw new Error('The file contains no contacts.');
+  return { fileName: file.name, headers, rows };
+};
+
+/** Maps each column to the lead field its header names, each field at most once. */
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const used = new Set<ImportField>();
+  return headers.map(header => {
+    const normalized = header.trim().toLowerCase();
+    const match = IMPORT_FIELDS.find(def => !used.has(def.field) && def.aliases.includes(normalized));
+    if (!match) return null;
+    used.add(match.field);
+    return match.field;
+  });
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const emailKey = (email?: string | null) => (email || '').trim().toLowerCase();
+
+const matchKeys = (lead: Partial<Lead>): [ImportDuplicate['matchedOn'], string][] => ([
+  ['phone', toE164(lead.phone)],
+  ['email', emailKey(lead.email)],
+  ['website', websiteDomain(lead.website)],
+  ['name', normalizeCompanyName(lead.name)],
+] as [ImportDuplicate['matchedOn'], string][]).filter(([, key]) => !!key);
+
+const toLead = (row: string[], mapping: ColumnMapping): { lead: Partial<Lead>; errors: string[] } => {
+  const values: Partial<Record<ImportField, string>> = {};
+  mapping.forEach((field, column) => {
+    const value = (row[column] || '').trim();
+    if (field && value) values[field] = values[field] ? `${values[field]} ${value}` : value;
+  });
+
+  const errors: string[] = [];
+  if (!values.name) errors.push('Company name is missing');
+  if (values.email && !EMAIL_PATTERN.test(values.email)) errors.push(`Invalid email "${values.email}"`);
+  if (values.phone && values.phone.replace(/\D/g, '').length < 5) errors.push(`Invalid phone number "${values.phone}"`);
+  if (values.website && (/\s/.test(values.website) || !websiteDomain(values.website).includes('.'))) {
+    errors.push(`Invalid website "${values.website}"`);
+  }
+
+  let rating: number | undefined;
+  if (values.rating) {
+    rating = Number(values.rating.replace(',', '.'));
+    if (isNaN(rating) || rating < 0 || rating > 5) errors.push(`Rating "${values.rating}" is not between 0 and 5`);
+  }
+  let reviewCount: number | undefined;
+  if (values.reviewCount) {
+    reviewCount = parseInt(values.reviewCount.replace(/[.,\s]/g, ''), 10);
+    if (isNaN(reviewCount)) errors.push(`Review count "${values.reviewCount}" is not a number`);
+  }
+
+  return {
+    lead: {
+      name: values.name,
+      ceo: values.ceo || null,
+      phone: values.phone || null,
+      email: values.email || null,
+      website: values.website || null,
+      address: values.address || '',
+      category: values.category,
+      notes: values.notes,
+      rating: rating !== undefined && !isNaN(rating) ? rating : undefined,
+      reviewCount: reviewCount !== undefined && !isNaN(reviewCount) ? reviewCount : undefined,
+    },
+    errors,
+  };
+};
+
+/**
+ * Converts the table into leads, validating each row and flagging duplicates.
+ * A row is a duplicate when its phone number, email, website domain or company name
+ * (ignoring legal forms such as GmbH) matches a lead in any contact list or an earlier row.
+ */
+export const buildImportRows = (table: ImportTable, mapping: ColumnMapping, contactLists: ContactList[]): ImportRow[] => {
+  const known = new Map<string, Omit<ImportDuplicate, 'matchedOn'>>();
+  const remember = (lead: Partial<Lead>, origin: Omit<ImportDuplicate, 'matchedOn'>) =>
+    matchKeys(lead).forEach(([kind, key]) => {
+      if (!known.has(`${kind}:${key}`)) known.set(`${kind}:${key}`, origin);
+    });
+
+  contactLists.forEach(list => list.leads.forEach(lead => remember(lead, { listName: list.name, leadName: lead.name })));
+
+  return table.rows.map((row, index) => {
+    const { lead, errors } = toLead(row, mapping);
+    const rowNumber = index + 2;
+
+    let duplicate: ImportDuplicate | undefined;
+    for (const [kind, key] of matchKeys(lead)) {
+      const origin = known.get(`${kind}:${key}`);
+      if (origin) {
+        duplicate = { ...origin, matchedOn: kind };
+        break;
+      }
+    }
+    if (errors.length === 0) remember(lead, { rowNumber, leadName: lead.name || '' });
+
+    return { rowNumber, lead, errors, duplicate };
+  });
+};
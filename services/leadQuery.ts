@@ -0,0 +1,333 @@
+import { CallOutcome, ContactList, DealStage, Lead, Project, WorkspaceMember } from "../types";
+import { LeadSource } from "./cadences";
+import { addDays, startOfDay } from "./callMetrics";
+import { resolveOutcome } from "./outcomes";
+import { DEAL_STAGE_LABELS } from "./pipeline";
+
+/** A lead together with the project or list it was found in. */
+export interface LeadSearchEntry {
+  lead: Lead;
+  source: LeadSource;
+  stage?: DealStage; // Deal stage, or the stage of the contact list for leads not in the pipeline
+}
+
+export interface LeadQueryContext {
+  outcomes: CallOutcome[];
+  members: WorkspaceMember[];
+  currentUserId?: string;
+  now?: Date;
+}
+
+type Comparison = '=' | '>' | '>=' | '<' | '<=';
+
+interface QueryTerm {
+  field?: string; // Unset for free text
+  values: string[]; // Alternatives, from "status:New,Reviewed"
+  comparison: Comparison;
+  negated: boolean;
+}
+
+export interface LeadQuery {
+  terms: QueryTerm[];
+  errors: string[];
+}
+
+type FieldKind = 'text' | 'exact' | 'number' | 'date' | 'has';
+
+interface QueryField {
+  name: string;
+  aliases?: string[];
+  kind: FieldKind;
+  description: string;
+  example: string;
+}
+
+/** Field names the query language understands, for the help shown in the search palette. */
+export const QUERY_FIELDS: QueryField[] = [
+  { name: 'status', kind: 'exact', description: 'Lead status', example: 'status:Contacted' },
+  { name: 'score', kind: 'number', description: 'Lead score (0-100)', example: 'score:>70' },
+  { name: 'legalForm', kind: 'text', description: 'Legal form from the register', example: 'legalForm:GmbH' },
+  { name: 'outcome', kind: 'text', description: 'Outcome of the last call', example: 'outcome:"No Answer"' },
+  { name: 'owner', kind: 'text', description: 'Assigned member, "me" or "none"', example: 'owner:me' },
+  { name: 'calls', kind: 'number', description: 'Number of logged calls', example: 'calls:0' },
+  { name: 'lastcall', kind: 'date', description: 'Date of the last call (YYYY-MM-DD, today, -7d)', example: 'lastcall:<-14d' },
+  { name: 'appointment', kind: 'date', description: 'Appointment date', example: 'appointment:>today' },
+  { name: 'has', kind: 'has', description: 'email, phone, website, ceo, register, appointment, callback, calls, crm', example: 'has:email' },
+  { name: 'name', kind: 'text', description: 'Company name', example: 'name:bau' },
+  { name: 'category', kind: 'text', description: 'Industry or category', example: 'category:dentist' },
+  { name: 'address', aliases: ['city'], kind: 'text', description: 'Address', example: 'city:Berlin' },
+  { name: 'ceo', kind: 'text', description: 'Decision maker', example: 'ceo:Müller' },
+  { name: 'email', kind: 'text', description: 'Email address', example: 'email:gmail.com' },
+  { name: 'phone', kind: 'text', description: 'Phone number', example: 'phone:030' },
+  { name: 'website', kind: 'text', description: 'Website', example: 'website:.de' },
+  { name: 'notes', kind: 'text', description: 'Lead and call notes', example: 'notes:budget' },
+  { name: 'register', kind: 'text', description: 'Register number', example: 'register:HRB' },
+  { name: 'court', kind: 'text', description: 'Register court', example: 'court:Charlottenburg' },
+  { name: 'director', kind: 'text', description: 'Managing director from the register', example: 'director:Schmidt' },
+  { name: 'revenue', kind: 'text', description: 'Latest revenue from the register', example: 'revenue:Mio' },
+  { name: 'confidence', kind: 'exact', description: 'Data confidence', example: 'confidence:High' },
+  { name: 'rating', kind: 'number', description: 'Review rating', example: 'rating:>=4.5' },
+  { name: 'reviews', kind: 'number', description: 'Number of reviews', example: 'reviews:>20' },
+  { name: 'distance', kind: 'number', description: 'Distance from the search center in km', example: 'distance:<10' },
+  { name: 'source', aliases: ['project', 'list'], kind: 'text', description: 'Project or list name', example: 'list:"Hot Leads"' },
+  { name: 'stage', kind: 'exact', description: "Deal stage (or the list's stage)", example: 'stage:Won' },
+];
+
+const findField = (name: string) => {
+  const lower = name.toLowerCase();
+  return QUERY_FIELDS.find(f => f.name.toLowerCase() === lower || f.aliases?.includes(lower));
+};
+
+// Splits on whitespace, keeping "quoted phrases" (also after a colon) together
+const TOKEN_PATTERN = /(-?)(?:([\p{L}_]+):)?(?:"([^"]*)"?|(\S+))/gu;
+const COMPARISON_PATTERN = /^(>=|<=|>|<|=)/;
+
+/**
+ * Parses a search such as `status:Contacted score:>70 legalForm:GmbH "cold call"`.
+ * All terms must match; a leading "-" negates a term and commas separate alternatives.
+ * Words with an unknown field name are searched as free text.
+ */
+export const parseLeadQuery = (text: string): LeadQuery => {
+  const terms: QueryTerm[] = [];
+  const errors: string[] = [];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const [token, minus, fieldName, quoted, bare] = match;
+    let value = quoted ?? bare ?? '';
+    const field = fieldName ? findField(fieldName) : undefined;
+
+    if (fieldName && !field) {
+      terms.push({ values: [token.replace(/^-/, '').replace(/"/g, '')], comparison: '=', negated: !!minus });
+      continue;
+    }
+    if (!field) {
+      if (value) terms.push({ values: [value], comparison: '=', negated: !!minus });
+      continue;
+    }
+
+    let comparison: Comparison = '=';
+    const comparisonMatch = quoted === undefined ? value.match(COMPARISON_PATTERN) : null;
+    if (comparisonMatch) {
+      comparison = comparisonMatch[1] as Comparison;
+      value = value.slice(comparisonMatch[1].length);
+    }
+    if (!value) {
+      errors.push(`"${token}" needs a value`);
+      continue;
+    }
+    if (comparison !== '=' && field.kind !== 'number' && field.kind !== 'date') {
+      errors.push(`${field.name} can't be compared with ${comparison}`);
+      continue;
+    }
+    const values = quoted !== undefined ? [value] : value.split(',').filter(Boolean);
+    if (field.kind === 'number' && values.some(v => isNaN(Number(v.replace(',', '.'))))) {
+      errors.push(`${field.name} needs a number, not "${value}"`);
+      continue;
+    }
+    if (field.kind === 'date' && values.some(v => !parseDateValue(v, new Date()))) {
+      errors.push(`${field.name} needs a date like 2025-03-31, today or -7d, not "${value}"`);
+      continue;
+    }
+    terms.push({ field: field.name, values, comparison, negated: !!minus });
+  }
+
+  return { terms, errors };
+};
+
+export const isEmptyQuery = (query: LeadQuery) => query.terms.length === 0;
+
+// YYYY-MM-DD, "today", or days relative to today ("-7d", "+3d")
+const parseDateValue = (value: string, now: Date): Date | null => {
+  const lower = value.toLowerCase();
+  if (lower === 'today') return startOfDay(now);
+  const relative = lower.match(/^([+-]?\d+)d$/);
+  if (relative) return addDays(startOfDay(now), Number(relative[1]));
+  if (!/^\d{4}-\d{2}(-\d{2})?$/.test(value)) return null;
+  const date = new Date(`${value.length === 7 ? `${value}-01` : value}T00:00:00`);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const compare = (actual: number, expected: number, comparison: Comparison) => {
+  switch (comparison) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    default: return actual === expected;
+  }
+};
+
+const includes = (haystack: string | null | undefined, needle: string) =>
+  !!haystack && haystack.toLowerCase().includes(needle.toLowerCase());
+
+const callNotes = (lead: Lead) =>
+  (lead.callLogs || []).flatMap(log => [log.notes, log.analysis?.userNotes]);
+
+/** Everything free text is matched against, with a label for showing where it matched. */
+const searchableTexts = (entry: LeadSearchEntry, context: LeadQueryContext): [string, string | null | undefined][] => {
+  const { lead } = entry;
+  const register = lead.commercialData;
+  return [
+    ['Company', lead.name],
+    ['Category', lead.category],
+    ['Address', lead.address],
+    ['Email', lead.email],
+    ['Phone', lead.phone],
+    ['Website', lead.website],
+    ['CEO', lead.ceo],
+    ['Description', lead.companyDescription],
+    ['Notes', lead.notes],
+    ...callNotes(lead).map((note): [string, string | undefined] => ['Call note', note]),
+    ...(lead.callLogs || []).flatMap(log => [
+      ['Call', resolveOutcome(log, context.outcomes).label] as [string, string],
+      ...(log.analysis?.keyTakeaways || []).map((t): [string, string] => ['Call takeaway', t]),
+      ['Transcript', log.analysis?.transcript] as [string, string | undefined],
+    ]),
+    ['Register', register?.registerId],
+    ['Court', register?.court],
+    ['Legal form', register?.legalForm],
+    ['Revenue', register?.latestRevenue],
+    ...(register?.managingDirectors || []).map((d): [string, string] => ['Managing director', d]),
+    [entry.source.type === 'project' ? 'Project' : 'List', entry.source.name],
+  ];
+};
+
+const lastCall = (lead: Lead) => lead.callLogs?.[0];
+
+const matchesHas = (entry: LeadSearchEntry, value: string) => {
+  const { lead } = entry;
+  switch (value.toLowerCase()) {
+    case 'email': return !!lead.email;
+    case 'phone': return !!lead.phone;
+    case 'website': return !!lead.website;
+    case 'ceo': return !!lead.ceo;
+    case 'register': return !!lead.commercialData?.registerId;
+    case 'appointment': return !!lead.appointmentDate;
+    case 'callback': return !!lead.callbackAt;
+    case 'calls': return (lead.callLogs?.length || 0) > 0;
+    case 'crm': return !!lead.crm;
+    case 'notes': return !!lead.notes?.trim() || callNotes(lead).some(Boolean);
+    default: return false;
+  }
+};
+
+const fieldNumber = (entry: LeadSearchEntry, field: string): number | undefined => {
+  const { lead } = entry;
+  switch (field) {
+    case 'score': return lead.leadScore;
+    case 'calls': return lead.callLogs?.length || 0;
+    case 'rating': return lead.rating;
+    case 'reviews': return lead.reviewCount;
+    case 'distance': return lead.distanceKm;
+    default: return undefined;
+  }
+};
+
+const fieldDate = (entry: LeadSearchEntry, field: string): string | undefined =>
+  field === 'lastcall' ? lastCall(entry.lead)?.timestamp : entry.lead.appointmentDate;
+
+const fieldTexts = (entry: LeadSearchEntry, field: string, context: LeadQueryContext): (string | null | undefined)[] => {
+  const { lead } = entry;
+  const register = lead.commercialData;
+  switch (field) {
+    case 'status': return [lead.status];
+    case 'confidence': return [lead.confidence];
+    case 'stage': return entry.stage ? [entry.stage, DEAL_STAGE_LABELS[entry.stage]] : [];
+    case 'legalForm': return [register?.legalForm];
+    case 'outcome': {
+      const log = lastCall(lead);
+      return log ? [resolveOutcome(log, context.outcomes).label, log.outcomeId] : [];
+    }
+    case 'name': return [lead.name];
+    case 'category': return [lead.category];
+    case 'address': return [lead.address];
+    case 'ceo': return [lead.ceo];
+    case 'email': return [lead.email];
+    case 'phone': return [lead.phone];
+    case 'website': return [lead.website];
+    case 'notes': return [lead.notes, ...callNotes(lead)];
+    case 'register': return [register?.registerId];
+    case 'court': return [register?.court];
+    case 'director': return register?.managingDirectors || [];
+    case 'revenue': return [register?.latestRevenue];
+    case 'source': return [entry.source.name];
+    default: return [];
+  }
+};
+
+const matchesOwner = (entry: LeadSearchEntry, value: string, context: LeadQueryContext) => {
+  const ownerId = entry.lead.assignedTo;
+  const lower = value.toLowerCase();
+  if (lower === 'none') return !ownerId;
+  if (lower === 'me') return !!ownerId && ownerId === context.currentUserId;
+  const member = context.members.find(m => m.userId === ownerId);
+  return !!member && (includes(member.displayName, value) || includes(member.username, value));
+};
+
+const matchesTerm = (entry: LeadSearchEntry, term: QueryTerm, context: LeadQueryContext): boolean => {
+  const now = context.now || new Date();
+  return term.values.some(value => {
+    if (!term.field) return searchableTexts(entry, context).some(([, text]) => includes(text, value));
+
+    const field = findField(term.field)!;
+    switch (field.kind) {
+      case 'has':
+        return matchesHas(entry, value);
+      case 'number': {
+        const actual = fieldNumber(entry, field.name);
+        return actual !== undefined && compare(actual, Number(value.replace(',', '.')), term.comparison);
+      }
+      case 'date': {
+        const actual = fieldDate(entry, field.name);
+        const expected = parseDateValue(value, now);
+        if (!actual || !expected) return false;
+        // "=" means the same day; the others compare with the start of that day
+        const day = startOfDay(new Date(actual)).getTime();
+        return compare(day, expected.getTime(), term.comparison);
+      }
+      case 'exact':
+        return fieldTexts(entry, field.name, context).some(text => !!text && text.toLowerCase() === value.toLowerCase());
+      default:
+        if (field.name === 'owner') return matchesOwner(entry, value, context);
+        return fieldTexts(entry, field.name, context).some(text => includes(text, value));
+    }
+  });
+};
+
+export const matchesLeadQuery = (entry: LeadSearchEntry, query: LeadQuery, context: LeadQueryContext): boolean =>
+  query.terms.every(term => matchesTerm(entry, term, context) !== term.negated);
+
+export const collectSearchEntries = (projects: Project[], contactLists: ContactList[]): LeadSearchEntry[] => [
+  ...projects.flatMap(p => p.leads.map(lead => ({ lead, source: { type: 'project' as const, id: p.id, name: p.name }, stage: lead.deal?.stage }))),
+  ...contactLists.flatMap(l => l.leads.map(lead => ({ lead, source: { type: 'list' as const, id: l.id, name: l.name }, stage: lead.deal?.stage ?? l.stage }))),
+];
+
+export interface LeadSearchHit extends LeadSearchEntry {
+  snippet?: { label: string; text: string }; // Where the first free-text word was found, if not in the name
+}
+
+const SNIPPET_RADIUS = 40;
+
+const snippetAround = (text: string, needle: string) => {
+  const index = text.toLowerCase().indexOf(needle.toLowerCase());
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + needle.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * All entries matching the query, name matches first, then by lead score.
+ */
+export const searchLeads = (entries: LeadSearchEntry[], query: LeadQuery, context: LeadQueryContext): LeadSearchHit[] => {
+  const firstWord = query.terms.find(t => !t.field && !t.negated)?.values[0];
+  const hits: LeadSearchHit[] = entries
+    .filter(entry => matchesLeadQuery(entry, query, context))
+    .map(entry => {
+      if (!firstWord || includes(entry.lead.name, firstWord)) return entry;
+      const found = searchableTexts(entry, context).find(([, text]) => includes(text, firstWord));
+      return found ? { ...entry, snippet: { label: found[0], text: snippetAround(found[1]!, firstWord) } } : entry;
+    });
+
+  const nameRank = (hit: LeadSearchHit) => firstWord && includes(hit.lead.name, firstWord) ? 0 : 1;
+  return hits.sort((a, b) => nameRank(a) - nameRank(b) || (b.lead.leadScore || 0) - (a.lead.leadScore || 0));
+};
@@ -0,0 +1,259 @@
+import { CallOutcome, Lead, ScoringOperator, ScoringRule } from "../types";
+import { resolveOutcome, OUTCOME_CATEGORY_LABELS } from "./outcomes";
+
+export type ScoringFieldKind = 'text' | 'number' | 'date';
+export type ScoringFieldGroup = 'Lead' | 'Commercial register' | 'Call history';
+
+export interface ScoringContext {
+  outcomes: CallOutcome[];
+  now?: Date;
+}
+
+type FieldValue = string | number | Date | null | undefined;
+
+export interface ScoringField {
+  id: string;
+  label: string;
+  group: ScoringFieldGroup;
+  kind: ScoringFieldKind;
+  value: (lead: Lead, context: ScoringContext) => FieldValue;
+}
+
+export interface ScoreBreakdownItem {
+  rule: ScoringRule;
+  points: number;
+}
+
+export interface LeadScoreResult {
+  score: number;
+  items: ScoreBreakdownItem[]; // Matching rules, in rule order
+  rawTotal: number; // Sum before clamping to 0-100
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.25 * DAY_MS;
+
+const MULTIPLIERS: [RegExp, number][] = [
+  [/\b(mrd|milliarden?|billion|bn)\b/, 1e9],
+  [/\b(mio|millionen|million|mn)\b/, 1e6],
+  [/\b(tsd|tausend|thousand)\b|\dk\b/, 1e3],
+];
+
+/**
+ * Reads a money amount as written in register data, e.g. "25.000 EUR", "1,2 Mio. €" or "$3.5 million".
+ * Both German and English separators are understood.
+ */
+export const parseAmount = (text: string | undefined): number | null => {
+  if (!text) return null;
+  const lower = text.toLowerCase();
+  const match = lower.match(/\d[\d.,']*/);
+  if (!match) return null;
+
+  let digits = match[0].replace(/'/g, '').replace(/[.,]$/, '');
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+  if (lastDot >= 0 && lastComma >= 0) {
+    // The separator written last is the decimal one
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const thousands = decimal === '.' ? ',' : '.';
+    digits = digits.split(thousands).join('').replace(decimal, '.');
+  } else {
+    const separator = lastDot >= 0 ? '.' : lastComma >= 0 ? ',' : null;
+    if (separator) {
+      const parts = digits.split(separator);
+      // "25.000" and "1,500,000" group thousands; "1,2" and "3.5" are decimals
+      const isGrouping = parts.slice(1).every(p => p.length === 3) && (parts.length > 2 || parts[0] !== '0');
+      digits = isGrouping ? parts.join('') : parts.join('.');
+    }
+  }
+
+  const value = parseFloat(digits);
+  if (isNaN(value)) return null;
+  const multiplier = MULTIPLIERS.find(([pattern]) => pattern.test(lower))?.[1] || 1;
+  return value * multiplier;
+};
+
+/** Reads a register date: ISO, "DD.MM.YYYY", or just the year. */
+export const parseRegisterDate = (text: string | undefined): Date | null => {
+  if (!text) return null;
+  const iso = text.match(/(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return new Date(+iso[1], +iso[2] - 1, +iso[3]);
+  const german = text.match(/(\d{1,2})\.(\d{1,2})\.(\d{4})/);
+  if (german) return new Date(+german[3], +german[2] - 1, +german[1]);
+  const year = text.match(/\b(1[89]\d{2}|20\d{2})\b/);
+  return year ? new Date(+year[1], 0, 1) : null;
+};
+
+const lastCall = (lead: Lead) => {
+  const logs = lead.callLogs || [];
+  return logs.length > 0
+    ? logs.reduce((latest, log) => log.timestamp > latest.timestamp ? log : latest)
+    : undefined;
+};
+
+export const SCORING_FIELDS: ScoringField[] = [
+  { id: 'email', label: 'Email', group: 'Lead', kind: 'text', value: l => l.email },
+  { id: 'emailStatus', label: 'Email status', group: 'Lead', kind: 'text', value: l => l.emailStatus },
+  { id: 'website', label: 'Website', group: 'Lead', kind: 'text', value: l => l.website },
+  { id: 'phone', label: 'Phone', group: 'Lead', kind: 'text', value: l => l.phone },
+  { id: 'ceo', label: 'Decision maker', group: 'Lead', kind: 'text', value: l => l.ceo },
+  { id: 'category', label: 'Category', group: 'Lead', kind: 'text', value: l => l.category },
+  { id: 'address', label: 'Address', group: 'Lead', kind: 'text', value: l => l.address },
+  { id: 'description', label: 'Description', group: 'Lead', kind: 'text', value: l => l.companyDescription },
+  { id: 'status', label: 'Status', group: 'Lead', kind: 'text', value: l => l.status },
+  { id: 'confidence', label: 'Data confidence', group: 'Lead', kind: 'text', value: l => l.confidence },
+  // Manually added and imported leads carry 'Manual' instead of a source link
+  { id: 'sourceUrl', label: 'Found by a lead source', group: 'Lead', kind: 'text', value: l => l.sourceUrl && l.sourceUrl !== 'Manual' ? l.sourceUrl : null },
+  { id: 'rating', label: 'Rating', group: 'Lead', kind: 'number', value: l => l.rating },
+  { id: 'reviewCount', label: 'Review count', group: 'Lead', kind: 'number', value: l => l.reviewCount },
+  { id: 'distanceKm', label: 'Distance (km)', group: 'Lead', kind: 'number', value: l => l.distanceKm },
+
+  { id: 'legalForm', label: 'Legal form', group: 'Commercial register', kind: 'text', value: l => l.commercialData?.legalForm },
+  { id: 'registerId', label: 'Register number', group: 'Commercial register', kind: 'text', value: l => l.commercialData?.registerId },
+  { id: 'court', label: 'Register court', group: 'Commercial register', kind: 'text', value: l => l.commercialData?.court },
+  { id: 'shareCapital', label: 'Share capital', group: 'Commercial register', kind: 'number', value: l => parseAmount(l.commercialData?.shareCapital) },
+  { id: 'latestRevenue', label: 'Revenue', group: 'Commercial register', kind: 'number', value: l => parseAmount(l.commercialData?.latestRevenue) },
+  { id: 'foundingDate', label: 'Founding date', group: 'Commercial register', kind: 'date', value: l => parseRegisterDate(l.commercialData?.foundingDate) },
+  { id: 'directorCount', label: 'Managing directors', group: 'Commercial register', kind: 'number', value: l => l.commercialData?.managingDirectors?.length },
+
+  { id: 'callCount', label: 'Calls', group: 'Call history', kind: 'number', value: l => l.callLogs?.length || 0 },
+  {
+    id: 'connectedCalls', label: 'Calls that reached someone', group: 'Call history', kind: 'number',
+    value: (l, ctx) => (l.callLogs || []).filter(log => resolveOutcome(log, ctx.outcomes).isConnect).length,
+  },
+  {
+    id: 'lastOutcome', label: 'Last call outcome', group: 'Call history', kind: 'text',
+    value: (l, ctx) => { const log = lastCall(l); return log && resolveOutcome(log, ctx.outcomes).label; },
+  },
+  {
+    id: 'lastOutcomeCategory', label: 'Last call result type', group: 'Call history', kind: 'text',
+    value: (l, ctx) => { const log = lastCall(l); return log && OUTCOME_CATEGORY_LABELS[resolveOutcome(log, ctx.outcomes).category]; },
+  },
+  {
+    id: 'daysSinceLastCall', label: 'Days since last call', group: 'Call history', kind: 'number',
+    value: (l, ctx) => {
+      const log = lastCall(l);
+      return log && Math.floor(((ctx.now || new Date()).getTime() - new Date(log.timestamp).getTime()) / DAY_MS);
+    },
+  },
+  { id: 'appointmentDate', label: 'Appointment', group: 'Call history', kind: 'date', value: l => l.appointmentDate ? new Date(l.appointmentDate) : null },
+];
+
+export const OPERATORS_BY_KIND: Record<ScoringFieldKind, ScoringOperator[]> = {
+  text: ['isSet', 'isNotSet', 'equals', 'contains'],
+  number: ['isSet', 'isNotSet', 'atLeast', 'atMost'],
+  date: ['isSet', 'isNotSet', 'olderThanYears', 'youngerThanYears'],
+};
+
+export const OPERATOR_LABELS: Record<ScoringOperator, string> = {
+  isSet: 'is set',
+  isNotSet: 'is missing',
+  equals: 'is',
+  contains: 'contains',
+  atLeast: 'is at least',
+  atMost: 'is at most',
+  olderThanYears: 'more than … years ago',
+  youngerThanYears: 'less than … years ago',
+};
+
+export const operatorNeedsValue = (operator: ScoringOperator) => operator !== 'isSet' && operator !== 'isNotSet';
+
+export const findScoringField = (id: string) => SCORING_FIELDS.find(f => f.id === id);
+
+/**
+ * The weights leads were scored with before scoring became configurable.
+ */
+export const DEFAULT_SCORING_RULES: ScoringRule[] = [
+  { id: 'default-email', field: 'email', operator: 'isSet', points: 25, enabled: true },
+  { id: 'default-website', field: 'website', operator: 'isSet', points: 25, enabled: true },
+  { id: 'default-ceo', field: 'ceo', operator: 'isSet', points: 15, enabled: true },
+  { id: 'default-phone', field: 'phone', operator: 'isSet', points: 15, enabled: true },
+  { id: 'default-source', field: 'sourceUrl', operator: 'isSet', points: 10, enabled: true },
+  { id: 'default-rating', field: 'rating', operator: 'atLeast', value: '4', points: 10, enabled: true },
+];
+
+/** Human-readable condition, e.g. "Rating is at least 4" or "Founding date more than 10 years ago". */
+export const describeRule = (rule: ScoringRule): string => {
+  const field = findScoringField(rule.field);
+  const fieldLabel = field?.label || rule.field;
+  if (!operatorNeedsValue(rule.operator)) return `${fieldLabel} ${OPERATOR_LABELS[rule.operator]}`;
+  if (rule.operator === 'olderThanYears') return `${fieldLabel} more than ${rule.value} years ago`;
+  if (rule.operator === 'youngerThanYears') return `${fieldLabel} less than ${rule.value} years ago`;
+  return `${fieldLabel} ${OPERATOR_LABELS[rule.operator]} ${rule.value}`;
+};
+
+const alternatives = (value: string | undefined) =>
+  (value || '').split(',').map(v => v.trim().toLowerCase()).filter(Boolean);
+
+const isBlank = (value: FieldValue) =>
+  value === undefined || value === null || (typeof value === 'string' && !value.trim());
+
+/**
+ * Whether a lead meets a rule's condition. Rules on unknown fields, and comparisons with a value
+ * that doesn't parse, never match.
+ */
+export const matchesRule = (lead: Lead, rule: ScoringRule, context: ScoringContext): boolean => {
+  const field = findScoringField(rule.field);
+  if (!field) return false;
+  const value = field.value(lead, context);
+
+  switch (rule.operator) {
+    case 'isSet': return !isBlank(value);
+    case 'isNotSet': return isBlank(value);
+    case 'equals':
+    case 'contains': {
+      if (isBlank(value)) return false;
+      const text = String(value).toLowerCase();
+      const options = alternatives(rule.value);
+      return options.some(option => rule.operator === 'equals' ? text === option : text.includes(option));
+    }
+    case 'atLeast':
+    case 'atMost': {
+      const threshold = parseFloat((rule.value || '').replace(',', '.'));
+      if (typeof value !== 'number' || isNaN(threshold)) return false;
+      return rule.operator === 'atLeast' ? value >= threshold : value <= threshold;
+    }
+    case 'olderThanYears':
+    case 'youngerThanYears': {
+      const years = parseFloat((rule.value || '').replace(',', '.'));
+      if (!(value instanceof Date) || isNaN(value.getTime()) || isNaN(years)) return false;
+      const age = ((context.now || new Date()).getTime() - value.getTime()) / YEAR_MS;
+      return rule.operator === 'olderThanYears' ? age > years : age < years;
+    }
+  }
+};
+
+export const scoreLead = (lead: Lead, rules: ScoringRule[], context: ScoringContext): LeadScoreResult => {
+  const items = rules
+    .filter(rule => rule.enabled && matchesRule(lead, rule, context))
+    .map(rule => ({ rule, points: rule.points }));
+  const rawTotal = items.reduce((sum, item) => sum + item.points, 0);
+  return { score: Math.max(0, Math.min(100, Math.round(rawTotal))), items, rawTotal };
+};
+
+/**
+ * Writes current scores into `leadScore`. Returns the same array when no score changed, so it can
+ * run from an effect on every lead change without re-rendering in a loop.
+ */
+export const rescoreLeads = (leads: Lead[], rules: ScoringRule[], context: ScoringContext): Lead[] => {
+  let changed = false;
+  const next = leads.map(lead => {
+    const score = scoreLead(lead, rules, context).score;
+    if (lead.leadScore === score) return lead;
+    changed = true;
+    return { ...lead, leadScore: score };
+  });
+  return changed ? next : leads;
+};
+
+/** `rescoreLeads` over projects or contact lists, keeping unchanged items (and the array) as they are. */
+export const rescoreContainers = <T extends { leads: Lead[] }>(items: T[], rules: ScoringRule[], context: ScoringContext): T[] => {
+  let changed = false;
+  const next = items.map(item => {
+    const leads = rescoreLeads(item.leads, rules, context);
+    if (leads === item.leads) return item;
+    changed = true;
+    return { ...item, leads };
+  });
+  return changed ? next : items;
+};
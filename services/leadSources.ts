@@ -0,0 +1,273 @@
+import { GeoPoint, Lead, LeadSourceFailure } from "../types";
+import { searchBusinesses } from "./geminiService";
+import { boundingBox } from "./geoService";
+import { parseCsv } from "./csv";
+import { isDataFetchError, requestFailedError } from "./responseSchemas";
+
+export interface LeadSourceQuery {
+  industry: string;
+  location: string;
+  limit: number;
+  excludeNames: string[];
+  center?: GeoPoint; // Geocoded location, when available
+  radiusKm?: number;
+}
+
+/**
+ * A place leads can be discovered from.
+ * Providers return raw, un-enriched leads; scoring, filtering and enrichment stay in the app.
+ */
+export interface LeadSourceProvider {
+  id: string;
+  label: string;
+  description: string;
+  requiresApiKey: boolean;
+  search: (query: LeadSourceQuery) => Promise<Partial<Lead>[]>;
+}
+
+export interface LeadSourceResult {
+  leads: Partial<Lead>[];
+  failures: LeadSourceFailure[];
+}
+
+export const DEFAULT_LEAD_SOURCES = ['gemini-maps'];
+
+// Subset of a Nominatim jsonv2 search result
+interface NominatimPlace {
+  name?: string;
+  display_name?: string;
+  osm_type?: string;
+  osm_id?: number;
+  lat?: string;
+  lon?: string;
+  extratags?: Record<string, string> | null;
+}
+
+const isExcluded = (name: string | undefined, excludeNames: string[]) => {
+  if (!name) return true;
+  const lower = name.toLowerCase();
+  return excludeNames.some(n => n.toLowerCase() === lower);
+};
+
+/**
+ * Gemini with the Google Maps grounding tool.
+ */
+const geminiMapsProvider: LeadSourceProvider = {
+  id: 'gemini-maps',
+  label: 'Google Maps (Gemini)',
+  description: 'AI-assisted Google Maps search. Best coverage, requires an API key.',
+  requiresApiKey: true,
+  search: (query) => searchBusinesses(query.industry, query.location, query.limit, query.excludeNames, {
+    center: query.center,
+    radiusKm: query.radiusKm,
+  }),
+};
+
+/**
+ * OpenStreetMap via the public Nominatim search API. Free and keyless,
+ * but coverage of phone numbers and websites depends on the local OSM community.
+ */
+const openStreetMapProvider: LeadSourceProvider = {
+  id: 'openstreetmap',
+  label: 'OpenStreetMap',
+  description: 'Free OSM place search. No API key, sparser contact data.',
+  requiresApiKey: false,
+  search: async (query) => {
+    const params = new URLSearchParams({
+      q: `${query.industry} in ${query.location}`,
+      format: 'jsonv2',
+      addressdetails: '1',
+      extratags: '1',
+      // Nominatim caps results at 40 per request
+      limit: String(Math.min(40, query.limit + query.excludeNames.length)),
+    });
+    if (query.center && query.radiusKm) {
+      // Restrict to the search area instead of relying on the place name in the query
+      params.set('q', query.industry);
+      params.set('viewbox', boundingBox(query.center, query.radiusKm).join(','));
+      params.set('bounded', '1');
+    }
+
+    const response = await fetch(`https://nominatim.openstreetmap.org/search?${params.toString()}`, {
+      headers: { 'Accept': 'application/json' },
+    });
+    if (!response.ok) {
+      throw new Error(`OpenStreetMap search failed with status ${response.status}`);
+    }
+
+    const results: NominatimPlace[] = await response.json();
+    return results
+      .map((item): Partial<Lead> => {
+        const tags = item.extratags || {};
+        return {
+          name: item.name || String(item.display_name || '').split(',')[0],
+          address: item.display_name || '',
+          website: tags.website || tags['contact:website'] || null,
+          phone: tags.phone || tags['contact:phone'] || null,
+          sourceUrl: item.osm_type && item.osm_id ? `https://www.openstreetmap.org/${item.osm_type}/${item.osm_id}` : null,
+          latitude: item.lat !== undefined ? Number(item.lat) : undefined,
+          longitude: item.lon !== undefined ? Number(item.lon) : undefined,
+        };
+      })
+      .filter(lead => !isExcluded(lead.name, query.excludeNames))
+      .slice(0, query.limit);
+  },
+};
+
+const MOCK_PREFIXES = ['Alpha', 'Nordlicht', 'Blue Harbor', 'Sonnenberg', 'Keystone', 'Lindenhof', 'Brightside', 'Rheinblick', 'Summit', 'Altstadt', 'Greenfield', 'Kastanie'];
+const MOCK_SUFFIXES = ['GmbH', 'UG', '& Partner', 'AG', 'KG', 'Studio', 'Group'];
+const MOCK_STREETS = ['Hauptstraße', 'Bahnhofstraße', 'Schillerstraße', 'Gartenweg', 'Marktplatz', 'Lindenallee'];
+
+// Small deterministic PRNG so the same query always yields the same mock leads
+const seededRandom = (seedText: string) => {
+  let seed = 0;
+  for (let i = 0; i < seedText.length; i++) seed = (seed * 31 + seedText.charCodeAt(i)) >>> 0;
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 4294967296;
+  };
+};
+
+/**
+ * Offline provider that fabricates plausible leads. Useful for demos and for testing
+ * the search pipeline without network access or API quota.
+ */
+const mockProvider: LeadSourceProvider = {
+  id: 'mock',
+  label: 'Local Mock Data',
+  description: 'Generated sample businesses for offline testing.',
+  requiresApiKey: false,
+  search: async (query) => {
+    const random = seededRandom(`${query.industry}|${query.location}`.toLowerCase());
+    const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+    const leads: Partial<Lead>[] = [];
+    const seen = new Set(query.excludeNames.map(n => n.toLowerCase()));
+
+    for (let attempt = 0; leads.length < query.limit && attempt < query.limit * 10; attempt++) {
+      const name = `${pick(MOCK_PREFIXES)} ${query.industry} ${pick(MOCK_SUFFIXES)}`;
+      if (seen.has(name.toLowerCase())) continue;
+      seen.add(name.toLowerCase());
+
+      const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
+      // Scatter mock businesses around the search center (roughly within the radius)
+      const offset = query.center && query.radiusKm ? (query.radiusKm / 111) * 0.7 : 0;
+      leads.push({
+        name,
+        address: `${pick(MOCK_STREETS)} ${Math.floor(random() * 120) + 1}, ${query.location}`,
+        website: random() > 0.25 ? `https://example.com/${slug}` : null,
+        phone: random() > 0.1 ? `+49 ${Math.floor(random() * 900) + 100} ${Math.floor(random() * 9000000) + 1000000}` : null,
+        rating: Math.round((3 + random() * 2) * 10) / 10,
+        reviewCount: Math.floor(random() * 250),
+        sourceUrl: null,
+        latitude: query.center ? query.center.latitude + (random() * 2 - 1) * offset : undefined,
+        longitude: query.center ? query.center.longitude + (random() * 2 - 1) * offset : undefined,
+      });
+    }
+    return leads;
+  },
+};
+
+const providers = new Map<string, LeadSourceProvider>(
+  [geminiMapsProvider, openStreetMapProvider, mockProvider].map(p => [p.id, p])
+);
+
+export const getLeadSourceProviders = (): LeadSourceProvider[] => Array.from(providers.values());
+
+export const getLeadSourceProvider = (id: string): LeadSourceProvider | undefined => providers.get(id);
+
+export const registerLeadSource = (provider: LeadSourceProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const sourcesRequireApiKey = (sourceIds: string[]) =>
+  sourceIds.some(id => providers.get(id)?.requiresApiKey);
+
+const CSV_COLUMN_ALIASES: Record<string, string[]> = {
+  name: ['name', 'company', 'company name', 'firma', 'firmenname', 'business'],
+  address: ['address', 'adresse', 'anschrift', 'street'],
+  website: ['website', 'url', 'web', 'homepage', 'webseite'],
+  phone: ['phone', 'telephone', 'tel', 'telefon', 'phone number'],
+  email: ['email', 'e-mail', 'mail'],
+  rating: ['rating', 'bewertung', 'stars'],
+  reviewCount: ['reviews', 'review count', 'reviewcount', 'bewertungen'],
+};
+
+/**
+ * Registers an uploaded CSV file as a lead source and returns its provider id.
+ * Rows are matched to lead fields by common (English and German) column names.
+ * The data lives in memory only, so a CSV source is gone after a page reload.
+ */
+export const registerCsvLeadSource = (fileName: string, text: string): string => {
+  const [headerRow = [], ...rows] = parseCsv(text);
+  const headers = headerRow.map(h => h.trim().toLowerCase());
+  const columnIndex = (field: string) => headers.findIndex(h => CSV_COLUMN_ALIASES[field].includes(h));
+
+  const cell = (row: string[], field: string) => {
+    const idx = columnIndex(field);
+    const value = idx >= 0 ? (row[idx] || '').trim() : '';
+    return value || null;
+  };
+
+  const leads: Partial<Lead>[] = rows
+    .map(row => ({
+      name: cell(row, 'name') || undefined,
+      address: cell(row, 'address') || '',
+      website: cell(row, 'website'),
+      phone: cell(row, 'phone'),
+      email: cell(row, 'email'),
+      rating: cell(row, 'rating') ? Number(cell(row, 'rating')!.replace(',', '.')) || undefined : undefined,
+      reviewCount: cell(row, 'reviewCount') ? parseInt(cell(row, 'reviewCount')!, 10) || undefined : undefined,
+      sourceUrl: null,
+    }))
+    .filter(lead => !!lead.name);
+
+  const id = `csv:${fileName}`;
+  registerLeadSource({
+    id,
+    label: `CSV: ${fileName}`,
+    description: `${leads.length} rows imported from ${fileName}.`,
+    requiresApiKey: false,
+    search: async (query) => leads
+      .filter(lead => !isExcluded(lead.name, query.excludeNames))
+      .slice(0, query.limit),
+  });
+  return id;
+};
+
+/**
+ * Runs a query against several providers in parallel and merges the results, up to the query's limit.
+ * A failing provider is reported in `failures` and skipped so the others still deliver.
+ * Each lead is tagged with the id of the provider that found it.
+ */
+export const searchLeadSources = async (sourceIds: string[], query: LeadSourceQuery): Promise<LeadSourceResult> => {
+  const failures: LeadSourceFailure[] = [];
+  const selected = sourceIds
+    .map(id => {
+      const provider = providers.get(id);
+      // CSV sources only live until the page is reloaded
+      if (!provider) failures.push({ sourceId: id, label: id, error: requestFailedError('search', new Error(`Lead source "${id}" is not available`)) });
+      return provider;
+    })
+    .filter((p): p is LeadSourceProvider => !!p);
+
+  const results = await Promise.allSettled(selected.map(provider => provider.search(query)));
+
+  const merged: Partial<Lead>[] = [];
+  const seenNames = new Set<string>();
+  results.forEach((result, idx) => {
+    const provider = selected[idx];
+    if (result.status === 'rejected') {
+      console.error(`Lead source "${provider.id}" failed`, result.reason);
+      const error = isDataFetchError(result.reason) ? result.reason : requestFailedError('search', result.reason);
+      failures.push({ sourceId: provider.id, label: provider.label, error });
+      return;
+    }
+    result.value.forEach(lead => {
+      const key = (lead.name || '').toLowerCase();
+      if (!key || seenNames.has(key)) return;
+      seenNames.add(key);
+      merged.push({ ...lead, source: provider.id });
+    });
+  });
+  return { leads: merged.slice(0, query.limit), failures };
+};
@@ -0,0 +1,167 @@
+import { Lead, LeadSourceFailure, LookalikeProfile } from "../types";
+import { searchLeadSources, LeadSourceQuery, LeadSourceResult } from "./leadSources";
+import { haversineKm } from "./geoService";
+import { parseAmount } from "./leadScoring";
+
+export interface SimilarityResult {
+  score: number; // 0-100
+  reasons: string[]; // Traits the candidate shares with the seed
+}
+
+// Common words that say nothing about what a business does
+const STOPWORDS = new Set([
+  'and', 'the', 'for', 'with', 'from', 'that', 'this', 'your', 'their', 'our', 'offers', 'offering', 'provides',
+  'providing', 'services', 'service', 'company', 'business', 'based', 'specializing', 'specialized', 'leading',
+  'small', 'local', 'family', 'owned', 'driven',
+  'und', 'der', 'die', 'das', 'mit', 'für', 'von', 'den', 'dem', 'des', 'ein', 'eine', 'einer', 'sowie', 'bietet',
+  'gmbh', 'mbh', 'ug',
+]);
+
+const LEGAL_FORM_PATTERN = /\b(GmbH & Co\.? KG|gGmbH|GmbH|UG|AG|KG|OHG|GbR|e\.K\.|e\.V\.|Inc\.?|Ltd\.?|LLC)\b/i;
+
+const MAX_KEYWORDS = 8;
+
+const tokenize = (text: string) =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(t => t.length >= 4 && !STOPWORDS.has(t));
+
+/** Legal form from the register, or from the company name ("Müller GmbH"). */
+export const legalFormOf = (lead: Pick<Lead, 'name' | 'commercialData'>): string | undefined =>
+  lead.commercialData?.legalForm || lead.name.match(LEGAL_FORM_PATTERN)?.[1];
+
+/** Town of an address like "Torstraße 1, 10119 Berlin"; falls back to the last address part. */
+export const townOf = (address: string): string => {
+  const withPostalCode = address.match(/\b\d{4,5}\s+([^,\d]+)/);
+  if (withPostalCode) return withPostalCode[1].trim();
+  const parts = address.split(',').map(p => p.trim()).filter(Boolean);
+  return parts[parts.length - 1] || address;
+};
+
+/**
+ * What a lookalike has to resemble: the seed's industry, the words its description uses,
+ * where it is and how big it looks (reviews, register revenue and share capital).
+ */
+export const buildLookalikeProfile = (seed: Lead): LookalikeProfile => {
+  const counts = new Map<string, number>();
+  tokenize(`${seed.category} ${seed.companyDescription || ''}`).forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+  const keywords = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_KEYWORDS)
+    .map(([token]) => token);
+
+  const hasCoordinates = seed.latitude !== undefined && seed.longitude !== undefined;
+  return {
+    category: seed.category,
+    keywords,
+    location: townOf(seed.address),
+    center: hasCoordinates ? { latitude: seed.latitude!, longitude: seed.longitude! } : undefined,
+    legalForm: legalFormOf(seed),
+    reviewCount: seed.reviewCount,
+    rating: seed.rating,
+    revenue: parseAmount(seed.commercialData?.latestRevenue) ?? undefined,
+    shareCapital: parseAmount(seed.commercialData?.shareCapital) ?? undefined,
+  };
+};
+
+/**
+ * Search used without an API key, or when the model suggests none. Description keywords alone
+ * make poor directory searches, so they only feed into the ranking.
+ */
+export const fallbackLookalikeQueries = (profile: LookalikeProfile): string[] => [profile.category];
+
+/**
+ * Runs every lookalike query against the lead sources, one after another so rate limits hold.
+ * Each raw lead gets the query that found it as its category.
+ */
+export const searchLookalikes = async (
+  queries: string[],
+  sourceIds: string[],
+  query: Omit<LeadSourceQuery, 'industry'>
+): Promise<LeadSourceResult> => {
+  const results: Partial<Lead>[] = [];
+  const failures: LeadSourceFailure[] = [];
+  const seenNames = new Set(query.excludeNames.map(n => n.toLowerCase()));
+  for (const industry of queries) {
+    const found = await searchLeadSources(sourceIds, { ...query, industry, excludeNames: Array.from(seenNames) });
+    // The same source failing for several queries is reported once
+    found.failures.forEach(f => { if (!failures.some(known => known.sourceId === f.sourceId)) failures.push(f); });
+    found.leads.forEach(lead => {
+      const key = (lead.name || '').toLowerCase();
+      if (!key || seenNames.has(key)) return;
+      seenNames.add(key);
+      results.push({ ...lead, category: industry });
+    });
+  }
+  return { leads: results, failures };
+};
+
+// 1 when two sizes are equal, 0 when they are two orders of magnitude apart
+const sizeCloseness = (a: number, b: number) =>
+  Math.max(0, 1 - Math.abs(Math.log10(a + 1) - Math.log10(b + 1)) / 2);
+
+const tokenOverlap = (profileTokens: string[], text: string) => {
+  if (profileTokens.length === 0) return 0;
+  const candidateTokens = new Set(tokenize(text));
+  return profileTokens.filter(t => candidateTokens.has(t)).length / profileTokens.length;
+};
+
+/**
+ * How much a lead resembles the seed described by the profile. Only traits known on both
+ * sides count, so a fresh, unenriched lead is judged by what the search returned and gains
+ * precision once enrichment and register lookups fill in the rest.
+ */
+export const scoreSimilarity = (lead: Lead, profile: LookalikeProfile, radiusKm: number): SimilarityResult => {
+  const parts: { weight: number; value: number; reason: string }[] = [];
+
+  const categoryTokens = tokenize(profile.category);
+  parts.push({
+    weight: 30,
+    value: Math.max(tokenOverlap(categoryTokens, `${lead.category} ${lead.name}`), lead.category === profile.category ? 1 : 0),
+    reason: 'Same industry',
+  });
+
+  if (lead.companyDescription && profile.keywords.length > 0) {
+    // Sharing a third of the seed's keywords is already a strong match
+    const overlap = tokenOverlap(profile.keywords, `${lead.category} ${lead.companyDescription}`);
+    parts.push({ weight: 25, value: Math.min(1, overlap * 3), reason: 'Similar offering' });
+  }
+
+  if (profile.center && lead.latitude !== undefined && lead.longitude !== undefined) {
+    const km = haversineKm(profile.center, { latitude: lead.latitude, longitude: lead.longitude });
+    parts.push({ weight: 10, value: Math.max(0, 1 - km / (2 * radiusKm)), reason: `${Math.round(km)} km from the seed` });
+  }
+
+  if (profile.reviewCount !== undefined && lead.reviewCount !== undefined) {
+    parts.push({ weight: 10, value: sizeCloseness(profile.reviewCount, lead.reviewCount), reason: 'Similar number of reviews' });
+  }
+
+  if (profile.rating !== undefined && lead.rating !== undefined) {
+    parts.push({ weight: 5, value: Math.max(0, 1 - Math.abs(profile.rating - lead.rating) / 2), reason: 'Similar rating' });
+  }
+
+  const legalForm = legalFormOf(lead);
+  if (profile.legalForm && legalForm) {
+    const same = profile.legalForm.toLowerCase() === legalForm.toLowerCase();
+    parts.push({ weight: 5, value: same ? 1 : 0, reason: `Also a ${legalForm}` });
+  }
+
+  const revenue = parseAmount(lead.commercialData?.latestRevenue);
+  if (profile.revenue && revenue !== null) {
+    parts.push({ weight: 10, value: sizeCloseness(profile.revenue, revenue), reason: 'Similar revenue' });
+  }
+
+  const shareCapital = parseAmount(lead.commercialData?.shareCapital);
+  if (profile.shareCapital && shareCapital !== null) {
+    parts.push({ weight: 5, value: sizeCloseness(profile.shareCapital, shareCapital), reason: 'Similar share capital' });
+  }
+
+  const totalWeight = parts.reduce((sum, p) => sum + p.weight, 0);
+  const score = Math.round((100 * parts.reduce((sum, p) => sum + p.weight * p.value, 0)) / totalWeight);
+  return { score, reasons: parts.filter(p => p.value >= 0.7).map(p => p.reason) };
+};
+
+/** Most similar first. */
+export const rankBySimilarity = (leads: Lead[], profile: LookalikeProfile, radiusKm: number): Lead[] =>
+  leads
+    .map(lead => ({ lead, score: scoreSimilarity(lead, profile, radiusKm).score }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ lead }) => lead);
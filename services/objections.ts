@@ -0,0 +1,116 @@
+import { CallLog, Objection, OutcomeCategory } from "../types";
+
+export const OBJECTION_CATEGORIES = ['Brush-off', 'Budget', 'Competition', 'Timing', 'Authority', 'Need'];
+
+export const DEFAULT_OBJECTIONS: Objection[] = [
+  {
+    id: 'send-email',
+    title: 'Send me an email',
+    category: 'Brush-off',
+    responses: [
+      'Happy to. So I send the right thing: what would have to be in it to be worth a second look?',
+      'Sure. Most people file those away, so let me ask one question first and I will keep it short.',
+    ],
+    keywords: ['email', 'mail', 'information', 'material', 'brochure', 'unterlagen'],
+  },
+  {
+    id: 'have-provider',
+    title: 'We already have a provider',
+    category: 'Competition',
+    responses: [
+      'Most of our customers did too. What would you improve about it if you could?',
+      'Good to hear you have it covered. When did you last compare offers?',
+    ],
+    keywords: ['provider', 'supplier', 'agency', 'partner', 'already', 'dienstleister'],
+  },
+  {
+    id: 'no-budget',
+    title: 'No budget',
+    category: 'Budget',
+    responses: [
+      'Understood. When do you plan next year’s budget, so we talk in time?',
+      'If it paid for itself within a few months, would budget still be the issue?',
+    ],
+    keywords: ['budget', 'money', 'expensive', 'cost', 'price', 'geld', 'teuer'],
+  },
+  {
+    id: 'no-time',
+    title: 'I have no time right now',
+    category: 'Timing',
+    responses: [
+      'Of course. When is a better time for two minutes: later today or tomorrow morning?',
+    ],
+    keywords: ['time', 'busy', 'later', 'meeting', 'zeit'],
+  },
+  {
+    id: 'not-decision-maker',
+    title: 'I am not the right person',
+    category: 'Authority',
+    responses: [
+      'Thanks for telling me. Who takes care of this, and when is the best time to reach them?',
+    ],
+    keywords: ['right person', 'responsible', 'boss', 'decide', 'zuständig'],
+  },
+  {
+    id: 'not-interested',
+    title: 'Not interested',
+    category: 'Need',
+    responses: [
+      'Fair enough. Is that because it is handled already, or because it is not a priority this year?',
+    ],
+    keywords: ['interest', 'need', 'kein interesse'],
+  },
+];
+
+// Ending the call there means the caller got past every objection raised on the way
+const OVERCOMING_CATEGORIES: OutcomeCategory[] = ['interest', 'appointment'];
+
+/** Default for objections the caller didn't mark themselves. */
+export const isOvercomeByOutcome = (category: OutcomeCategory) => OVERCOMING_CATEGORIES.includes(category);
+
+/** Objections matching a lookup, matches in the title first. Every word has to match somewhere. */
+export const searchObjections = (objections: Objection[], query: string, category?: string): Objection[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const inCategory = category ? objections.filter(o => o.category === category) : objections;
+  if (words.length === 0) return inCategory;
+
+  return inCategory
+    .map(objection => {
+      const title = objection.title.toLowerCase();
+      const rest = [objection.category, ...(objection.keywords || []), ...objection.responses].join(' ').toLowerCase();
+      const matches = words.every(w => title.includes(w) || rest.includes(w));
+      return { objection, matches, inTitle: words.filter(w => title.includes(w)).length };
+    })
+    .filter(r => r.matches)
+    .sort((a, b) => b.inTitle - a.inTitle)
+    .map(r => r.objection);
+};
+
+export interface ObjectionStats {
+  objectionId: string;
+  title: string;
+  raised: number;
+  overcome: number;
+  overcomeRate: number; // %
+}
+
+/** How often each objection came up on the calls and how often the caller got past it, most frequent first. */
+export const summarizeObjections = (logs: CallLog[], objections: Objection[]): ObjectionStats[] => {
+  const stats = new Map<string, ObjectionStats>();
+  logs.forEach(log => (log.objections || []).forEach(raised => {
+    const entry = stats.get(raised.objectionId) || {
+      objectionId: raised.objectionId,
+      // The current title, unless the objection has been deleted since
+      title: objections.find(o => o.id === raised.objectionId)?.title || raised.title,
+      raised: 0,
+      overcome: 0,
+      overcomeRate: 0,
+    };
+    entry.raised++;
+    if (raised.overcome) entry.overcome++;
+    stats.set(raised.objectionId, entry);
+  }));
+  return Array.from(stats.values())
+    .map(entry => ({ ...entry, overcomeRate: (entry.overcome / entry.raised) * 100 }))
+    .sort((a, b) => b.raised - a.raised);
+};
@@ -0,0 +1,58 @@
+import { CallLog, CallOutcome, Lead, OutcomeCategory } from "../types";
+
+export const OUTCOME_CATEGORY_LABELS: Record<OutcomeCategory, string> = {
+  no_contact: 'No contact',
+  gatekeeper: 'Gatekeeper',
+  rejection: 'Decision maker, no interest',
+  interest: 'Interested',
+  appointment: 'Appointment',
+};
+
+export const DEFAULT_CALL_OUTCOMES: CallOutcome[] = [
+  { id: 'no-answer', label: 'No Answer', category: 'no_contact', isConnect: false, isConversion: false, color: '#ef4444' },
+  { id: 'voicemail', label: 'Left Voicemail', category: 'no_contact', isConnect: false, isConversion: false, color: '#f87171' },
+  { id: 'gatekeeper-blocked', label: 'Gatekeeper Blocked', category: 'gatekeeper', isConnect: true, isConversion: false, leadStatus: 'Contacted', color: '#f97316' },
+  { id: 'not-interested', label: 'Not Interested', category: 'rejection', isConnect: true, isConversion: false, leadStatus: 'Contacted', color: '#64748b' },
+  { id: 'interested', label: 'Interested', description: 'Lead wants material first', category: 'interest', isConnect: true, isConversion: false, leadStatus: 'Contacted', color: '#3b82f6' },
+  { id: 'appointment-set', label: 'Appointment Set', category: 'appointment', isConnect: true, isConversion: true, leadStatus: 'Contacted', color: '#22c55e' },
+];
+
+// Outcome strings written before the catalog existed, in the order they have to be tested
+const LEGACY_PATTERNS: [string, string][] = [
+  ['Appointment', 'appointment-set'],
+  ['Not Interested', 'not-interested'],
+  ['Interested', 'interested'],
+  ['No Answer', 'no-answer'],
+  ['Gatekeeper', 'gatekeeper-blocked'],
+];
+
+/**
+ * Maps a free-form outcome string from an old call log to a default outcome id.
+ * Anything unrecognized is treated as a conversation without interest.
+ */
+export const legacyOutcomeId = (label: string): string =>
+  LEGACY_PATTERNS.find(([pattern]) => label.includes(pattern))?.[1] || 'not-interested';
+
+/**
+ * The catalog entry a call log refers to. Logs whose outcome has since been removed from the
+ * catalog fall back to the built-in definition, or to a neutral entry carrying the logged label.
+ */
+export const resolveOutcome = (log: Pick<CallLog, 'outcomeId' | 'outcome'>, outcomes: CallOutcome[]): CallOutcome => {
+  const id = log.outcomeId || legacyOutcomeId(log.outcome || '');
+  const known = outcomes.find(o => o.id === id) || DEFAULT_CALL_OUTCOMES.find(o => o.id === id);
+  if (known) return known;
+  return { id, label: log.outcome, category: 'rejection', isConnect: true, isConversion: false, color: '#64748b' };
+};
+
+export const outcomesInCategory = (outcomes: CallOutcome[], category: OutcomeCategory) =>
+  outcomes.filter(o => o.category === category);
+
+/**
+ * Fills in `outcomeId` on call logs recorded before the catalog existed.
+ */
+export const withOutcomeIds = <T extends { leads: Lead[] }>(item: T): T => ({
+  ...item,
+  leads: item.leads.map(lead => lead.callLogs?.some(log => !log.outcomeId)
+    ? { ...lead, callLogs: lead.callLogs.map(log => log.outcomeId ? log : { ...log, outcomeId: legacyOutcomeId(log.outcome || '') }) }
+    : lead),
+});
@@ -0,0 +1,113 @@
+import { ContactList, Deal, DealStage, Lead, PipelineStage, Project, StageChange } from "../types";
+import { LeadSource } from "./cadences";
+import { DateRange, isInRange, startOfDay } from "./callMetrics";
+
+export const PIPELINE_STAGES: PipelineStage[] = ['Cold', 'Qualified', 'Proposal', 'Closing', 'Closed'];
+export const DEAL_STAGES: DealStage[] = [...PIPELINE_STAGES, 'Lost'];
+
+export const DEAL_STAGE_LABELS: Record<DealStage, string> = {
+  Cold: 'Cold',
+  Qualified: 'Qualified',
+  Proposal: 'Proposal',
+  Closing: 'Closing',
+  Closed: 'Won',
+  Lost: 'Lost',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DealEntry {
+  lead: Lead;
+  deal: Deal;
+  source: LeadSource;
+}
+
+export const isOpenStage = (stage: DealStage) => stage !== 'Closed' && stage !== 'Lost';
+
+/** Open deals whose expected close date has passed. */
+export const isOverdue = (deal: Deal, now = new Date()) =>
+  isOpenStage(deal.stage) && !!deal.expectedCloseDate && new Date(deal.expectedCloseDate) < startOfDay(now);
+
+/**
+ * Moves a lead to a stage, putting it into the pipeline if it isn't yet. Every move is recorded
+ * in the deal's history for the conversion funnel.
+ */
+export const moveDeal = (lead: Lead, stage: DealStage, userId?: string, at = new Date().toISOString()): Lead => {
+  if (lead.deal?.stage === stage) return lead;
+  const change: StageChange = { stage, from: lead.deal?.stage, at, userId };
+  return { ...lead, deal: { ...lead.deal, stage, history: [...(lead.deal?.history || []), change] } };
+};
+
+export const formatDealValue = (value: number) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 }).format(value);
+
+/**
+ * Every lead in the pipeline. A lead saved from a project into a list is shown from the list,
+ * where the team works with it.
+ */
+export const collectDeals = (projects: Project[], contactLists: ContactList[]): DealEntry[] => {
+  const deals = new Map<string, DealEntry>();
+
+  const collect = (leads: Lead[], source: LeadSource) => leads.forEach(lead => {
+    if (!lead.deal || deals.has(lead.id)) return;
+    deals.set(lead.id, { lead, deal: lead.deal, source });
+  });
+
+  contactLists.forEach(l => collect(l.leads, { type: 'list', id: l.id, name: l.name }));
+  projects.forEach(p => collect(p.leads, { type: 'project', id: p.id, name: p.name }));
+  return Array.from(deals.values());
+};
+
+export interface FunnelStep {
+  stage: PipelineStage;
+  reached: number; // Deals that got at least this far
+  conversion: number | null; // % of the previous step, null for the first one
+  value: number; // Sum of the deal values of those deals
+}
+
+export interface FunnelSummary {
+  cohort: number; // Deals that entered the pipeline in the range
+  steps: FunnelStep[];
+  won: number;
+  lost: number;
+  wonValue: number;
+  avgDaysToWin: number | null;
+}
+
+// Lost is not a funnel step; a deal lost straight away still entered the pipeline at Cold
+const stageIndex = (stage: DealStage) => Math.max(PIPELINE_STAGES.indexOf(stage as PipelineStage), 0);
+
+/**
+ * Conversion funnel for the deals that entered the pipeline within the range. A deal counts for
+ * every stage up to the furthest one its history reached, so skipping a stage counts as passing it
+ * and a deal that was lost keeps credit for how far it got.
+ */
+export const buildStageFunnel = (deals: DealEntry[], range: DateRange): FunnelSummary => {
+  const cohort = deals.filter(({ deal }) => deal.history.length > 0 && isInRange(deal.history[0].at, range));
+
+  const furthest = cohort.map(({ deal }) => Math.max(...deal.history.map(change => stageIndex(change.stage))));
+  const steps = PIPELINE_STAGES.map((stage, index): FunnelStep => {
+    const reachedDeals = cohort.filter((_, i) => furthest[i] >= index);
+    return { stage, reached: reachedDeals.length, conversion: null, value: reachedDeals.reduce((sum, { deal }) => sum + (deal.value || 0), 0) };
+  });
+  steps.forEach((step, index) => {
+    if (index === 0) return;
+    const previous = steps[index - 1].reached;
+    step.conversion = previous > 0 ? (step.reached / previous) * 100 : null;
+  });
+
+  const won = cohort.filter(({ deal }) => deal.stage === 'Closed');
+  const daysToWin = won.map(({ deal }) => {
+    const closedAt = [...deal.history].reverse().find(change => change.stage === 'Closed')!.at;
+    return (new Date(closedAt).getTime() - new Date(deal.history[0].at).getTime()) / DAY_MS;
+  });
+
+  return {
+    cohort: cohort.length,
+    steps,
+    won: won.length,
+    lost: cohort.filter(({ deal }) => deal.stage === 'Lost').length,
+    wonValue: won.reduce((sum, { deal }) => sum + (deal.value || 0), 0),
+    avgDaysToWin: daysToWin.length > 0 ? daysToWin.reduce((a, b) => a + b, 0) / daysToWin.length : null,
+  };
+};
@@ -0,0 +1,298 @@
+import { DataFetchError, DataFetchIssue } from "../types";
+
+type FieldType = 'string' | 'number' | 'string[]';
+
+/**
+ * Expected shape of one field in an LLM JSON response.
+ * - required: the value must be present and non-empty
+ * - optional: the key may be omitted entirely (otherwise an absent key is reported)
+ * - oneOf: allowed values for string fields, matched case-insensitively
+ * - format: extra check for string fields, e.g. an email address
+ */
+interface FieldSpec {
+  type: FieldType;
+  required?: boolean;
+  optional?: boolean;
+  oneOf?: string[];
+  format?: { test: (value: string) => boolean; description: string };
+}
+
+export type ResponseSchema = Record<string, FieldSpec>;
+
+export interface ValidationResult<T> {
+  value: T;
+  issues: DataFetchIssue[];
+}
+
+const EMAIL_FORMAT = {
+  test: (value: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  description: 'an email address',
+};
+
+const URL_FORMAT = {
+  test: (value: string) => /^(https?:\/\/)?[^\s.]+\.[^\s]+$/i.test(value),
+  description: 'a URL',
+};
+
+export const SEARCH_RESULT_SCHEMA: ResponseSchema = {
+  name: { type: 'string', required: true },
+  address: { type: 'string', required: true },
+  website: { type: 'string', format: URL_FORMAT },
+  phone: { type: 'string' },
+  rating: { type: 'number' },
+  reviewCount: { type: 'number' },
+  latitude: { type: 'number', optional: true },
+  longitude: { type: 'number', optional: true },
+};
+
+export const ENRICHMENT_SCHEMA: ResponseSchema = {
+  // Only requested when the lead has no website yet
+  website: { type: 'string', optional: true, format: URL_FORMAT },
+  ceo: { type: 'string' },
+  email: { type: 'string', format: EMAIL_FORMAT },
+  emailStatus: { type: 'string', oneOf: ['Validated', 'Guessed'] },
+  companyDescription: { type: 'string' },
+};
+
+export const COMMERCIAL_REGISTER_SCHEMA: ResponseSchema = {
+  registerId: { type: 'string' },
+  court: { type: 'string' },
+  foundingDate: { type: 'string' },
+  legalForm: { type: 'string' },
+  shareCapital: { type: 'string' },
+  managingDirectors: { type: 'string[]' },
+  latestRevenue: { type: 'string' },
+};
+
+export const CALL_ANALYSIS_SCHEMA: ResponseSchema = {
+  transcript: { type: 'string', required: true },
+  sentiment: { type: 'string', required: true, oneOf: ['Positive', 'Neutral', 'Negative'] },
+  callScore: { type: 'number', required: true },
+  confidence: { type: 'string', oneOf: ['High', 'Medium', 'Low'] },
+  keyTakeaways: { type: 'string[]' },
+};
+
+export const LOOKALIKE_QUERY_SCHEMA: ResponseSchema = {
+  industry: { type: 'string', required: true },
+};
+
+export interface SearchResultPayload {
+  name: string;
+  address: string;
+  website: string | null;
+  phone: string | null;
+  rating: number | null;
+  reviewCount: number | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface LookalikeQueryPayload {
+  industry: string;
+}
+
+export interface EnrichmentPayload {
+  website: string | null;
+  ceo: string | null;
+  email: string | null;
+  emailStatus: 'Validated' | 'Guessed' | null;
+  companyDescription: string | null;
+}
+
+export interface CommercialRegisterPayload {
+  registerId: string | null;
+  court: string | null;
+  foundingDate: string | null;
+  legalForm: string | null;
+  shareCapital: string | null;
+  managingDirectors: string[] | null;
+  latestRevenue: string | null;
+}
+
+export interface CallAnalysisPayload {
+  transcript: string | null;
+  sentiment: 'Positive' | 'Neutral' | 'Negative' | null;
+  callScore: number | null;
+  confidence: 'High' | 'Medium' | 'Low' | null;
+  keyTakeaways: string[] | null;
+}
+
+// Placeholder values models use instead of null
+const EMPTY_MARKERS = new Set(['', 'null', 'none', 'n/a', 'na', 'unknown', 'not found', 'not available', '-']);
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && EMPTY_MARKERS.has(value.trim().toLowerCase()));
+
+const describeType = (value: unknown) => Array.isArray(value) ? 'array' : typeof value;
+
+const coerceField = (field: string, raw: unknown, spec: FieldSpec, issues: DataFetchIssue[]): unknown => {
+  const wrongType = (message: string) => {
+    issues.push({ kind: 'wrong_type', field, message });
+    return null;
+  };
+
+  switch (spec.type) {
+    case 'number': {
+      if (typeof raw === 'number') return Number.isFinite(raw) ? raw : wrongType(`${field} is not a finite number`);
+      if (typeof raw === 'string') {
+        // Accept "4,5", "4.5 stars", "1.234 reviews"
+        const match = raw.replace(/(\d)[.,](\d{3})(?!\d)/g, '$1$2').replace(',', '.').match(/-?\d+(\.\d+)?/);
+        if (match) return Number(match[0]);
+      }
+      return wrongType(`${field} should be a number, got ${describeType(raw)}`);
+    }
+
+    case 'string[]': {
+      const items = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(/[;,]/) : null;
+      if (!items) return wrongType(`${field} should be a list of strings, got ${describeType(raw)}`);
+      const strings = items.filter((item): item is string => typeof item === 'string' && !isEmpty(item)).map(s => s.trim());
+      if (strings.length < items.filter(item => !isEmpty(item)).length) {
+        issues.push({ kind: 'wrong_type', field, message: `${field} contains entries that are not strings` });
+      }
+      return strings;
+    }
+
+    case 'string': {
+      let value: string;
+      if (typeof raw === 'string') value = raw.trim();
+      else if (typeof raw === 'number') value = String(raw);
+      else return wrongType(`${field} should be a string, got ${describeType(raw)}`);
+
+      if (spec.oneOf) {
+        const canonical = spec.oneOf.find(option => option.toLowerCase() === value.toLowerCase());
+        return canonical ?? wrongType(`${field} must be one of ${spec.oneOf.join(', ')}, got "${value}"`);
+      }
+      if (spec.format && !spec.format.test(value)) {
+        return wrongType(`${field} is not ${spec.format.description}: "${value}"`);
+      }
+      return value;
+    }
+  }
+};
+
+/**
+ * Validates one parsed JSON object against a schema.
+ * Fields are coerced where the intent is unambiguous (numeric strings, "N/A" placeholders,
+ * comma separated lists); anything else is replaced by null and reported as an issue.
+ */
+export const validateObject = <T>(raw: unknown, schema: ResponseSchema, path: string = ''): ValidationResult<T> => {
+  const issues: DataFetchIssue[] = [];
+  const value: Record<string, unknown> = {};
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    issues.push({ kind: 'wrong_type', field: path || undefined, message: `Expected a JSON object, got ${describeType(raw)}` });
+    Object.keys(schema).forEach(key => { value[key] = null; });
+    return { value: value as T, issues };
+  }
+
+  const record = raw as Record<string, unknown>;
+  Object.entries(schema).forEach(([key, spec]) => {
+    const field = path ? `${path}.${key}` : key;
+    const rawValue = record[key];
+
+    if (!(key in record) && !spec.optional) {
+      issues.push({ kind: 'missing_field', field, message: `${field} is missing from the response` });
+    }
+
+    if (isEmpty(rawValue)) {
+      if (spec.required && key in record) {
+        issues.push({ kind: 'missing_field', field, message: `${field} is empty` });
+      }
+      value[key] = null;
+      return;
+    }
+
+    value[key] = coerceField(field, rawValue, spec, issues);
+  });
+
+  return { value: value as T, issues };
+};
+
+/**
+ * Validates a JSON array of objects. Items that miss a required field are dropped.
+ */
+export const validateList = <T>(raw: unknown, schema: ResponseSchema): ValidationResult<T[]> => {
+  if (!Array.isArray(raw)) {
+    return { value: [], issues: [{ kind: 'wrong_type', message: `Expected a JSON array, got ${describeType(raw)}` }] };
+  }
+
+  const requiredKeys = Object.keys(schema).filter(key => schema[key].required);
+  const issues: DataFetchIssue[] = [];
+  const value: T[] = [];
+
+  raw.forEach((item, idx) => {
+    const result = validateObject<T>(item, schema, `[${idx}]`);
+    issues.push(...result.issues);
+    const record = result.value as Record<string, unknown>;
+    if (requiredKeys.every(key => record[key] !== null)) value.push(result.value);
+  });
+
+  return { value, issues };
+};
+
+/**
+ * Parses JSON from model output, tolerating markdown fences and prose around the payload.
+ * Returns a parse_error issue instead of throwing.
+ */
+export const parseJsonResponse = (text: string | undefined): { data: unknown } | { issue: DataFetchIssue } => {
+  if (!text || !text.trim()) {
+    return { issue: { kind: 'parse_error', message: 'The model returned an empty response' } };
+  }
+
+  const cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  const candidates = [cleaned, cleaned.match(/\{[\s\S]*\}/)?.[0], cleaned.match(/\[[\s\S]*\]/)?.[0]];
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return { data: JSON.parse(candidate) };
+    } catch (e) {}
+  }
+
+  const preview = cleaned.length > 80 ? `${cleaned.substring(0, 80)}...` : cleaned;
+  return { issue: { kind: 'parse_error', message: `Response is not valid JSON: "${preview}"` } };
+};
+
+export const toDataFetchError = (source: DataFetchError['source'], issues: DataFetchIssue[]): DataFetchError | undefined =>
+  issues.length > 0 ? { source, issues, at: new Date().toISOString() } : undefined;
+
+// The Gemini SDK exposes the HTTP status on its errors; older builds only mention it in the message
+const httpStatusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status;
+  const match = String(error instanceof Error ? error.message : error).match(/\b(429|5\d\d)\b/);
+  return match ? Number(match[1]) : undefined;
+};
+
+export const requestFailedError = (source: DataFetchError['source'], error: unknown): DataFetchError => ({
+  source,
+  issues: [{ kind: 'request_failed', message: error instanceof Error ? error.message : String(error) }],
+  at: new Date().toISOString(),
+  status: httpStatusOf(error),
+});
+
+// Thrown errors can be DataFetchErrors (a response that could be read but not used) or plain ones
+export const isDataFetchError = (error: unknown): error is DataFetchError =>
+  Array.isArray((error as DataFetchError | null)?.issues);
+
+/**
+ * Rate limits (429) and server errors (5xx) are worth retrying; everything else is not.
+ */
+export const isRetryableStatus = (status: number | undefined) =>
+  status !== undefined && (status === 429 || status >= 500);
+
+/**
+ * True when the error means no data was obtained at all (rather than some fields being off).
+ */
+export const isFatalDataFetchError = (error: DataFetchError) =>
+  error.issues.some(issue => issue.kind === 'parse_error' || issue.kind === 'request_failed' || (issue.kind === 'wrong_type' && !issue.field));
+
+/**
+ * One-line summary for tooltips, e.g. "Enrichment: email is not an email address (+1 more)".
+ */
+export const summarizeDataFetchError = (error: DataFetchError): string => {
+  const label = { search: 'Search', enrichment: 'Enrichment', commercial_register: 'Register lookup', call_analysis: 'Call analysis' }[error.source];
+  const [first, ...rest] = error.issues;
+  if (!first) return label;
+  return `${label}: ${first.message}${rest.length > 0 ? ` (+${rest.length} more)` : ''}`;
+};
@@ -0,0 +1,107 @@
+import { v4 as uuidv4 } from "uuid";
+import { CallFlowStage, ScriptBranch, ScriptBranchKind, ScriptGraph, ScriptNode, ScriptPathStep } from "../types";
+
+export const CALL_FLOW_STAGES: { id: CallFlowStage; label: string }[] = [
+  { id: 'opening', label: 'Opening' },
+  { id: 'gatekeeper', label: 'Gatekeeper' },
+  { id: 'decisionMaker', label: 'Decision maker' },
+  { id: 'interest', label: 'Interest' },
+  { id: 'appointment', label: 'Appointment' },
+];
+
+export const BRANCH_KINDS: { id: ScriptBranchKind; label: string }[] = [
+  { id: 'gatekeeper', label: 'Gatekeeper' },
+  { id: 'objection', label: 'Objection' },
+  { id: 'interest', label: 'Interest' },
+  { id: 'other', label: 'Other' },
+];
+
+export const createScriptNode = (title: string, content = '', stage?: CallFlowStage): ScriptNode =>
+  ({ id: uuidv4(), title, content, stage, branches: [] });
+
+export const createScriptBranch = (label: string, kind: ScriptBranchKind, target?: { targetNodeId?: string; outcomeId?: string }): ScriptBranch =>
+  ({ id: uuidv4(), label, kind, ...target });
+
+/**
+ * Starting point for a branching script, laid out like the CallWizard flow: the opening leads to
+ * the gatekeeper or the pitch, the pitch to the close or the three most common objections, each of
+ * which leads back to the close. `openingHtml` keeps the text of a script that is being converted.
+ */
+export const createStarterGraph = (openingHtml: string): ScriptGraph => {
+  const opening = createScriptNode('Opening', openingHtml, 'opening');
+  const gatekeeper = createScriptNode('Gatekeeper', 'Could you put me through to {{ceo}}? It is about {{category}}.', 'gatekeeper');
+  const pitch = createScriptNode('Pitch', 'The reason I am calling: ...', 'decisionMaker');
+  const close = createScriptNode('Close', 'Shall we take 15 minutes next week to go through it?', 'interest');
+  const email = createScriptNode('Objection: Send me an email', 'Happy to. So I send the right thing: what would have to be in it to be worth a call?');
+  const provider = createScriptNode('Objection: Already have a provider', 'Most of our customers did too. What would you improve about it if you could?');
+  const budget = createScriptNode('Objection: No budget', 'Understood. When do you plan next year’s budget?');
+
+  opening.branches = [
+    createScriptBranch('Gatekeeper answers', 'gatekeeper', { targetNodeId: gatekeeper.id }),
+    createScriptBranch('Decision maker answers', 'other', { targetNodeId: pitch.id }),
+  ];
+  gatekeeper.branches = [
+    createScriptBranch('Puts me through', 'gatekeeper', { targetNodeId: pitch.id }),
+    createScriptBranch('Blocks the call', 'gatekeeper', { outcomeId: 'gatekeeper-blocked' }),
+  ];
+  pitch.branches = [
+    createScriptBranch('Interested', 'interest', { targetNodeId: close.id }),
+    createScriptBranch('Send me an email', 'objection', { targetNodeId: email.id }),
+    createScriptBranch('We already have a provider', 'objection', { targetNodeId: provider.id }),
+    createScriptBranch('No budget', 'objection', { targetNodeId: budget.id }),
+    createScriptBranch('Not interested', 'other', { outcomeId: 'not-interested' }),
+  ];
+  [email, provider, budget].forEach(node => {
+    node.branches = [
+      createScriptBranch('Open to talk', 'interest', { targetNodeId: close.id }),
+      createScriptBranch('Still no', 'objection', { outcomeId: 'not-interested' }),
+    ];
+  });
+  close.branches = [
+    createScriptBranch('Agrees to a meeting', 'interest', { outcomeId: 'appointment-set' }),
+    createScriptBranch('Wants material first', 'interest', { outcomeId: 'interested' }),
+  ];
+
+  return { startNodeId: opening.id, nodes: [opening, gatekeeper, pitch, close, email, provider, budget] };
+};
+
+export const findNode = (graph: ScriptGraph, nodeId: string | undefined): ScriptNode | undefined =>
+  graph.nodes.find(n => n.id === nodeId);
+
+/** First node said at a stage of the CallWizard flow. */
+export const nodeForStage = (graph: ScriptGraph, stage: CallFlowStage): ScriptNode | undefined =>
+  graph.nodes.find(n => n.stage === stage);
+
+/** Removes a node; branches that led to it lead nowhere until they are pointed elsewhere. */
+export const removeNode = (graph: ScriptGraph, nodeId: string): ScriptGraph => {
+  const nodes = graph.nodes
+    .filter(n => n.id !== nodeId)
+    .map(n => ({ ...n, branches: n.branches.map(b => b.targetNodeId === nodeId ? { ...b, targetNodeId: undefined } : b) }));
+  return { startNodeId: graph.startNodeId === nodeId ? nodes[0]?.id || '' : graph.startNodeId, nodes };
+};
+
+/** Nodes the caller can never get to from the start node. */
+export const unreachableNodes = (graph: ScriptGraph): ScriptNode[] => {
+  const reached = new Set<string>();
+  const queue = [graph.startNodeId];
+  while (queue.length > 0) {
+    const node = findNode(graph, queue.shift());
+    if (!node || reached.has(node.id)) continue;
+    reached.add(node.id);
+    node.branches.forEach(b => b.targetNodeId && queue.push(b.targetNodeId));
+  }
+  return graph.nodes.filter(n => !reached.has(n.id));
+};
+
+/** Branches that neither lead to a node nor end the call. */
+export const danglingBranches = (graph: ScriptGraph): ScriptBranch[] =>
+  graph.nodes.flatMap(n => n.branches.filter(b => !b.outcomeId && !findNode(graph, b.targetNodeId)));
+
+/** Nodes visited on a call, each once, in the order they were first reached. */
+export const visitedNodes = (graph: ScriptGraph, path: ScriptPathStep[]): ScriptNode[] =>
+  Array.from(new Set(path.map(step => step.nodeId)))
+    .map(id => findNode(graph, id))
+    .filter((node): node is ScriptNode => !!node);
+
+export const describePath = (path: ScriptPathStep[]): string =>
+  path.map(step => step.branchLabel ? `${step.title} (${step.branchLabel})` : step.title).join(' → ');
@@ -0,0 +1,95 @@
+import { Script, ScriptGraph, ScriptVersion } from "../types";
+import { htmlToText } from "./callAnalysis";
+
+// Older versions are dropped beyond this, so a busy script doesn't grow the workspace forever
+export const MAX_SCRIPT_VERSIONS = 50;
+
+export const currentVersion = (script: Script) => script.version || 1;
+
+const sameText = (a: Pick<Script, 'name' | 'content' | 'graph'>, b: Pick<Script, 'name' | 'content' | 'graph'>) =>
+  a.name === b.name && a.content === b.content && JSON.stringify(a.graph) === JSON.stringify(b.graph);
+
+const snapshot = (script: Script): ScriptVersion => ({
+  version: currentVersion(script),
+  name: script.name,
+  content: script.content,
+  graph: script.graph,
+  savedAt: script.updatedAt,
+  savedBy: script.updatedBy,
+});
+
+/**
+ * Applies an edit to a script. A change to its name or text keeps the previous text as a version
+ * and bumps the version number; changing only the category or color doesn't.
+ */
+export const saveScriptVersion = (previous: Script, next: Script, userId?: string, at = new Date().toISOString()): Script => {
+  const kept = { version: previous.version, updatedAt: previous.updatedAt, updatedBy: previous.updatedBy, history: previous.history };
+  if (sameText(previous, next)) return { ...next, ...kept };
+  return {
+    ...next,
+    version: currentVersion(previous) + 1,
+    updatedAt: at,
+    updatedBy: userId,
+    history: [...(previous.history || []), snapshot(previous)].slice(-MAX_SCRIPT_VERSIONS),
+  };
+};
+
+/** Every version of a script, newest (the current one) first. */
+export const listVersions = (script: Script): ScriptVersion[] =>
+  [snapshot(script), ...(script.history || []).slice().reverse()];
+
+/** The script with an old version's text, to be saved as a new version. */
+export const restoreVersion = (script: Script, version: ScriptVersion): Script =>
+  ({ ...script, name: version.name, content: version.content, graph: version.graph });
+
+/** Readable text of a version; branching scripts list every step with its answers. */
+export const versionText = (version: { content: string; graph?: ScriptGraph }): string => {
+  if (!version.graph) return htmlToText(version.content);
+  return version.graph.nodes
+    .map(node => [
+      `# ${node.title}`,
+      htmlToText(node.content),
+      ...node.branches.map(b => `→ ${b.label}`),
+    ].join('\n'))
+    .join('\n\n');
+};
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Word diff from `before` to `after` (longest common subsequence). Whitespace stays attached to
+ * the word before it, so joining the parts gives back the texts.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.match(/\S+\s*|\s+/g) || [];
+  const b = after.match(/\S+\s*|\s+/g) || [];
+  const key = (token: string) => token.trim();
+
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = key(a[i]) === key(b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (key(a[i]) === key(b[j])) { push('same', b[j]); i++; j++; }
+    else if (lengths[i + 1][j] >= lengths[i][j + 1]) push('removed', a[i++]);
+    else push('added', b[j++]);
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+};
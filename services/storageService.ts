@@ -0,0 +1,206 @@
+import { Project, ContactList, Script, PhoneNumber, CallOutcome, Cadence, SavedFilter, ScoringRule, Objection, ScriptExperiment } from "../types";
+import { DEFAULT_CALL_OUTCOMES, withOutcomeIds } from "./outcomes";
+
+// Each account gets its own database: "leadscout:<userId>"
+const DB_NAME_PREFIX = "leadscout";
+const DB_VERSION = 1;
+const STORE_NAME = "collections";
+const META_KEY = "__meta";
+const WRITE_DELAY_MS = 300;
+
+/**
+ * Version of the persisted data shape.
+ * Bump it and register a migration whenever a persisted type (Lead, Project, ...) changes
+ * in a way that records written by an older build would no longer satisfy.
+ */
+export const SCHEMA_VERSION = 2;
+
+export interface PersistedState {
+  projects: Project[];
+  contactLists: ContactList[];
+  scripts: Script[];
+  phoneNumbers: PhoneNumber[];
+  outcomes: CallOutcome[];
+  cadences: Cadence[];
+  savedFilters: SavedFilter[];
+  scoringRules: ScoringRule[];
+  objections: Objection[];
+  experiments: ScriptExperiment[];
+}
+
+export type PersistedKey = keyof PersistedState;
+
+const PERSISTED_KEYS: PersistedKey[] = ["projects", "contactLists", "scripts", "phoneNumbers", "outcomes", "cadences", "savedFilters", "scoringRules", "objections", "experiments"];
+
+interface StorageMeta {
+  schemaVersion: number;
+  updatedAt: string;
+}
+
+type Migration = (state: Partial<PersistedState>) => Partial<PersistedState>;
+
+// MIGRATIONS[n] upgrades a snapshot written with schema version n to version n + 1.
+const MIGRATIONS: Record<number, Migration> = {
+  // v2: call logs reference the outcome catalog instead of a free-form string
+  1: state => ({
+    ...state,
+    projects: state.projects?.map(withOutcomeIds),
+    contactLists: state.contactLists?.map(withOutcomeIds),
+    outcomes: state.outcomes || DEFAULT_CALL_OUTCOMES,
+  }),
+};
+
+const dbPromises = new Map<string, Promise<IDBDatabase>>();
+
+const databaseName = (scope: string | null) => scope ? `${DB_NAME_PREFIX}:${scope}` : DB_NAME_PREFIX;
+
+const openDatabase = (scope: string | null): Promise<IDBDatabase> => {
+  const name = databaseName(scope);
+  let dbPromise = dbPromises.get(name);
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromises.delete(name);
+        reject(request.error);
+      };
+    });
+    dbPromises.set(name, dbPromise);
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const readEntry = async <T>(scope: string | null, key: string): Promise<T | undefined> => {
+  const db = await openDatabase(scope);
+  const store = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+  return requestToPromise(store.get(key) as IDBRequest<T | undefined>);
+};
+
+const writeEntries = async (scope: string | null, entries: Record<string, unknown>): Promise<void> => {
+  const db = await openDatabase(scope);
+  const tx = db.transaction(STORE_NAME, "readwrite");
+  const store = tx.objectStore(STORE_NAME);
+  Object.entries(entries).forEach(([key, value]) => store.put(value, key));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const migrate = (state: Partial<PersistedState>, fromVersion: number): Partial<PersistedState> => {
+  let migrated = state;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      throw new Error(`No storage migration registered for schema version ${version}`);
+    }
+    migrated = step(migrated);
+  }
+  return migrated;
+};
+
+const readSnapshot = async (scope: string | null): Promise<{ meta: StorageMeta; state: Partial<PersistedState> } | null> => {
+  const meta = await readEntry<StorageMeta>(scope, META_KEY);
+  if (!meta) return null;
+
+  const state: Partial<PersistedState> = {};
+  for (const key of PERSISTED_KEYS) {
+    const value = await readEntry<any>(scope, key);
+    if (value !== undefined) state[key] = value;
+  }
+  return { meta, state };
+};
+
+/**
+ * Data saved before accounts existed lives in an unscoped database.
+ * The first account to sign in on this browser takes it over; the old database is then removed.
+ */
+const adoptUnscopedData = async (scope: string) => {
+  const names = indexedDB.databases ? (await indexedDB.databases()).map(db => db.name) : [DB_NAME_PREFIX];
+  if (!names.includes(DB_NAME_PREFIX)) return null;
+
+  const legacy = await readSnapshot(null);
+  if (legacy) await writeEntries(scope, { ...legacy.state, [META_KEY]: legacy.meta });
+
+  (await openDatabase(null)).close();
+  dbPromises.delete(DB_NAME_PREFIX);
+  indexedDB.deleteDatabase(DB_NAME_PREFIX);
+  return legacy;
+};
+
+/**
+ * Loads every persisted collection of an account and upgrades it to the current schema version.
+ * Returns null when nothing has been stored yet (first start).
+ */
+export const loadPersistedState = async (scope: string): Promise<Partial<PersistedState> | null> => {
+  const snapshot = await readSnapshot(scope) || await adoptUnscopedData(scope);
+  if (!snapshot) return null;
+  const { meta, state } = snapshot;
+
+  if (meta.schemaVersion > SCHEMA_VERSION) {
+    // Written by a newer build; use as-is rather than dropping the user's data.
+    console.warn(`Stored data has schema version ${meta.schemaVersion}, this build expects ${SCHEMA_VERSION}.`);
+    return state;
+  }
+
+  if (meta.schemaVersion < SCHEMA_VERSION) {
+    const migrated = migrate(state, meta.schemaVersion);
+    await writeEntries(scope, {
+      ...migrated,
+      [META_KEY]: { schemaVersion: SCHEMA_VERSION, updatedAt: new Date().toISOString() },
+    });
+    return migrated;
+  }
+
+  return state;
+};
+
+interface PendingWrite {
+  timer: ReturnType<typeof setTimeout>;
+  run: () => void;
+}
+
+const pendingWrites = new Map<string, PendingWrite>();
+
+/**
+ * Schedules a (debounced) write of one collection of an account.
+ * Rapid successive updates, e.g. during batch enrichment, collapse into a single write.
+ */
+export const schedulePersist = <K extends PersistedKey>(scope: string, key: K, value: PersistedState[K]) => {
+  const pendingKey = `${scope}/${key}`;
+  const pending = pendingWrites.get(pendingKey);
+  if (pending) clearTimeout(pending.timer);
+
+  const run = () => {
+    pendingWrites.delete(pendingKey);
+    writeEntries(scope, {
+      [key]: value,
+      [META_KEY]: { schemaVersion: SCHEMA_VERSION, updatedAt: new Date().toISOString() },
+    }).catch(error => console.error(`Failed to persist ${key}`, error));
+  };
+  pendingWrites.set(pendingKey, { timer: setTimeout(run, WRITE_DELAY_MS), run });
+};
+
+/**
+ * Writes all debounced changes right away, e.g. before signing out.
+ */
+export const flushPendingWrites = () => {
+  Array.from(pendingWrites.values()).forEach(({ timer, run }) => {
+    clearTimeout(timer);
+    run();
+  });
+};
@@ -0,0 +1,334 @@
+import { AuthUser, Lead } from "../types";
+import { DEAL_STAGE_LABELS, formatDealValue } from "./pipeline";
+
+/**
+ * Template language of scripts:
+ *   {{lead.ceo}}                      a variable
+ *   {{lead.ceo | "the owner"}}        a default when the value is empty
+ *   {{lead.ceo | first | upper}}      filters, applied left to right
+ *   {{#if lead.ceo}}…{{else}}…{{/if}} conditionals, also {{#unless …}}
+ * Values are HTML-escaped, as scripts are HTML.
+ */
+
+export interface TemplateContext {
+  lead: Lead;
+  user?: Pick<AuthUser, 'displayName' | 'username' | 'role'> | null;
+}
+
+type TemplateValue = string | number | string[] | null | undefined;
+
+export type TemplateVariableGroup = 'Shortcuts' | 'Lead' | 'Commercial register' | 'Me';
+
+export interface TemplateVariable {
+  key: string;
+  group: TemplateVariableGroup;
+  label: string;
+  value: (context: TemplateContext) => TemplateValue;
+  fallback?: string; // Used when the value is empty and the template gives no default
+}
+
+const leadField = (key: string, label: string, value: (lead: Lead) => TemplateValue): TemplateVariable =>
+  ({ key: `lead.${key}`, group: 'Lead', label, value: c => value(c.lead) });
+
+const registerField = (key: keyof NonNullable<Lead['commercialData']>, label: string): TemplateVariable =>
+  ({ key: `register.${key}`, group: 'Commercial register', label, value: c => c.lead.commercialData?.[key] as TemplateValue });
+
+// Ids, enrichment state, CRM links and call logs are bookkeeping, not something to say on a call
+export const TEMPLATE_VARIABLES: TemplateVariable[] = [
+  // The variables scripts used before the engine, kept so those scripts read the same
+  { key: 'leadName', group: 'Shortcuts', label: 'Company name', value: c => c.lead.name },
+  { key: 'company', group: 'Shortcuts', label: 'Company name', value: c => c.lead.name },
+  { key: 'companyName', group: 'Shortcuts', label: 'Company name', value: c => c.lead.name },
+  { key: 'category', group: 'Shortcuts', label: 'Category', value: c => c.lead.category },
+  { key: 'ceo', group: 'Shortcuts', label: 'Decision maker', value: c => c.lead.ceo, fallback: 'Decision Maker' },
+  { key: 'ceoName', group: 'Shortcuts', label: 'Decision maker', value: c => c.lead.ceo, fallback: 'the owner' },
+  { key: 'myName', group: 'Shortcuts', label: 'Your name', value: c => c.user?.displayName, fallback: 'Me' },
+  // No profile field holds the company; a default in the template replaces this one
+  { key: 'myCompany', group: 'Shortcuts', label: 'Your company', value: () => undefined, fallback: 'LeadScout' },
+
+  leadField('name', 'Company name', l => l.name),
+  leadField('category', 'Category', l => l.category),
+  leadField('address', 'Address', l => l.address),
+  leadField('website', 'Website', l => l.website),
+  leadField('phone', 'Phone', l => l.phone),
+  leadField('email', 'Email', l => l.email),
+  leadField('emailStatus', 'Email status', l => l.emailStatus),
+  leadField('ceo', 'Decision maker', l => l.ceo),
+  leadField('companyDescription', 'Description', l => l.companyDescription),
+  leadField('status', 'Status', l => l.status),
+  leadField('confidence', 'Data confidence', l => l.confidence),
+  leadField('leadScore', 'Lead score', l => l.leadScore),
+  leadField('rating', 'Rating', l => l.rating),
+  leadField('reviewCount', 'Reviews', l => l.reviewCount),
+  leadField('sourceUrl', 'Source URL', l => l.sourceUrl),
+  leadField('notes', 'Notes', l => l.notes),
+  leadField('lastCallResult', 'Last call result', l => l.lastCallResult),
+  leadField('appointmentDate', 'Appointment', l => l.appointmentDate),
+  leadField('callbackAt', 'Callback', l => l.callbackAt),
+  leadField('latitude', 'Latitude', l => l.latitude),
+  leadField('longitude', 'Longitude', l => l.longitude),
+  leadField('distanceKm', 'Distance (km)', l => l.distanceKm),
+  leadField('deal.stage', 'Deal stage', l => l.deal && DEAL_STAGE_LABELS[l.deal.stage]),
+  leadField('deal.value', 'Deal value', l => l.deal?.value),
+  leadField('deal.expectedCloseDate', 'Expected close', l => l.deal?.expectedCloseDate),
+
+  registerField('registerId', 'Register number'),
+  registerField('court', 'Register court'),
+  registerField('foundingDate', 'Founded'),
+  registerField('legalForm', 'Legal form'),
+  registerField('shareCapital', 'Share capital'),
+  registerField('latestRevenue', 'Revenue'),
+  registerField('managingDirectors', 'Managing directors'),
+  registerField('lastUpdated', 'Register checked'),
+
+  { key: 'me.name', group: 'Me', label: 'Your name', value: c => c.user?.displayName },
+  { key: 'me.username', group: 'Me', label: 'Your username', value: c => c.user?.username },
+  { key: 'me.role', group: 'Me', label: 'Your role', value: c => c.user?.role },
+];
+
+const VARIABLES = new Map(TEMPLATE_VARIABLES.map(v => [v.key, v]));
+
+const isEmpty = (value: TemplateValue) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+const toText = (value: TemplateValue): string =>
+  isEmpty(value) ? '' : Array.isArray(value) ? value.join(', ') : String(value);
+
+const words = (value: TemplateValue) => Array.isArray(value) ? value : toText(value).split(/\s+/).filter(Boolean);
+
+const asDate = (value: TemplateValue) => {
+  const date = new Date(toText(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const TEMPLATE_FILTERS: Record<string, (value: TemplateValue, arg?: string) => TemplateValue> = {
+  upper: v => toText(v).toUpperCase(),
+  lower: v => toText(v).toLowerCase(),
+  capitalize: v => toText(v).charAt(0).toUpperCase() + toText(v).slice(1),
+  first: v => words(v)[0], // First item of a list, first word of a text ("Anna Schmidt" → "Anna")
+  last: v => words(v)[words(v).length - 1],
+  date: v => asDate(v)?.toLocaleDateString() ?? v,
+  number: v => isNaN(Number(v)) || isEmpty(v) ? v : new Intl.NumberFormat().format(Number(v)),
+  currency: v => isNaN(Number(v)) || isEmpty(v) ? v : formatDealValue(Number(v)),
+  truncate: (v, arg) => {
+    const length = Number(arg) || 40;
+    const text = toText(v);
+    return text.length > length ? `${text.slice(0, length).trimEnd()}…` : text;
+  },
+};
+
+type Step = { kind: 'default'; text: string } | { kind: 'filter'; name: string; arg?: string };
+
+interface Expression {
+  key: string;
+  steps: Step[];
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; tag: string; expression: Expression }
+  | { type: 'if'; tag: string; key: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface TemplateIssue {
+  tag: string; // The tag as written, e.g. "{{lead.cEO}}"
+  message: string;
+}
+
+const TAG = /{{([^{}]*)}}/g;
+
+// Tags are typed into a rich-text editor, so they may contain entities or stray formatting
+const decodeTag = (raw: string) => raw
+  .replace(/<[^>]*>/g, '')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;/g, "'")
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&amp;/g, '&')
+  .replace(/\u00A0/g, ' ')
+  .replace(/[“”]/g, '"')
+  .trim();
+
+// Splits at pipes outside of quotes
+const splitPipes = (expression: string): string[] | null => {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of expression) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === '|') {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (quote) return null;
+  parts.push(current.trim());
+  return parts;
+};
+
+const parseExpression = (expression: string): Expression | null => {
+  const parts = splitPipes(expression);
+  if (!parts || !parts[0]) return null;
+  const steps = parts.slice(1).map((part): Step => {
+    const quoted = part.match(/^(["'])(.*)\1$/);
+    if (quoted) return { kind: 'default', text: quoted[2] };
+    const [name, ...arg] = part.split(':');
+    return { kind: 'filter', name: name.trim(), arg: arg.length > 0 ? arg.join(':').trim() : undefined };
+  });
+  return { key: parts[0], steps };
+};
+
+interface Parsed {
+  nodes: TemplateNode[];
+  issues: TemplateIssue[];
+}
+
+const parse = (template: string): Parsed => {
+  const root: TemplateNode[] = [];
+  const issues: TemplateIssue[] = [];
+  // Open conditionals; `into` is the branch new nodes are added to
+  const stack: { node: Extract<TemplateNode, { type: 'if' }>; into: TemplateNode[] }[] = [];
+  const target = () => stack.length > 0 ? stack[stack.length - 1].into : root;
+  const text = (value: string) => value && target().push({ type: 'text', text: value });
+
+  let last = 0;
+  for (const match of template.matchAll(TAG)) {
+    text(template.slice(last, match.index));
+    last = match.index! + match[0].length;
+    const tag = match[0];
+    const body = decodeTag(match[1]);
+
+    const block = body.match(/^#(if|unless)\s+(.+)$/);
+    if (block) {
+      const node: Extract<TemplateNode, { type: 'if' }> = { type: 'if', tag, key: block[2].trim(), negate: block[1] === 'unless', then: [], otherwise: [] };
+      if (!VARIABLES.has(node.key)) issues.push({ tag, message: `Unknown variable "${node.key}"` });
+      target().push(node);
+      stack.push({ node, into: node.then });
+    } else if (body === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.into === open.node.otherwise) {
+        issues.push({ tag, message: '{{else}} without a matching {{#if}}' });
+        text(tag);
+      } else {
+        open.into = open.node.otherwise;
+      }
+    } else if (/^\/(if|unless)$/.test(body)) {
+      if (stack.length === 0) {
+        issues.push({ tag, message: `${tag} without a matching {{#if}}` });
+        text(tag);
+      } else {
+        stack.pop();
+      }
+    } else {
+      const expression = parseExpression(body);
+      if (!expression) {
+        issues.push({ tag, message: 'Unclosed quote or empty tag' });
+        text(tag);
+        continue;
+      }
+      if (!VARIABLES.has(expression.key)) issues.push({ tag, message: `Unknown variable "${expression.key}"` });
+      expression.steps.forEach(step => {
+        if (step.kind === 'filter' && !TEMPLATE_FILTERS[step.name]) issues.push({ tag, message: `Unknown filter "${step.name}"` });
+      });
+      target().push({ type: 'variable', tag, expression });
+    }
+  }
+  text(template.slice(last));
+  stack.forEach(({ node }) => issues.push({ tag: node.tag, message: `${node.tag} is never closed with {{/if}}` }));
+  return { nodes: root, issues };
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const evaluate = ({ key, steps }: Expression, context: TemplateContext): string | null => {
+  const variable = VARIABLES.get(key);
+  if (!variable) return null;
+  let value = variable.value(context);
+  if (isEmpty(value) && variable.fallback !== undefined && !steps.some(s => s.kind === 'default')) value = variable.fallback;
+  steps.forEach(step => {
+    if (step.kind === 'default') {
+      if (isEmpty(value)) value = step.text;
+    } else {
+      const filter = TEMPLATE_FILTERS[step.name];
+      // Unknown filters are flagged while editing and skipped on the call
+      if (filter && !isEmpty(value)) value = filter(value, step.arg);
+    }
+  });
+  return toText(value);
+};
+
+const renderNodes = (nodes: TemplateNode[], context: TemplateContext, escape: boolean): string =>
+  nodes.map(node => {
+    if (node.type === 'text') return node.text;
+    if (node.type === 'variable') {
+      const value = evaluate(node.expression, context);
+      // Unknown variables stay visible, so the caller sees the script has a typo
+      if (value === null) return node.tag;
+      return escape ? escapeHtml(value) : value;
+    }
+    const variable = VARIABLES.get(node.key);
+    const present = !!variable && !isEmpty(variable.value(context));
+    return renderNodes(present !== node.negate ? node.then : node.otherwise, context, escape);
+  }).join('');
+
+/**
+ * Fills a template for a lead. Pass `escape: false` for plain-text output, where HTML
+ * escaping would show up as entities.
+ */
+export const renderTemplate = (template: string, context: TemplateContext, { escape = true } = {}): string =>
+  renderNodes(parse(template).nodes, context, escape);
+
+/** Unknown variables and filters and unbalanced conditionals, each tag once. */
+export const checkTemplate = (template: string): TemplateIssue[] => {
+  const seen = new Set<string>();
+  return parse(template).issues.filter(issue => {
+    const id = `${issue.tag}:${issue.message}`;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+};
+
+/** Sample lead and caller for previewing scripts. */
+export const PREVIEW_CONTEXT: TemplateContext = {
+  lead: {
+    id: 'preview',
+    name: 'Nebula Innovations',
+    category: 'Software Startup',
+    address: 'Torstraße 1, 10119 Berlin',
+    website: 'https://nebula.example',
+    phone: '+49 30 1234567',
+    email: 'hello@nebula.example',
+    ceo: 'Sarah Miller',
+    companyDescription: 'Builds scheduling software for clinics.',
+    status: 'Reviewed',
+    confidence: 'High',
+    leadScore: 82,
+    sourceUrl: null,
+    notes: '',
+    rating: 4.6,
+    reviewCount: 38,
+    deal: { stage: 'Qualified', value: 12000, history: [] },
+    commercialData: {
+      registerId: 'HRB 123456',
+      court: 'Amtsgericht Berlin-Charlottenburg',
+      foundingDate: '2019-03-01',
+      legalForm: 'GmbH',
+      shareCapital: '25.000 EUR',
+      managingDirectors: ['Sarah Miller', 'Tom Becker'],
+    },
+  },
+  user: { displayName: 'Alex', username: 'alex', role: 'caller' },
+};
@@ -0,0 +1,44 @@
+import { Workspace, WorkspaceMember } from "../types";
+import { apiFetch } from "./authService";
+
+const lastWorkspaceKey = (userId: string) => `leadscout-workspace:${userId}`;
+
+export const listWorkspaces = async (): Promise<Workspace[]> =>
+  (await apiFetch<{ workspaces: Workspace[] }>("/api/workspaces")).workspaces;
+
+export const createWorkspace = async (name: string): Promise<Workspace> =>
+  (await apiFetch<{ workspace: Workspace }>("/api/workspaces", { method: "POST", body: JSON.stringify({ name }) })).workspace;
+
+export const addWorkspaceMember = async (workspaceId: string, username: string): Promise<Workspace> =>
+  (await apiFetch<{ workspace: Workspace }>(`/api/workspaces/${workspaceId}/members`, {
+    method: "POST",
+    body: JSON.stringify({ username }),
+  })).workspace;
+
+export const removeWorkspaceMember = async (workspaceId: string, userId: string): Promise<Workspace> =>
+  (await apiFetch<{ workspace: Workspace }>(`/api/workspaces/${workspaceId}/members/${userId}`, { method: "DELETE" })).workspace;
+
+/**
+ * Secret address of the user's appointment feed (absolute URL, for calendar apps).
+ * `reset` replaces it, so the old address stops working.
+ */
+export const getCalendarFeedUrl = async (workspaceId: string, reset = false): Promise<string> => {
+  const { path } = await apiFetch<{ path: string }>(
+    `/api/workspaces/${workspaceId}/calendar-feed${reset ? "/reset" : ""}`,
+    { method: reset ? "POST" : "GET" }
+  );
+  return new URL(path, window.location.origin).toString();
+};
+
+/**
+ * The workspace a user had open last time, so a reload returns to it.
+ */
+export const getLastWorkspaceId = (userId: string): string | null => localStorage.getItem(lastWorkspaceKey(userId));
+
+export const setLastWorkspaceId = (userId: string, workspaceId: string) =>
+  localStorage.setItem(lastWorkspaceKey(userId), workspaceId);
+
+export const getMemberName = (members: WorkspaceMember[], userId?: string): string | null => {
+  if (!userId) return null;
+  return members.find(m => m.userId === userId)?.displayName || 'Former member';
+};
@@ -0,0 +1,243 @@
+import { CallLog, ContactList, Lead, Project } from "../types";
+import { ApiError, apiFetch } from "./authService";
+import { PersistedKey, PersistedState } from "./storageService";
+
+const PUSH_DELAY_MS = 1000;
+const POLL_INTERVAL_MS = 15000;
+
+interface RemoteCollection<K extends PersistedKey = PersistedKey> {
+  revision: number;
+  value: PersistedState[K];
+  updatedAt: string;
+  updatedBy: string;
+}
+
+type RemoteCollections = { [K in PersistedKey]?: RemoteCollection<K> };
+// Every key is listed so that indexing with a generic key keeps its type; missing ones are undefined
+type Collections = { [K in PersistedKey]: PersistedState[K] | undefined };
+
+type Identified = { id: string };
+type ItemMerger<T> = (base: T | undefined, local: T, remote: T) => T;
+type CollectionItem<K extends PersistedKey> = PersistedState[K][number];
+
+const setField = <T, K extends keyof T>(target: T, key: K, value: T[K]) => { target[key] = value; };
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Three-way merge of two edited copies of a collection, by item id.
+ * Items only one side changed take that side's version; items both sides changed are combined
+ * with `mergeItem` when given, otherwise the local edit wins. An item deleted on one side stays
+ * deleted unless the other side edited it.
+ */
+export const mergeCollection = <T extends Identified>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  mergeItem?: ItemMerger<T>
+): T[] => {
+  const baseById = new Map(base.map(item => [item.id, item]));
+  const localById = new Map(local.map(item => [item.id, item]));
+  const remoteIds = new Set(remote.map(item => item.id));
+  const merged: T[] = [];
+
+  remote.forEach(remoteItem => {
+    const baseItem = baseById.get(remoteItem.id);
+    const localItem = localById.get(remoteItem.id);
+
+    if (!localItem) {
+      // Deleted locally: drop it, unless someone else changed it in the meantime
+      if (!baseItem || !sameJson(baseItem, remoteItem)) merged.push(remoteItem);
+      return;
+    }
+
+    const changedLocally = !baseItem || !sameJson(baseItem, localItem);
+    if (!changedLocally) merged.push(remoteItem);
+    else merged.push(mergeItem ? mergeItem(baseItem, localItem, remoteItem) : localItem);
+  });
+
+  local.forEach(localItem => {
+    if (remoteIds.has(localItem.id)) return;
+    const baseItem = baseById.get(localItem.id);
+    // New locally, or deleted remotely while edited here
+    if (!baseItem || !sameJson(baseItem, localItem)) merged.push(localItem);
+  });
+
+  return merged;
+};
+
+const mergeCallLogs = (local: CallLog[] = [], remote: CallLog[] = []): CallLog[] | undefined => {
+  const byId = new Map(remote.map(log => [log.id, log]));
+  local.forEach(log => byId.set(log.id, log));
+  if (byId.size === 0) return undefined;
+  return Array.from(byId.values()).sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+/**
+ * A lead both sides changed: every field takes the side that changed it, and a field both changed
+ * keeps the local edit. Call logs are combined, so calls a teammate logged meanwhile are kept.
+ */
+const mergeLead: ItemMerger<Lead> = (base, local, remote) => {
+  const merged: Lead = { ...remote };
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)] as (keyof Lead)[]);
+  keys.forEach(key => {
+    if (!base || !sameJson(base[key], local[key])) setField(merged, key, local[key]);
+  });
+  merged.callLogs = mergeCallLogs(local.callLogs, remote.callLogs);
+  merged.lastCallResult = merged.callLogs?.[0]?.outcome ?? merged.lastCallResult;
+  return merged;
+};
+
+// Projects and lists are merged lead by lead, so two callers working the same list do not clobber each other
+const mergeLeadContainer = <T extends Project | ContactList>(base: T | undefined, local: T, remote: T): T => ({
+  ...local,
+  leads: mergeCollection(base?.leads || [], local.leads, remote.leads, mergeLead),
+});
+
+const ITEM_MERGERS: { [K in PersistedKey]?: ItemMerger<CollectionItem<K>> } = {
+  projects: mergeLeadContainer,
+  contactLists: mergeLeadContainer,
+};
+
+const mergeRemote = <K extends PersistedKey>(key: K, base: PersistedState[K], local: PersistedState[K], remote: PersistedState[K]): PersistedState[K] =>
+  mergeCollection<CollectionItem<K>>(base, local, remote, ITEM_MERGERS[key]) as PersistedState[K];
+
+export interface WorkspaceSync {
+  /** Fetches the workspace's shared data. Returns null when nothing has been saved to it yet. */
+  load: () => Promise<Partial<PersistedState> | null>;
+  /** Schedules an upload of a collection after a local change. */
+  push: <K extends PersistedKey>(key: K, value: PersistedState[K]) => void;
+  /** Uploads pending changes immediately. */
+  flush: () => Promise<void>;
+  stop: () => void;
+}
+
+/**
+ * Keeps the collections of one workspace in sync with the local API.
+ * Uploads use optimistic concurrency (revision numbers); on a conflict the local and remote
+ * versions are merged and `onRemoteChange` receives the result. Changes made by teammates are
+ * picked up by polling and reported through `onRemoteChange` as well.
+ */
+export const createWorkspaceSync = (
+  workspaceId: string,
+  onRemoteChange: <K extends PersistedKey>(key: K, value: PersistedState[K]) => void
+): WorkspaceSync => {
+  const revisions = new Map<PersistedKey, number>();
+  const synced = {} as Collections; // Last version known to be on the server
+  const pending = {} as Collections; // Local changes waiting for upload
+  const timers = new Map<PersistedKey, ReturnType<typeof setTimeout>>();
+  const inFlight = new Map<PersistedKey, Promise<void>>();
+  let stopped = false;
+
+  const baseUrl = `/api/workspaces/${workspaceId}/data`;
+
+  const applyRemote = <K extends PersistedKey>(key: K, remote: RemoteCollection<K>) => {
+    revisions.set(key, remote.revision);
+    synced[key] = remote.value;
+  };
+
+  const upload = async <K extends PersistedKey>(key: K, value: PersistedState[K]) => {
+    try {
+      const { revision } = await apiFetch<{ revision: number }>(`${baseUrl}/${key}`, {
+        method: "PUT",
+        body: JSON.stringify({ baseRevision: revisions.get(key), value }),
+      });
+      revisions.set(key, revision);
+      synced[key] = value;
+    } catch (error) {
+      if (stopped) return;
+      if (error instanceof ApiError && error.status === 409) {
+        const remote: RemoteCollection<K> = error.body.collection;
+        const base = synced[key] || ([] as PersistedState[K]);
+        // Merge into the newest local state, which may have moved on while this upload was running
+        const latestLocal = pending[key] || value;
+        applyRemote(key, remote);
+        // The app stores the merge result, which pushes it again on top of the new revision
+        onRemoteChange(key, mergeRemote(key, base, latestLocal, remote.value));
+      } else {
+        console.warn(`Could not sync ${key}, will retry`, error);
+        if (!pending[key]) schedule(key, value, POLL_INTERVAL_MS);
+      }
+    }
+  };
+
+  const send = (key: PersistedKey) => {
+    if (!pending[key]) return;
+    clearTimeout(timers.get(key));
+
+    // One upload per collection at a time; later changes wait for the revision of the earlier one
+    const previous = inFlight.get(key) || Promise.resolve();
+    const next = previous.then(() => {
+      const latest = pending[key];
+      if (!latest || stopped) return;
+      delete pending[key];
+      timers.delete(key);
+      return upload(key, latest);
+    });
+    inFlight.set(key, next);
+    next.finally(() => {
+      if (inFlight.get(key) === next) inFlight.delete(key);
+    });
+  };
+
+  const schedule = <K extends PersistedKey>(key: K, value: PersistedState[K], delay: number) => {
+    clearTimeout(timers.get(key));
+    pending[key] = value;
+    timers.set(key, setTimeout(() => send(key), delay));
+  };
+
+  const receive = <K extends PersistedKey>(key: K, remote: RemoteCollection<K>) => {
+    if (remote.revision <= (revisions.get(key) || 0)) return;
+    // Local edits in progress will hit a conflict and be merged on upload
+    if (pending[key] || inFlight.has(key)) return;
+    applyRemote(key, remote);
+    onRemoteChange(key, remote.value);
+  };
+
+  const collectionKeys = (collections: RemoteCollections) => Object.keys(collections) as PersistedKey[];
+
+  const poll = async () => {
+    try {
+      const { collections } = await apiFetch<{ collections: RemoteCollections }>(baseUrl);
+      if (stopped) return;
+      collectionKeys(collections).forEach(key => receive(key, collections[key]!));
+    } catch (error) {
+      console.warn("Workspace poll failed", error);
+    }
+  };
+
+  const pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+
+  return {
+    load: async () => {
+      const { collections } = await apiFetch<{ collections: RemoteCollections }>(baseUrl);
+      const keys = collectionKeys(collections);
+      if (keys.length === 0) return null;
+
+      const state: Partial<PersistedState> = {};
+      const take = <K extends PersistedKey>(key: K, remote: RemoteCollection<K>) => {
+        applyRemote(key, remote);
+        state[key] = remote.value;
+      };
+      keys.forEach(key => take(key, collections[key]!));
+      return state;
+    },
+
+    push: (key, value) => {
+      if (stopped) return;
+      if (!pending[key] && sameJson(value, synced[key])) return;
+      schedule(key, value, PUSH_DELAY_MS);
+    },
+
+    flush: async () => {
+      (Object.keys(pending) as PersistedKey[]).forEach(send);
+      await Promise.all(Array.from(inFlight.values()));
+    },
+
+    stop: () => {
+      stopped = true;
+      clearInterval(pollTimer);
+      timers.forEach(timer => clearTimeout(timer));
+    },
+  };
+};
@@ -0,0 +1,124 @@
+/**
+ * Reads the first worksheet of an .xlsx file into rows of strings.
+ * An .xlsx file is a zip archive of XML parts; entries are inflated with the browser's
+ * DecompressionStream, so no spreadsheet library is needed for plain tabular data.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const readZipEntries = (view: DataView): Map<string, ZipEntry> => {
+  // The end-of-central-directory record sits at the end, followed by an optional comment (max 64 KB)
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid .xlsx file');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_ENTRY_SIGNATURE) throw new Error('Corrupt .xlsx file');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+    entries.set(name, {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readZipText = async (view: DataView, entry: ZipEntry): Promise<string> => {
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_HEADER_SIGNATURE) throw new Error('Corrupt .xlsx file');
+  const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + dataStart, entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error(`Unsupported compression in ${entry.name}`);
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+// Elements are matched by local name because the spreadsheet namespaces vary between producers
+const byTag = (parent: Document | Element, tag: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', tag));
+
+const textOf = (element: Element) => byTag(element, 't').map(t => t.textContent || '').join('');
+
+/** "B12" -> 1 */
+const columnIndex = (cellRef: string): number => {
+  const letters = cellRef.replace(/\d+$/, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+/** Path of the first worksheet, following the workbook's relationships. */
+const firstSheetPath = async (view: DataView, entries: Map<string, ZipEntry>): Promise<string> => {
+  const workbook = entries.get('xl/workbook.xml');
+  const rels = entries.get('xl/_rels/workbook.xml.rels');
+  if (workbook && rels) {
+    const sheet = byTag(parseXml(await readZipText(view, workbook)), 'sheet')[0];
+    const relId = sheet && Array.from(sheet.attributes).find(a => a.localName === 'id')?.value;
+    const rel = byTag(parseXml(await readZipText(view, rels)), 'Relationship').find(r => r.getAttribute('Id') === relId);
+    const target = rel?.getAttribute('Target');
+    if (target) return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+  return 'xl/worksheets/sheet1.xml';
+};
+
+export const readXlsxRows = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const view = new DataView(buffer);
+  const entries = readZipEntries(view);
+
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? byTag(parseXml(await readZipText(view, sharedStringsEntry)), 'si').map(textOf)
+    : [];
+
+  const sheetEntry = entries.get(await firstSheetPath(view, entries));
+  if (!sheetEntry) throw new Error('The workbook has no worksheet');
+  const sheet = parseXml(await readZipText(view, sheetEntry));
+
+  return byTag(sheet, 'row').map(row => {
+    const values: string[] = [];
+    byTag(row, 'c').forEach((cell, position) => {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : position;
+      const type = cell.getAttribute('t');
+      const raw = byTag(cell, 'v')[0]?.textContent || '';
+
+      let value = raw;
+      if (type === 's') value = sharedStrings[parseInt(raw, 10)] || '';
+      else if (type === 'inlineStr') value = textOf(cell);
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+
+      values[index] = value;
+    });
+    return Array.from(values, v => v ?? '');
+  });
+};
@@ -3,6 +3,11 @@ export type LeadStatus = 'New' | 'Reviewed' | 'Contacted' | 'Invalid';
 export type DataConfidence = 'High' | 'Medium' | 'Low';
 export type EmailStatus = 'Validated' | 'Guessed' | 'Tested';
 
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
 export interface CommercialRegisterData {
   registerId?: string; // e.g. HRB 12345
   court?: string; // e.g. Amtsgericht Berlin-Charlottenburg
@@ -12,6 +17,25 @@ export interface CommercialRegisterData {
   latestRevenue?: string; // Annual income/Revenue/Balance sheet total
   managingDirectors?: string[]; // Actual owners/founders found in register
   lastUpdated?: string;
+  fetchError?: DataFetchError; // Set when the last register lookup returned unusable data
+}
+
+export type DataFetchIssueKind = 'parse_error' | 'missing_field' | 'wrong_type' | 'request_failed';
+
+export interface DataFetchIssue {
+  kind: DataFetchIssueKind;
+  field?: string; // Offending field, if the issue is field-specific
+  message: string;
+}
+
+/**
+ * Why an LLM-backed lookup (search, enrichment, register data, call analysis) produced no or partial data.
+ */
+export interface DataFetchError {
+  source: 'search' | 'enrichment' | 'commercial_register' | 'call_analysis';
+  issues: DataFetchIssue[];
+  at: string; // ISO timestamp
+  status?: number; // HTTP status when the request itself failed
 }
 
 export interface CallAnalysis {
@@ -21,17 +45,120 @@ export interface CallAnalysis {
   sentiment: 'Positive' | 'Neutral' | 'Negative';
   keyTakeaways?: string[];
   userNotes?: string; // Raw user notes from the call
+  transcript?: string; // Speaker-labelled transcript of the recording
+  basedOn?: 'recording' | 'outcome'; // 'outcome' = no recording, scores estimated from the logged outcome
+}
+
+export type OutcomeCategory = 'no_contact' | 'gatekeeper' | 'rejection' | 'interest' | 'appointment';
+
+/**
+ * One entry of the workspace's call outcome catalog.
+ * Analytics and the call wizard only look at these flags, never at the label.
+ */
+export interface CallOutcome {
+  id: string;
+  label: string;
+  description?: string;
+  category: OutcomeCategory; // Decides where the call wizard offers it
+  isConnect: boolean; // Someone picked up
+  isConversion: boolean; // Counts towards the success rate
+  leadStatus?: LeadStatus; // Status the lead moves to; unset keeps it (New still becomes Contacted)
+  color: string; // Hex color for badges and charts
+}
+
+export type CadenceStepType = 'call' | 'email';
+
+export interface CadenceStep {
+  id: string;
+  type: CadenceStepType;
+  delayDays: number; // Days after the previous step (the first step: after enrollment)
+  note?: string; // Shown on the task, e.g. "Send the brochure"
+}
+
+/**
+ * A follow-up sequence, e.g. "retry in 2 days, then email, then call again in a week".
+ */
+export interface Cadence {
+  id: string;
+  name: string;
+  steps: CadenceStep[];
+  exitCategories: OutcomeCategory[]; // Call outcomes that end the sequence; all others advance it
+}
+
+export interface CadenceEnrollment {
+  cadenceId: string;
+  stepIndex: number; // Index of the next step to do
+  dueAt: string; // When that step is due
+  startedAt: string;
+  status: 'active' | 'completed' | 'stopped';
+  endedAt?: string;
+  endReason?: string; // e.g. the outcome label that ended it
 }
 
 export interface CallLog {
   id: string;
   timestamp: string;
-  outcome: string; // e.g. "No Answer", "Appointment Set", etc.
+  outcomeId: string; // CallOutcome.id
+  outcome: string; // Outcome label at the time of the call
   notes?: string;
   recordingUrl?: string; // Blob URL for the audio recording
   recordingStatus?: 'Uploaded' | 'Pending' | 'Local';
   appointmentDate?: string; // ISO string if appointment was set
   analysis?: CallAnalysis;
+  scriptId?: string; // Script the caller had selected
+  scriptVersion?: number; // Version of that script at the time of the call
+  experimentId?: string; // A/B test the call counted for, if the caller used the assigned variant
+  variantId?: string; // ScriptVariant.id within that test
+  callerId?: string; // User id of the workspace member who made the call
+  callerName?: string; // Display name at the time of the call
+  callbackAt?: string; // Callback the caller scheduled at the end of the call
+  scriptPath?: ScriptPathStep[]; // Nodes of a branching script the caller went through, in order
+  objections?: RaisedObjection[]; // Objections the caller looked up in the library during the call
+}
+
+export type ScoringOperator = 'isSet' | 'isNotSet' | 'equals' | 'contains' | 'atLeast' | 'atMost' | 'olderThanYears' | 'youngerThanYears';
+
+/**
+ * One rule of the workspace's lead scoring model. Leads matching it get `points` (negative points subtract);
+ * the score is the sum over all enabled rules, kept within 0-100.
+ */
+export interface ScoringRule {
+  id: string;
+  field: string; // Id of a scoring field (services/leadScoring.ts)
+  operator: ScoringOperator;
+  value?: string; // Compared value, comma-separated alternatives for equals / contains
+  points: number;
+  enabled: boolean;
+}
+
+export type CrmProvider = 'hubspot' | 'pipedrive' | 'salesforce';
+
+/** Where a lead lives in the connected CRM once it has been pushed. */
+export interface CrmLink {
+  provider: CrmProvider;
+  companyId: string; // Company / organization / account record
+  contactId?: string; // Person record for the lead's decision maker
+  url?: string; // Record page in the CRM, when the provider has one
+  pushedAt: string;
+  pushedCallIds: string[]; // Call logs already sent as call activities
+}
+
+export type PipelineStage = 'Cold' | 'Qualified' | 'Proposal' | 'Closing' | 'Closed';
+export type DealStage = PipelineStage | 'Lost'; // 'Closed' is a won deal
+
+export interface StageChange {
+  stage: DealStage;
+  from?: DealStage; // Unset when the lead entered the pipeline
+  at: string;
+  userId?: string;
+}
+
+/** A lead's position in the sales pipeline. */
+export interface Deal {
+  stage: DealStage;
+  value?: number; // Expected deal value in EUR
+  expectedCloseDate?: string; // YYYY-MM-DD
+  history: StageChange[]; // Oldest first
 }
 
 export interface Lead {
@@ -49,18 +176,74 @@ export interface Lead {
   confidence: DataConfidence;
   leadScore?: number; // 0-100 quality score
   sourceUrl: string | null;
+  source?: string; // Id of the lead source provider that found this lead
   notes: string;
   rating?: number;
   reviewCount?: number;
   isEnriching?: boolean;
+  enrichmentError?: DataFetchError; // Problems from the last enrichment run
+  enrichmentAttempts?: number; // Requests made during the last enrichment run, including retries
   callLogs?: CallLog[];
   lastCallResult?: string;
   appointmentDate?: string; // The date of the upcoming appointment
-  
+  latitude?: number;
+  longitude?: number;
+  distanceKm?: number; // Distance from the project's search center
+  assignedTo?: string; // User id of the workspace member who owns this lead
+  cadence?: CadenceEnrollment; // Follow-up sequence the lead is in
+  callbackAt?: string; // Agreed callback, takes precedence over the cadence
+  crm?: CrmLink;
+  notDuplicateOf?: string[]; // Lead ids a user marked as a different business despite matching
+  deal?: Deal; // Set once the lead is in the pipeline
+
   // Handelsregister Data
   commercialData?: CommercialRegisterData;
 }
 
+export type CrmObject = 'company' | 'contact';
+
+export interface CrmFieldMapping {
+  source: string; // Id of a lead export field (services/leadExport.ts)
+  object: CrmObject;
+  target: string; // Property / field API name in the CRM
+}
+
+/** Workspace CRM settings as the browser sees them; the API token never leaves the server. */
+export interface CrmConnection {
+  provider: CrmProvider;
+  baseUrl: string;
+  hasToken: boolean;
+  mappings: CrmFieldMapping[];
+  pushCalls: boolean; // Send call logs as call activities
+  updatedAt?: string;
+}
+
+export interface CrmPushResult {
+  leadId: string;
+  link?: CrmLink;
+  error?: string;
+}
+
+/** What "similar" means for a lookalike search: a snapshot of the seed lead's traits. */
+export interface LookalikeProfile {
+  category: string;
+  keywords: string[]; // Distinctive words from the seed's category and description
+  location: string;
+  center?: GeoPoint;
+  legalForm?: string;
+  reviewCount?: number;
+  rating?: number;
+  revenue?: number; // Parsed from the register's revenue text
+  shareCapital?: number;
+}
+
+export interface LookalikeSearch {
+  seedLeadId: string;
+  seedName: string;
+  profile: LookalikeProfile;
+  queries: string[]; // Industry searches run for the seed, reused by "Find More"
+}
+
 export interface Project {
   id: string;
   name: string;
@@ -76,16 +259,37 @@ export interface Project {
   status: 'Draft' | 'Fetching' | 'Enriching' | 'Completed';
   createdAt: string;
   limit?: number;
+  sources?: string[]; // Lead source provider ids used for this project
+  center?: GeoPoint; // Geocoded search location
+  cadenceId?: string; // Cadence unreached leads are enrolled in automatically
+  lookalike?: LookalikeSearch; // Set when the project holds businesses similar to a seed lead
+  searchErrors?: LeadSourceFailure[]; // Lead sources that failed on the last search
 }
 
-export type PipelineStage = 'Cold' | 'Qualified' | 'Proposal' | 'Closing' | 'Closed';
+/** A lead source that delivered nothing for a search because it failed. */
+export interface LeadSourceFailure {
+  sourceId: string;
+  label: string;
+  error: DataFetchError;
+}
 
 export interface ContactList {
   id: string;
   name: string;
   createdAt: string;
   leads: Lead[];
-  stage?: PipelineStage;
+  stage?: PipelineStage; // Stage new deals from this list start in
+  assignedTo?: string; // User id of the workspace member working this list
+  cadenceId?: string; // Cadence unreached leads are enrolled in automatically
+}
+
+/** A named lead search (services/leadQuery.ts syntax), shared with the workspace and usable as a dialer queue. */
+export interface SavedFilter {
+  id: string;
+  name: string;
+  query: string;
+  createdAt: string;
+  createdBy?: string; // User id
 }
 
 export interface SearchParams {
@@ -96,15 +300,105 @@ export interface SearchParams {
   minReviews: number;
   mustHaveWebsite: boolean;
   limit: number;
+  sources: string[];
+}
+
+/**
+ * A recurring objection ("Send me an email") with the responses the team recommends for it.
+ */
+export interface Objection {
+  id: string;
+  title: string; // What the prospect says
+  category: string; // e.g. "Brush-off", "Budget", "Competition"
+  responses: string[]; // Recommended responses, best first
+  keywords?: string[]; // Other ways prospects put it, for the lookup
+}
+
+/** An objection as it came up on a call. */
+export interface RaisedObjection {
+  objectionId: string;
+  title: string; // Objection title at the time of the call
+  overcome: boolean; // Whether the caller got past it
+}
+
+/** Step of the CallWizard flow a script node is said at. */
+export type CallFlowStage = 'opening' | 'gatekeeper' | 'decisionMaker' | 'interest' | 'appointment';
+
+export type ScriptBranchKind = 'gatekeeper' | 'objection' | 'interest' | 'other';
+
+/** What the prospect can answer to a node, and where the script goes from there. */
+export interface ScriptBranch {
+  id: string;
+  label: string; // e.g. "Send me an email"
+  kind: ScriptBranchKind;
+  targetNodeId?: string;
+  outcomeId?: string; // Ends the call with this outcome instead of going to a node
+}
+
+export interface ScriptNode {
+  id: string;
+  title: string;
+  content: string; // HTML talk track
+  stage?: CallFlowStage;
+  branches: ScriptBranch[];
+}
+
+export interface ScriptGraph {
+  startNodeId: string;
+  nodes: ScriptNode[];
+}
+
+/** One node of a branching script as it was visited during a call. */
+export interface ScriptPathStep {
+  nodeId: string;
+  title: string; // Node title at the time of the call
+  branchLabel?: string; // Answer that led away from this node
+}
+
+/** A saved state of a script's text, kept when the script is changed. */
+export interface ScriptVersion {
+  version: number;
+  name: string;
+  content: string;
+  graph?: ScriptGraph;
+  savedAt?: string;
+  savedBy?: string; // User id
 }
 
 export interface Script {
   id: string;
   name: string;
-  content: string; // HTML content
+  content: string; // HTML content; the start node's talk track for branching scripts
   category?: string; // e.g. "Gatekeeper", "Pitch", "Follow-up"
   isDefault?: boolean;
   themeColor?: 'blue' | 'green' | 'purple' | 'amber' | 'slate';
+  graph?: ScriptGraph; // Set for branching scripts
+  version?: number; // Current version, 1 when never changed
+  updatedAt?: string; // When the current version was saved
+  updatedBy?: string; // User id
+  history?: ScriptVersion[]; // Earlier versions, oldest first
+}
+
+export interface ScriptVariant {
+  id: string;
+  label: string; // "A", "B", ...
+  scriptId: string;
+}
+
+/**
+ * A/B test of scripts. Every lead (or caller) is assigned one variant for the whole test, so results
+ * are not skewed by callers picking the script they like.
+ */
+export interface ScriptExperiment {
+  id: string;
+  name: string;
+  variants: ScriptVariant[]; // The first one is the control
+  assignBy: 'lead' | 'caller';
+  status: 'draft' | 'running' | 'stopped';
+  createdAt: string;
+  createdBy?: string;
+  startedAt?: string;
+  stoppedAt?: string;
 }
 
 export interface PhoneNumber {
@@ -114,4 +408,28 @@ export interface PhoneNumber {
   countryCode: string;
   label?: string;
   status: 'Verified' | 'Pending' | 'Active';
-}
\ No newline at end of file
+}
+
+export type UserRole = 'admin' | 'caller';
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  displayName: string;
+  role: UserRole;
+  createdAt: string;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  username: string;
+  displayName: string;
+  role: 'owner' | 'member';
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  members: WorkspaceMember[];
+}
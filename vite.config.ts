@@ -1,6 +1,11 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { authApiPlugin } from './server/authApi';
+import { workspaceApiPlugin } from './server/workspaceApi';
+import { calendarApiPlugin } from './server/calendarApi';
+import { crmApiPlugin } from './server/crmApi';
+import { mockCrmApiPlugin } from './server/mockCrmApi';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +14,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), authApiPlugin(), workspaceApiPlugin(), calendarApiPlugin(), crmApiPlugin(), mockCrmApiPlugin()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)